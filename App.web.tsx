@@ -5,15 +5,27 @@ import 'react-native-gesture-handler';
 import { AppNavigator } from './src/navigation';
 import { ThemeProvider } from './src/designSystem/ThemeProvider';
 import { useUserStore } from './src/stores/userStore';
-import { sampleUser } from './src/utils/mockData';
+import { useCartStore } from './src/stores/cartStore';
+import { useAuthStore } from './src/stores/authStore';
+import { useStoreHydration } from './src/hooks/useStoreHydration';
 
 export default function App() {
-  const setUser = useUserStore(state => state.setUser);
+  const restoreSession = useAuthStore(state => state.restoreSession);
+  const isCartHydrated = useStoreHydration(useCartStore);
+  const isUserHydrated = useStoreHydration(useUserStore);
+  const isAuthHydrated = useStoreHydration(useAuthStore);
 
   useEffect(() => {
-    // Initialize with sample user data for development
-    setUser(sampleUser);
-  }, [setUser]);
+    // Match the restored user with the restored tokens, refreshing if needed
+    if (isUserHydrated && isAuthHydrated) {
+      restoreSession();
+    }
+  }, [isUserHydrated, isAuthHydrated, restoreSession]);
+
+  // Hold back rendering until the persisted cart is restored
+  if (!isCartHydrated) {
+    return null;
+  }
 
   return (
     <SafeAreaProvider>
@@ -10,3 +10,8 @@ jest.mock('react-native-reanimated', () => {
   
   return Reanimated;
 });
+
+// Mock AsyncStorage with its in-memory implementation
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
@@ -4,28 +4,20 @@
  * Provides address search and autocomplete functionality with delivery zone validation
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState } from 'react';
 import { 
-  View, 
   TouchableOpacity, 
   FlatList, 
   Keyboard,
   Alert 
 } from 'react-native';
 import { Box, Text, Input, Icon } from './';
-import { colors, spacing, borderRadius } from '../designSystem/tokens';
-import { Address } from '../types';
-
-export interface AddressSuggestion {
-  id: string;
-  description: string;
-  mainText: string;
-  secondaryText: string;
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-  };
-}
+import { colors, spacing } from '../designSystem/tokens';
+import { Address, DeliveryZone } from '../types';
+import { deliveryZoneService } from '../services/deliveryZoneService';
+import { getGeocodingProvider } from '../services/geocodingConfig';
+import { PlaceDetails, PlaceSuggestion } from '../services/geocodingProvider';
+import { ADDRESS_QUERY_MIN_LENGTH, useAddressAutocomplete } from '../hooks/useAddressAutocomplete';
 
 interface AddressAutocompleteProps {
   value: string;
@@ -37,152 +29,14 @@ interface AddressAutocompleteProps {
   testID?: string;
 }
 
-// Mock delivery zones - in a real app, this would come from an API
-const DELIVERY_ZONES = [
-  { 
-    name: 'Downtown', 
-    bounds: { 
-      north: 37.7849, 
-      south: 37.7749, 
-      east: -122.4094, 
-      west: -122.4194 
-    } 
-  },
-  { 
-    name: 'Mission District', 
-    bounds: { 
-      north: 37.7699, 
-      south: 37.7499, 
-      east: -122.4094, 
-      west: -122.4294 
-    } 
-  },
-  { 
-    name: 'SOMA', 
-    bounds: { 
-      north: 37.7849, 
-      south: 37.7649, 
-      east: -122.3994, 
-      west: -122.4194 
-    } 
-  },
-];
-
-// Mock geocoding service - in a real app, this would use Google Places API or similar
-const mockGeocode = async (address: string): Promise<{ latitude: number; longitude: number } | undefined> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Mock coordinates for common addresses
-  const mockCoordinates: { [key: string]: { latitude: number; longitude: number } } = {
-    'san francisco': { latitude: 37.7749, longitude: -122.4194 },
-    'mission': { latitude: 37.7599, longitude: -122.4148 },
-    'soma': { latitude: 37.7749, longitude: -122.4094 },
-    'downtown': { latitude: 37.7899, longitude: -122.4094 },
-  };
-  
-  const normalizedAddress = address.toLowerCase();
-  for (const [key, coords] of Object.entries(mockCoordinates)) {
-    if (normalizedAddress.includes(key)) {
-      return coords;
-    }
-  }
-  
-  // Default to SF coordinates if no match
-  return { latitude: 37.7749, longitude: -122.4194 };
-};
-
-// Mock address search service - in a real app, this would use Google Places API
-const searchAddresses = async (query: string): Promise<AddressSuggestion[]> => {
-  if (query.length < 3) return [];
-  
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  // Mock suggestions based on query
-  const mockSuggestions: AddressSuggestion[] = [
-    {
-      id: '1',
-      description: '123 Main Street, San Francisco, CA 94102',
-      mainText: '123 Main Street',
-      secondaryText: 'San Francisco, CA 94102',
-      coordinates: { latitude: 37.7749, longitude: -122.4194 },
-    },
-    {
-      id: '2',
-      description: '456 Mission Street, San Francisco, CA 94105',
-      mainText: '456 Mission Street',
-      secondaryText: 'San Francisco, CA 94105',
-      coordinates: { latitude: 37.7599, longitude: -122.4148 },
-    },
-    {
-      id: '3',
-      description: '789 Market Street, San Francisco, CA 94103',
-      mainText: '789 Market Street',
-      secondaryText: 'San Francisco, CA 94103',
-      coordinates: { latitude: 37.7849, longitude: -122.4094 },
-    },
-    {
-      id: '4',
-      description: '321 Valencia Street, San Francisco, CA 94110',
-      mainText: '321 Valencia Street',
-      secondaryText: 'San Francisco, CA 94110',
-      coordinates: { latitude: 37.7599, longitude: -122.4194 },
-    },
-    {
-      id: '5',
-      description: '654 Folsom Street, San Francisco, CA 94107',
-      mainText: '654 Folsom Street',
-      secondaryText: 'San Francisco, CA 94107',
-      coordinates: { latitude: 37.7749, longitude: -122.4094 },
-    },
-  ];
-  
-  // Filter suggestions based on query
-  return mockSuggestions.filter(suggestion =>
-    suggestion.description.toLowerCase().includes(query.toLowerCase())
-  );
-};
-
-const parseAddress = (addressString: string): Partial<Address> => {
-  // Simple address parsing - in a real app, this would be more sophisticated
-  const parts = addressString.split(', ');
-  
-  if (parts.length >= 3) {
-    const street = parts[0];
-    const city = parts[1];
-    const stateZip = parts[2].split(' ');
-    const state = stateZip[0];
-    const zipCode = stateZip[1];
-    
-    return {
-      street,
-      city,
-      state,
-      zipCode,
-      country: 'US',
-    };
-  }
-  
-  return {
-    street: addressString,
-    city: '',
-    state: '',
-    zipCode: '',
-    country: 'US',
-  };
-};
-
-const isInDeliveryZone = (coordinates: { latitude: number; longitude: number }): boolean => {
-  return DELIVERY_ZONES.some(zone => {
-    return (
-      coordinates.latitude >= zone.bounds.south &&
-      coordinates.latitude <= zone.bounds.north &&
-      coordinates.longitude >= zone.bounds.west &&
-      coordinates.longitude <= zone.bounds.east
-    );
-  });
-};
+const toAddress = (place: PlaceDetails): Partial<Address> => ({
+  street: place.street,
+  city: place.city,
+  state: place.state,
+  zipCode: place.zipCode,
+  country: place.country,
+  coordinates: place.coordinates,
+});
 
 export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
   value,
@@ -193,104 +47,65 @@ export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
   label,
   testID,
 }) => {
-  const [suggestions, setSuggestions] = useState<AddressSuggestion[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { suggestions, isLoading } = useAddressAutocomplete(value);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isValidatingDelivery, setIsValidatingDelivery] = useState(false);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-  useEffect(() => {
-    if (value.length >= 3) {
-      // Debounce search requests
-      if (searchTimeoutRef.current) {
-        clearTimeout(searchTimeoutRef.current);
-      }
-      
-      searchTimeoutRef.current = setTimeout(async () => {
-        setIsLoading(true);
-        try {
-          const results = await searchAddresses(value);
-          setSuggestions(results);
-          setShowSuggestions(true);
-        } catch (error) {
-          console.error('Address search failed:', error);
-          setSuggestions([]);
-        } finally {
-          setIsLoading(false);
-        }
-      }, 300);
-    } else {
-      setSuggestions([]);
-      setShowSuggestions(false);
-    }
+  const [deliveryZone, setDeliveryZone] = useState<DeliveryZone | null>(null);
 
-    return () => {
-      if (searchTimeoutRef.current) {
-        clearTimeout(searchTimeoutRef.current);
-      }
-    };
-  }, [value]);
-
-  const handleSuggestionSelect = async (suggestion: AddressSuggestion) => {
+  const handleSuggestionSelect = async (suggestion: PlaceSuggestion) => {
     setShowSuggestions(false);
     Keyboard.dismiss();
     
-    // Parse the address
-    const parsedAddress = parseAddress(suggestion.description);
-    
-    // Get coordinates if not provided
-    let coordinates = suggestion.coordinates;
-    if (!coordinates) {
-      setIsValidatingDelivery(true);
-      coordinates = await mockGeocode(suggestion.description);
+    let place: PlaceDetails;
+    setIsValidatingDelivery(true);
+    try {
+      place = await getGeocodingProvider().getPlaceDetails(suggestion.placeId);
+    } catch {
+      // Geocoding failed
+      Alert.alert(
+        'Address Not Found',
+        'We couldn\'t locate this address. Please check the address and try again.',
+        [{ text: 'OK' }]
+      );
+      return;
+    } finally {
       setIsValidatingDelivery(false);
     }
+
+    const address = toAddress(place);
     
-    if (coordinates) {
-      // Check if address is in delivery zone
-      if (isInDeliveryZone(coordinates)) {
-        // Address is valid for delivery
-        onAddressSelect({
-          ...parsedAddress,
-          coordinates,
-        });
-        
-        if (onTextChange) {
-          onTextChange(suggestion.description);
-        }
-      } else {
-        // Address is outside delivery zone
-        Alert.alert(
-          'Delivery Unavailable',
-          'Sorry, we don\'t deliver to this address yet. Please try a different location or consider pickup.',
-          [
-            {
-              text: 'Try Another Address',
-              style: 'default',
-            },
-            {
-              text: 'Use Anyway',
-              style: 'destructive',
-              onPress: () => {
-                onAddressSelect({
-                  ...parsedAddress,
-                  coordinates,
-                });
-                
-                if (onTextChange) {
-                  onTextChange(suggestion.description);
-                }
-              },
-            },
-          ]
-        );
+    // Check if address is in delivery zone
+    const zone = deliveryZoneService.findZone(place.coordinates);
+    setDeliveryZone(zone);
+    if (zone) {
+      // Address is valid for delivery
+      onAddressSelect(address);
+      
+      if (onTextChange) {
+        onTextChange(place.description);
       }
     } else {
-      // Geocoding failed
+      // Address is outside delivery zone
       Alert.alert(
-        'Address Not Found',
-        'We couldn\'t locate this address. Please check the address and try again.',
-        [{ text: 'OK' }]
+        'Delivery Unavailable',
+        'Sorry, we don\'t deliver to this address yet. Please try a different location or consider pickup.',
+        [
+          {
+            text: 'Try Another Address',
+            style: 'default',
+          },
+          {
+            text: 'Use Anyway',
+            style: 'destructive',
+            onPress: () => {
+              onAddressSelect(address);
+              
+              if (onTextChange) {
+                onTextChange(place.description);
+              }
+            },
+          },
+        ]
       );
     }
   };
@@ -299,13 +114,13 @@ export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
     if (onTextChange) {
       onTextChange(text);
     }
-    
-    if (text.length < 3) {
-      setShowSuggestions(false);
-    }
+
+    // A new address hasn't been checked against the zones yet
+    setDeliveryZone(null);
+    setShowSuggestions(text.length >= ADDRESS_QUERY_MIN_LENGTH);
   };
 
-  const renderSuggestion = ({ item }: { item: AddressSuggestion }) => (
+  const renderSuggestion = ({ item }: { item: PlaceSuggestion }) => (
     <TouchableOpacity
       onPress={() => handleSuggestionSelect(item)}
       style={{
@@ -364,7 +179,7 @@ export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
           <FlatList
             data={suggestions}
             renderItem={renderSuggestion}
-            keyExtractor={(item) => item.id}
+            keyExtractor={(item) => item.placeId}
             showsVerticalScrollIndicator={false}
             keyboardShouldPersistTaps="handled"
           />
@@ -387,6 +202,24 @@ export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
           </Text>
         </Box>
       )}
+
+      {deliveryZone && !isValidatingDelivery && (
+        <Box
+          flexDirection="row"
+          alignItems="center"
+          marginTop="sm"
+          testID={testID ? `${testID}-zone` : undefined}
+        >
+          <Icon name="truck" size={16} color={colors.accent.primary} />
+          <Text 
+            variant="caption" 
+            color={colors.text.secondary}
+            style={{ marginLeft: spacing.sm }}
+          >
+            {deliveryZone.name} · ${deliveryZone.deliveryFee.toFixed(2)} delivery · ${deliveryZone.minimumOrder.toFixed(2)} minimum
+          </Text>
+        </Box>
+      )}
     </Box>
   );
 };
\ No newline at end of file
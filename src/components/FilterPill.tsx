@@ -21,6 +21,7 @@ export interface FilterPillProps {
   disabled?: boolean;
   style?: ViewStyle;
   testID?: string;
+  accessibilityLabel?: string; // defaults to "<label> filter"
 }
 
 export const FilterPill: React.FC<FilterPillProps> = ({
@@ -30,6 +31,7 @@ export const FilterPill: React.FC<FilterPillProps> = ({
   disabled = false,
   style,
   testID,
+  accessibilityLabel,
 }) => {
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const backgroundColorAnim = useRef(new Animated.Value(selected ? 1 : 0)).current;
@@ -111,7 +113,7 @@ export const FilterPill: React.FC<FilterPillProps> = ({
         activeOpacity={0.8}
         testID={testID}
         accessibilityRole="button"
-        accessibilityLabel={`${label} filter`}
+        accessibilityLabel={accessibilityLabel ?? `${label} filter`}
         accessibilityHint={selected ? 'Tap to deselect filter' : 'Tap to select filter'}
         accessibilityState={{ selected, disabled }}
       >
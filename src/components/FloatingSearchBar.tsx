@@ -1,82 +1,109 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { StyleSheet, TextInput, TouchableOpacity, View, Platform } from 'react-native';
 import { BlurView } from 'expo-blur';
 import { Box, Icon } from './';
+import { SearchSuggestionList } from './SearchSuggestionList';
 import { colors, spacing, borderRadius, typography } from '../designSystem/tokens';
+import { SearchSuggestion } from '../types';
 
 interface FloatingSearchBarProps {
   value: string;
   onChangeText: (text: string) => void;
+  onSubmitEditing?: () => void;
   placeholder?: string;
   onSpinPress?: () => void;
+  suggestions?: SearchSuggestion[];
+  onSuggestionPress?: (suggestion: SearchSuggestion) => void;
+  onSuggestionPinToggle?: (suggestion: SearchSuggestion) => void;
   testID?: string;
 }
 
 export const FloatingSearchBar: React.FC<FloatingSearchBarProps> = ({
   value,
   onChangeText,
+  onSubmitEditing,
   placeholder = "Search restaurants, cuisines...",
   onSpinPress,
+  suggestions = [],
+  onSuggestionPress,
+  onSuggestionPinToggle,
   testID,
 }) => {
+  const [isFocused, setIsFocused] = useState(false);
+
   const handleClear = () => {
     onChangeText('');
   };
 
   return (
     <Box style={styles.container} testID={testID}>
-      {/* Glassmorphism Search Bar */}
-      <BlurView intensity={80} tint="light" style={styles.searchContainer}>
-        <Box style={styles.searchContent}>
-          <Icon 
-            name="search" 
-            size={20} 
-            color={colors.text.secondary}
-            style={styles.searchIcon}
-          />
+      <Box style={styles.searchRow}>
+        {/* Glassmorphism Search Bar */}
+        <BlurView intensity={80} tint="light" style={styles.searchContainer}>
+          <Box style={styles.searchContent}>
+            <Icon 
+              name="search" 
+              size={20} 
+              color={colors.text.secondary}
+              style={styles.searchIcon}
+            />
           
-          <TextInput
-            style={styles.textInput}
-            value={value}
-            onChangeText={onChangeText}
-            placeholder={placeholder}
-            placeholderTextColor={colors.text.tertiary}
-            returnKeyType="search"
-            autoCapitalize="none"
-            autoCorrect={false}
-          />
+            <TextInput
+              style={styles.textInput}
+              value={value}
+              onChangeText={onChangeText}
+              onSubmitEditing={onSubmitEditing}
+              placeholder={placeholder}
+              placeholderTextColor={colors.text.tertiary}
+              onFocus={() => setIsFocused(true)}
+              onBlur={() => setIsFocused(false)}
+              returnKeyType="search"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
           
-          {value.length > 0 && (
-            <TouchableOpacity
-              onPress={handleClear}
-              style={styles.clearButton}
-              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
-            >
+            {value.length > 0 && (
+              <TouchableOpacity
+                onPress={handleClear}
+                style={styles.clearButton}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Icon 
+                  name="x" 
+                  size={18} 
+                  color={colors.text.secondary}
+                />
+              </TouchableOpacity>
+            )}
+          </Box>
+        </BlurView>
+
+        {/* Spin Wheel Button */}
+        {onSpinPress && (
+          <TouchableOpacity
+            onPress={onSpinPress}
+            style={styles.spinButton}
+            activeOpacity={0.8}
+          >
+            <BlurView intensity={80} tint="light" style={styles.spinButtonBlur}>
               <Icon 
-                name="x" 
-                size={18} 
-                color={colors.text.secondary}
+                name="refresh-cw" 
+                size={24} 
+                color={colors.accent.primary}
               />
-            </TouchableOpacity>
-          )}
-        </Box>
-      </BlurView>
+            </BlurView>
+          </TouchableOpacity>
+        )}
+      </Box>
 
-      {/* Spin Wheel Button */}
-      {onSpinPress && (
-        <TouchableOpacity
-          onPress={onSpinPress}
-          style={styles.spinButton}
-          activeOpacity={0.8}
-        >
-          <BlurView intensity={80} tint="light" style={styles.spinButtonBlur}>
-            <Icon 
-              name="refresh-cw" 
-              size={24} 
-              color={colors.accent.primary}
-            />
-          </BlurView>
-        </TouchableOpacity>
+      {/* Ranked suggestions while typing */}
+      {isFocused && (
+        <SearchSuggestionList
+          suggestions={suggestions}
+          onSelect={(suggestion) => onSuggestionPress?.(suggestion)}
+          onTogglePinned={onSuggestionPinToggle}
+          testID={`${testID}-suggestions`}
+        />
       )}
     </Box>
   );
@@ -89,6 +116,8 @@ const styles = StyleSheet.create({
     left: spacing.lg,
     right: spacing.lg,
     zIndex: 1000,
+  },
+  searchRow: {
     flexDirection: 'row',
     alignItems: 'center',
   },
@@ -19,6 +19,7 @@ import { Button } from './Button';
 import { Icon } from './Icon';
 import { colors, borderRadius, spacing, typography } from '../designSystem/tokens';
 import { MenuItem as MenuItemType } from '../types';
+import { getAllergenConflicts } from '../utils/dietaryUtils';
 
 export interface MenuItemProps {
   menuItem: MenuItemType;
@@ -27,6 +28,7 @@ export interface MenuItemProps {
   style?: ViewStyle;
   testID?: string;
   onAddToCartSuccess?: () => void;
+  userAllergens?: string[]; // warn when the item contains any of these
 }
 
 export const MenuItem: React.FC<MenuItemProps> = ({
@@ -36,11 +38,13 @@ export const MenuItem: React.FC<MenuItemProps> = ({
   style,
   testID,
   onAddToCartSuccess,
+  userAllergens = [],
 }) => {
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const addButtonScaleAnim = useRef(new Animated.Value(1)).current;
   const addButtonOpacityAnim = useRef(new Animated.Value(1)).current;
   const [isAddingToCart, setIsAddingToCart] = useState(false);
+  const allergenConflicts = getAllergenConflicts(menuItem, userAllergens);
 
   const handlePressIn = () => {
     if (onPress) {
@@ -244,6 +248,20 @@ export const MenuItem: React.FC<MenuItemProps> = ({
           </Text>
         </View>
 
+        {/* Allergen warning */}
+        {allergenConflicts.length > 0 && (
+          <View style={getDescriptionStyle()}>
+            <Text
+              variant="caption"
+              weight="medium"
+              color={colors.error.primary}
+              testID={`${testID}-allergen-warning`}
+            >
+              Contains {allergenConflicts.join(', ')}
+            </Text>
+          </View>
+        )}
+
         {/* Footer with dietary badges and add button */}
         <View style={getFooterStyle()}>
           <View style={getDietaryBadgesStyle()}>
@@ -15,9 +15,23 @@ import {
   StyleSheet,
   Dimensions,
   Animated,
+  Alert,
 } from 'react-native';
-import { Box, Text, Button, Icon } from './';
-import { MenuItem } from '../types';
+import { Box, Text, Button, Icon, Input } from './';
+import { MenuItem, MenuItemOptionGroup, SelectedOption } from '../types';
+import {
+  getDefaultSelections,
+  getGroupSelections,
+  getOptionsUnitPrice,
+  toggleOptionSelection,
+  validateOptionSelections,
+} from '../utils/menuOptionUtils';
+import {
+  SPECIAL_INSTRUCTIONS_MAX_LENGTH,
+  isValidSpecialInstructions,
+  sanitizeSpecialInstructions,
+} from '../utils/validationUtils';
+import { getAllergenConflicts } from '../utils/dietaryUtils';
 import { colors, spacing, borderRadius, shadows } from '../designSystem/tokens';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -26,7 +40,8 @@ interface MenuItemDetailProps {
   menuItem: MenuItem;
   isVisible: boolean;
   onClose: () => void;
-  onAddToCart: (quantity: number) => void;
+  onAddToCart: (quantity: number, selectedOptions: SelectedOption[], specialInstructions?: string) => void;
+  userAllergens?: string[]; // ask for confirmation before adding an item containing these
 }
 
 export const MenuItemDetail: React.FC<MenuItemDetailProps> = ({
@@ -34,15 +49,30 @@ export const MenuItemDetail: React.FC<MenuItemDetailProps> = ({
   isVisible,
   onClose,
   onAddToCart,
+  userAllergens = [],
 }) => {
   const [quantity, setQuantity] = React.useState(1);
   const [isAddingToCart, setIsAddingToCart] = React.useState(false);
+  const [selectedOptions, setSelectedOptions] = React.useState<SelectedOption[]>(
+    () => getDefaultSelections(menuItem)
+  );
+  const [specialInstructions, setSpecialInstructions] = React.useState('');
   const addButtonScaleAnim = React.useRef(new Animated.Value(1)).current;
   const addButtonOpacityAnim = React.useRef(new Animated.Value(1)).current;
 
-  const handleAddToCart = () => {
-    if (isAddingToCart) return;
-    
+  // Reset option choices and notes when a different item is shown
+  React.useEffect(() => {
+    setSelectedOptions(getDefaultSelections(menuItem));
+    setSpecialInstructions('');
+  }, [menuItem]);
+
+  const optionErrors = validateOptionSelections(menuItem, selectedOptions);
+  const hasOptionErrors = Object.keys(optionErrors).length > 0;
+  const unitPrice = getOptionsUnitPrice(menuItem, selectedOptions);
+  const areInstructionsValid = isValidSpecialInstructions(specialInstructions);
+  const allergenConflicts = getAllergenConflicts(menuItem, userAllergens);
+
+  const addToCart = () => {
     setIsAddingToCart(true);
     
     // Micro-interaction animation: scale down then up with opacity change
@@ -78,11 +108,33 @@ export const MenuItemDetail: React.FC<MenuItemDetailProps> = ({
       }),
     ]).start(() => {
       setIsAddingToCart(false);
-      onAddToCart(quantity);
+      onAddToCart(
+        quantity,
+        selectedOptions,
+        sanitizeSpecialInstructions(specialInstructions) || undefined
+      );
       onClose();
     });
   };
 
+  const handleAddToCart = () => {
+    if (isAddingToCart || hasOptionErrors || !areInstructionsValid) return;
+
+    if (allergenConflicts.length > 0) {
+      Alert.alert(
+        'Contains Your Allergens',
+        `${menuItem.name} contains ${allergenConflicts.join(', ')}. Add it to your cart anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Add Anyway', style: 'destructive', onPress: addToCart },
+        ]
+      );
+      return;
+    }
+
+    addToCart();
+  };
+
   const incrementQuantity = () => {
     setQuantity(prev => Math.min(prev + 1, 99));
   };
@@ -103,6 +155,107 @@ export const MenuItemDetail: React.FC<MenuItemDetailProps> = ({
     );
   };
 
+  const handleToggleOption = (group: MenuItemOptionGroup, choiceId: string) => {
+    setSelectedOptions(prev => toggleOptionSelection(prev, group, choiceId));
+  };
+
+  const renderOptionGroup = (group: MenuItemOptionGroup) => {
+    const selected = getGroupSelections(selectedOptions, group.id);
+    const isSingleChoice = group.maxSelections === 1;
+    const hint = group.isRequired
+      ? 'Required'
+      : `Choose up to ${group.maxSelections}`;
+
+    return (
+      <Box key={group.id} marginTop="lg">
+        <View style={styles.optionGroupHeader}>
+          <Text variant="subheading" weight="semibold" color="text.primary">
+            {group.name}
+          </Text>
+          <Text variant="caption" color={group.isRequired ? 'accent.primary' : 'text.secondary'}>
+            {hint}
+          </Text>
+        </View>
+
+        {group.choices.map(choice => {
+          const isSelected = selected.includes(choice.id);
+          const isDisabled = choice.isAvailable === false;
+
+          return (
+            <TouchableOpacity
+              key={choice.id}
+              style={[styles.optionRow, isDisabled && styles.optionRowDisabled]}
+              onPress={() => handleToggleOption(group, choice.id)}
+              disabled={isDisabled}
+              accessibilityRole={isSingleChoice ? 'radio' : 'checkbox'}
+              accessibilityState={{ checked: isSelected, disabled: isDisabled }}
+              accessibilityLabel={choice.name}
+            >
+              <View
+                style={[
+                  isSingleChoice ? styles.radio : styles.checkbox,
+                  isSelected && styles.optionControlSelected,
+                ]}
+              >
+                {isSelected && (
+                  <Icon name="check" size={14} color={colors.background.primary} />
+                )}
+              </View>
+              <Text variant="body" color={isDisabled ? 'text.tertiary' : 'text.primary'} style={styles.optionName}>
+                {choice.name}
+              </Text>
+              {choice.priceDelta !== 0 && (
+                <Text variant="body" color="text.secondary">
+                  {choice.priceDelta > 0 ? '+' : '-'}${Math.abs(choice.priceDelta).toFixed(2)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+
+        {optionErrors[group.id] && selected.length > 0 && (
+          <Text variant="caption" color="text.secondary" style={styles.optionError}>
+            {optionErrors[group.id]}
+          </Text>
+        )}
+      </Box>
+    );
+  };
+
+  const renderOptionGroups = () => {
+    if (!menuItem.optionGroups || menuItem.optionGroups.length === 0) {
+      return null;
+    }
+
+    return <Box marginBottom="sm">{menuItem.optionGroups.map(renderOptionGroup)}</Box>;
+  };
+
+  const renderSpecialInstructions = () => {
+    if (!menuItem.isAvailable) return null;
+
+    return (
+      <Box marginTop="lg">
+        <Text variant="subheading" weight="semibold" color="text.primary" style={styles.sectionTitle}>
+          Special Instructions
+        </Text>
+        <Input
+          placeholder="e.g. No onions, sauce on the side"
+          value={specialInstructions}
+          onChangeText={setSpecialInstructions}
+          maxLength={SPECIAL_INSTRUCTIONS_MAX_LENGTH}
+          multiline
+          error={areInstructionsValid
+            ? undefined
+            : `Keep notes under ${SPECIAL_INSTRUCTIONS_MAX_LENGTH} characters`}
+          accessibilityLabel="Special instructions"
+        />
+        <Text variant="caption" color="text.tertiary" align="right" style={styles.characterCount}>
+          {specialInstructions.length}/{SPECIAL_INSTRUCTIONS_MAX_LENGTH}
+        </Text>
+      </Box>
+    );
+  };
+
   const renderNutritionalInfo = () => {
     if (!menuItem.nutritionalInfo) return null;
 
@@ -169,6 +322,18 @@ export const MenuItemDetail: React.FC<MenuItemDetailProps> = ({
         <Text variant="body" color="text.secondary" style={styles.allergenWarning}>
           Contains: {menuItem.dietaryInfo.allergens.join(', ')}
         </Text>
+
+        {allergenConflicts.length > 0 && (
+          <Text
+            variant="body"
+            weight="semibold"
+            color={colors.error.primary}
+            style={styles.allergenConflict}
+            testID="allergen-conflict-warning"
+          >
+            This item contains your allergens: {allergenConflicts.join(', ')}
+          </Text>
+        )}
         
         <Text variant="caption" color="text.secondary" align="center" style={styles.allergenDisclaimer}>
           Please inform your server of any allergies or dietary restrictions before ordering.
@@ -235,6 +400,12 @@ export const MenuItemDetail: React.FC<MenuItemDetailProps> = ({
               {renderDietaryBadge('Gluten-Free', menuItem.dietaryInfo.isGlutenFree)}
             </View>
 
+            {/* Options */}
+            {renderOptionGroups()}
+
+            {/* Special Instructions */}
+            {renderSpecialInstructions()}
+
             {/* Nutritional Information */}
             {renderNutritionalInfo()}
 
@@ -299,12 +470,12 @@ export const MenuItemDetail: React.FC<MenuItemDetailProps> = ({
               <Button
                 variant="primary"
                 onPress={handleAddToCart}
-                disabled={isAddingToCart}
+                disabled={isAddingToCart || hasOptionErrors || !areInstructionsValid}
                 style={styles.addButton}
               >
                 {isAddingToCart 
                   ? 'Adding...' 
-                  : `Add $${(menuItem.price * quantity).toFixed(2)} to Cart`
+                  : `Add $${(unitPrice * quantity).toFixed(2)} to Cart`
                 }
               </Button>
             </Animated.View>
@@ -383,6 +554,54 @@ const styles = StyleSheet.create({
   sectionTitle: {
     marginBottom: spacing.md,
   },
+  optionGroupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    minHeight: 44,
+  },
+  optionRowDisabled: {
+    opacity: 0.5,
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: colors.border.medium,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: borderRadius.small,
+    borderWidth: 2,
+    borderColor: colors.border.medium,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  optionControlSelected: {
+    backgroundColor: colors.accent.primary,
+    borderColor: colors.accent.primary,
+  },
+  optionName: {
+    flex: 1,
+  },
+  optionError: {
+    marginTop: spacing.xs,
+  },
+  characterCount: {
+    marginTop: spacing.xs,
+  },
   nutritionGrid: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -403,6 +622,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#FFEAA7',
   },
+  allergenConflict: {
+    marginBottom: spacing.sm,
+  },
   allergenDisclaimer: {
     fontStyle: 'italic',
   },
@@ -1,11 +1,16 @@
 import React from 'react';
 import { Platform } from 'react-native';
+import { SearchSuggestion } from '../types';
 
 interface FloatingSearchBarProps {
   value: string;
   onChangeText: (text: string) => void;
+  onSubmitEditing?: () => void;
   placeholder?: string;
   onSpinPress?: () => void;
+  suggestions?: SearchSuggestion[];
+  onSuggestionPress?: (suggestion: SearchSuggestion) => void;
+  onSuggestionPinToggle?: (suggestion: SearchSuggestion) => void;
   testID?: string;
 }
 
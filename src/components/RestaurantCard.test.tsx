@@ -210,4 +210,41 @@ describe('RestaurantCard Component', () => {
     
     expect(getByText('$5.50 delivery')).toBeTruthy();
   });
-});
\ No newline at end of file
+
+  it('highlights the text a search query matched', () => {
+    const { getByText, getAllByTestId, queryAllByTestId } = render(
+      <RestaurantCard restaurant={mockRestaurant} searchQuery="restarant" />
+    );
+
+    expect(getAllByTestId('name-highlight')).toHaveLength(1);
+    expect(getByText('Restaurant')).toBeTruthy();
+    expect(queryAllByTestId('cuisine-0-highlight')).toHaveLength(0);
+  });
+
+  it('highlights a cuisine matched through a dish alias', () => {
+    const { getByTestId, queryAllByTestId } = render(
+      <RestaurantCard restaurant={mockRestaurant} searchQuery="pasta" />
+    );
+
+    expect(getByTestId('cuisine-0-highlight')).toBeTruthy();
+    expect(queryAllByTestId('name-highlight')).toHaveLength(0);
+  });
+
+  it('shows the distance and the delivery estimate for it', () => {
+    const { getByTestId, getByText, queryByText } = render(
+      <RestaurantCard restaurant={mockRestaurant} distanceKm={6.8} estimatedDeliveryTime="40-50 min" />
+    );
+
+    expect(getByTestId('restaurant-distance')).toBeTruthy();
+    expect(getByText('6.8 km away')).toBeTruthy();
+    expect(getByText('40-50 min')).toBeTruthy();
+    expect(queryByText(mockRestaurant.deliveryTime)).toBeNull();
+  });
+
+  it('leaves out the distance when it is unknown', () => {
+    const { queryByTestId, getByText } = render(<RestaurantCard restaurant={mockRestaurant} />);
+
+    expect(queryByTestId('restaurant-distance')).toBeNull();
+    expect(getByText(mockRestaurant.deliveryTime)).toBeTruthy();
+  });
+});
@@ -4,8 +4,9 @@
  * Card component for displaying restaurant information with image, details, and press interaction
  */
 
-import React, { useRef } from 'react';
+import React, { useMemo, useRef } from 'react';
 import {
+  Text as RNText,
   View,
   TouchableOpacity,
   Image,
@@ -18,22 +19,70 @@ import { Text } from './Text';
 import { Card } from './Card';
 import { Icon } from './Icon';
 import { colors, borderRadius, spacing, shadows, typography } from '../designSystem/tokens';
-import { Restaurant } from '../types';
+import { MatchRange, Restaurant } from '../types';
+import { getSearchMatch } from '../utils/searchUtils';
+import { formatDistance } from '../utils/geoUtils';
+import { useOpeningStatus } from '../hooks/useOpeningStatus';
 
 export interface RestaurantCardProps {
   restaurant: Restaurant;
   onPress?: (restaurant: Restaurant) => void;
+  searchQuery?: string; // highlights the text this query matched
+  distanceKm?: number; // from where the user is ordering to
+  estimatedDeliveryTime?: string; // replaces the restaurant's own quote
   style?: ViewStyle;
   testID?: string;
 }
 
+const highlightStyle = {
+  color: colors.accent.primary,
+  fontWeight: typography.fontWeight.bold,
+};
+
+/**
+ * Split text into plain and highlighted spans for nesting inside a Text
+ */
+const renderHighlighted = (text: string, ranges: MatchRange[], keyPrefix: string): React.ReactNode => {
+  if (ranges.length === 0) return text;
+
+  const nodes: React.ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach((range, index) => {
+    if (range.start > position) {
+      nodes.push(text.slice(position, range.start));
+    }
+    nodes.push(
+      <RNText key={`${keyPrefix}-${index}`} style={highlightStyle} testID={`${keyPrefix}-highlight`}>
+        {text.slice(range.start, range.end)}
+      </RNText>
+    );
+    position = range.end;
+  });
+
+  if (position < text.length) {
+    nodes.push(text.slice(position));
+  }
+  return nodes;
+};
+
 export const RestaurantCard: React.FC<RestaurantCardProps> = ({
   restaurant,
   onPress,
+  searchQuery,
+  distanceKm,
+  estimatedDeliveryTime,
   style,
   testID,
 }) => {
   const scaleAnim = useRef(new Animated.Value(1)).current;
+  const openingStatus = useOpeningStatus(restaurant);
+  const isClosed = openingStatus.state === 'closed';
+
+  const searchMatch = useMemo(
+    () => (searchQuery?.trim() ? getSearchMatch(restaurant, searchQuery) : null),
+    [restaurant, searchQuery]
+  );
 
   const handlePressIn = () => {
     Animated.timing(scaleAnim, {
@@ -103,8 +152,24 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
     alignItems: 'center',
   });
 
-  const formatCuisineTypes = (cuisineTypes: string[]): string => {
-    return cuisineTypes.slice(0, 2).join(', ');
+  const getDistanceRowStyle = (): ViewStyle => ({
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  });
+
+  const formatCuisineTypes = (cuisineTypes: string[]): React.ReactNode => {
+    const shown = cuisineTypes.slice(0, 2);
+    if (!searchMatch?.cuisineType.some(ranges => ranges.length > 0)) {
+      return shown.join(', ');
+    }
+
+    return shown.map((cuisine, index) => (
+      <React.Fragment key={cuisine}>
+        {index > 0 ? ', ' : ''}
+        {renderHighlighted(cuisine, searchMatch.cuisineType[index], `cuisine-${index}`)}
+      </React.Fragment>
+    ));
   };
 
   const formatDeliveryFee = (fee: number): string => {
@@ -136,15 +201,22 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
               <Icon 
                 name="clock" 
                 size={16} 
-                color={restaurant.isOpen ? colors.accent.primary : colors.error.primary}
+                color={
+                  isClosed
+                    ? colors.error.primary
+                    : openingStatus.state === 'closingSoon'
+                      ? colors.state.warning
+                      : colors.accent.primary
+                }
               />
               <Text
                 variant="caption"
                 weight="medium"
-                color={restaurant.isOpen ? colors.text.primary : colors.error.primary}
+                color={isClosed ? colors.error.primary : colors.text.primary}
                 style={{ marginLeft: spacing.xs }}
+                testID="restaurant-opening-status"
               >
-                {restaurant.isOpen ? 'Open' : 'Closed'}
+                {openingStatus.label}
               </Text>
             </View>
           </View>
@@ -160,7 +232,7 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
                     color={colors.text.primary}
                     numberOfLines={1}
                   >
-                    {restaurant.name}
+                    {renderHighlighted(restaurant.name, searchMatch?.name ?? [], 'name')}
                   </Text>
                 </View>
                 <Text
@@ -212,10 +284,25 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({
                     color={colors.text.secondary}
                     style={{ marginLeft: spacing.xs }}
                   >
-                    {restaurant.deliveryTime}
+                    {estimatedDeliveryTime ?? restaurant.deliveryTime}
                   </Text>
                 </View>
               </View>
+
+              {/* Distance */}
+              {distanceKm !== undefined && (
+                <View style={getDistanceRowStyle()}>
+                  <Icon name="map-pin" size={14} color={colors.text.tertiary} />
+                  <Text
+                    variant="caption"
+                    color={colors.text.tertiary}
+                    style={{ marginLeft: spacing.xs }}
+                    testID="restaurant-distance"
+                  >
+                    {formatDistance(distanceKm)} away
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
         </Card>
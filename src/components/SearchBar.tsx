@@ -1,7 +1,9 @@
 /**
  * SearchBar Component
  * 
- * Rounded pill-shaped search input with search icon and clear button
+ * Rounded pill-shaped search input with search icon and clear button.
+ * While focused it can list search suggestions, and while there's a query a
+ * panel of matching dishes grouped by restaurant.
  */
 
 import React, { useState, useRef } from 'react';
@@ -15,7 +17,14 @@ import {
   TextInputProps,
 } from 'react-native';
 import { Icon } from './Icon';
-import { colors, borderRadius, spacing, typography, animations } from '../designSystem/tokens';
+import { Text } from './Text';
+import { SearchSuggestionList } from './SearchSuggestionList';
+import { colors, borderRadius, spacing, typography, animations, shadows } from '../designSystem/tokens';
+import { DishSearchResult, MenuItem, Restaurant, SearchSuggestion } from '../types';
+
+// Keep the dish panel short enough to leave the restaurant results in view
+const MAX_DISH_RESTAURANTS = 4;
+const MAX_DISHES_PER_RESTAURANT = 3;
 
 export interface SearchBarProps extends Omit<TextInputProps, 'style'> {
   value?: string;
@@ -23,6 +32,11 @@ export interface SearchBarProps extends Omit<TextInputProps, 'style'> {
   onFocus?: () => void;
   onBlur?: () => void;
   onClear?: () => void;
+  dishResults?: DishSearchResult[];
+  onDishPress?: (restaurant: Restaurant, menuItem: MenuItem) => void;
+  suggestions?: SearchSuggestion[];
+  onSuggestionPress?: (suggestion: SearchSuggestion) => void;
+  onSuggestionPinToggle?: (suggestion: SearchSuggestion) => void;
   placeholder?: string;
   style?: ViewStyle;
   testID?: string;
@@ -34,6 +48,11 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onFocus,
   onBlur,
   onClear,
+  dishResults = [],
+  onDishPress,
+  suggestions = [],
+  onSuggestionPress,
+  onSuggestionPinToggle,
   placeholder = 'Search restaurants, cuisines...',
   style,
   testID,
@@ -125,60 +144,127 @@ export const SearchBar: React.FC<SearchBarProps> = ({
     alignItems: 'center',
   });
 
+  const getDishPanelStyle = (): ViewStyle => ({
+    marginTop: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.medium,
+    backgroundColor: colors.background.surface,
+    ...shadows.low,
+  });
+
+  const getDishRowStyle = (): ViewStyle => ({
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    minHeight: 44, // Minimum touch target
+  });
+
   const shouldShowClearButton = value.length > 0;
+  const shouldShowDishes = value.length > 0 && dishResults.length > 0;
+  const shouldShowSuggestions = isFocused && suggestions.length > 0;
 
   return (
-    <Animated.View
-      style={[
-        getContainerStyle(),
-        {
-          backgroundColor: getBackgroundColor(),
-          transform: [{ scale: scaleAnim }],
-        },
-        style,
-      ]}
-      testID={testID}
-    >
-      {/* Search Icon */}
-      <View style={getIconContainerStyle()}>
-        <Icon 
-          name="search" 
-          size={20} 
-          color={isFocused ? colors.accent.primary : colors.text.secondary}
-        />
-      </View>
-
-      {/* Text Input */}
-      <TextInput
-        style={getInputStyle()}
-        placeholder={placeholder}
-        placeholderTextColor={colors.text.tertiary}
-        value={value}
-        onChangeText={onChangeText}
-        onFocus={handleFocus}
-        onBlur={handleBlur}
-        returnKeyType="search"
-        testID={`${testID}-input`}
-        {...textInputProps}
-      />
-
-      {/* Clear Button */}
-      {shouldShowClearButton && (
-        <TouchableOpacity
-          style={getClearButtonStyle()}
-          onPress={handleClear}
-          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
-          testID={`${testID}-clear-button`}
-          accessibilityRole="button"
-          accessibilityLabel="Clear search"
-        >
+    <>
+      <Animated.View
+        style={[
+          getContainerStyle(),
+          {
+            backgroundColor: getBackgroundColor(),
+            transform: [{ scale: scaleAnim }],
+          },
+          style,
+        ]}
+        testID={testID}
+      >
+        {/* Search Icon */}
+        <View style={getIconContainerStyle()}>
           <Icon 
-            name="x" 
-            size={16} 
-            color={colors.text.secondary}
+            name="search" 
+            size={20} 
+            color={isFocused ? colors.accent.primary : colors.text.secondary}
           />
-        </TouchableOpacity>
+        </View>
+
+        {/* Text Input */}
+        <TextInput
+          style={getInputStyle()}
+          placeholder={placeholder}
+          placeholderTextColor={colors.text.tertiary}
+          value={value}
+          onChangeText={onChangeText}
+          onFocus={handleFocus}
+          onBlur={handleBlur}
+          returnKeyType="search"
+          testID={`${testID}-input`}
+          {...textInputProps}
+        />
+
+        {/* Clear Button */}
+        {shouldShowClearButton && (
+          <TouchableOpacity
+            style={getClearButtonStyle()}
+            onPress={handleClear}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            testID={`${testID}-clear-button`}
+            accessibilityRole="button"
+            accessibilityLabel="Clear search"
+          >
+            <Icon 
+              name="x" 
+              size={16} 
+              color={colors.text.secondary}
+            />
+          </TouchableOpacity>
+        )}
+      </Animated.View>
+
+      {/* Ranked suggestions while typing */}
+      {shouldShowSuggestions && (
+        <SearchSuggestionList
+          suggestions={suggestions}
+          onSelect={(suggestion) => onSuggestionPress?.(suggestion)}
+          onTogglePinned={onSuggestionPinToggle}
+          testID={`${testID}-suggestions`}
+        />
+      )}
+
+      {/* Matching dishes, grouped by restaurant */}
+      {shouldShowDishes && (
+        <View style={getDishPanelStyle()} testID={`${testID}-dish-results`}>
+          {dishResults.slice(0, MAX_DISH_RESTAURANTS).map(({ restaurant, menuItems }) => (
+            <View key={restaurant.id}>
+              <Text
+                variant="caption"
+                weight="semibold"
+                color={colors.text.secondary}
+                numberOfLines={1}
+                style={{ paddingHorizontal: spacing.lg, paddingTop: spacing.sm }}
+              >
+                {restaurant.name}
+              </Text>
+              {menuItems.slice(0, MAX_DISHES_PER_RESTAURANT).map(menuItem => (
+                <TouchableOpacity
+                  key={menuItem.id}
+                  style={getDishRowStyle()}
+                  onPress={() => onDishPress?.(restaurant, menuItem)}
+                  testID={`${testID}-dish-${menuItem.id}`}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${menuItem.name} at ${restaurant.name}`}
+                >
+                  <Text variant="body" numberOfLines={1} style={{ flex: 1, marginRight: spacing.sm }}>
+                    {menuItem.name}
+                  </Text>
+                  <Text variant="caption" color={colors.text.secondary}>
+                    ${menuItem.price.toFixed(2)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </View>
       )}
-    </Animated.View>
+    </>
   );
 };
\ No newline at end of file
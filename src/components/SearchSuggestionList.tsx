@@ -0,0 +1,107 @@
+/**
+ * SearchSuggestionList Component
+ *
+ * Ranked search suggestions shown under a search bar: saved and recent
+ * searches, which can be pinned or unpinned, then cuisines and restaurants
+ */
+
+import React from 'react';
+import { View, TouchableOpacity, ViewStyle } from 'react-native';
+import { Text } from './Text';
+import { Icon, IconName } from './Icon';
+import { colors, borderRadius, spacing, shadows } from '../designSystem/tokens';
+import { SearchSuggestion, SearchSuggestionType } from '../types';
+
+export interface SearchSuggestionListProps {
+  suggestions: SearchSuggestion[];
+  onSelect: (suggestion: SearchSuggestion) => void;
+  onTogglePinned?: (suggestion: SearchSuggestion) => void;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+const SUGGESTION_ICONS: Record<SearchSuggestionType, IconName> = {
+  saved: 'star',
+  recent: 'clock',
+  cuisine: 'search',
+  restaurant: 'map-pin',
+};
+
+export const SearchSuggestionList: React.FC<SearchSuggestionListProps> = ({
+  suggestions,
+  onSelect,
+  onTogglePinned,
+  style,
+  testID,
+}) => {
+  const getContainerStyle = (): ViewStyle => ({
+    marginTop: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.medium,
+    backgroundColor: colors.background.surface,
+    ...shadows.low,
+  });
+
+  const getRowStyle = (): ViewStyle => ({
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    minHeight: 44, // Minimum touch target
+  });
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <View style={[getContainerStyle(), style]} testID={testID}>
+      {suggestions.map((suggestion, index) => {
+        const isHistory = suggestion.historyEntryId !== undefined;
+        const isSaved = suggestion.type === 'saved';
+
+        return (
+          <View key={`${suggestion.type}-${suggestion.historyEntryId ?? suggestion.label}`} style={getRowStyle()}>
+            <TouchableOpacity
+              style={{ flex: 1, flexDirection: 'row', alignItems: 'center' }}
+              onPress={() => onSelect(suggestion)}
+              testID={`${testID}-item-${index}`}
+              accessibilityRole="button"
+              accessibilityLabel={`Search for ${suggestion.label}`}
+            >
+              <Icon
+                name={SUGGESTION_ICONS[suggestion.type]}
+                size={16}
+                color={isSaved ? colors.accent.primary : colors.text.tertiary}
+              />
+              <View style={{ flex: 1, marginLeft: spacing.md }}>
+                <Text variant="body" numberOfLines={1}>
+                  {suggestion.label}
+                </Text>
+                {suggestion.detail ? (
+                  <Text variant="caption" color={colors.text.secondary} numberOfLines={1}>
+                    {suggestion.detail}
+                  </Text>
+                ) : null}
+              </View>
+            </TouchableOpacity>
+
+            {isHistory && onTogglePinned && (
+              <TouchableOpacity
+                onPress={() => onTogglePinned(suggestion)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                testID={`${testID}-pin-${index}`}
+                accessibilityRole="button"
+                accessibilityLabel={isSaved ? `Unpin ${suggestion.label}` : `Save ${suggestion.label}`}
+              >
+                <Icon
+                  name="star"
+                  size={16}
+                  color={isSaved ? colors.accent.primary : colors.border.medium}
+                />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
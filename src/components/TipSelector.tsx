@@ -0,0 +1,91 @@
+/**
+ * TipSelector Component
+ *
+ * Choose a driver tip: none, a preset percentage of the subtotal, or a
+ * custom amount
+ */
+
+import React, { useState } from 'react';
+import { Box } from './Box';
+import { Text } from './Text';
+import { Input } from './Input';
+import { FilterPill } from './FilterPill';
+import { colors, spacing } from '../designSystem/tokens';
+import { TipChoice } from '../types';
+import { formatCents } from '../utils/pricingUtils';
+import { NO_TIP, TIP_PERCENTAGES, getTipCents, isSameTipChoice } from '../utils/tipUtils';
+
+export interface TipSelectorProps {
+  subtotal: number; // what percentages are taken of
+  value: TipChoice;
+  onChange: (choice: TipChoice) => void;
+  error?: string;
+}
+
+// A custom amount as typed; blank or unreadable is NaN, which isn't a valid tip
+const parseTipAmount = (text: string): number => (text.trim() ? Number(text) : NaN);
+
+export const TipSelector: React.FC<TipSelectorProps> = ({ subtotal, value, onChange, error }) => {
+  const [customText, setCustomText] = useState(
+    value.type === 'custom' && Number.isFinite(value.amount) ? value.amount.toFixed(2) : ''
+  );
+  const isCustom = value.type === 'custom';
+
+  const handleCustomChange = (text: string) => {
+    setCustomText(text);
+    onChange({ type: 'custom', amount: parseTipAmount(text) });
+  };
+
+  const tipCents = getTipCents(value, subtotal);
+
+  return (
+    <Box testID="tip-selector">
+      <Box flexDirection="row" flexWrap="wrap" gap="sm">
+        <FilterPill
+          label="No tip"
+          selected={isSameTipChoice(value, NO_TIP)}
+          onPress={() => onChange(NO_TIP)}
+          accessibilityLabel="No tip"
+        />
+        {TIP_PERCENTAGES.map(percent => (
+          <FilterPill
+            key={percent}
+            label={`${percent}%`}
+            selected={isSameTipChoice(value, { type: 'percentage', percent })}
+            onPress={() => onChange({ type: 'percentage', percent })}
+            accessibilityLabel={`Tip ${percent}%`}
+          />
+        ))}
+        <FilterPill
+          label="Custom"
+          selected={isCustom}
+          onPress={() => onChange({ type: 'custom', amount: parseTipAmount(customText) })}
+          accessibilityLabel="Custom tip"
+        />
+      </Box>
+
+      {isCustom && (
+        <Input
+          label="Tip amount"
+          placeholder="0.00"
+          value={customText}
+          onChangeText={handleCustomChange}
+          keyboardType="decimal-pad"
+          error={error}
+          style={{ marginTop: spacing.md }}
+          testID="custom-tip-input"
+        />
+      )}
+
+      {!isCustom && error && (
+        <Text variant="caption" color={colors.error.text} style={{ marginTop: spacing.sm }}>
+          {error}
+        </Text>
+      )}
+
+      <Text variant="body" color={colors.text.secondary} style={{ marginTop: spacing.md }} testID="tip-amount">
+        {tipCents > 0 ? `Your driver gets ${formatCents(tipCents)}` : 'No tip'}
+      </Text>
+    </Box>
+  );
+};
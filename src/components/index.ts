@@ -8,6 +8,7 @@ export * from './RestaurantCard';
 export * from './MenuItem';
 export * from './MenuItemDetail';
 export * from './SearchBar';
+export * from './SearchSuggestionList';
 export * from './FilterPill';
 export * from './EmptyState';
 export * from './AddToCartConfirmation';
@@ -19,6 +20,7 @@ export * from './HomeScreenSkeleton';
 export * from './ErrorBanner';
 export * from './AddressAutocomplete';
 export * from './AddPaymentMethodModal';
+export * from './TipSelector';
 export * from './PlatformMapView';
 export * from './PlatformFloatingSearchBar';
 export * from './ViewToggle';
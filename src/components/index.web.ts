@@ -20,6 +20,7 @@ export * from './HomeScreenSkeleton';
 export * from './ErrorBanner';
 export * from './AddressAutocomplete';
 export * from './AddPaymentMethodModal';
+export * from './TipSelector';
 export * from './ViewToggle';
 
 // Web-compatible versions
@@ -4,4 +4,11 @@
 
 export { useCart } from './useCart';
 export { useSearch } from './useSearch';
-export { useRestaurants } from './useRestaurants';
\ No newline at end of file
+export { useRestaurants } from './useRestaurants';
+export { useStoreHydration } from './useStoreHydration';
+export { useOrderTracking } from './useOrderTracking';
+export { usePlaceOrder } from './usePlaceOrder';
+export { useAddressAutocomplete } from './useAddressAutocomplete';
+export { useDeliverySlots } from './useDeliverySlots';
+export { useOpeningStatus } from './useOpeningStatus';
+export { useAdjustTip } from './useAdjustTip';
@@ -0,0 +1,62 @@
+/**
+ * Address Autocomplete Hook
+ *
+ * Looks up address suggestions as the user types. Lookups wait for typing
+ * to pause, and a newer query cancels the one still in flight so stale
+ * suggestions never replace fresh ones.
+ */
+
+import { useEffect, useState } from 'react';
+import { getGeocodingProvider } from '../services/geocodingConfig';
+import { PlaceSuggestion, isCancelledLookup } from '../services/geocodingProvider';
+import { toAppError } from '../services/apiClient';
+import { AppError } from '../types';
+
+export const ADDRESS_QUERY_MIN_LENGTH = 3;
+const DEBOUNCE_MS = 300;
+
+export const useAddressAutocomplete = (query: string) => {
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  useEffect(() => {
+    if (query.trim().length < ADDRESS_QUERY_MIN_LENGTH) {
+      setSuggestions([]);
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const timeoutId = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const results = await getGeocodingProvider().autocomplete(query, { signal: controller.signal });
+        // Providers that ignore the signal still mustn't overwrite newer results
+        if (controller.signal.aborted) return;
+
+        setSuggestions(results);
+        setError(null);
+      } catch (lookupError) {
+        if (controller.signal.aborted || isCancelledLookup(lookupError)) return;
+
+        setSuggestions([]);
+        setError(toAppError(lookupError));
+      }
+      setIsLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [query]);
+
+  return {
+    suggestions,
+    isLoading,
+    error,
+  };
+};
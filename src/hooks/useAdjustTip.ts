@@ -0,0 +1,50 @@
+/**
+ * Adjust Tip Hook
+ *
+ * Changes the tip on a delivered order and records the new tip and total in
+ * the user's order history. Orders the server no longer knows, e.g. from an
+ * earlier session against the mock server, can't be tipped.
+ */
+
+import { useCallback, useState } from 'react';
+import { useUserStore } from '../stores/userStore';
+import { orderService } from '../services/orderService';
+import { API_ERROR_CODES, toAppError } from '../services/apiClient';
+import { AppError, Order, TipChoice } from '../types';
+
+export const useAdjustTip = () => {
+  const updateOrder = useUserStore(state => state.updateOrder);
+  const [isAdjustingTip, setIsAdjustingTip] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const adjustTip = useCallback(async (orderId: string, choice: TipChoice): Promise<Order> => {
+    setIsAdjustingTip(true);
+    setError(null);
+
+    try {
+      const { data: order } = await orderService.updateTip(orderId, choice);
+      updateOrder(order.id, {
+        tip: order.tip,
+        total: order.total,
+        priceLines: order.priceLines,
+        updatedAt: order.updatedAt,
+      });
+      return order;
+    } catch (adjustmentError) {
+      const cause = toAppError(adjustmentError);
+      const appError = cause.code === API_ERROR_CODES.NOT_FOUND
+        ? { ...cause, message: 'This order can no longer be tipped' }
+        : cause;
+      setError(appError);
+      throw appError;
+    } finally {
+      setIsAdjustingTip(false);
+    }
+  }, [updateOrder]);
+
+  return {
+    adjustTip,
+    isAdjustingTip,
+    error,
+  };
+};
@@ -6,7 +6,7 @@
 
 import { useCallback } from 'react';
 import { useCartStore } from '../stores/cartStore';
-import { CartItem, Restaurant, MenuItem } from '../types';
+import { CartItem, Restaurant, MenuItem, SelectedOption } from '../types';
 
 export const useCart = () => {
   const {
@@ -16,11 +16,18 @@ export const useCart = () => {
     deliveryFee,
     tax,
     total,
+    priceLines,
+    discount,
     errors,
+    deliveryLocation,
     addItem,
     removeItem,
     updateQuantity,
+    updateSpecialInstructions,
     clearCart,
+    setDeliveryLocation,
+    applyPromoCode,
+    removePromoCode,
     getItemCount,
     getItemById,
     canAddItem,
@@ -29,13 +36,26 @@ export const useCart = () => {
     clearErrors,
     updateItemPrice,
     hasErrors,
+    getDeliveryZone,
+    getMinimumOrder,
+    getMinimumOrderError,
+    getPromotion,
+    getPromotionError,
   } = useCartStore();
 
   // Memoized actions to prevent unnecessary re-renders
-  const handleAddItem = useCallback((menuItem: MenuItem, restaurant: Restaurant, quantity: number = 1) => {
+  const handleAddItem = useCallback((
+    menuItem: MenuItem,
+    restaurant: Restaurant,
+    quantity: number = 1,
+    selectedOptions?: SelectedOption[],
+    specialInstructions?: string
+  ) => {
     const cartItem: CartItem = {
       menuItem,
       quantity,
+      ...(selectedOptions && selectedOptions.length > 0 ? { selectedOptions } : {}),
+      ...(specialInstructions ? { specialInstructions } : {}),
     };
     addItem(cartItem, restaurant);
   }, [addItem]);
@@ -84,11 +104,17 @@ export const useCart = () => {
   const isEmpty = items.length === 0;
   const itemCount = getItemCount();
 
+  const deliveryZone = getDeliveryZone();
+  const minimumOrder = getMinimumOrder();
+
   // Check if minimum order is met
-  const isMinimumOrderMet = restaurant ? subtotal >= restaurant.minimumOrder : true;
-  const remainingForMinimum = restaurant && !isMinimumOrderMet 
-    ? restaurant.minimumOrder - subtotal 
-    : 0;
+  const minimumOrderError = getMinimumOrderError();
+  const isMinimumOrderMet = !minimumOrderError;
+  const remainingForMinimum = minimumOrderError?.remaining ?? 0;
+
+  // The applied promo code, and why it isn't taking anything off if it isn't
+  const promotion = getPromotion();
+  const promotionError = getPromotionError();
 
   return {
     // State
@@ -98,10 +124,17 @@ export const useCart = () => {
     deliveryFee,
     tax,
     total,
+    priceLines,
+    discount,
     isEmpty,
     itemCount,
+    deliveryLocation,
+    deliveryZone,
+    minimumOrder,
     isMinimumOrderMet,
     remainingForMinimum,
+    promotion,
+    promotionError,
     errors,
     hasErrors: hasErrors(),
 
@@ -109,7 +142,11 @@ export const useCart = () => {
     addItem: handleAddItem,
     removeItem: handleRemoveItem,
     updateQuantity: handleUpdateQuantity,
+    updateSpecialInstructions,
     clearCart: handleClearCart,
+    setDeliveryLocation,
+    applyPromoCode,
+    removePromoCode,
     incrementItem,
     decrementItem,
 
@@ -0,0 +1,56 @@
+/**
+ * Delivery Slots Hook
+ *
+ * Loads the slots a restaurant can take scheduled orders for, with how many
+ * more orders each can take
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { restaurantService } from '../services/restaurantService';
+import { toAppError } from '../services/apiClient';
+import { AppError, DeliverySlotAvailability } from '../types';
+
+export const useDeliverySlots = (restaurantId?: string) => {
+  const [slots, setSlots] = useState<DeliverySlotAvailability[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  const [requestCount, setRequestCount] = useState(0);
+
+  useEffect(() => {
+    if (!restaurantId) {
+      setSlots([]);
+      return;
+    }
+
+    let isActive = true;
+    setIsLoading(true);
+    setError(null);
+
+    restaurantService.getDeliverySlots(restaurantId)
+      .then(({ data }) => {
+        if (isActive) setSlots(data);
+      })
+      .catch(loadError => {
+        if (isActive) setError(toAppError(loadError));
+      })
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [restaurantId, requestCount]);
+
+  // Load again, e.g. after a slot filled up while checking out
+  const refresh = useCallback(() => {
+    setRequestCount(count => count + 1);
+  }, []);
+
+  return {
+    slots,
+    isLoading,
+    error,
+    refresh,
+  };
+};
@@ -0,0 +1,28 @@
+/**
+ * Opening Status Hook
+ *
+ * Whether a restaurant is open right now, worked out from its hours on each
+ * render and rendered again when the status is next due to change
+ */
+
+import { useEffect, useState } from 'react';
+import { Restaurant } from '../types';
+import { OpeningStatus, getOpeningStatus } from '../utils/openingHoursUtils';
+
+export const useOpeningStatus = (restaurant: Restaurant): OpeningStatus => {
+  const [, setRenderCount] = useState(0);
+  const status = getOpeningStatus(restaurant);
+  const changesAt = status.changesAt?.getTime();
+
+  useEffect(() => {
+    if (changesAt === undefined) return;
+
+    const timeoutId = setTimeout(
+      () => setRenderCount(count => count + 1),
+      Math.max(0, changesAt - Date.now())
+    );
+    return () => clearTimeout(timeoutId);
+  }, [changesAt]);
+
+  return status;
+};
@@ -0,0 +1,72 @@
+/**
+ * Order Tracking Hook
+ *
+ * Subscribes to live status updates for an order and applies them to the
+ * stored order through the order lifecycle state machine. Scheduled orders
+ * aren't tracked until their slot comes up.
+ */
+
+import { useEffect, useState } from 'react';
+import { useUserStore } from '../stores/userStore';
+import { getOrderStatusSource } from '../services/orderStatusConfig';
+import { advanceOrderTo, canReachStatus, isTerminalStatus } from '../utils/orderLifecycle';
+import { getScheduledReleaseTime } from '../utils/scheduleUtils';
+import { AppError } from '../types';
+
+export const useOrderTracking = (orderId: string) => {
+  const order = useUserStore(state =>
+    state.user?.orderHistory.find(entry => entry.id === orderId)
+  );
+  const updateOrder = useUserStore(state => state.updateOrder);
+  const [error, setError] = useState<AppError | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const hasOrder = order !== undefined;
+  const isFinished = order ? isTerminalStatus(order.status) : false;
+  const releaseAt = order?.status === 'scheduled' && order.scheduledSlot
+    ? getScheduledReleaseTime(order.scheduledSlot).getTime()
+    : null;
+  const isWaitingForSlot = releaseAt !== null && releaseAt > now;
+
+  // Wake up when a scheduled order's slot comes up
+  useEffect(() => {
+    if (!isWaitingForSlot || releaseAt === null) return;
+
+    const timeoutId = setTimeout(() => setNow(Date.now()), releaseAt - Date.now());
+    return () => clearTimeout(timeoutId);
+  }, [isWaitingForSlot, releaseAt]);
+
+  useEffect(() => {
+    if (!hasOrder || isFinished || isWaitingForSlot) return;
+
+    const unsubscribe = getOrderStatusSource().subscribe(
+      orderId,
+      (update) => {
+        const current = useUserStore.getState().user?.orderHistory.find(entry => entry.id === orderId);
+
+        // Ignore stale or out-of-order updates
+        if (!current || !canReachStatus(current.status, update.status)) return;
+
+        const advanced = advanceOrderTo(current, update.status, update.at);
+        updateOrder(orderId, {
+          status: advanced.status,
+          statusHistory: advanced.statusHistory,
+          updatedAt: advanced.updatedAt,
+          ...(update.estimatedDeliveryTime ? { estimatedDeliveryTime: update.estimatedDeliveryTime } : {}),
+        });
+        setError(null);
+      },
+      setError
+    );
+
+    return unsubscribe;
+  }, [orderId, hasOrder, isFinished, isWaitingForSlot, updateOrder]);
+
+  return {
+    order,
+    status: order?.status,
+    isFinished,
+    isWaitingForSlot,
+    error,
+  };
+};
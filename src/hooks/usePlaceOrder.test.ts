@@ -0,0 +1,82 @@
+/**
+ * usePlaceOrder Hook Tests
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import { usePlaceOrder } from './usePlaceOrder';
+import { useCartStore } from '../stores/cartStore';
+import { useUserStore } from '../stores/userStore';
+import { configureApiClient } from '../services/apiConfig';
+import { createMockServer } from '../services/mockServer';
+import { PROMO_CODE_ERROR } from '../services/promotionService';
+import { generateMockMenuItem, generateMockOrder, generateMockRestaurant, generateMockUser } from '../utils/mockData';
+import { CheckoutFormData } from '../types';
+
+const restaurant = generateMockRestaurant({ id: 'restaurant-1' });
+const menuItem = generateMockMenuItem(restaurant.id, { id: 'item-1', price: 20, optionGroups: undefined });
+const user = generateMockUser({ orderHistory: [] });
+
+const formData: CheckoutFormData = {
+  deliveryAddress: user.savedAddresses[0],
+  paymentMethod: user.savedPaymentMethods[0],
+  contactInfo: { email: user.email, phone: user.phone },
+};
+
+describe('usePlaceOrder', () => {
+  beforeEach(() => {
+    configureApiClient({ transport: createMockServer({ restaurants: [restaurant] }) });
+    useUserStore.getState().setUser(user);
+    useCartStore.getState().clearCart();
+    useCartStore.getState().addItem({ menuItem, quantity: 2 }, restaurant);
+  });
+
+  afterEach(() => {
+    act(() => {
+      useUserStore.getState().logout();
+    });
+  });
+
+  it('should record the discount of a code that still applies', async () => {
+    useCartStore.getState().applyPromoCode('WELCOME20');
+    const { total } = useCartStore.getState();
+    const { result } = renderHook(() => usePlaceOrder());
+
+    let order;
+    await act(async () => {
+      order = await result.current.placeOrder(formData);
+    });
+
+    expect(order).toMatchObject({ total, discount: { code: 'WELCOME20', amount: 8 } });
+  });
+
+  it('should stop at a code that no longer applies and place the order once it is removed', async () => {
+    useCartStore.getState().applyPromoCode('WELCOME20');
+    const { result } = renderHook(() => usePlaceOrder());
+
+    // An order placed since makes this no longer the first
+    act(() => {
+      useUserStore.getState().addOrder(generateMockOrder(user, restaurant, [], { status: 'delivered' }));
+    });
+
+    await act(async () => {
+      await expect(result.current.placeOrder(formData)).rejects.toMatchObject({
+        code: PROMO_CODE_ERROR,
+        message: 'WELCOME20 is only for your first order',
+      });
+    });
+    expect(useCartStore.getState().discount).toBe(0);
+
+    act(() => {
+      useCartStore.getState().removePromoCode();
+    });
+    const { total } = useCartStore.getState();
+
+    let order;
+    await act(async () => {
+      order = await result.current.placeOrder(formData);
+    });
+
+    expect(order).toMatchObject({ total });
+    expect(order).not.toHaveProperty('discount');
+  });
+});
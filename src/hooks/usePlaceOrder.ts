@@ -0,0 +1,104 @@
+/**
+ * Place Order Hook
+ *
+ * Builds an order from the cart and checkout form, with its promo code
+ * checked again, submits it once per idempotency key and records it in the
+ * user's order history, remembering the tip for next time
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useCart } from './useCart';
+import { useUserStore } from '../stores/userStore';
+import { useCartStore } from '../stores/cartStore';
+import { orderService } from '../services/orderService';
+import { PROMO_CODE_ERROR } from '../services/promotionService';
+import { toAppError } from '../services/apiClient';
+import { buildOrderRequest, createIdempotencyKey } from '../utils/orderUtils';
+import { AppError, CheckoutFormData, Order } from '../types';
+
+export const usePlaceOrder = () => {
+  const { clearCart } = useCart();
+  const { user, addOrder, updatePreferences } = useUserStore();
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  // The key is reused while the request is unchanged, so a retry after a
+  // lost response can't create a second order
+  const attemptRef = useRef<{ key: string; fingerprint: string } | null>(null);
+
+  const placeOrder = useCallback(async (formData: CheckoutFormData): Promise<Order> => {
+    const cart = useCartStore.getState();
+    if (!user || !cart.restaurant) {
+      const appError: AppError = {
+        code: 'INVALID_ORDER',
+        message: user ? 'Your cart is empty' : 'Please sign in to place an order',
+      };
+      setError(appError);
+      throw appError;
+    }
+
+    const promotionError = cart.validatePromoCode();
+    if (promotionError) {
+      const appError: AppError = { code: PROMO_CODE_ERROR, message: promotionError.message };
+      setError(appError);
+      throw appError;
+    }
+
+    // Checking the promo code repriced the cart, so the order uses the new totals
+    const { items, subtotal, deliveryFee, tax, total, priceLines, discount, getPromotion } = useCartStore.getState();
+    const promotion = getPromotion();
+    const request = buildOrderRequest({
+      userId: user.id,
+      restaurant: cart.restaurant,
+      items,
+      totals: {
+        subtotal,
+        deliveryFee,
+        tax,
+        total,
+        priceLines,
+        ...(promotion && discount > 0
+          ? { discount: { code: promotion.code, description: promotion.description, amount: discount } }
+          : {}),
+      },
+      formData,
+    });
+
+    const fingerprint = JSON.stringify(request);
+    if (!attemptRef.current || attemptRef.current.fingerprint !== fingerprint) {
+      attemptRef.current = { key: createIdempotencyKey(), fingerprint };
+    }
+
+    setIsPlacingOrder(true);
+    setError(null);
+
+    try {
+      const { data: order } = await orderService.placeOrder(request, attemptRef.current.key);
+
+      // A replayed key returns an order that's already recorded
+      const isRecorded = useUserStore.getState().user?.orderHistory.some(entry => entry.id === order.id);
+      if (!isRecorded) {
+        addOrder(order);
+      }
+      if (formData.tip) {
+        updatePreferences({ lastTip: formData.tip });
+      }
+
+      attemptRef.current = null;
+      clearCart();
+      return order;
+    } catch (placementError) {
+      const appError = toAppError(placementError);
+      setError(appError);
+      throw appError;
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  }, [user, addOrder, updatePreferences, clearCart]);
+
+  return {
+    placeOrder,
+    isPlacingOrder,
+    error,
+  };
+};
@@ -7,6 +7,7 @@
 import { useCallback, useEffect } from 'react';
 import { useRestaurantStore } from '../stores/restaurantStore';
 import { Restaurant, MenuItem } from '../types';
+import { isRestaurantOpen } from '../utils/openingHoursUtils';
 
 export const useRestaurants = () => {
   const {
@@ -87,7 +88,7 @@ export const useRestaurants = () => {
 
   // Get open restaurants
   const getOpenRestaurants = useCallback((): Restaurant[] => {
-    return restaurants.filter(restaurant => restaurant.isOpen);
+    return restaurants.filter(restaurant => isRestaurantOpen(restaurant));
   }, [restaurants]);
 
   // Get restaurants by rating
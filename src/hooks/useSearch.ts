@@ -4,42 +4,110 @@
  * Provides search and filter functionality for restaurants
  */
 
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useMemo } from 'react';
 import { useRestaurantStore } from '../stores/restaurantStore';
-import { SearchFilters, Restaurant } from '../types';
+import { useUserStore } from '../stores/userStore';
+import { getHistoryOwner, useSearchHistoryStore } from '../stores/searchHistoryStore';
+import {
+  SearchFilters,
+  Restaurant,
+  PriceTier,
+  DishSearchResult,
+  SearchHistoryEntry,
+  SearchSuggestion,
+} from '../types';
+import {
+  DIETARY_OPTIONS,
+  hasActiveFilters as checkActiveFilters,
+  rankSearchSuggestions,
+} from '../utils/searchUtils';
+
+const NO_SEARCH_HISTORY: SearchHistoryEntry[] = [];
 
 export const useSearch = () => {
   const {
     searchQuery,
     searchFilters,
     searchResults,
+    dishResults: searchDishResults,
     isSearching,
     restaurants,
+    sortMode,
+    nearbyMode,
+    currentLocation,
+    isLocating,
+    locationError,
     setSearchQuery,
     setSearchFilters,
+    setSearchResults,
+    setDishResults,
+    setSortMode,
+    setNearbyMode,
+    locateCurrentPosition,
     searchRestaurants,
-    clearSearch,
     getCuisineTypes,
+    getSortedRestaurants,
+    getNearbyRestaurants,
+    getDiscoveryOrigin,
   } = useRestaurantStore();
 
+  const userId = useUserStore(state => state.user?.id);
+  const savedAddresses = useUserStore(state => state.user?.savedAddresses); // distances start at the default
+  const searchHistory = useSearchHistoryStore(
+    state => state.historyByUser[getHistoryOwner(userId)]
+  ) ?? NO_SEARCH_HISTORY;
+  const recordSearchHistory = useSearchHistoryStore(state => state.recordSearch);
+  const toggleSavedSearch = useSearchHistoryStore(state => state.togglePinned);
+
   // Memoized search function
   const handleSearch = useCallback(async (query: string, filters?: Partial<SearchFilters>) => {
     await searchRestaurants(query, filters);
   }, [searchRestaurants]);
 
-  // Debounced search effect
+  const hasActiveFilters = checkActiveFilters(searchFilters);
+
+  // The device's position isn't kept between launches; find it again for near me
   useEffect(() => {
-    if (searchQuery.length > 0) {
+    if (nearbyMode === 'currentLocation' && !currentLocation && !isLocating) {
+      locateCurrentPosition();
+    }
+    // Only on mount; choosing near me later locates by itself
+  }, []);
+
+  // Debounced search effect; filters apply on their own without a query, and
+  // a new sort mode or location re-runs it over the restaurants in range
+  useEffect(() => {
+    if (searchQuery.length > 0 || hasActiveFilters) {
       const timeoutId = setTimeout(() => {
         handleSearch(searchQuery, searchFilters);
       }, 300); // 300ms debounce
 
       return () => clearTimeout(timeoutId);
     } else {
-      // Clear results when query is empty
-      clearSearch();
+      // Nothing to search for; drop stale results but leave the filters alone
+      setSearchResults([]);
+      setDishResults([]);
     }
-  }, [searchQuery, searchFilters, handleSearch, clearSearch]);
+  }, [searchQuery, searchFilters, sortMode, nearbyMode, currentLocation, savedAddresses, hasActiveFilters, handleSearch, setSearchResults, setDishResults]);
+
+  // Clears the query only; filters stay applied until cleared themselves
+  const clearSearch = useCallback(() => {
+    setSearchQuery('');
+  }, [setSearchQuery]);
+
+  // Remember the current search, e.g. once it's submitted or a result is opened
+  const recordSearch = useCallback(() => {
+    recordSearchHistory(searchQuery, searchFilters);
+  }, [recordSearchHistory, searchQuery, searchFilters]);
+
+  // Run a suggested search; history entries bring their filters back too
+  const applySuggestion = useCallback((suggestion: SearchSuggestion) => {
+    setSearchQuery(suggestion.query);
+    if (suggestion.filters) {
+      setSearchFilters(suggestion.filters);
+    }
+    recordSearchHistory(suggestion.query, suggestion.filters ?? searchFilters);
+  }, [setSearchQuery, setSearchFilters, recordSearchHistory, searchFilters]);
 
   // Filter management
   const addCuisineFilter = useCallback((cuisine: string) => {
@@ -96,6 +164,15 @@ export const useSearch = () => {
     });
   }, [setSearchFilters]);
 
+  const togglePriceTier = useCallback((tier: PriceTier) => {
+    const currentTiers = searchFilters.priceTiers ?? [];
+    setSearchFilters({
+      priceTiers: currentTiers.includes(tier)
+        ? currentTiers.filter(t => t !== tier)
+        : [...currentTiers, tier],
+    });
+  }, [searchFilters.priceTiers, setSearchFilters]);
+
   const setMaxDeliveryTime = useCallback((maxTime: number) => {
     setSearchFilters({
       deliveryTime: { max: maxTime },
@@ -118,7 +195,7 @@ export const useSearch = () => {
   }, [setSearchFilters]);
 
   const clearPriceRange = useCallback(() => {
-    setSearchFilters({ priceRange: undefined });
+    setSearchFilters({ priceRange: undefined, priceTiers: [] });
   }, [setSearchFilters]);
 
   const clearAllFilters = useCallback(() => {
@@ -126,6 +203,7 @@ export const useSearch = () => {
       cuisineTypes: [],
       dietaryRestrictions: [],
       priceRange: undefined,
+      priceTiers: [],
       deliveryTime: undefined,
       rating: undefined,
     });
@@ -133,22 +211,36 @@ export const useSearch = () => {
 
   // Computed values using utility functions
   const { 
-    hasActiveFilters: checkActiveFilters, 
     getFilterSummary,
     getEmptyStateContent,
     getEmptyStateAction,
     getSearchSuggestions
   } = require('../utils/searchUtils');
-  const hasActiveFilters = checkActiveFilters(searchFilters);
   const filterSummary = getFilterSummary(searchFilters);
 
   const hasQuery = searchQuery.length > 0;
-  const hasResults = searchResults.length > 0;
+  
+  // Dishes matching the query, grouped by restaurant
+  const dishResults: DishSearchResult[] = hasQuery ? searchDishResults : [];
+  const hasResults = searchResults.length > 0 || dishResults.length > 0;
   const showResults = hasQuery || hasActiveFilters;
   const showEmptyState = showResults && !hasResults && !isSearching;
 
+  // Browsing without a search follows the chosen sort and location too
+  const sortedRestaurants = useMemo(
+    () => getSortedRestaurants(getNearbyRestaurants(restaurants)),
+    // The sort and nearby filter read the mode and location from the stores
+    [restaurants, sortMode, nearbyMode, currentLocation, savedAddresses, getSortedRestaurants, getNearbyRestaurants]
+  );
+
+  // Where distances and delivery estimates shown on restaurants start from
+  const discoveryOrigin = useMemo(
+    () => getDiscoveryOrigin(),
+    [nearbyMode, currentLocation, savedAddresses, getDiscoveryOrigin]
+  );
+
   // Get results based on current state
-  const results: Restaurant[] = showResults ? searchResults : restaurants;
+  const results: Restaurant[] = showResults ? searchResults : sortedRestaurants;
 
   // Available filter options
   const availableCuisines = getCuisineTypes();
@@ -159,21 +251,24 @@ export const useSearch = () => {
   const emptyStateAction = showEmptyState ?
     getEmptyStateAction(searchQuery, searchFilters) : null;
   const searchSuggestions = getSearchSuggestions(availableCuisines, searchQuery);
-  const availableDietaryOptions = [
-    'Vegetarian',
-    'Vegan', 
-    'Gluten-Free',
-    'Dairy-Free',
-    'Nut-Free',
-    'Keto',
-    'Low-Carb',
-  ];
+  const suggestions: SearchSuggestion[] = rankSearchSuggestions(searchQuery, {
+    history: searchHistory,
+    cuisines: availableCuisines,
+    restaurantNames: restaurants.map(restaurant => restaurant.name),
+  });
+  const availableDietaryOptions = DIETARY_OPTIONS;
 
   return {
     // State
     query: searchQuery,
     filters: searchFilters,
+    sortMode,
+    nearbyMode,
+    discoveryOrigin,
+    isLocating,
+    locationError,
     results,
+    dishResults,
     isSearching,
     hasActiveFilters,
     hasQuery,
@@ -184,6 +279,8 @@ export const useSearch = () => {
     emptyStateContent,
     emptyStateAction,
     searchSuggestions,
+    suggestions,
+    searchHistory,
 
     // Available options
     availableCuisines,
@@ -193,6 +290,11 @@ export const useSearch = () => {
     setQuery: setSearchQuery,
     search: handleSearch,
     clearSearch,
+    setSortMode,
+    setNearbyMode,
+    recordSearch,
+    applySuggestion,
+    toggleSavedSearch,
 
     // Filter actions
     addCuisineFilter,
@@ -202,6 +304,7 @@ export const useSearch = () => {
     removeDietaryFilter,
     toggleDietaryFilter,
     setPriceRange,
+    togglePriceTier,
     setMaxDeliveryTime,
     setMinRating,
 
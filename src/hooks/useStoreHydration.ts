@@ -0,0 +1,29 @@
+/**
+ * Store Hydration Hook
+ * 
+ * Reports whether a persisted store has finished loading from device storage
+ */
+
+import { useEffect, useState } from 'react';
+
+interface PersistedStore<S> {
+  persist: {
+    hasHydrated: () => boolean;
+    onFinishHydration: (listener: (state: S) => void) => () => void;
+  };
+}
+
+export const useStoreHydration = <S>(store: PersistedStore<S>): boolean => {
+  const [hasHydrated, setHasHydrated] = useState(() => store.persist.hasHydrated());
+
+  useEffect(() => {
+    const unsubscribe = store.persist.onFinishHydration(() => setHasHydrated(true));
+
+    // Hydration may have finished between the initial render and this effect
+    setHasHydrated(store.persist.hasHydrated());
+
+    return unsubscribe;
+  }, [store]);
+
+  return hasHydrated;
+};
@@ -10,22 +10,44 @@ import {
   SpinWheelScreen,
   OrderTrackingScreen,
   ProfileScreen,
+  LoginScreen,
+  SignUpScreen,
+  SavedAddressesScreen,
+  PaymentMethodsScreen,
+  OrderHistoryScreen,
+  PreferencesScreen,
 } from '../screens';
+import { withAuthGate } from './AuthGate';
 import { colors, animations } from '../designSystem/tokens';
+import { ProtectedRouteName } from '../types';
 
 export type RootStackParamList = {
   Home: undefined;
-  RestaurantDetail: { restaurantId: string };
+  RestaurantDetail: { restaurantId: string; menuItemId?: string };
   Cart: undefined;
   Checkout: undefined;
   OrderConfirmation: { orderId: string };
   SpinWheel: undefined;
   OrderTracking: { orderId: string };
   Profile: undefined;
+  Login: { redirectTo?: ProtectedRouteName };
+  SignUp: { redirectTo?: ProtectedRouteName };
+  SavedAddresses: undefined;
+  PaymentMethods: undefined;
+  OrderHistory: undefined;
+  Preferences: undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
 
+// Screens that need a signed-in user; created once so they keep their identity
+const GatedCheckoutScreen = withAuthGate(CheckoutScreen);
+const GatedProfileScreen = withAuthGate(ProfileScreen);
+const GatedSavedAddressesScreen = withAuthGate(SavedAddressesScreen);
+const GatedPaymentMethodsScreen = withAuthGate(PaymentMethodsScreen);
+const GatedOrderHistoryScreen = withAuthGate(OrderHistoryScreen);
+const GatedPreferencesScreen = withAuthGate(PreferencesScreen);
+
 /**
  * Custom transition configuration for gentle animations
  * Uses design system timing (300ms) with smooth easing curves
@@ -123,7 +145,7 @@ export const AppNavigator: React.FC = () => {
         />
         <Stack.Screen
           name="Checkout"
-          component={CheckoutScreen}
+          component={GatedCheckoutScreen}
           options={{
             title: 'Checkout',
           }}
@@ -153,11 +175,53 @@ export const AppNavigator: React.FC = () => {
         />
         <Stack.Screen
           name="Profile"
-          component={ProfileScreen}
+          component={GatedProfileScreen}
           options={{
             headerShown: false, // Profile screen has custom header
           }}
         />
+        <Stack.Screen
+          name="SavedAddresses"
+          component={GatedSavedAddressesScreen}
+          options={{
+            title: 'Saved Addresses',
+          }}
+        />
+        <Stack.Screen
+          name="PaymentMethods"
+          component={GatedPaymentMethodsScreen}
+          options={{
+            title: 'Payment Methods',
+          }}
+        />
+        <Stack.Screen
+          name="OrderHistory"
+          component={GatedOrderHistoryScreen}
+          options={{
+            title: 'Order History',
+          }}
+        />
+        <Stack.Screen
+          name="Preferences"
+          component={GatedPreferencesScreen}
+          options={{
+            title: 'Preferences',
+          }}
+        />
+        <Stack.Screen
+          name="Login"
+          component={LoginScreen}
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="SignUp"
+          component={SignUpScreen}
+          options={{
+            headerShown: false,
+          }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
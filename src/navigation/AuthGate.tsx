@@ -0,0 +1,39 @@
+/**
+ * Auth Gate
+ *
+ * Keeps signed-out users away from protected screens by sending them to
+ * sign in first, then back to the screen they were heading for
+ */
+
+import React, { useEffect } from 'react';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useUserStore } from '../stores/userStore';
+import { ProtectedRouteName, RootStackParamList } from '../types';
+
+/**
+ * Wrap a screen so it only renders for a signed-in user
+ */
+export const withAuthGate = <P extends object>(Screen: React.ComponentType<P>): React.FC<P> => {
+  const GatedScreen: React.FC<P> = (props) => {
+    const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+    const route = useRoute();
+    const isAuthenticated = useUserStore(state => state.isAuthenticated);
+
+    useEffect(() => {
+      // Screens leaving the stack (e.g. after signing out) shouldn't redirect
+      if (!isAuthenticated && navigation.isFocused()) {
+        navigation.replace('Login', { redirectTo: route.name as ProtectedRouteName });
+      }
+    }, [isAuthenticated, navigation, route.name]);
+
+    if (!isAuthenticated) {
+      return null;
+    }
+
+    return <Screen {...props} />;
+  };
+
+  GatedScreen.displayName = `withAuthGate(${Screen.displayName || Screen.name || 'Screen'})`;
+  return GatedScreen;
+};
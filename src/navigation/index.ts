@@ -1,5 +1,6 @@
 export { AppNavigator } from './AppNavigator';
 export type { RootStackParamList } from './AppNavigator';
+export { withAuthGate } from './AuthGate';
 export { 
   useAppNavigation, 
   navigationHelpers, 
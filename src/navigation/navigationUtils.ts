@@ -78,4 +78,6 @@ export const SCREEN_NAMES = {
   CART: 'Cart' as const,
   CHECKOUT: 'Checkout' as const,
   ORDER_CONFIRMATION: 'OrderConfirmation' as const,
+  LOGIN: 'Login' as const,
+  SIGN_UP: 'SignUp' as const,
 } as const;
\ No newline at end of file
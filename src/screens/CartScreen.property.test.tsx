@@ -106,16 +106,27 @@ describe('CartScreen Property-Based Tests', () => {
               deliveryFee,
               tax,
               total,
+              priceLines: [],
+              discount: 0,
               isEmpty: false,
               itemCount,
+              deliveryLocation: undefined,
+              deliveryZone: null,
+              minimumOrder: restaurant.minimumOrder,
               isMinimumOrderMet: subtotal >= restaurant.minimumOrder,
               remainingForMinimum: Math.max(0, restaurant.minimumOrder - subtotal),
+              promotion: null,
+              promotionError: null,
               errors: [],
               hasErrors: false,
               incrementItem: jest.fn(),
               decrementItem: jest.fn(),
               removeItem: jest.fn(),
+              updateSpecialInstructions: jest.fn(),
               clearCart: jest.fn(),
+              setDeliveryLocation: jest.fn(),
+              applyPromoCode: jest.fn(),
+              removePromoCode: jest.fn(),
               addItem: jest.fn(),
               updateQuantity: jest.fn(),
               checkForErrors: jest.fn(),
@@ -179,16 +190,27 @@ describe('CartScreen Property-Based Tests', () => {
               deliveryFee,
               tax,
               total,
+              priceLines: [],
+              discount: 0,
               isEmpty: false,
               itemCount,
+              deliveryLocation: undefined,
+              deliveryZone: null,
+              minimumOrder: restaurant.minimumOrder,
               isMinimumOrderMet: false,
               remainingForMinimum,
+              promotion: null,
+              promotionError: null,
               errors: [],
               hasErrors: false,
               incrementItem: jest.fn(),
               decrementItem: jest.fn(),
               removeItem: jest.fn(),
+              updateSpecialInstructions: jest.fn(),
               clearCart: jest.fn(),
+              setDeliveryLocation: jest.fn(),
+              applyPromoCode: jest.fn(),
+              removePromoCode: jest.fn(),
               addItem: jest.fn(),
               updateQuantity: jest.fn(),
               checkForErrors: jest.fn(),
@@ -224,16 +246,27 @@ describe('CartScreen Property-Based Tests', () => {
               deliveryFee: 0,
               tax: 0,
               total: 0,
+              priceLines: [],
+              discount: 0,
               isEmpty: true,
               itemCount: 0,
+              deliveryLocation: undefined,
+              deliveryZone: null,
+              minimumOrder: 0,
               isMinimumOrderMet: true,
               remainingForMinimum: 0,
+              promotion: null,
+              promotionError: null,
               errors: [],
               hasErrors: false,
               incrementItem: jest.fn(),
               decrementItem: jest.fn(),
               removeItem: jest.fn(),
+              updateSpecialInstructions: jest.fn(),
               clearCart: jest.fn(),
+              setDeliveryLocation: jest.fn(),
+              applyPromoCode: jest.fn(),
+              removePromoCode: jest.fn(),
               addItem: jest.fn(),
               updateQuantity: jest.fn(),
               checkForErrors: jest.fn(),
@@ -278,16 +311,27 @@ describe('CartScreen Property-Based Tests', () => {
               deliveryFee,
               tax,
               total,
+              priceLines: [],
+              discount: 0,
               isEmpty: false,
               itemCount,
+              deliveryLocation: undefined,
+              deliveryZone: null,
+              minimumOrder: restaurant.minimumOrder,
               isMinimumOrderMet: subtotal >= restaurant.minimumOrder,
               remainingForMinimum: Math.max(0, restaurant.minimumOrder - subtotal),
+              promotion: null,
+              promotionError: null,
               errors: [],
               hasErrors: false,
               incrementItem: jest.fn(),
               decrementItem: jest.fn(),
               removeItem: jest.fn(),
+              updateSpecialInstructions: jest.fn(),
               clearCart: jest.fn(),
+              setDeliveryLocation: jest.fn(),
+              applyPromoCode: jest.fn(),
+              removePromoCode: jest.fn(),
               addItem: jest.fn(),
               updateQuantity: jest.fn(),
               checkForErrors: jest.fn(),
@@ -335,16 +379,27 @@ describe('CartScreen Property-Based Tests', () => {
               deliveryFee,
               tax,
               total,
+              priceLines: [],
+              discount: 0,
               isEmpty: false,
               itemCount,
+              deliveryLocation: undefined,
+              deliveryZone: null,
+              minimumOrder: restaurant.minimumOrder,
               isMinimumOrderMet: subtotal >= restaurant.minimumOrder,
               remainingForMinimum: Math.max(0, restaurant.minimumOrder - subtotal),
+              promotion: null,
+              promotionError: null,
               errors: [],
               hasErrors: false,
               incrementItem: jest.fn(),
               decrementItem: jest.fn(),
               removeItem: jest.fn(),
+              updateSpecialInstructions: jest.fn(),
               clearCart: jest.fn(),
+              setDeliveryLocation: jest.fn(),
+              applyPromoCode: jest.fn(),
+              removePromoCode: jest.fn(),
               addItem: jest.fn(),
               updateQuantity: jest.fn(),
               checkForErrors: jest.fn(),
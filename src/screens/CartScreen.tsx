@@ -4,14 +4,17 @@
  * Displays cart items with quantity controls, pricing breakdown, and checkout button
  */
 
-import React, { useEffect } from 'react';
-import { ScrollView, FlatList, Image, TouchableOpacity, Alert } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, FlatList, Image, TouchableOpacity, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { Box, Text, Button, Icon, ErrorBanner } from '../components';
+import { Box, Text, Button, Icon, ErrorBanner, Input } from '../components';
 import { useCart } from '../hooks/useCart';
 import { colors, spacing, borderRadius } from '../designSystem/tokens';
-import { CartItem, RootStackParamList } from '../types';
+import { CartItem, Promotion, RootStackParamList } from '../types';
+import { formatSelectedOptions, getCartItemUnitPrice, getCartLineId } from '../utils/menuOptionUtils';
+import { SPECIAL_INSTRUCTIONS_MAX_LENGTH, isValidSpecialInstructions } from '../utils/validationUtils';
+import { formatCents, getPriceLines } from '../utils/pricingUtils';
 
 type CartScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Cart'>;
 
@@ -20,15 +23,32 @@ interface CartItemRowProps {
   onIncrement: (itemId: string) => void;
   onDecrement: (itemId: string) => void;
   onRemove: (itemId: string) => void;
+  onUpdateInstructions: (itemId: string, instructions: string) => void;
 }
 
 const CartItemRow: React.FC<CartItemRowProps> = ({ 
   item, 
   onIncrement, 
   onDecrement, 
-  onRemove 
+  onRemove,
+  onUpdateInstructions,
 }) => {
   const isUnavailable = !item.menuItem.isAvailable;
+  const lineId = getCartLineId(item);
+  const optionsSummary = formatSelectedOptions(item.menuItem, item.selectedOptions);
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [noteDraft, setNoteDraft] = useState(item.specialInstructions || '');
+
+  const handleEditNote = () => {
+    setNoteDraft(item.specialInstructions || '');
+    setIsEditingNote(true);
+  };
+
+  const handleSaveNote = () => {
+    if (!isValidSpecialInstructions(noteDraft)) return;
+    setIsEditingNote(false);
+    onUpdateInstructions(lineId, noteDraft);
+  };
 
   const handleRemove = () => {
     Alert.alert(
@@ -36,7 +56,7 @@ const CartItemRow: React.FC<CartItemRowProps> = ({
       `Remove ${item.menuItem.name} from your cart?`,
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Remove', style: 'destructive', onPress: () => onRemove(item.menuItem.id) },
+        { text: 'Remove', style: 'destructive', onPress: () => onRemove(lineId) },
       ]
     );
   };
@@ -48,138 +68,190 @@ const CartItemRow: React.FC<CartItemRowProps> = ({
       padding="lg"
       marginBottom="md"
       shadow="low"
-      flexDirection="row"
-      alignItems="center"
     >
-      {/* Item Image */}
-      <Image
-        source={{ uri: item.menuItem.imageUrl }}
-        style={{
-          width: 60,
-          height: 60,
-          borderRadius: borderRadius.small,
-          backgroundColor: colors.background.secondary,
-        }}
-        resizeMode="cover"
-      />
+      <Box flexDirection="row" alignItems="center">
+        {/* Item Image */}
+        <Image
+          source={{ uri: item.menuItem.imageUrl }}
+          style={{
+            width: 60,
+            height: 60,
+            borderRadius: borderRadius.small,
+            backgroundColor: colors.background.secondary,
+          }}
+          resizeMode="cover"
+        />
 
-      {/* Item Details */}
-      <Box flex={1} marginLeft="lg">
-        <Box flexDirection="row" alignItems="center" gap="sm">
+        {/* Item Details */}
+        <Box flex={1} marginLeft="lg">
+          <Box flexDirection="row" alignItems="center" gap="sm">
+            <Text 
+              variant="subheading" 
+              weight="medium" 
+              numberOfLines={1}
+              style={{ 
+                flex: 1,
+                opacity: isUnavailable ? 0.6 : 1,
+                textDecorationLine: isUnavailable ? 'line-through' : 'none',
+              }}
+            >
+              {item.menuItem.name}
+            </Text>
+            {isUnavailable && (
+              <Text variant="caption" color={colors.error.primary} weight="medium">
+                Unavailable
+              </Text>
+            )}
+          </Box>
+          <Text 
+            variant="body" 
+            color={colors.text.secondary} 
+            numberOfLines={2} 
+            style={{ 
+              marginTop: 2,
+              opacity: isUnavailable ? 0.6 : 1,
+            }}
+          >
+            {optionsSummary || item.menuItem.description}
+          </Text>
           <Text 
             variant="subheading" 
-            weight="medium" 
-            numberOfLines={1}
+            weight="semibold" 
             style={{ 
-              flex: 1,
+              marginTop: 4,
               opacity: isUnavailable ? 0.6 : 1,
-              textDecorationLine: isUnavailable ? 'line-through' : 'none',
             }}
           >
-            {item.menuItem.name}
+            ${getCartItemUnitPrice(item).toFixed(2)}
           </Text>
-          {isUnavailable && (
-            <Text variant="caption" color={colors.error.primary} weight="medium">
-              Unavailable
+          {item.specialInstructions && !isEditingNote && (
+            <Text
+              variant="caption"
+              color={colors.text.secondary}
+              numberOfLines={2}
+              style={{ marginTop: 4, fontStyle: 'italic' }}
+            >
+              Note: {item.specialInstructions}
             </Text>
           )}
+          {!isEditingNote && !isUnavailable && (
+            <TouchableOpacity
+              onPress={handleEditNote}
+              style={{ marginTop: 4, alignSelf: 'flex-start' }}
+              accessibilityLabel={item.specialInstructions ? 'Edit note' : 'Add note'}
+              accessibilityRole="button"
+            >
+              <Text variant="caption" weight="medium" color={colors.accent.primary}>
+                {item.specialInstructions ? 'Edit note' : 'Add note'}
+              </Text>
+            </TouchableOpacity>
+          )}
         </Box>
-        <Text 
-          variant="body" 
-          color={colors.text.secondary} 
-          numberOfLines={2} 
-          style={{ 
-            marginTop: 2,
-            opacity: isUnavailable ? 0.6 : 1,
-          }}
-        >
-          {item.menuItem.description}
-        </Text>
-        <Text 
-          variant="subheading" 
-          weight="semibold" 
-          style={{ 
-            marginTop: 4,
-            opacity: isUnavailable ? 0.6 : 1,
-          }}
-        >
-          ${item.menuItem.price.toFixed(2)}
-        </Text>
-      </Box>
 
-      {/* Quantity Controls */}
-      <Box flexDirection="row" alignItems="center" gap="sm">
-        <TouchableOpacity
-          onPress={() => onDecrement(item.menuItem.id)}
-          disabled={isUnavailable}
-          style={{
-            width: 32,
-            height: 32,
-            borderRadius: 16,
-            backgroundColor: isUnavailable ? colors.border.light : colors.background.secondary,
-            justifyContent: 'center',
-            alignItems: 'center',
-            opacity: isUnavailable ? 0.5 : 1,
-          }}
-          accessibilityLabel="Decrease quantity"
-          accessibilityRole="button"
-        >
-          <Icon 
-            name="minus" 
-            size={16} 
-            color={isUnavailable ? colors.text.tertiary : colors.text.primary} 
-          />
-        </TouchableOpacity>
-
-        <Text 
-          variant="body" 
-          weight="medium" 
-          style={{ 
-            minWidth: 24, 
-            textAlign: 'center',
-            opacity: isUnavailable ? 0.6 : 1,
-          }}
-        >
-          {item.quantity}
-        </Text>
+        {/* Quantity Controls */}
+        <Box flexDirection="row" alignItems="center" gap="sm">
+          <TouchableOpacity
+            onPress={() => onDecrement(lineId)}
+            disabled={isUnavailable}
+            style={{
+              width: 32,
+              height: 32,
+              borderRadius: 16,
+              backgroundColor: isUnavailable ? colors.border.light : colors.background.secondary,
+              justifyContent: 'center',
+              alignItems: 'center',
+              opacity: isUnavailable ? 0.5 : 1,
+            }}
+            accessibilityLabel="Decrease quantity"
+            accessibilityRole="button"
+          >
+            <Icon 
+              name="minus" 
+              size={16} 
+              color={isUnavailable ? colors.text.tertiary : colors.text.primary} 
+            />
+          </TouchableOpacity>
 
-        <TouchableOpacity
-          onPress={() => onIncrement(item.menuItem.id)}
-          disabled={isUnavailable}
-          style={{
-            width: 32,
-            height: 32,
-            borderRadius: 16,
-            backgroundColor: isUnavailable ? colors.border.light : colors.accent.primary,
-            justifyContent: 'center',
-            alignItems: 'center',
-            opacity: isUnavailable ? 0.5 : 1,
-          }}
-          accessibilityLabel="Increase quantity"
-          accessibilityRole="button"
-        >
-          <Icon 
-            name="plus" 
-            size={16} 
-            color={isUnavailable ? colors.text.tertiary : colors.background.surface} 
-          />
-        </TouchableOpacity>
+          <Text 
+            variant="body" 
+            weight="medium" 
+            style={{ 
+              minWidth: 24, 
+              textAlign: 'center',
+              opacity: isUnavailable ? 0.6 : 1,
+            }}
+          >
+            {item.quantity}
+          </Text>
 
-        <TouchableOpacity
-          onPress={handleRemove}
-          style={{
-            width: 32,
-            height: 32,
-            justifyContent: 'center',
-            alignItems: 'center',
-            marginLeft: spacing.sm,
-          }}
-          accessibilityLabel="Remove item"
-          accessibilityRole="button"
-        >
-          <Icon name="x" size={16} color={colors.error.primary} />
-        </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onIncrement(lineId)}
+            disabled={isUnavailable}
+            style={{
+              width: 32,
+              height: 32,
+              borderRadius: 16,
+              backgroundColor: isUnavailable ? colors.border.light : colors.accent.primary,
+              justifyContent: 'center',
+              alignItems: 'center',
+              opacity: isUnavailable ? 0.5 : 1,
+            }}
+            accessibilityLabel="Increase quantity"
+            accessibilityRole="button"
+          >
+            <Icon 
+              name="plus" 
+              size={16} 
+              color={isUnavailable ? colors.text.tertiary : colors.background.surface} 
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={handleRemove}
+            style={{
+              width: 32,
+              height: 32,
+              justifyContent: 'center',
+              alignItems: 'center',
+              marginLeft: spacing.sm,
+            }}
+            accessibilityLabel="Remove item"
+            accessibilityRole="button"
+          >
+            <Icon name="x" size={16} color={colors.error.primary} />
+          </TouchableOpacity>
+        </Box>
       </Box>
+
+      {/* Special Instructions Editor */}
+      {isEditingNote && (
+        <Box marginTop="md">
+          <Input
+            placeholder="e.g. No onions, sauce on the side"
+            value={noteDraft}
+            onChangeText={setNoteDraft}
+            maxLength={SPECIAL_INSTRUCTIONS_MAX_LENGTH}
+            multiline
+            error={isValidSpecialInstructions(noteDraft)
+              ? undefined
+              : `Keep notes under ${SPECIAL_INSTRUCTIONS_MAX_LENGTH} characters`}
+            accessibilityLabel="Special instructions"
+          />
+          <Box flexDirection="row" justifyContent="space-between" alignItems="center" marginTop="sm">
+            <Text variant="caption" color={colors.text.tertiary}>
+              {noteDraft.length}/{SPECIAL_INSTRUCTIONS_MAX_LENGTH}
+            </Text>
+            <Box flexDirection="row" gap="sm">
+              <Button variant="secondary" size="small" onPress={() => setIsEditingNote(false)}>
+                Cancel
+              </Button>
+              <Button variant="primary" size="small" onPress={handleSaveNote}>
+                Save
+              </Button>
+            </Box>
+          </Box>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -187,18 +259,26 @@ const CartItemRow: React.FC<CartItemRowProps> = ({
 interface PricingRowProps {
   label: string;
   value: string;
+  detail?: string; // e.g. the tax rate, under the label
   isTotal?: boolean;
 }
 
-const PricingRow: React.FC<PricingRowProps> = ({ label, value, isTotal = false }) => (
+const PricingRow: React.FC<PricingRowProps> = ({ label, value, detail, isTotal = false }) => (
   <Box flexDirection="row" justifyContent="space-between" alignItems="center" marginBottom="sm">
-    <Text 
-      variant={isTotal ? "subheading" : "body"} 
-      weight={isTotal ? "semibold" : "regular"}
-      color={isTotal ? colors.text.primary : colors.text.secondary}
-    >
-      {label}
-    </Text>
+    <Box flex={1} marginRight="md">
+      <Text 
+        variant={isTotal ? "subheading" : "body"} 
+        weight={isTotal ? "semibold" : "regular"}
+        color={isTotal ? colors.text.primary : colors.text.secondary}
+      >
+        {label}
+      </Text>
+      {detail && (
+        <Text variant="caption" color={colors.text.secondary}>
+          {detail}
+        </Text>
+      )}
+    </Box>
     <Text 
       variant={isTotal ? "subheading" : "body"} 
       weight={isTotal ? "bold" : "medium"}
@@ -209,6 +289,127 @@ const PricingRow: React.FC<PricingRowProps> = ({ label, value, isTotal = false }
   </Box>
 );
 
+interface MinimumOrderProgressProps {
+  subtotal: number;
+  minimumOrder: number;
+  remaining: number;
+}
+
+/**
+ * How far the subtotal is towards the minimum order, and what's left to add
+ */
+const MinimumOrderProgress: React.FC<MinimumOrderProgressProps> = ({ subtotal, minimumOrder, remaining }) => {
+  const percent = minimumOrder > 0 ? Math.min(100, Math.round((subtotal / minimumOrder) * 100)) : 100;
+
+  return (
+    <Box
+      backgroundColor={colors.error.background}
+      marginHorizontal="lg"
+      marginTop="md"
+      padding="md"
+      borderRadius="small"
+      testID="minimum-order-progress"
+    >
+      <Text variant="body" weight="medium" color={colors.error.text}>
+        Add ${remaining.toFixed(2)} more to meet the ${minimumOrder.toFixed(2)} minimum
+      </Text>
+      <View
+        style={{
+          height: 6,
+          marginTop: spacing.sm,
+          borderRadius: borderRadius.button.pill,
+          backgroundColor: colors.background.surface,
+          overflow: 'hidden',
+        }}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Progress towards the minimum order"
+        accessibilityValue={{ min: 0, max: 100, now: percent }}
+      >
+        <View
+          style={{ width: `${percent}%`, height: '100%', backgroundColor: colors.accent.primary }}
+          testID="minimum-order-progress-bar"
+        />
+      </View>
+    </Box>
+  );
+};
+
+interface PromoCodeEntryProps {
+  promotion: Promotion | null;
+  onApply: (code: string) => boolean;
+  onRemove: () => void;
+}
+
+/**
+ * A field to enter a promo code, or the applied one with a way to remove it
+ */
+const PromoCodeEntry: React.FC<PromoCodeEntryProps> = ({ promotion, onApply, onRemove }) => {
+  const [code, setCode] = useState('');
+
+  const handleApply = () => {
+    if (onApply(code)) {
+      setCode('');
+    }
+  };
+
+  return (
+    <Box
+      backgroundColor={colors.background.surface}
+      borderRadius="medium"
+      padding="lg"
+      marginTop="lg"
+      shadow="low"
+      testID="promo-code-entry"
+    >
+      <Text variant="subheading" weight="semibold" style={{ marginBottom: spacing.md }}>
+        Promo Code
+      </Text>
+
+      {promotion ? (
+        <Box flexDirection="row" alignItems="center" justifyContent="space-between">
+          <Box flex={1} flexDirection="row" alignItems="center" gap="sm" marginRight="md">
+            <Icon name="check-circle" size={20} color={colors.accent.primary} />
+            <Box flex={1}>
+              <Text variant="body" weight="semibold">
+                {promotion.code}
+              </Text>
+              <Text variant="caption" color={colors.text.secondary}>
+                {promotion.description}
+              </Text>
+            </Box>
+          </Box>
+          <Button
+            variant="secondary"
+            size="small"
+            onPress={onRemove}
+            accessibilityLabel={`Remove promo code ${promotion.code}`}
+          >
+            Remove
+          </Button>
+        </Box>
+      ) : (
+        <Box flexDirection="row" alignItems="center" gap="sm">
+          <Box flex={1}>
+            <Input
+              placeholder="Enter promo code"
+              value={code}
+              onChangeText={setCode}
+              onSubmitEditing={handleApply}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              returnKeyType="done"
+              accessibilityLabel="Promo code"
+            />
+          </Box>
+          <Button variant="primary" size="small" onPress={handleApply} disabled={!code.trim()}>
+            Apply
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
 export const CartScreen: React.FC = () => {
   const navigation = useNavigation<CartScreenNavigationProp>();
   const {
@@ -218,16 +419,23 @@ export const CartScreen: React.FC = () => {
     deliveryFee,
     tax,
     total,
+    priceLines,
     isEmpty,
     itemCount,
+    minimumOrder,
     isMinimumOrderMet,
     remainingForMinimum,
+    promotion,
+    promotionError,
     errors,
     hasErrors,
     incrementItem,
     decrementItem,
     removeItem,
+    updateSpecialInstructions,
     clearCart,
+    applyPromoCode,
+    removePromoCode,
     checkForErrors,
     dismissError,
     updateItemPrice,
@@ -381,11 +589,14 @@ export const CartScreen: React.FC = () => {
                       dismissError(index);
                     },
                   }
-                : error.type === 'unavailable_item' && error.itemId
+                : (error.type === 'unavailable_item' || error.type === 'allergen_conflict') && error.itemId
                 ? {
                     label: 'Remove',
                     onPress: () => {
-                      removeItem(error.itemId!);
+                      // Remove every line of the item, whatever options were chosen
+                      items
+                        .filter(item => item.menuItem.id === error.itemId)
+                        .forEach(item => removeItem(getCartLineId(item)));
                       dismissError(index);
                     },
                   }
@@ -395,21 +606,25 @@ export const CartScreen: React.FC = () => {
         </Box>
       ))}
 
-      {/* Minimum Order Warning */}
-      {!isMinimumOrderMet && restaurant && (
-        <Box
-          backgroundColor={colors.error.background}
-          marginHorizontal="lg"
-          marginTop="md"
-          padding="md"
-          borderRadius="small"
-        >
-          <Text variant="body" weight="medium" color={colors.background.surface}>
-            Add ${remainingForMinimum.toFixed(2)} more to meet the ${restaurant.minimumOrder.toFixed(2)} minimum
-          </Text>
+      {/* A promo code the cart no longer qualifies for */}
+      {promotionError && (
+        <Box marginHorizontal="lg" marginTop="md">
+          <ErrorBanner
+            message={promotionError.message}
+            action={{ label: 'Remove', onPress: removePromoCode }}
+          />
         </Box>
       )}
 
+      {/* Minimum Order Progress */}
+      {!isMinimumOrderMet && restaurant && (
+        <MinimumOrderProgress
+          subtotal={subtotal}
+          minimumOrder={minimumOrder}
+          remaining={remainingForMinimum}
+        />
+      )}
+
       {/* Cart Items */}
       <ScrollView
         style={{ flex: 1 }}
@@ -418,18 +633,21 @@ export const CartScreen: React.FC = () => {
       >
         <FlatList
           data={items}
-          keyExtractor={(item) => item.menuItem.id}
+          keyExtractor={(item) => getCartLineId(item)}
           renderItem={({ item }) => (
             <CartItemRow
               item={item}
               onIncrement={incrementItem}
               onDecrement={decrementItem}
               onRemove={removeItem}
+              onUpdateInstructions={updateSpecialInstructions}
             />
           )}
           scrollEnabled={false}
         />
 
+        <PromoCodeEntry promotion={promotion} onApply={applyPromoCode} onRemove={removePromoCode} />
+
         {/* Pricing Breakdown */}
         <Box
           backgroundColor={colors.background.surface}
@@ -442,9 +660,14 @@ export const CartScreen: React.FC = () => {
             Order Summary
           </Text>
           
-          <PricingRow label="Subtotal" value={`$${subtotal.toFixed(2)}`} />
-          <PricingRow label="Delivery Fee" value={`$${deliveryFee.toFixed(2)}`} />
-          <PricingRow label="Tax" value={`$${tax.toFixed(2)}`} />
+          {getPriceLines({ subtotal, deliveryFee, tax, priceLines }).map(line => (
+            <PricingRow
+              key={line.type}
+              label={line.label}
+              value={formatCents(line.amountCents)}
+              detail={line.detail}
+            />
+          ))}
           
           <Box
             height={1}
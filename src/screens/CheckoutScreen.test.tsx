@@ -80,16 +80,27 @@ describe('CheckoutScreen', () => {
       deliveryFee: 2.99,
       tax: 1.30,
       total: 17.28,
+      priceLines: [],
+      discount: 0,
       itemCount: 1,
       isEmpty: false,
+      deliveryLocation: undefined,
+      deliveryZone: null,
+      minimumOrder: 15,
       isMinimumOrderMet: true,
       remainingForMinimum: 0,
+      promotion: null,
+      promotionError: null,
       errors: [],
       hasErrors: false,
       addItem: jest.fn(),
       removeItem: jest.fn(),
       updateQuantity: jest.fn(),
+      updateSpecialInstructions: jest.fn(),
       clearCart: jest.fn(),
+      setDeliveryLocation: jest.fn(),
+      applyPromoCode: jest.fn(),
+      removePromoCode: jest.fn(),
       incrementItem: jest.fn(),
       decrementItem: jest.fn(),
       checkForErrors: jest.fn(),
@@ -122,6 +133,7 @@ describe('CheckoutScreen', () => {
         preferences: {
           dietaryRestrictions: [],
           favoriteCuisines: [],
+          allergens: [],
         },
       },
       getDefaultAddress: jest.fn(() => null),
@@ -5,20 +5,28 @@
  * order summary, and confirmation
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { Box, Text, Button, Input, Icon, AddressAutocomplete, AddPaymentMethodModal } from '../components';
+import { Box, Text, Button, Input, Icon, AddressAutocomplete, AddPaymentMethodModal, FilterPill, TipSelector } from '../components';
 import { useCart } from '../hooks/useCart';
+import { usePlaceOrder } from '../hooks/usePlaceOrder';
+import { useDeliverySlots } from '../hooks/useDeliverySlots';
 import { useUserStore } from '../stores/userStore';
+import { useCartStore } from '../stores/cartStore';
 import { colors, spacing, borderRadius } from '../designSystem/tokens';
 import { 
   RootStackParamList, 
   Address, 
+  AppError,
   PaymentMethod, 
   CheckoutFormData,
-  FormErrors 
+  DeliverySlot,
+  DeliverySlotAvailability,
+  FormErrors,
+  PriceLine,
+  TipChoice
 } from '../types';
 import { 
   isValidEmail, 
@@ -28,9 +36,22 @@ import {
   isNotEmpty,
   formatPhoneNumber 
 } from '../utils/validationUtils';
+import { getAllergenConflicts } from '../utils/dietaryUtils';
+import { isKnownLocation } from '../utils/geoUtils';
+import { formatDeliverySlot, formatSlotDay, formatSlotTimes, getSlotError, isSameSlot } from '../utils/scheduleUtils';
+import { getOpeningStatus } from '../utils/openingHoursUtils';
+import { formatCents, toCents } from '../utils/pricingUtils';
+import { DEFAULT_TIP, createOrderTip, getTipError, withTip } from '../utils/tipUtils';
+import { deliveryZoneService } from '../services/deliveryZoneService';
+import { API_ERROR_CODES, isAppError } from '../services/apiClient';
+import { PROMO_CODE_ERROR } from '../services/promotionService';
 
 type CheckoutScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Checkout'>;
 
+// Address, delivery time, payment, tip, then review
+const TIP_STEP = 4;
+const REVIEW_STEP = 5;
+
 interface ProgressStepProps {
   step: number;
   currentStep: number;
@@ -205,6 +226,183 @@ const AddressSection: React.FC<AddressSectionProps> = ({
   );
 };
 
+interface DeliveryTimeSectionProps {
+  isScheduled: boolean;
+  selectedSlot?: DeliverySlot;
+  asapEstimate?: string;
+  slots: DeliverySlotAvailability[];
+  isLoadingSlots: boolean;
+  slotsError: AppError | null;
+  error?: string;
+  onScheduledChange: (isScheduled: boolean) => void;
+  onSlotSelect: (slot: DeliverySlot) => void;
+  onRetry: () => void;
+}
+
+// Show how many places are left once a slot is nearly full
+const FEW_PLACES_LEFT = 3;
+
+const DeliveryTimeSection: React.FC<DeliveryTimeSectionProps> = ({
+  isScheduled,
+  selectedSlot,
+  asapEstimate,
+  slots,
+  isLoadingSlots,
+  slotsError,
+  error,
+  onScheduledChange,
+  onSlotSelect,
+  onRetry,
+}) => {
+  const days = Array.from(new Set(slots.map(slot => formatSlotDay(slot))));
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const activeDay = selectedDay && days.includes(selectedDay)
+    ? selectedDay
+    : selectedSlot ? formatSlotDay(selectedSlot) : days[0];
+  const daySlots = slots.filter(slot => formatSlotDay(slot) === activeDay);
+
+  const renderOption = (scheduled: boolean, title: string, subtitle: string, testID: string) => {
+    const isSelected = isScheduled === scheduled;
+
+    return (
+      <TouchableOpacity
+        onPress={() => onScheduledChange(scheduled)}
+        accessibilityRole="radio"
+        accessibilityState={{ selected: isSelected }}
+        style={{
+          backgroundColor: colors.background.surface,
+          borderRadius: borderRadius.medium,
+          padding: spacing.lg,
+          marginBottom: spacing.md,
+          borderWidth: 2,
+          borderColor: isSelected ? colors.accent.primary : colors.border.light,
+        }}
+        testID={testID}
+      >
+        <Box flexDirection="row" alignItems="center" justifyContent="space-between">
+          <Box flexDirection="row" alignItems="center" flex={1}>
+            <Icon name={scheduled ? 'clock' : 'truck'} size={20} color={colors.text.secondary} />
+            <Box marginLeft="md" flex={1}>
+              <Text variant="body" weight="medium">{title}</Text>
+              <Text variant="caption" color={colors.text.secondary}>{subtitle}</Text>
+            </Box>
+          </Box>
+          {isSelected && (
+            <Icon name="check-circle" size={20} color={colors.accent.primary} />
+          )}
+        </Box>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Box>
+      <Text variant="subheading" weight="semibold" style={{ marginBottom: spacing.lg }}>
+        Delivery Time
+      </Text>
+
+      {renderOption(false, 'As soon as possible', asapEstimate ? `Usually ${asapEstimate}` : 'Delivered once it\'s ready', 'delivery-time-asap')}
+      {renderOption(true, 'Schedule for later', selectedSlot ? formatDeliverySlot(selectedSlot) : 'Pick a delivery time', 'delivery-time-scheduled')}
+
+      {isScheduled && (
+        <Box marginTop="sm" testID="delivery-slot-picker">
+          {isLoadingSlots ? (
+            <Text variant="body" color={colors.text.secondary}>
+              Loading delivery times...
+            </Text>
+          ) : slotsError ? (
+            <Box alignItems="flex-start">
+              <Text variant="body" color={colors.error.text} style={{ marginBottom: spacing.sm }}>
+                {slotsError.message}
+              </Text>
+              <Button variant="secondary" size="small" onPress={onRetry}>
+                Try Again
+              </Button>
+            </Box>
+          ) : slots.length === 0 ? (
+            <Text variant="body" color={colors.text.secondary}>
+              No delivery times are available over the next few days.
+            </Text>
+          ) : (
+            <Box>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: spacing.md }}>
+                <Box flexDirection="row" gap="sm">
+                  {days.map(day => (
+                    <FilterPill
+                      key={day}
+                      label={day}
+                      selected={day === activeDay}
+                      onPress={() => setSelectedDay(day)}
+                      accessibilityLabel={`Delivery times for ${day}`}
+                      testID={`delivery-day-${day}`}
+                    />
+                  ))}
+                </Box>
+              </ScrollView>
+
+              <Box flexDirection="row" flexWrap="wrap" gap="sm">
+                {daySlots.map(slot => {
+                  const isFull = slot.remaining <= 0;
+                  const times = formatSlotTimes(slot);
+                  const label = isFull
+                    ? `${times} · Full`
+                    : slot.remaining <= FEW_PLACES_LEFT
+                    ? `${times} · ${slot.remaining} left`
+                    : times;
+
+                  return (
+                    <FilterPill
+                      key={slot.start.toISOString()}
+                      label={label}
+                      selected={!!selectedSlot && isSameSlot(slot, selectedSlot)}
+                      disabled={isFull}
+                      onPress={() => onSlotSelect({ start: slot.start, end: slot.end })}
+                      accessibilityLabel={`Deliver ${formatDeliverySlot(slot)}`}
+                      testID={`delivery-slot-${slot.start.toISOString()}`}
+                    />
+                  );
+                })}
+              </Box>
+            </Box>
+          )}
+
+          {error && (
+            <Text variant="caption" color={colors.error.text} style={{ marginTop: spacing.sm }}>
+              {error}
+            </Text>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+interface TipSectionProps {
+  subtotal: number;
+  tip: TipChoice;
+  error?: string;
+  onTipChange: (tip: TipChoice) => void;
+}
+
+const TipSection: React.FC<TipSectionProps> = ({ subtotal, tip, error, onTipChange }) => (
+  <Box>
+    <Text variant="subheading" weight="semibold" style={{ marginBottom: spacing.sm }}>
+      Driver Tip
+    </Text>
+    <Text variant="body" color={colors.text.secondary} style={{ marginBottom: spacing.lg }}>
+      All of it goes to your driver. You can change it after delivery.
+    </Text>
+    <Box
+      backgroundColor={colors.background.surface}
+      borderRadius="medium"
+      padding="lg"
+      shadow="low"
+    >
+      <TipSelector subtotal={subtotal} value={tip} onChange={onTipChange} error={error} />
+    </Box>
+  </Box>
+);
+
 interface PaymentSectionProps {
   selectedPaymentMethod: PaymentMethod | null;
   onPaymentMethodSelect: (method: PaymentMethod) => void;
@@ -316,18 +514,75 @@ const PaymentSection: React.FC<PaymentSectionProps> = ({
   );
 };
 
+interface AllergenConflict {
+  itemName: string;
+  allergens: string[];
+}
+
+interface AllergenAcknowledgementProps {
+  conflicts: AllergenConflict[];
+  isAcknowledged: boolean;
+  onToggle: () => void;
+}
+
+const AllergenAcknowledgement: React.FC<AllergenAcknowledgementProps> = ({
+  conflicts,
+  isAcknowledged,
+  onToggle,
+}) => {
+  return (
+    <Box
+      backgroundColor={colors.background.surface}
+      borderRadius="medium"
+      padding="lg"
+      marginBottom="lg"
+      shadow="low"
+      style={{ borderWidth: 2, borderColor: colors.error.primary }}
+      testID="allergen-acknowledgement"
+    >
+      <Text variant="body" weight="semibold" color={colors.error.primary} style={{ marginBottom: spacing.sm }}>
+        Allergen Warning
+      </Text>
+      {conflicts.map(conflict => (
+        <Text key={conflict.itemName} variant="body" color={colors.text.secondary}>
+          {conflict.itemName} contains {conflict.allergens.join(', ')}
+        </Text>
+      ))}
+      
+      <TouchableOpacity
+        onPress={onToggle}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: isAcknowledged }}
+        style={{ flexDirection: 'row', alignItems: 'center', marginTop: spacing.md }}
+        testID="allergen-acknowledgement-toggle"
+      >
+        <Box
+          width={20}
+          height={20}
+          borderRadius="small"
+          alignItems="center"
+          justifyContent="center"
+          backgroundColor={isAcknowledged ? colors.accent.primary : colors.background.surface}
+          style={{ borderWidth: 1, borderColor: isAcknowledged ? colors.accent.primary : colors.border.medium }}
+        >
+          {isAcknowledged && <Icon name="check" size={14} color={colors.background.surface} />}
+        </Box>
+        <Text variant="body" weight="medium" style={{ marginLeft: spacing.sm, flex: 1 }}>
+          I understand my order contains these allergens
+        </Text>
+      </TouchableOpacity>
+    </Box>
+  );
+};
+
 interface OrderSummaryProps {
-  subtotal: number;
-  deliveryFee: number;
-  tax: number;
+  priceLines: PriceLine[];
   total: number;
   itemCount: number;
 }
 
 const OrderSummary: React.FC<OrderSummaryProps> = ({ 
-  subtotal, 
-  deliveryFee, 
-  tax, 
+  priceLines, 
   total, 
   itemCount 
 }) => {
@@ -342,20 +597,19 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
         Order Summary ({itemCount} {itemCount === 1 ? 'item' : 'items'})
       </Text>
       
-      <Box flexDirection="row" justifyContent="space-between" marginBottom="sm">
-        <Text variant="body" color={colors.text.secondary}>Subtotal</Text>
-        <Text variant="body" weight="medium">${subtotal.toFixed(2)}</Text>
-      </Box>
-      
-      <Box flexDirection="row" justifyContent="space-between" marginBottom="sm">
-        <Text variant="body" color={colors.text.secondary}>Delivery Fee</Text>
-        <Text variant="body" weight="medium">${deliveryFee.toFixed(2)}</Text>
-      </Box>
-      
-      <Box flexDirection="row" justifyContent="space-between" marginBottom="md">
-        <Text variant="body" color={colors.text.secondary}>Tax</Text>
-        <Text variant="body" weight="medium">${tax.toFixed(2)}</Text>
-      </Box>
+      {priceLines.map((line, index) => (
+        <Box
+          key={line.type}
+          flexDirection="row"
+          justifyContent="space-between"
+          marginBottom={index === priceLines.length - 1 ? 'md' : 'sm'}
+        >
+          <Text variant="body" color={colors.text.secondary}>
+            {line.label}{line.detail ? ` (${line.detail})` : ''}
+          </Text>
+          <Text variant="body" weight="medium">{formatCents(line.amountCents)}</Text>
+        </Box>
+      ))}
       
       <Box
         height={1}
@@ -365,7 +619,7 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
       
       <Box flexDirection="row" justifyContent="space-between">
         <Text variant="subheading" weight="semibold">Total</Text>
-        <Text variant="subheading" weight="bold">${total.toFixed(2)}</Text>
+        <Text variant="subheading" weight="bold">{formatCents(toCents(total))}</Text>
       </Box>
     </Box>
   );
@@ -380,8 +634,12 @@ export const CheckoutScreen: React.FC = () => {
     deliveryFee, 
     tax, 
     total, 
+    priceLines,
     itemCount,
-    isEmpty 
+    isEmpty,
+    setDeliveryLocation,
+    checkForErrors,
+    removePromoCode,
   } = useCart();
   const { 
     user, 
@@ -411,11 +669,34 @@ export const CheckoutScreen: React.FC = () => {
       email: user?.email || '',
       phone: user?.phone || '',
     },
+    tip: user?.preferences.lastTip ?? DEFAULT_TIP,
   });
   const [errors, setErrors] = useState<FormErrors>({});
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { placeOrder, isPlacingOrder: isSubmitting } = usePlaceOrder();
+  // Placing an order empties the cart; don't treat that as abandoning checkout
+  const isCompletingOrderRef = useRef(false);
   const [addressInputText, setAddressInputText] = useState('');
   const [isAddPaymentModalVisible, setIsAddPaymentModalVisible] = useState(false);
+  const [hasAcknowledgedAllergens, setHasAcknowledgedAllergens] = useState(false);
+  const [isScheduled, setIsScheduled] = useState(false);
+  // Slots are only loaded once the customer wants to schedule
+  const {
+    slots: deliverySlots,
+    isLoading: isLoadingSlots,
+    error: slotsError,
+    refresh: refreshSlots,
+  } = useDeliverySlots(isScheduled ? restaurant?.id : undefined);
+
+  // Items containing the user's allergens, once per menu item
+  const userAllergens = user?.preferences.allergens ?? [];
+  const allergenConflicts: AllergenConflict[] = [];
+  items.forEach(item => {
+    const allergens = getAllergenConflicts(item.menuItem, userAllergens);
+    if (allergens.length > 0 && !allergenConflicts.some(conflict => conflict.itemName === item.menuItem.name)) {
+      allergenConflicts.push({ itemName: item.menuItem.name, allergens });
+    }
+  });
+  const needsAllergenAcknowledgement = allergenConflicts.length > 0 && !hasAcknowledgedAllergens;
 
   // Initialize form with user's default data
   useEffect(() => {
@@ -454,9 +735,17 @@ export const CheckoutScreen: React.FC = () => {
     }
   }, [getDefaultAddress, getDefaultPaymentMethod, user]);
 
+  // Price delivery for the address being checked out, once it has a location
+  const { latitude, longitude } = formData.deliveryAddress.coordinates;
+  const deliveryState = formData.deliveryAddress.state;
+  useEffect(() => {
+    const coordinates = { latitude, longitude };
+    setDeliveryLocation(isKnownLocation(coordinates) ? coordinates : undefined, deliveryState || undefined);
+  }, [latitude, longitude, deliveryState, setDeliveryLocation]);
+
   // Redirect if cart is empty
   useEffect(() => {
-    if (isEmpty) {
+    if (isEmpty && !isCompletingOrderRef.current) {
       navigation.navigate('Home');
     }
   }, [isEmpty, navigation]);
@@ -560,6 +849,31 @@ export const CheckoutScreen: React.FC = () => {
     }));
   };
 
+  const handleScheduledChange = (scheduled: boolean) => {
+    setIsScheduled(scheduled);
+    setFormData(prev => ({
+      ...prev,
+      deliverySlot: scheduled ? prev.deliverySlot : undefined,
+    }));
+    setErrors(prev => ({ ...prev, deliverySlot: undefined }));
+  };
+
+  const handleSlotSelect = (slot: DeliverySlot) => {
+    setFormData(prev => ({
+      ...prev,
+      deliverySlot: slot,
+    }));
+    setErrors(prev => ({ ...prev, deliverySlot: undefined }));
+  };
+
+  const handleTipChange = (tip: TipChoice) => {
+    setFormData(prev => ({
+      ...prev,
+      tip,
+    }));
+    setErrors(prev => ({ ...prev, tip: undefined }));
+  };
+
   const validateField = (field: string, value: string) => {
     let error: string | undefined;
     
@@ -648,7 +962,41 @@ export const CheckoutScreen: React.FC = () => {
         );
         return false;
       }
+
+      // Located addresses must be in a delivery zone, and meet its minimum.
+      // The cart already delivers to this location, so its minimum is the zone's.
+      const coordinates = formData.deliveryAddress.coordinates;
+      if (Object.keys(newErrors).length === 0 && isKnownLocation(coordinates)) {
+        const zone = deliveryZoneService.findZone(coordinates);
+        const minimumOrderError = useCartStore.getState().getMinimumOrderError();
+
+        if (!zone) {
+          newErrors.street = 'Sorry, we don\'t deliver to this address yet';
+        } else if (minimumOrderError) {
+          Alert.alert(
+            'Minimum Order Not Met',
+            `Orders delivered to ${zone.name} have a minimum. ${minimumOrderError.message}.`,
+            [{ text: 'OK' }]
+          );
+          return false;
+        }
+      }
     } else if (step === 2) {
+      // Scheduled orders need a slot the restaurant is open for and has room in
+      const slot = formData.deliverySlot;
+      if (isScheduled && !slot) {
+        newErrors.deliverySlot = 'Please choose a delivery time';
+      } else if (slot && restaurant) {
+        const availability = deliverySlots.find(candidate => isSameSlot(candidate, slot));
+        const slotError = getSlotError(restaurant, slot);
+
+        if (slotError) {
+          newErrors.deliverySlot = slotError;
+        } else if (availability && availability.remaining <= 0) {
+          newErrors.deliverySlot = 'That delivery time is fully booked. Please choose another time.';
+        }
+      }
+    } else if (step === 3) {
       // Validate payment method selection
       if (!formData.paymentMethod.id) {
         Alert.alert(
@@ -658,6 +1006,11 @@ export const CheckoutScreen: React.FC = () => {
         );
         return false;
       }
+    } else if (step === TIP_STEP) {
+      const tipError = formData.tip ? getTipError(formData.tip) : null;
+      if (tipError) {
+        newErrors.tip = tipError;
+      }
     }
     
     setErrors(newErrors);
@@ -666,7 +1019,7 @@ export const CheckoutScreen: React.FC = () => {
 
   const handleNextStep = () => {
     if (validateStep(currentStep)) {
-      setCurrentStep(prev => Math.min(prev + 1, 3));
+      setCurrentStep(prev => Math.min(prev + 1, REVIEW_STEP));
     }
   };
 
@@ -675,8 +1028,11 @@ export const CheckoutScreen: React.FC = () => {
   };
 
   const handlePlaceOrder = async () => {
+    // Ignore repeat taps while the order is being placed
+    if (isSubmitting || isCompletingOrderRef.current) return;
+
     // Validate all steps before placing order
-    if (!validateStep(1) || !validateStep(2)) {
+    if (!validateStep(1) || !validateStep(2) || !validateStep(3) || !validateStep(TIP_STEP)) {
       Alert.alert(
         'Incomplete Information',
         'Please review and complete all required fields before placing your order.',
@@ -684,32 +1040,96 @@ export const CheckoutScreen: React.FC = () => {
       );
       return;
     }
+
+    if (needsAllergenAcknowledgement) {
+      Alert.alert(
+        'Allergen Warning',
+        'Please confirm you understand your order contains your allergens.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    // The restaurant may have closed since the cart was checked; scheduled
+    // orders were checked against its hours with their slot
+    const openingStatus = restaurant && !formData.deliverySlot ? getOpeningStatus(restaurant) : null;
+    if (restaurant && openingStatus?.state === 'closed') {
+      // Flags the cart too, so it shows why the order can't go through
+      checkForErrors();
+      const reopening = openingStatus.opensAt ? ` ${openingStatus.label}.` : '';
+      Alert.alert(
+        'Restaurant Closed',
+        `${restaurant.name} is currently closed.${reopening} You can schedule your order for later instead.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
     
-    setIsSubmitting(true);
+    isCompletingOrderRef.current = true;
     
     try {
-      // Simulate order placement with validation
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const order = await placeOrder({
+        ...formData,
+        deliveryAddress: {
+          ...formData.deliveryAddress,
+          street: formData.deliveryAddress.street || addressInputText,
+        },
+      });
       
       // Navigate to order confirmation
-      navigation.navigate('OrderConfirmation', { orderId: 'order-123' });
+      navigation.navigate('OrderConfirmation', { orderId: order.id });
     } catch (error) {
+      isCompletingOrderRef.current = false;
+
+      // The promo code no longer applies: the order can go through without it
+      if (isAppError(error) && error.code === PROMO_CODE_ERROR) {
+        Alert.alert('Promo Code Not Applied', error.message, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Remove Code and Continue',
+            onPress: () => {
+              removePromoCode();
+              handlePlaceOrder();
+            },
+          },
+        ]);
+        return;
+      }
+
+      // Someone else took the last place in the slot, or it's no longer open
+      if (
+        formData.deliverySlot &&
+        isAppError(error) &&
+        (error.code === API_ERROR_CODES.CONFLICT || error.code === API_ERROR_CODES.VALIDATION_ERROR)
+      ) {
+        refreshSlots();
+        setCurrentStep(2);
+        Alert.alert('Delivery Time Unavailable', error.message, [{ text: 'OK' }]);
+        return;
+      }
+
       Alert.alert(
         'Order Failed',
         'There was an issue placing your order. Please try again.',
         [{ text: 'OK' }]
       );
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
   const steps = [
     { title: 'Address', isCompleted: currentStep > 1 },
-    { title: 'Payment', isCompleted: currentStep > 2 },
+    { title: 'Time', isCompleted: currentStep > 2 },
+    { title: 'Payment', isCompleted: currentStep > 3 },
+    { title: 'Tip', isCompleted: currentStep > TIP_STEP },
     { title: 'Review', isCompleted: false },
   ];
 
+  // What the order comes to with the tip
+  const tippedTotals = withTip(
+    { subtotal, deliveryFee, tax, total, priceLines },
+    createOrderTip(formData.tip, subtotal)
+  );
+
   if (isEmpty) {
     return null; // Will redirect in useEffect
   }
@@ -769,6 +1189,21 @@ export const CheckoutScreen: React.FC = () => {
         )}
         
         {currentStep === 2 && (
+          <DeliveryTimeSection
+            isScheduled={isScheduled}
+            selectedSlot={formData.deliverySlot}
+            asapEstimate={restaurant?.deliveryTime}
+            slots={deliverySlots}
+            isLoadingSlots={isLoadingSlots}
+            slotsError={slotsError}
+            error={errors.deliverySlot}
+            onScheduledChange={handleScheduledChange}
+            onSlotSelect={handleSlotSelect}
+            onRetry={refreshSlots}
+          />
+        )}
+        
+        {currentStep === 3 && (
           <PaymentSection
             selectedPaymentMethod={formData.paymentMethod}
             onPaymentMethodSelect={handlePaymentMethodSelect}
@@ -777,7 +1212,16 @@ export const CheckoutScreen: React.FC = () => {
           />
         )}
         
-        {currentStep === 3 && (
+        {currentStep === TIP_STEP && (
+          <TipSection
+            subtotal={subtotal}
+            tip={formData.tip ?? DEFAULT_TIP}
+            error={errors.tip}
+            onTipChange={handleTipChange}
+          />
+        )}
+        
+        {currentStep === REVIEW_STEP && (
           <Box>
             <Text variant="subheading" weight="semibold" style={{ marginBottom: spacing.lg }}>
               Review Your Order
@@ -826,6 +1270,24 @@ export const CheckoutScreen: React.FC = () => {
               )}
             </Box>
             
+            {/* Delivery Time Summary */}
+            <Box
+              backgroundColor={colors.background.surface}
+              borderRadius="medium"
+              padding="lg"
+              marginBottom="lg"
+              shadow="low"
+            >
+              <Text variant="body" weight="medium" style={{ marginBottom: spacing.sm }}>
+                Delivery Time
+              </Text>
+              <Text variant="body" color={colors.text.secondary} testID="review-delivery-time">
+                {formData.deliverySlot
+                  ? formatDeliverySlot(formData.deliverySlot)
+                  : `As soon as possible${restaurant ? ` (${restaurant.deliveryTime})` : ''}`}
+              </Text>
+            </Box>
+            
             {/* Payment Summary */}
             <Box
               backgroundColor={colors.background.surface}
@@ -853,12 +1315,19 @@ export const CheckoutScreen: React.FC = () => {
               </Box>
             </Box>
             
+            {/* Allergen Acknowledgement */}
+            {allergenConflicts.length > 0 && (
+              <AllergenAcknowledgement
+                conflicts={allergenConflicts}
+                isAcknowledged={hasAcknowledgedAllergens}
+                onToggle={() => setHasAcknowledgedAllergens(prev => !prev)}
+              />
+            )}
+            
             {/* Order Summary */}
             <OrderSummary
-              subtotal={subtotal}
-              deliveryFee={deliveryFee}
-              tax={tax}
-              total={total}
+              priceLines={tippedTotals.priceLines}
+              total={tippedTotals.total}
               itemCount={itemCount}
             />
           </Box>
@@ -887,14 +1356,14 @@ export const CheckoutScreen: React.FC = () => {
           <Button
             variant="primary"
             size="large"
-            onPress={currentStep === 3 ? handlePlaceOrder : handleNextStep}
-            disabled={isSubmitting}
+            onPress={currentStep === REVIEW_STEP ? handlePlaceOrder : handleNextStep}
+            disabled={isSubmitting || (currentStep === REVIEW_STEP && needsAllergenAcknowledgement)}
             style={{ flex: currentStep === 1 ? 1 : 2 }}
           >
             {isSubmitting 
               ? 'Placing Order...' 
-              : currentStep === 3 
-              ? `Place Order • $${total.toFixed(2)}` 
+              : currentStep === REVIEW_STEP 
+              ? `Place Order • ${formatCents(toCents(tippedTotals.total))}` 
               : 'Continue'
             }
           </Button>
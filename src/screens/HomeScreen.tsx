@@ -6,6 +6,7 @@ import {
   RefreshControl,
   StyleSheet,
   Dimensions,
+  Keyboard,
 } from 'react-native';
 import { 
   Box, 
@@ -22,7 +23,11 @@ import {
 } from '../components';
 import { useRestaurants, useSearch } from '../hooks';
 import { colors, spacing } from '../designSystem/tokens';
-import { Restaurant } from '../types';
+import { MenuItem as MenuItemType, PriceTier, Restaurant, SearchSuggestion } from '../types';
+import { PRICE_TIERS, describePriceTier, formatPriceTier } from '../utils/priceTierUtils';
+import { SORT_OPTIONS, SortOption } from '../utils/sortUtils';
+import { DELIVERY_RADIUS_KM, NEARBY_OPTIONS, NearbyOption, getDeliveryEstimate } from '../utils/nearbyUtils';
+import { locationService } from '../services/locationService';
 
 const { width: screenWidth } = Dimensions.get('window');
 const CARD_WIDTH = (screenWidth - spacing.lg * 3) / 2; // 2 columns with spacing
@@ -43,16 +48,32 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const {
     query,
     results,
+    dishResults,
     availableCuisines,
+    availableDietaryOptions,
     filters,
     addCuisineFilter,
     removeCuisineFilter,
+    toggleDietaryFilter,
+    togglePriceTier,
+    sortMode,
+    setSortMode,
+    nearbyMode,
+    setNearbyMode,
+    discoveryOrigin,
+    isLocating,
+    locationError,
     setQuery,
+    showResults,
     showEmptyState,
     emptyStateContent,
     emptyStateAction,
     clearSearch,
     clearAllFilters,
+    suggestions,
+    recordSearch,
+    applySuggestion,
+    toggleSavedSearch,
   } = useSearch();
 
   const [refreshing, setRefreshing] = useState(false);
@@ -80,10 +101,35 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }
   }, [filters.cuisineTypes, addCuisineFilter, removeCuisineFilter]);
 
-  // Handle restaurant selection
+  // Handle restaurant selection; opening a search result remembers the search
   const handleRestaurantPress = useCallback((restaurant: Restaurant) => {
+    if (showResults) {
+      recordSearch();
+    }
     navigation.navigate('RestaurantDetail', { restaurantId: restaurant.id });
-  }, [navigation]);
+  }, [navigation, showResults, recordSearch]);
+
+  // Handle dish selection from search, opening the menu at that dish
+  const handleDishPress = useCallback((restaurant: Restaurant, menuItem: MenuItemType) => {
+    recordSearch();
+    navigation.navigate('RestaurantDetail', {
+      restaurantId: restaurant.id,
+      menuItemId: menuItem.id,
+    });
+  }, [navigation, recordSearch]);
+
+  // Handle search suggestion selection
+  const handleSuggestionPress = useCallback((suggestion: SearchSuggestion) => {
+    Keyboard.dismiss();
+    applySuggestion(suggestion);
+  }, [applySuggestion]);
+
+  // Pin or unpin a search from history
+  const handleSuggestionPinToggle = useCallback((suggestion: SearchSuggestion) => {
+    if (suggestion.historyEntryId) {
+      toggleSavedSearch(suggestion.historyEntryId);
+    }
+  }, [toggleSavedSearch]);
 
   // Handle spin wheel press
   const handleSpinPress = useCallback(() => {
@@ -106,18 +152,25 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   ), [handleRestaurantPress]);
 
   // Render restaurant grid item
-  const renderRestaurantItem = useCallback(({ item, index }: { item: Restaurant; index: number }) => (
-    <Box 
-      width={CARD_WIDTH}
-      marginRight={index % 2 === 0 ? 'md' : undefined}
-      marginBottom="md"
-    >
-      <RestaurantCard 
-        restaurant={item}
-        onPress={() => handleRestaurantPress(item)}
-      />
-    </Box>
-  ), [handleRestaurantPress]);
+  const renderRestaurantItem = useCallback(({ item, index }: { item: Restaurant; index: number }) => {
+    const estimate = getDeliveryEstimate(item, discoveryOrigin);
+
+    return (
+      <Box 
+        width={CARD_WIDTH}
+        marginRight={index % 2 === 0 ? 'md' : undefined}
+        marginBottom="md"
+      >
+        <RestaurantCard 
+          restaurant={item}
+          onPress={() => handleRestaurantPress(item)}
+          searchQuery={showResults ? query : undefined}
+          distanceKm={estimate?.distanceKm}
+          estimatedDeliveryTime={estimate?.deliveryTime}
+        />
+      </Box>
+    );
+  }, [handleRestaurantPress, showResults, query, discoveryOrigin]);
 
   // Render filter pill item
   const renderFilterPill = useCallback(({ item }: { item: string }) => (
@@ -130,8 +183,70 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     </Box>
   ), [filters.cuisineTypes, handleCuisineFilter]);
 
-  // Get display restaurants (search results or all restaurants)
-  const displayRestaurants = query.length > 0 ? results : restaurants;
+  // Render dietary filter pill item
+  const renderDietaryPill = useCallback(({ item }: { item: string }) => (
+    <Box marginRight="sm">
+      <FilterPill
+        label={item}
+        selected={filters.dietaryRestrictions.includes(item)}
+        onPress={() => toggleDietaryFilter(item)}
+      />
+    </Box>
+  ), [filters.dietaryRestrictions, toggleDietaryFilter]);
+
+  // Render price tier filter pill item
+  const renderPriceTierPill = useCallback(({ item }: { item: PriceTier }) => (
+    <Box marginRight="sm">
+      <FilterPill
+        label={formatPriceTier(item)}
+        selected={filters.priceTiers?.includes(item) ?? false}
+        onPress={() => togglePriceTier(item)}
+        accessibilityLabel={`${describePriceTier(item)} price filter`}
+        testID={`price-tier-${item}`}
+      />
+    </Box>
+  ), [filters.priceTiers, togglePriceTier]);
+
+  const renderSortPill = useCallback(({ item }: { item: SortOption }) => (
+    <Box marginRight="sm">
+      <FilterPill
+        label={item.label}
+        selected={sortMode === item.mode}
+        onPress={() => setSortMode(item.mode)}
+        accessibilityLabel={`Sort by ${item.label.toLowerCase()}`}
+        testID={`sort-mode-${item.mode}`}
+      />
+    </Box>
+  ), [sortMode, setSortMode]);
+
+  const renderNearbyPill = useCallback(({ item }: { item: NearbyOption }) => (
+    <Box marginRight="sm">
+      <FilterPill
+        label={item.label}
+        selected={nearbyMode === item.mode}
+        onPress={() => setNearbyMode(item.mode)}
+        accessibilityLabel={`Show ${item.label.toLowerCase()}`}
+        testID={`nearby-mode-${item.mode}`}
+      />
+    </Box>
+  ), [nearbyMode, setNearbyMode]);
+
+  // Near me is only offered where the device can report its position
+  const nearbyOptions = locationService.isAvailable()
+    ? NEARBY_OPTIONS
+    : NEARBY_OPTIONS.filter(option => option.mode !== 'currentLocation');
+
+  const getNearbyStatus = (): string | null => {
+    if (isLocating) return 'Finding your location...';
+    if (locationError) return locationError;
+    if (nearbyMode === 'off') return null;
+    if (!discoveryOrigin) return 'Add a delivery address to find restaurants near it';
+    return `Restaurants delivering within ${DELIVERY_RADIUS_KM} km`;
+  };
+  const nearbyStatus = getNearbyStatus();
+
+  // Get display restaurants (search results or all restaurants, both in the chosen sort)
+  const displayRestaurants = results;
 
   // Show skeleton loading state
   if (isLoading && restaurants.length === 0) {
@@ -152,6 +267,10 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           <FloatingSearchBar
             value={query}
             onChangeText={setQuery}
+            onSubmitEditing={recordSearch}
+            suggestions={suggestions}
+            onSuggestionPress={handleSuggestionPress}
+            onSuggestionPinToggle={handleSuggestionPinToggle}
             placeholder="Search restaurants, cuisines..."
             onSpinPress={handleSpinPress}
             testID="floating-search-bar"
@@ -178,7 +297,14 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             <SearchBar
               value={query}
               onChangeText={setQuery}
-              placeholder="Search restaurants, cuisines..."
+              onSubmitEditing={recordSearch}
+              suggestions={suggestions}
+              onSuggestionPress={handleSuggestionPress}
+              onSuggestionPinToggle={handleSuggestionPinToggle}
+              dishResults={dishResults}
+              onDishPress={handleDishPress}
+              placeholder="Search restaurants, dishes, cuisines..."
+              testID="search-bar"
             />
           </Box>
 
@@ -235,11 +361,93 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
               </Box>
             )}
 
+            {/* Price Filters */}
+            <Box marginBottom="xl" testID="price-section">
+              <Box paddingHorizontal="lg" marginBottom="lg">
+                <Text variant="heading3" color="text.primary">
+                  Price
+                </Text>
+              </Box>
+              
+              <FlatList
+                data={PRICE_TIERS}
+                renderItem={renderPriceTierPill}
+                keyExtractor={(item) => `price-tier-${item}`}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.filterList}
+              />
+            </Box>
+
+            {/* Dietary Filters */}
+            <Box marginBottom="xl" testID="dietary-section">
+              <Box paddingHorizontal="lg" marginBottom="lg">
+                <Text variant="heading3" color="text.primary">
+                  Dietary
+                </Text>
+              </Box>
+              
+              <FlatList
+                data={availableDietaryOptions}
+                renderItem={renderDietaryPill}
+                keyExtractor={(item) => `dietary-${item}`}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.filterList}
+              />
+            </Box>
+
+            {/* Location */}
+            <Box marginBottom="xl" testID="nearby-section">
+              <Box paddingHorizontal="lg" marginBottom="lg">
+                <Text variant="heading3" color="text.primary">
+                  Location
+                </Text>
+                {nearbyStatus && (
+                  <Text
+                    variant="body"
+                    color={locationError ? colors.error.text : colors.text.secondary}
+                    style={{ marginTop: 4 }}
+                    testID="nearby-status"
+                  >
+                    {nearbyStatus}
+                  </Text>
+                )}
+              </Box>
+              
+              <FlatList
+                data={nearbyOptions}
+                renderItem={renderNearbyPill}
+                keyExtractor={(item) => `nearby-mode-${item.mode}`}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.filterList}
+              />
+            </Box>
+
+            {/* Sort Options */}
+            <Box marginBottom="xl" testID="sort-section">
+              <Box paddingHorizontal="lg" marginBottom="lg">
+                <Text variant="heading3" color="text.primary">
+                  Sort By
+                </Text>
+              </Box>
+              
+              <FlatList
+                data={SORT_OPTIONS}
+                renderItem={renderSortPill}
+                keyExtractor={(item) => `sort-mode-${item.mode}`}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.filterList}
+              />
+            </Box>
+
             {/* Restaurants Grid */}
             <Box paddingHorizontal="lg" marginBottom="xl" testID="restaurants-section">
               <Box marginBottom="lg">
                 <Text variant="heading3" color="text.primary">
-                  {query.length > 0 ? 'Search Results' : 'All Restaurants'}
+                  {showResults ? 'Search Results' : 'All Restaurants'}
                 </Text>
                 {displayRestaurants.length > 0 && (
                   <Text variant="body" color="text.secondary" style={{ marginTop: 4 }}>
@@ -0,0 +1,163 @@
+/**
+ * LoginScreen Component
+ *
+ * Email and password sign-in. Returns the user to the screen that asked
+ * them to sign in, if any.
+ */
+
+import React, { useState } from 'react';
+import { ScrollView, TouchableOpacity } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Box, Text, Button, Input, Icon, ErrorBanner } from '../components';
+import { useAuthStore } from '../stores/authStore';
+import { colors, spacing } from '../designSystem/tokens';
+import { FormErrors, LoginCredentials, RootStackParamList } from '../types';
+import { isNotEmpty, isValidEmail } from '../utils/validationUtils';
+
+type LoginScreenRouteProp = RouteProp<RootStackParamList, 'Login'>;
+type LoginScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Login'>;
+
+export const LoginScreen: React.FC = () => {
+  const navigation = useNavigation<LoginScreenNavigationProp>();
+  const route = useRoute<LoginScreenRouteProp>();
+  const redirectTo = route.params?.redirectTo;
+  const { signIn, isAuthenticating, error, clearError } = useAuthStore();
+
+  const [credentials, setCredentials] = useState<LoginCredentials>({ email: '', password: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const handleChange = (field: keyof LoginCredentials, value: string) => {
+    setCredentials(prev => ({ ...prev, [field]: value }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+    if (error) {
+      clearError();
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!isNotEmpty(credentials.email)) {
+      newErrors.email = 'Email address is required';
+    } else if (!isValidEmail(credentials.email)) {
+      newErrors.email = 'Please enter a valid email address';
+    }
+
+    if (!isNotEmpty(credentials.password)) {
+      newErrors.password = 'Password is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSignIn = async () => {
+    if (isAuthenticating || !validate()) return;
+
+    try {
+      await signIn(credentials);
+    } catch {
+      // Shown from the store's error
+      return;
+    }
+
+    if (redirectTo) {
+      navigation.replace(redirectTo);
+    } else if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.replace('Home');
+    }
+  };
+
+  const handleSignUp = () => {
+    clearError();
+    navigation.replace('SignUp', { redirectTo });
+  };
+
+  return (
+    <Box flex={1} backgroundColor={colors.background.primary}>
+      <ScrollView
+        contentContainerStyle={{ padding: spacing.lg, paddingTop: spacing.xxl }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <TouchableOpacity
+          onPress={() => (navigation.canGoBack() ? navigation.goBack() : navigation.replace('Home'))}
+          style={{ marginBottom: spacing.xl }}
+          accessibilityLabel="Go back"
+        >
+          <Icon name="arrow-left" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+
+        <Text variant="heading1" weight="bold" style={{ marginBottom: spacing.sm }}>
+          Welcome back
+        </Text>
+        <Text variant="body" color={colors.text.secondary} style={{ marginBottom: spacing.xl }}>
+          {redirectTo === 'Checkout'
+            ? 'Sign in to place your order'
+            : 'Sign in to continue'}
+        </Text>
+
+        {error && (
+          <Box marginBottom="lg">
+            <ErrorBanner message={error.message} onDismiss={clearError} />
+          </Box>
+        )}
+
+        <Input
+          label="Email Address"
+          placeholder="your.email@example.com"
+          value={credentials.email}
+          onChangeText={(text) => handleChange('email', text)}
+          error={errors.email}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          style={{ marginBottom: spacing.lg }}
+          testID="login-email-input"
+        />
+
+        <Input
+          label="Password"
+          placeholder="Your password"
+          value={credentials.password}
+          onChangeText={(text) => handleChange('password', text)}
+          error={errors.password}
+          secureTextEntry
+          showClearButton={false}
+          autoCapitalize="none"
+          autoComplete="password"
+          style={{ marginBottom: spacing.xl }}
+          testID="login-password-input"
+        />
+
+        <Button
+          variant="primary"
+          size="large"
+          onPress={handleSignIn}
+          loading={isAuthenticating}
+          disabled={isAuthenticating}
+          testID="login-submit-button"
+        >
+          Sign In
+        </Button>
+
+        <Box flexDirection="row" justifyContent="center" marginTop="xl">
+          <Text variant="body" color={colors.text.secondary}>
+            New here?{' '}
+          </Text>
+          <TouchableOpacity onPress={handleSignUp} testID="login-signup-link">
+            <Text variant="body" weight="semibold" color={colors.accent.primary}>
+              Create an account
+            </Text>
+          </TouchableOpacity>
+        </Box>
+      </ScrollView>
+    </Box>
+  );
+};
@@ -8,16 +8,13 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { OrderConfirmationScreen } from './OrderConfirmationScreen';
 import { ThemeProvider } from '../designSystem/ThemeProvider';
-import { useCartStore } from '../stores/cartStore';
-import { useUserStore } from '../stores/userStore';
+import { useOrderTracking } from '../hooks/useOrderTracking';
 import { sampleUser } from '../utils/mockData';
 
-// Mock the stores
-jest.mock('../stores/cartStore');
-jest.mock('../stores/userStore');
+// Mock the order subscription
+jest.mock('../hooks/useOrderTracking');
 
-const mockUseCartStore = useCartStore as jest.MockedFunction<typeof useCartStore>;
-const mockUseUserStore = useUserStore as jest.MockedFunction<typeof useUserStore>;
+const mockUseOrderTracking = useOrderTracking as jest.MockedFunction<typeof useOrderTracking>;
 
 const Stack = createStackNavigator();
 
@@ -25,7 +22,11 @@ const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <ThemeProvider>
     <NavigationContainer>
       <Stack.Navigator>
-        <Stack.Screen name="OrderConfirmation" component={() => <>{children}</>} />
+        <Stack.Screen
+          name="OrderConfirmation"
+          component={() => <>{children}</>}
+          initialParams={{ orderId: 'order-123' }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   </ThemeProvider>
@@ -33,8 +34,10 @@ const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
 
 describe('OrderConfirmationScreen', () => {
   beforeEach(() => {
-    // Mock cart store
-    mockUseCartStore.mockReturnValue({
+    // Mock the placed order
+    const order = {
+      id: 'order-123',
+      userId: sampleUser.id,
       items: [
         {
           menuItem: {
@@ -78,13 +81,21 @@ describe('OrderConfirmationScreen', () => {
       deliveryFee: 2.99,
       tax: 2.08,
       total: 31.05,
-      clearCart: jest.fn(),
-    } as any);
-
-    // Mock user store
-    mockUseUserStore.mockReturnValue({
-      user: sampleUser,
-    } as any);
+      deliveryAddress: sampleUser.savedAddresses[0],
+      paymentMethod: sampleUser.savedPaymentMethods[0],
+      status: 'confirmed' as const,
+      estimatedDeliveryTime: '25-35 min',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    mockUseOrderTracking.mockReturnValue({
+      order,
+      status: order.status,
+      isFinished: false,
+      isWaitingForSlot: false,
+      error: null,
+    });
   });
 
   afterEach(() => {
@@ -5,16 +5,18 @@
  * Shows order details, estimated delivery time, and next actions
  */
 
-import React, { useEffect } from 'react';
+import React from 'react';
 import { ScrollView, TouchableOpacity } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { Box, Text, Button, Icon, Card } from '../components';
-import { useCart } from '../hooks/useCart';
-import { useUserStore } from '../stores/userStore';
+import { useOrderTracking } from '../hooks/useOrderTracking';
 import { colors, spacing } from '../designSystem/tokens';
-import { RootStackParamList } from '../types';
+import { DeliverySlot, OrderStatus, RootStackParamList } from '../types';
 import { formatPrice } from '../utils/validationUtils';
+import { formatSelectedOptions, getCartItemUnitPrice } from '../utils/menuOptionUtils';
+import { formatDeliverySlot } from '../utils/scheduleUtils';
+import { formatCents, getPriceLines } from '../utils/pricingUtils';
 
 type OrderConfirmationScreenRouteProp = RouteProp<RootStackParamList, 'OrderConfirmation'>;
 type OrderConfirmationScreenNavigationProp = StackNavigationProp<RootStackParamList, 'OrderConfirmation'>;
@@ -23,14 +25,32 @@ interface OrderSummaryItemProps {
   name: string;
   quantity: number;
   price: number;
+  options?: string;
+  specialInstructions?: string;
 }
 
-const OrderSummaryItem: React.FC<OrderSummaryItemProps> = ({ name, quantity, price }) => (
+const OrderSummaryItem: React.FC<OrderSummaryItemProps> = ({
+  name,
+  quantity,
+  price,
+  options,
+  specialInstructions,
+}) => (
   <Box flexDirection="row" justifyContent="space-between" alignItems="center" marginBottom="sm">
     <Box flex={1}>
       <Text variant="body" weight="medium" numberOfLines={1}>
         {name}
       </Text>
+      {options ? (
+        <Text variant="caption" color={colors.text.secondary} numberOfLines={2}>
+          {options}
+        </Text>
+      ) : null}
+      {specialInstructions ? (
+        <Text variant="caption" color={colors.text.secondary} style={{ fontStyle: 'italic' }}>
+          Note: {specialInstructions}
+        </Text>
+      ) : null}
       <Text variant="caption" color={colors.text.secondary}>
         Qty: {quantity}
       </Text>
@@ -42,11 +62,12 @@ const OrderSummaryItem: React.FC<OrderSummaryItemProps> = ({ name, quantity, pri
 );
 
 interface StatusTimelineProps {
-  currentStatus: 'confirmed' | 'preparing' | 'out_for_delivery' | 'delivered';
+  currentStatus: OrderStatus;
   estimatedTime: string;
+  scheduledSlot?: DeliverySlot;
 }
 
-const StatusTimeline: React.FC<StatusTimelineProps> = ({ currentStatus, estimatedTime }) => {
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ currentStatus, estimatedTime, scheduledSlot }) => {
   const statuses = [
     { key: 'confirmed', label: 'Order Confirmed', icon: 'check-circle' },
     { key: 'preparing', label: 'Preparing', icon: 'clock' },
@@ -156,15 +177,16 @@ const StatusTimeline: React.FC<StatusTimelineProps> = ({ currentStatus, estimate
           color={colors.text.primary}
           style={{ marginTop: spacing.sm }}
         >
-          Estimated Delivery
+          {scheduledSlot ? 'Scheduled Delivery' : 'Estimated Delivery'}
         </Text>
         <Text 
           variant="heading3" 
           weight="bold" 
           color={colors.accent.primary}
           style={{ marginTop: spacing.xs }}
+          testID="confirmation-delivery-time"
         >
-          {estimatedTime}
+          {scheduledSlot ? formatDeliverySlot(scheduledSlot) : estimatedTime}
         </Text>
       </Box>
     </Box>
@@ -176,25 +198,10 @@ export const OrderConfirmationScreen: React.FC = () => {
   const route = useRoute<OrderConfirmationScreenRouteProp>();
   const { orderId } = route.params;
   
-  const { 
-    items, 
-    restaurant, 
-    subtotal, 
-    deliveryFee, 
-    tax, 
-    total,
-    clearCart 
-  } = useCart();
-  const { user } = useUserStore();
-
-  // Clear cart when order is confirmed
-  useEffect(() => {
-    clearCart();
-  }, [clearCart]);
+  const { order } = useOrderTracking(orderId);
 
   const handleTrackOrder = () => {
-    // Navigate to order tracking (to be implemented)
-    console.log('Track order:', orderId);
+    navigation.navigate('OrderTracking', { orderId });
   };
 
   const handleBackToHome = () => {
@@ -206,6 +213,30 @@ export const OrderConfirmationScreen: React.FC = () => {
     console.log('View receipt for order:', orderId);
   };
 
+  if (!order) {
+    return (
+      <Box flex={1} backgroundColor={colors.background.primary} justifyContent="center" alignItems="center" padding="xl">
+        <Icon name="search" size={32} color={colors.text.tertiary} />
+        <Text variant="heading3" weight="medium" style={{ marginTop: spacing.xl }}>
+          Order not found
+        </Text>
+        <Text 
+          variant="body" 
+          color={colors.text.secondary} 
+          align="center" 
+          style={{ marginTop: spacing.sm, marginBottom: spacing.xl }}
+        >
+          We couldn't find order #{orderId}
+        </Text>
+        <Button variant="primary" size="large" onPress={handleBackToHome}>
+          Back to Home
+        </Button>
+      </Box>
+    );
+  }
+
+  const { items, restaurant, total, deliveryAddress } = order;
+
   return (
     <Box flex={1} backgroundColor={colors.background.primary}>
       <ScrollView
@@ -260,8 +291,9 @@ export const OrderConfirmationScreen: React.FC = () => {
         <Box marginBottom="xl">
           <Card>
             <StatusTimeline 
-              currentStatus="confirmed" 
-              estimatedTime="25-35 min" 
+              currentStatus={order.status} 
+              estimatedTime={order.estimatedDeliveryTime} 
+              scheduledSlot={order.scheduledSlot}
             />
           </Card>
         </Box>
@@ -361,7 +393,9 @@ export const OrderConfirmationScreen: React.FC = () => {
               key={index}
               name={item.menuItem.name}
               quantity={item.quantity}
-              price={item.menuItem.price}
+              price={getCartItemUnitPrice(item)}
+              options={formatSelectedOptions(item.menuItem, item.selectedOptions)}
+              specialInstructions={item.specialInstructions}
             />
           ))}
           
@@ -371,20 +405,23 @@ export const OrderConfirmationScreen: React.FC = () => {
             marginVertical="md"
           />
           
-          <Box flexDirection="row" justifyContent="space-between" marginBottom="sm">
-            <Text variant="body" color={colors.text.secondary}>Subtotal</Text>
-            <Text variant="body" weight="medium">{formatPrice(subtotal)}</Text>
-          </Box>
-          
-          <Box flexDirection="row" justifyContent="space-between" marginBottom="sm">
-            <Text variant="body" color={colors.text.secondary}>Delivery Fee</Text>
-            <Text variant="body" weight="medium">{formatPrice(deliveryFee)}</Text>
-          </Box>
-          
-          <Box flexDirection="row" justifyContent="space-between" marginBottom="md">
-            <Text variant="body" color={colors.text.secondary}>Tax</Text>
-            <Text variant="body" weight="medium">{formatPrice(tax)}</Text>
-          </Box>
+          {getPriceLines(order).map((line, index, lines) => (
+            <Box
+              key={line.type}
+              flexDirection="row"
+              justifyContent="space-between"
+              marginBottom={index === lines.length - 1 ? 'md' : 'sm'}
+              testID={`confirmation-price-${line.type}`}
+            >
+              <Box flex={1} marginRight="md">
+                <Text variant="body" color={colors.text.secondary}>{line.label}</Text>
+                {line.detail && (
+                  <Text variant="caption" color={colors.text.secondary}>{line.detail}</Text>
+                )}
+              </Box>
+              <Text variant="body" weight="medium">{formatCents(line.amountCents)}</Text>
+            </Box>
+          ))}
           
           <Box
             height={1}
@@ -400,7 +437,7 @@ export const OrderConfirmationScreen: React.FC = () => {
         </Box>
 
         {/* Delivery Address */}
-        {user && user.savedAddresses.length > 0 && (
+        {deliveryAddress && (
           <Box marginBottom="xl">
             <Card>
               <Text 
@@ -415,14 +452,14 @@ export const OrderConfirmationScreen: React.FC = () => {
               <Icon name="location" size={20} color={colors.text.secondary} />
               <Box flex={1} marginLeft="md">
                 <Text variant="body" weight="medium">
-                  {user.savedAddresses[0].street}
+                  {deliveryAddress.street}
                 </Text>
                 <Text variant="body" color={colors.text.secondary}>
-                  {user.savedAddresses[0].city}, {user.savedAddresses[0].state} {user.savedAddresses[0].zipCode}
+                  {deliveryAddress.city}, {deliveryAddress.state} {deliveryAddress.zipCode}
                 </Text>
-                {user.savedAddresses[0].deliveryInstructions && (
+                {deliveryAddress.deliveryInstructions && (
                   <Text variant="caption" color={colors.text.tertiary} style={{ marginTop: spacing.xs }}>
-                    Instructions: {user.savedAddresses[0].deliveryInstructions}
+                    Instructions: {deliveryAddress.deliveryInstructions}
                   </Text>
                 )}
               </Box>
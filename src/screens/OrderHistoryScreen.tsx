@@ -0,0 +1,243 @@
+/**
+ * OrderHistoryScreen Component
+ *
+ * Lists the user's past and active orders, newest first. Tapping an order
+ * opens its tracking timeline; delivered orders can have their tip changed.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Alert, FlatList, Modal, TouchableOpacity } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Box, Text, Icon, Button, TipSelector } from '../components';
+import { useUserStore } from '../stores/userStore';
+import { useAdjustTip } from '../hooks/useAdjustTip';
+import { API_ERROR_CODES, isAppError } from '../services/apiClient';
+import { colors, spacing } from '../designSystem/tokens';
+import { Order, RootStackParamList, TipChoice } from '../types';
+import { formatPrice } from '../utils/validationUtils';
+import { ORDER_STATUS_LABELS, isTerminalStatus } from '../utils/orderLifecycle';
+import { NO_TIP, createOrderTip, getTipError, isSameTipChoice } from '../utils/tipUtils';
+
+type OrderHistoryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'OrderHistory'>;
+
+const formatOrderDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface OrderRowProps {
+  order: Order;
+  onPress: (order: Order) => void;
+  onAdjustTip: (order: Order) => void;
+}
+
+const OrderRow: React.FC<OrderRowProps> = ({ order, onPress, onAdjustTip }) => {
+  const itemCount = order.items.reduce((count, item) => count + item.quantity, 0);
+  const isActive = !isTerminalStatus(order.status);
+
+  return (
+    <TouchableOpacity onPress={() => onPress(order)} testID={`order-row-${order.id}`}>
+      <Box
+        backgroundColor={colors.background.surface}
+        borderRadius="medium"
+        padding="lg"
+        marginBottom="md"
+        shadow="low"
+        flexDirection="row"
+        alignItems="center"
+      >
+        <Box flex={1}>
+          <Text variant="body" weight="semibold" numberOfLines={1}>
+            {order.restaurant.name}
+          </Text>
+          <Text variant="caption" color={colors.text.secondary} style={{ marginTop: spacing.xs }}>
+            {formatOrderDate(order.createdAt)} · {itemCount} {itemCount === 1 ? 'item' : 'items'} · {formatPrice(order.total)}
+          </Text>
+          <Text
+            variant="caption"
+            weight="medium"
+            color={
+              order.status === 'cancelled'
+                ? colors.error.primary
+                : isActive
+                ? colors.accent.primary
+                : colors.text.secondary
+            }
+            style={{ marginTop: spacing.xs }}
+          >
+            {ORDER_STATUS_LABELS[order.status]}
+          </Text>
+          {order.status === 'delivered' && (
+            <TouchableOpacity
+              onPress={() => onAdjustTip(order)}
+              style={{ marginTop: spacing.sm, alignSelf: 'flex-start' }}
+              accessibilityRole="button"
+              testID={`adjust-tip-${order.id}`}
+            >
+              <Text variant="caption" weight="medium" color={colors.accent.primary}>
+                {order.tip ? `Tip ${formatPrice(order.tip.amount)} · Change` : 'Add a tip'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </Box>
+        <Icon name="chevron-right" size={20} color={colors.text.tertiary} />
+      </Box>
+    </TouchableOpacity>
+  );
+};
+
+interface TipAdjustmentModalProps {
+  order: Order | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (choice: TipChoice) => void;
+}
+
+const TipAdjustmentModal: React.FC<TipAdjustmentModalProps> = ({ order, isSaving, onClose, onSave }) => {
+  const [choice, setChoice] = useState<TipChoice>(order?.tip?.choice ?? NO_TIP);
+  const [error, setError] = useState<string | undefined>();
+
+  const handleChange = (nextChoice: TipChoice) => {
+    setChoice(nextChoice);
+    setError(undefined);
+  };
+
+  const handleSave = () => {
+    const tipError = getTipError(choice);
+    if (tipError) {
+      setError(tipError);
+      return;
+    }
+    onSave(choice);
+  };
+
+  const isUnchanged = order ? isSameTipChoice(choice, order.tip?.choice ?? NO_TIP) : true;
+  const newTip = order ? createOrderTip(choice, order.subtotal) : null;
+
+  return (
+    <Modal
+      visible={order !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <Box flex={1} backgroundColor={colors.background.primary}>
+        {/* Header */}
+        <Box
+          backgroundColor={colors.background.surface}
+          paddingHorizontal="lg"
+          paddingVertical="xl"
+          shadow="low"
+        >
+          <Box flexDirection="row" alignItems="center" justifyContent="space-between">
+            <TouchableOpacity onPress={onClose}>
+              <Text variant="body" color={colors.accent.primary}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <Text variant="heading3" weight="semibold">
+              Driver Tip
+            </Text>
+            <Box width={60} /> {/* Spacer for centering */}
+          </Box>
+        </Box>
+
+        {order && (
+          <Box flex={1} padding="lg">
+            <Text variant="body" color={colors.text.secondary} style={{ marginBottom: spacing.lg }}>
+              Your order from {order.restaurant.name} on {formatOrderDate(order.createdAt)}
+            </Text>
+            <TipSelector subtotal={order.subtotal} value={choice} onChange={handleChange} error={error} />
+          </Box>
+        )}
+
+        <Box
+          backgroundColor={colors.background.surface}
+          paddingHorizontal="lg"
+          paddingVertical="xl"
+          shadow="medium"
+        >
+          <Button
+            variant="primary"
+            size="large"
+            onPress={handleSave}
+            disabled={isSaving || isUnchanged}
+          >
+            {isSaving ? 'Saving...' : newTip ? `Save Tip • ${formatPrice(newTip.amount)}` : 'Save'}
+          </Button>
+        </Box>
+      </Box>
+    </Modal>
+  );
+};
+
+export const OrderHistoryScreen: React.FC = () => {
+  const navigation = useNavigation<OrderHistoryScreenNavigationProp>();
+  const orderHistory = useUserStore(state => state.user?.orderHistory);
+  const { adjustTip, isAdjustingTip } = useAdjustTip();
+  const [tippingOrder, setTippingOrder] = useState<Order | null>(null);
+
+  const handleSaveTip = async (choice: TipChoice) => {
+    if (!tippingOrder) return;
+
+    try {
+      await adjustTip(tippingOrder.id, choice);
+      setTippingOrder(null);
+    } catch (error) {
+      // The server says why it won't take the tip; anything else is worth a retry
+      const isRefused = isAppError(error)
+        && (error.code === API_ERROR_CODES.NOT_FOUND || error.code === API_ERROR_CODES.VALIDATION_ERROR);
+      Alert.alert(
+        'Tip Not Updated',
+        isRefused ? error.message : 'There was an issue updating your tip. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
+  const orders = useMemo(
+    () => [...(orderHistory ?? [])].sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    ),
+    [orderHistory]
+  );
+
+  if (orders.length === 0) {
+    return (
+      <Box flex={1} backgroundColor={colors.background.primary} justifyContent="center" alignItems="center" padding="xl">
+        <Icon name="clock" size={32} color={colors.text.tertiary} />
+        <Text variant="subheading" weight="semibold" style={{ marginTop: spacing.md }}>
+          No orders yet
+        </Text>
+        <Text variant="body" color={colors.text.secondary} align="center" style={{ marginTop: spacing.sm }}>
+          Orders you place will show up here.
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flex={1} backgroundColor={colors.background.primary}>
+      <FlatList
+        data={orders}
+        keyExtractor={order => order.id}
+        renderItem={({ item }) => (
+          <OrderRow
+            order={item}
+            onPress={(order) => navigation.navigate('OrderTracking', { orderId: order.id })}
+            onAdjustTip={setTippingOrder}
+          />
+        )}
+        contentContainerStyle={{ padding: spacing.lg }}
+      />
+
+      {/* Remounted per order, so it starts from that order's tip */}
+      <TipAdjustmentModal
+        key={tippingOrder?.id ?? 'none'}
+        order={tippingOrder}
+        isSaving={isAdjustingTip}
+        onClose={() => setTippingOrder(null)}
+        onSave={handleSaveTip}
+      />
+    </Box>
+  );
+};
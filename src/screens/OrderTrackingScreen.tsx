@@ -9,7 +9,10 @@ import {
 } from 'react-native';
 import { Box, Text, Card, Icon, Button } from '../components';
 import { colors, spacing, borderRadius, typography } from '../designSystem/tokens';
-import { Order } from '../types';
+import { Order, OrderStatus } from '../types';
+import { useOrderTracking } from '../hooks/useOrderTracking';
+import { formatStatusTime, getStatusTimestamp } from '../utils/orderLifecycle';
+import { formatDeliverySlot, getScheduledReleaseTime } from '../utils/scheduleUtils';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -22,8 +25,6 @@ interface OrderTrackingScreenProps {
   };
 }
 
-type OrderStatus = 'pending' | 'confirmed' | 'preparing' | 'out_for_delivery' | 'delivered' | 'cancelled';
-
 interface TrackingStep {
   status: OrderStatus;
   title: string;
@@ -33,68 +34,35 @@ interface TrackingStep {
   isActive: boolean;
 }
 
-// Mock order data - in real app this would come from API
-const mockOrder: Order = {
-  id: 'order-123',
-  userId: 'user-1',
-  restaurant: {
-    id: 'rest-1',
-    name: 'Bella Vista Italian',
-    description: 'Authentic Italian cuisine',
-    cuisineType: ['Italian'],
-    rating: 4.8,
-    reviewCount: 324,
-    deliveryTime: '25-35 min',
-    deliveryFee: 2.99,
-    minimumOrder: 15,
-    imageUrl: 'https://example.com/restaurant.jpg',
-    heroImageUrl: 'https://example.com/hero.jpg',
-    isOpen: true,
-    location: {
-      address: '123 Main St, San Francisco, CA',
-      coordinates: {
-        latitude: 37.7749,
-        longitude: -122.4194,
-      },
-    },
+const TRACKING_STEPS: Pick<TrackingStep, 'status' | 'title' | 'description'>[] = [
+  {
+    status: 'confirmed',
+    title: 'Order Confirmed',
+    description: 'Your order has been received',
   },
-  items: [],
-  subtotal: 28.50,
-  deliveryFee: 2.99,
-  tax: 2.85,
-  total: 34.34,
-  deliveryAddress: {
-    id: 'addr-1',
-    label: 'Home',
-    street: '456 Oak Street',
-    city: 'San Francisco',
-    state: 'CA',
-    zipCode: '94102',
-    country: 'US',
-    coordinates: {
-      latitude: 37.7849,
-      longitude: -122.4094,
-    },
+  {
+    status: 'preparing',
+    title: 'Preparing Your Food',
+    description: 'The restaurant is preparing your order',
   },
-  paymentMethod: {
-    id: 'pm-1',
-    type: 'card',
-    last4: '4242',
-    brand: 'visa',
-    isDefault: true,
+  {
+    status: 'out_for_delivery',
+    title: 'Out for Delivery',
+    description: 'Your order is on the way',
   },
-  status: 'preparing',
-  estimatedDeliveryTime: '7:45 PM',
-  createdAt: new Date(),
-  updatedAt: new Date(),
-};
+  {
+    status: 'delivered',
+    title: 'Delivered',
+    description: 'Enjoy your meal!',
+  },
+];
 
 export const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({
   navigation,
   route,
 }) => {
   const { orderId } = route.params;
-  const [order] = useState<Order>(mockOrder); // In real app, fetch by orderId
+  const { order } = useOrderTracking(orderId);
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // Update current time every minute
@@ -106,46 +74,35 @@ export const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({
     return () => clearInterval(interval);
   }, []);
 
-  const getTrackingSteps = useCallback((status: OrderStatus): TrackingStep[] => {
-    const steps: TrackingStep[] = [
-      {
-        status: 'confirmed',
-        title: 'Order Confirmed',
-        description: 'Your order has been received',
-        time: '6:30 PM',
-        isCompleted: true,
-        isActive: false,
-      },
-      {
-        status: 'preparing',
-        title: 'Preparing Your Food',
-        description: 'The restaurant is preparing your order',
-        time: status === 'preparing' ? undefined : '6:45 PM',
-        isCompleted: status !== 'confirmed',
-        isActive: status === 'preparing',
-      },
-      {
-        status: 'out_for_delivery',
-        title: 'Out for Delivery',
-        description: 'Your order is on the way',
-        time: status === 'out_for_delivery' ? undefined : undefined,
-        isCompleted: ['out_for_delivery', 'delivered'].includes(status),
-        isActive: status === 'out_for_delivery',
-      },
-      {
-        status: 'delivered',
-        title: 'Delivered',
-        description: 'Enjoy your meal!',
-        time: status === 'delivered' ? '7:45 PM' : undefined,
-        isCompleted: status === 'delivered',
-        isActive: false,
-      },
-    ];
+  const getTrackingSteps = useCallback((trackedOrder: Order): TrackingStep[] => {
+    // Scheduled orders wait for their slot before the usual steps
+    const steps = trackedOrder.scheduledSlot
+      ? [
+          {
+            status: 'scheduled' as const,
+            title: 'Scheduled',
+            description: `Delivery booked for ${formatDeliverySlot(trackedOrder.scheduledSlot)}`,
+          },
+          ...TRACKING_STEPS,
+        ]
+      : TRACKING_STEPS;
+    const currentIndex = steps.findIndex(step => step.status === trackedOrder.status);
+    const isDelivered = trackedOrder.status === 'delivered';
+
+    return steps.map((step, index) => {
+      const reachedAt = getStatusTimestamp(trackedOrder, step.status);
 
-    return steps;
+      return {
+        ...step,
+        time: reachedAt ? formatStatusTime(reachedAt) : undefined,
+        isCompleted: index < currentIndex || isDelivered,
+        isActive: index === currentIndex && !isDelivered,
+      };
+    });
   }, []);
 
-  const trackingSteps = getTrackingSteps(order.status);
+  const trackingSteps = order ? getTrackingSteps(order) : [];
+  const cancelledAt = order ? getStatusTimestamp(order, 'cancelled') : undefined;
 
   const handleCallRestaurant = useCallback(() => {
     // In real app, this would be the restaurant's phone number
@@ -222,9 +179,15 @@ export const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({
             {step.description}
           </Text>
           
-          {step.isActive && (
+          {step.isActive && step.status === 'scheduled' && order?.scheduledSlot && (
             <Text variant="caption" color={colors.accent.primary} style={{ marginTop: 4 }}>
-              Estimated completion: {order.estimatedDeliveryTime}
+              The restaurant starts on it at {formatStatusTime(getScheduledReleaseTime(order.scheduledSlot))}
+            </Text>
+          )}
+
+          {step.isActive && step.status !== 'scheduled' && (
+            <Text variant="caption" color={colors.accent.primary} style={{ marginTop: 4 }}>
+              Estimated completion: {order?.estimatedDeliveryTime}
             </Text>
           )}
         </Box>
@@ -232,31 +195,52 @@ export const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({
     );
   };
 
-  return (
-    <View style={styles.container}>
-      {/* Header */}
-      <Box
-        paddingHorizontal="lg"
-        paddingTop="xl"
-        paddingBottom="lg"
-        backgroundColor="background.primary"
-        style={styles.header}
-      >
-        <Box flexDirection="row" alignItems="center" justifyContent="space-between">
-          <TouchableOpacity
-            onPress={() => navigation.goBack()}
-            style={styles.backButton}
-          >
-            <Icon name="arrow-left" size={24} color={colors.text.primary} />
-          </TouchableOpacity>
-          
-          <Text variant="heading3" color="text.primary">
-            Track Order
+  const renderHeader = () => (
+    <Box
+      paddingHorizontal="lg"
+      paddingTop="xl"
+      paddingBottom="lg"
+      backgroundColor="background.primary"
+      style={styles.header}
+    >
+      <Box flexDirection="row" alignItems="center" justifyContent="space-between">
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Icon name="arrow-left" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        
+        <Text variant="heading3" color="text.primary">
+          Track Order
+        </Text>
+        
+        <View style={{ width: 24 }} />
+      </Box>
+    </Box>
+  );
+
+  if (!order) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+
+        <Box flex={1} justifyContent="center" alignItems="center" padding="xl">
+          <Icon name="search" size={32} color={colors.text.tertiary} />
+          <Text variant="heading3" color="text.primary" style={{ marginTop: spacing.lg }}>
+            Order not found
+          </Text>
+          <Text variant="body" color={colors.text.secondary} align="center" style={{ marginTop: spacing.sm }}>
+            We couldn't find this order. It may have been placed on another device.
           </Text>
-          
-          <View style={{ width: 24 }} />
         </Box>
-      </Box>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {renderHeader()}
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* Order Info */}
@@ -309,6 +293,13 @@ export const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({
           
           <Card style={styles.timelineCard}>
             <Box padding="lg">
+              {order.status === 'cancelled' && (
+                <Text variant="body" color={colors.error.text} style={{ marginBottom: spacing.lg }}>
+                  {cancelledAt
+                    ? `This order was cancelled at ${formatStatusTime(cancelledAt)}`
+                    : 'This order was cancelled'}
+                </Text>
+              )}
               {trackingSteps.map((step, index) => renderTrackingStep(step, index))}
             </Box>
           </Card>
@@ -0,0 +1,135 @@
+/**
+ * PaymentMethodsScreen Component
+ *
+ * Lists the user's saved payment methods. Methods can be added, removed or
+ * made the default used at checkout.
+ */
+
+import React, { useState } from 'react';
+import { ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Box, Text, Button, Icon, AddPaymentMethodModal } from '../components';
+import { useUserStore } from '../stores/userStore';
+import { colors, spacing } from '../designSystem/tokens';
+import { PaymentMethod } from '../types';
+
+const describePaymentMethod = (method: PaymentMethod): string =>
+  method.type === 'card'
+    ? `${method.brand ? `${method.brand} ` : ''}•••• ${method.last4}`
+    : method.type.replace('_', ' ');
+
+interface PaymentMethodRowProps {
+  method: PaymentMethod;
+  onSetDefault: (method: PaymentMethod) => void;
+  onRemove: (method: PaymentMethod) => void;
+}
+
+const PaymentMethodRow: React.FC<PaymentMethodRowProps> = ({ method, onSetDefault, onRemove }) => (
+  <Box
+    backgroundColor={colors.background.surface}
+    borderRadius="medium"
+    padding="lg"
+    marginBottom="md"
+    shadow="low"
+    flexDirection="row"
+    alignItems="center"
+  >
+    <Icon
+      name={method.type === 'card' ? 'credit-card' : 'smartphone'}
+      size={20}
+      color={colors.text.secondary}
+    />
+    <Box flex={1} marginLeft="md">
+      <Text variant="body" weight="medium">
+        {describePaymentMethod(method)}
+      </Text>
+      {method.isDefault ? (
+        <Text variant="caption" color={colors.accent.primary}>
+          Default
+        </Text>
+      ) : (
+        <TouchableOpacity
+          onPress={() => onSetDefault(method)}
+          testID={`set-default-payment-${method.id}`}
+        >
+          <Text variant="caption" weight="medium" color={colors.text.secondary}>
+            Set as default
+          </Text>
+        </TouchableOpacity>
+      )}
+    </Box>
+    <TouchableOpacity
+      onPress={() => onRemove(method)}
+      accessibilityLabel={`Remove ${describePaymentMethod(method)}`}
+      testID={`remove-payment-${method.id}`}
+    >
+      <Icon name="x" size={20} color={colors.text.tertiary} />
+    </TouchableOpacity>
+  </Box>
+);
+
+export const PaymentMethodsScreen: React.FC = () => {
+  const {
+    user,
+    addPaymentMethod,
+    removePaymentMethod,
+    setDefaultPaymentMethod,
+  } = useUserStore();
+  const [isAddModalVisible, setIsAddModalVisible] = useState(false);
+
+  const paymentMethods = user?.savedPaymentMethods ?? [];
+
+  const handleRemove = (method: PaymentMethod) => {
+    Alert.alert(
+      'Remove Payment Method',
+      `Remove ${describePaymentMethod(method)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => removePaymentMethod(method.id) },
+      ]
+    );
+  };
+
+  return (
+    <Box flex={1} backgroundColor={colors.background.primary}>
+      <ScrollView contentContainerStyle={{ padding: spacing.lg }}>
+        {paymentMethods.length === 0 && (
+          <Box alignItems="center" paddingVertical="xl">
+            <Icon name="credit-card" size={32} color={colors.text.tertiary} />
+            <Text
+              variant="body"
+              color={colors.text.secondary}
+              align="center"
+              style={{ marginTop: spacing.md }}
+            >
+              No payment methods saved yet.
+            </Text>
+          </Box>
+        )}
+
+        {paymentMethods.map(method => (
+          <PaymentMethodRow
+            key={method.id}
+            method={method}
+            onSetDefault={(selected) => setDefaultPaymentMethod(selected.id)}
+            onRemove={handleRemove}
+          />
+        ))}
+
+        <Button
+          variant="secondary"
+          onPress={() => setIsAddModalVisible(true)}
+          style={{ marginTop: spacing.sm }}
+          testID="add-payment-method-button"
+        >
+          Add Payment Method
+        </Button>
+      </ScrollView>
+
+      <AddPaymentMethodModal
+        visible={isAddModalVisible}
+        onClose={() => setIsAddModalVisible(false)}
+        onAddPaymentMethod={addPaymentMethod}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,136 @@
+/**
+ * PreferencesScreen Component
+ *
+ * Lets the user choose their dietary restrictions, allergens and favorite
+ * cuisines
+ */
+
+import React from 'react';
+import { ScrollView } from 'react-native';
+import { Box, Text, FilterPill } from '../components';
+import { useUserStore } from '../stores/userStore';
+import { useRestaurantStore } from '../stores/restaurantStore';
+import { colors, spacing } from '../designSystem/tokens';
+import { DIETARY_OPTIONS } from '../utils/searchUtils';
+import { ALLERGEN_OPTIONS } from '../utils/dietaryUtils';
+
+interface PreferenceSectionProps {
+  title: string;
+  description: string;
+  options: string[];
+  selected: string[];
+  onToggle: (option: string) => void;
+  testID?: string;
+}
+
+const PreferenceSection: React.FC<PreferenceSectionProps> = ({
+  title,
+  description,
+  options,
+  selected,
+  onToggle,
+  testID,
+}) => (
+  <Box marginBottom="xl" testID={testID}>
+    <Text variant="subheading" weight="semibold">
+      {title}
+    </Text>
+    <Text variant="caption" color={colors.text.secondary} style={{ marginTop: spacing.xs, marginBottom: spacing.md }}>
+      {description}
+    </Text>
+    <Box flexDirection="row" flexWrap="wrap" gap="sm">
+      {options.map(option => (
+        <FilterPill
+          key={option}
+          label={option}
+          selected={selected.includes(option)}
+          onPress={onToggle}
+        />
+      ))}
+    </Box>
+  </Box>
+);
+
+/**
+ * Known options followed by any the user saved that aren't among them
+ */
+const withSavedOptions = (options: string[], saved: string[]): string[] => [
+  ...options,
+  ...saved.filter(option => !options.includes(option)),
+];
+
+export const PreferencesScreen: React.FC = () => {
+  const {
+    user,
+    addDietaryRestriction,
+    removeDietaryRestriction,
+    addAllergen,
+    removeAllergen,
+    addFavoriteCuisine,
+    removeFavoriteCuisine,
+  } = useUserStore();
+  const { getCuisineTypes } = useRestaurantStore();
+
+  const dietaryRestrictions = user?.preferences.dietaryRestrictions ?? [];
+  const favoriteCuisines = user?.preferences.favoriteCuisines ?? [];
+  const allergens = user?.preferences.allergens ?? [];
+
+  const cuisineOptions = getCuisineTypes();
+
+  const handleDietaryToggle = (restriction: string) => {
+    if (dietaryRestrictions.includes(restriction)) {
+      removeDietaryRestriction(restriction);
+    } else {
+      addDietaryRestriction(restriction);
+    }
+  };
+
+  const handleAllergenToggle = (allergen: string) => {
+    if (allergens.includes(allergen)) {
+      removeAllergen(allergen);
+    } else {
+      addAllergen(allergen);
+    }
+  };
+
+  const handleCuisineToggle = (cuisine: string) => {
+    if (favoriteCuisines.includes(cuisine)) {
+      removeFavoriteCuisine(cuisine);
+    } else {
+      addFavoriteCuisine(cuisine);
+    }
+  };
+
+  return (
+    <Box flex={1} backgroundColor={colors.background.primary}>
+      <ScrollView contentContainerStyle={{ padding: spacing.lg }}>
+        <PreferenceSection
+          title="Dietary Restrictions"
+          description="We'll use these to highlight restaurants and dishes that suit you."
+          options={withSavedOptions(DIETARY_OPTIONS, dietaryRestrictions)}
+          selected={dietaryRestrictions}
+          onToggle={handleDietaryToggle}
+          testID="dietary-preferences"
+        />
+
+        <PreferenceSection
+          title="Allergens"
+          description="We'll warn you about dishes that contain these and ask you to confirm before ordering."
+          options={withSavedOptions(ALLERGEN_OPTIONS, allergens)}
+          selected={allergens}
+          onToggle={handleAllergenToggle}
+          testID="allergen-preferences"
+        />
+
+        <PreferenceSection
+          title="Favorite Cuisines"
+          description="Pick the cuisines you enjoy most."
+          options={withSavedOptions(cuisineOptions, favoriteCuisines)}
+          selected={favoriteCuisines}
+          onToggle={handleCuisineToggle}
+          testID="cuisine-preferences"
+        />
+      </ScrollView>
+    </Box>
+  );
+};
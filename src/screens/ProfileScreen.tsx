@@ -1,4 +1,4 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback } from 'react';
 import {
   View,
   StyleSheet,
@@ -9,63 +9,16 @@ import {
 import { Box, Text, Card, Icon, Button } from '../components';
 import type { IconName } from '../components/Icon';
 import { colors, spacing, borderRadius } from '../designSystem/tokens';
-import { User, Address, PaymentMethod, Order } from '../types';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useAuthStore } from '../stores/authStore';
+import { useUserStore } from '../stores/userStore';
+import { getHistoryOwner, useSearchHistoryStore } from '../stores/searchHistoryStore';
+import { RootStackParamList } from '../types';
 
 interface ProfileScreenProps {
-  navigation: any; // TODO: Type this properly
+  navigation: StackNavigationProp<RootStackParamList, 'Profile'>;
 }
 
-// Mock user data - in real app this would come from user store/API
-const mockUser: User = {
-  id: 'user-1',
-  name: 'John Doe',
-  email: 'john.doe@example.com',
-  phone: '+1 (555) 123-4567',
-  savedAddresses: [
-    {
-      id: 'addr-1',
-      label: 'Home',
-      street: '456 Oak Street',
-      city: 'San Francisco',
-      state: 'CA',
-      zipCode: '94102',
-      country: 'US',
-      coordinates: { latitude: 37.7849, longitude: -122.4094 },
-    },
-    {
-      id: 'addr-2',
-      label: 'Work',
-      street: '789 Market Street',
-      city: 'San Francisco',
-      state: 'CA',
-      zipCode: '94103',
-      country: 'US',
-      coordinates: { latitude: 37.7849, longitude: -122.4094 },
-    },
-  ],
-  savedPaymentMethods: [
-    {
-      id: 'pm-1',
-      type: 'card',
-      last4: '4242',
-      brand: 'visa',
-      isDefault: true,
-    },
-    {
-      id: 'pm-2',
-      type: 'card',
-      last4: '5555',
-      brand: 'mastercard',
-      isDefault: false,
-    },
-  ],
-  orderHistory: [],
-  preferences: {
-    dietaryRestrictions: ['vegetarian'],
-    favoriteCuisines: ['Italian', 'Mexican', 'Thai'],
-  },
-};
-
 interface MenuItemProps {
   icon: IconName;
   title: string;
@@ -113,8 +66,14 @@ const MenuItem: React.FC<MenuItemProps> = ({
   </TouchableOpacity>
 );
 
+const pluralize = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
 export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
-  const [user] = useState<User>(mockUser); // In real app, get from user store
+  const user = useUserStore(state => state.user);
+  const logout = useAuthStore(state => state.logout);
+  const searchHistory = useSearchHistoryStore(state => state.historyByUser[getHistoryOwner(user?.id)]);
+  const clearSearchHistory = useSearchHistoryStore(state => state.clearHistory);
 
   const handleEditProfile = useCallback(() => {
     // TODO: Navigate to edit profile screen
@@ -122,24 +81,36 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   }, []);
 
   const handleAddresses = useCallback(() => {
-    // TODO: Navigate to addresses screen
-    console.log('Manage addresses');
-  }, []);
+    navigation.navigate('SavedAddresses');
+  }, [navigation]);
 
   const handlePaymentMethods = useCallback(() => {
-    // TODO: Navigate to payment methods screen
-    console.log('Manage payment methods');
-  }, []);
+    navigation.navigate('PaymentMethods');
+  }, [navigation]);
 
   const handleOrderHistory = useCallback(() => {
-    // TODO: Navigate to order history screen
-    console.log('View order history');
-  }, []);
+    navigation.navigate('OrderHistory');
+  }, [navigation]);
 
   const handlePreferences = useCallback(() => {
-    // TODO: Navigate to preferences screen
-    console.log('Manage preferences');
-  }, []);
+    navigation.navigate('Preferences');
+  }, [navigation]);
+
+  const handleSearchHistory = useCallback(() => {
+    Alert.alert(
+      'Search History',
+      'Clear your recent searches? Saved searches are kept unless you clear everything.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear Recent', onPress: () => clearSearchHistory() },
+        {
+          text: 'Clear Everything',
+          style: 'destructive',
+          onPress: () => clearSearchHistory({ includeSaved: true }),
+        },
+      ]
+    );
+  }, [clearSearchHistory]);
 
   const handleNotifications = useCallback(() => {
     // TODO: Navigate to notifications settings
@@ -164,13 +135,25 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
           text: 'Sign Out',
           style: 'destructive',
           onPress: () => {
-            // TODO: Implement logout logic
-            console.log('User logged out');
+            // Leave the protected screen before the session goes away
+            navigation.reset({
+              index: 0,
+              routes: [{ name: 'Home' }],
+            });
+            logout();
           },
         },
       ]
     );
-  }, []);
+  }, [navigation, logout]);
+
+  // The auth gate only renders this screen for a signed-in user
+  if (!user) {
+    return null;
+  }
+
+  const savedSearchCount = (searchHistory ?? []).filter(entry => entry.isPinned).length;
+  const recentSearchCount = (searchHistory ?? []).length - savedSearchCount;
 
   return (
     <View style={styles.container}>
@@ -249,30 +232,49 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
               <MenuItem
                 icon="map-pin"
                 title="Delivery Addresses"
-                subtitle={`${user.savedAddresses.length} saved addresses`}
+                subtitle={pluralize(user.savedAddresses.length, 'saved address', 'saved addresses')}
                 onPress={handleAddresses}
               />
               
               <MenuItem
                 icon="credit-card"
                 title="Payment Methods"
-                subtitle={`${user.savedPaymentMethods.length} saved cards`}
+                subtitle={pluralize(user.savedPaymentMethods.length, 'saved payment method', 'saved payment methods')}
                 onPress={handlePaymentMethods}
               />
               
               <MenuItem
                 icon="clock"
                 title="Order History"
-                subtitle="View past orders"
+                subtitle={user.orderHistory.length > 0
+                  ? pluralize(user.orderHistory.length, 'order', 'orders')
+                  : 'No orders yet'}
                 onPress={handleOrderHistory}
               />
               
               <MenuItem
                 icon="heart"
                 title="Preferences"
-                subtitle={`${user.preferences.favoriteCuisines.length} favorite cuisines`}
+                subtitle={[
+                  pluralize(user.preferences.dietaryRestrictions.length, 'dietary restriction', 'dietary restrictions'),
+                  pluralize(user.preferences.allergens.length, 'allergen', 'allergens'),
+                  pluralize(user.preferences.favoriteCuisines.length, 'favorite cuisine', 'favorite cuisines'),
+                ].join(' · ')}
                 onPress={handlePreferences}
               />
+              
+              <MenuItem
+                icon="search"
+                title="Search History"
+                subtitle={recentSearchCount + savedSearchCount > 0
+                  ? [
+                      pluralize(recentSearchCount, 'recent search', 'recent searches'),
+                      pluralize(savedSearchCount, 'saved search', 'saved searches'),
+                    ].join(' · ')
+                  : 'No searches yet'}
+                onPress={handleSearchHistory}
+                showChevron={false}
+              />
             </Box>
           </Card>
         </Box>
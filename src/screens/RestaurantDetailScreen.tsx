@@ -2,7 +2,8 @@
  * RestaurantDetailScreen Component
  * 
  * Displays detailed restaurant information with parallax hero image,
- * sticky header, restaurant info, menu categories, and scrollable menu items
+ * sticky header, restaurant info, menu categories, and scrollable menu items.
+ * Opened with a menuItemId, e.g. from dish search, it scrolls to that dish.
  */
 
 import React, { useCallback, useEffect, useState, useRef } from 'react';
@@ -29,8 +30,11 @@ import {
   AddToCartConfirmation,
 } from '../components';
 import { useRestaurants, useCart } from '../hooks';
+import { useUserStore } from '../stores/userStore';
 import { colors, spacing, shadows } from '../designSystem/tokens';
-import { RootStackParamList, MenuItem as MenuItemType } from '../types';
+import { RootStackParamList, MenuItem as MenuItemType, Restaurant, SelectedOption } from '../types';
+import { getDefaultSelections, requiresOptionSelection } from '../utils/menuOptionUtils';
+import { useOpeningStatus } from '../hooks/useOpeningStatus';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const HERO_HEIGHT = screenHeight * 0.35;
@@ -39,10 +43,37 @@ const HEADER_HEIGHT = 100;
 type RestaurantDetailScreenRouteProp = RouteProp<RootStackParamList, 'RestaurantDetail'>;
 type RestaurantDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'RestaurantDetail'>;
 
+/**
+ * Whether the restaurant is open now, e.g. "Closes at 9:45 PM"
+ */
+const OpeningStatusItem: React.FC<{ restaurant: Restaurant }> = ({ restaurant }) => {
+  const status = useOpeningStatus(restaurant);
+  const iconColor =
+    status.state === 'closed'
+      ? colors.error.primary
+      : status.state === 'closingSoon'
+        ? colors.state.warning
+        : colors.accent.primary;
+
+  return (
+    <View style={styles.metaItem} testID="restaurant-opening-status">
+      <Icon name="clock" size={16} color={iconColor} />
+      <Text
+        variant="body"
+        weight="medium"
+        color={status.state === 'closed' ? colors.error.text : colors.text.primary}
+        style={styles.metaText}
+      >
+        {status.label}
+      </Text>
+    </View>
+  );
+};
+
 export const RestaurantDetailScreen: React.FC = () => {
   const route = useRoute<RestaurantDetailScreenRouteProp>();
   const navigation = useNavigation<RestaurantDetailScreenNavigationProp>();
-  const { restaurantId } = route.params;
+  const { restaurantId, menuItemId } = route.params;
   
   const {
     currentRestaurant,
@@ -54,8 +85,12 @@ export const RestaurantDetailScreen: React.FC = () => {
   } = useRestaurants();
   
   const { addItem, items } = useCart();
+  const userAllergens = useUserStore(state => state.user?.preferences.allergens);
   
   const scrollY = useRef(new Animated.Value(0)).current;
+  const scrollViewRef = useRef<ScrollView>(null);
+  const menuSectionY = useRef(0);
+  const scrolledToMenuItemId = useRef<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [showFloatingCart, setShowFloatingCart] = useState(false);
   const [selectedMenuItem, setSelectedMenuItem] = useState<MenuItemType | null>(null);
@@ -79,14 +114,42 @@ export const RestaurantDetailScreen: React.FC = () => {
     }
   }, [currentMenu, selectedCategory, menuByCategory]);
   
+  // Open the category holding a dish linked to from search
+  useEffect(() => {
+    const linkedItem = menuItemId
+      ? currentMenu.find(item => item.id === menuItemId)
+      : undefined;
+    if (linkedItem) {
+      setSelectedCategory(linkedItem.category);
+    }
+  }, [menuItemId, currentMenu]);
+
+  // Scroll the linked dish into view below the sticky header, once it's laid out
+  const handleLinkedItemLayout = useCallback((itemY: number) => {
+    if (!menuItemId || scrolledToMenuItemId.current === menuItemId) return;
+
+    scrolledToMenuItemId.current = menuItemId;
+    scrollViewRef.current?.scrollTo({
+      y: Math.max(0, menuSectionY.current + itemY - HEADER_HEIGHT),
+      animated: true,
+    });
+  }, [menuItemId]);
+  
   // Show/hide floating cart based on cart items
   useEffect(() => {
     setShowFloatingCart(items.length > 0);
   }, [items]);
   
   const handleAddToCart = useCallback((menuItem: MenuItemType) => {
+    // Items with required options open the detail view so a choice can be made
+    if (requiresOptionSelection(menuItem)) {
+      setSelectedMenuItem(menuItem);
+      setShowItemDetail(true);
+      return;
+    }
+
     if (currentRestaurant) {
-      addItem(menuItem, currentRestaurant, 1);
+      addItem(menuItem, currentRestaurant, 1, getDefaultSelections(menuItem));
       setLastAddedItem(menuItem.name);
       setShowAddToCartConfirmation(true);
     }
@@ -120,9 +183,13 @@ export const RestaurantDetailScreen: React.FC = () => {
     setSelectedMenuItem(null);
   }, []);
 
-  const handleAddToCartFromDetail = useCallback((quantity: number) => {
+  const handleAddToCartFromDetail = useCallback((
+    quantity: number,
+    selectedOptions: SelectedOption[],
+    specialInstructions?: string
+  ) => {
     if (selectedMenuItem && currentRestaurant) {
-      addItem(selectedMenuItem, currentRestaurant, quantity);
+      addItem(selectedMenuItem, currentRestaurant, quantity, selectedOptions, specialInstructions);
       setLastAddedItem(selectedMenuItem.name);
       setShowAddToCartConfirmation(true);
     }
@@ -171,16 +238,27 @@ export const RestaurantDetailScreen: React.FC = () => {
     </TouchableOpacity>
   );
   
-  const renderMenuItem = (item: MenuItemType) => (
-    <MenuItem
-      key={item.id}
-      menuItem={item}
-      onAddToCart={() => handleAddToCart(item)}
-      onPress={() => handleMenuItemPress(item)}
-      onAddToCartSuccess={handleAddToCartSuccess}
-      style={styles.menuItem}
-    />
-  );
+  const renderMenuItem = (item: MenuItemType) => {
+    const isLinked = item.id === menuItemId;
+
+    return (
+      <View
+        key={item.id}
+        onLayout={isLinked ? (event) => handleLinkedItemLayout(event.nativeEvent.layout.y) : undefined}
+        style={isLinked ? styles.linkedMenuItem : undefined}
+        testID={isLinked ? 'linked-menu-item' : undefined}
+      >
+        <MenuItem
+          menuItem={item}
+          onAddToCart={() => handleAddToCart(item)}
+          onPress={() => handleMenuItemPress(item)}
+          onAddToCartSuccess={handleAddToCartSuccess}
+          userAllergens={userAllergens}
+          style={styles.menuItem}
+        />
+      </View>
+    );
+  };
   
   return (
     <View style={styles.container}>
@@ -235,6 +313,7 @@ export const RestaurantDetailScreen: React.FC = () => {
       
       {/* Main Content */}
       <Animated.ScrollView
+        ref={scrollViewRef}
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
@@ -260,6 +339,8 @@ export const RestaurantDetailScreen: React.FC = () => {
           </Text>
           
           <View style={styles.restaurantMeta}>
+            <OpeningStatusItem restaurant={currentRestaurant} />
+
             <View style={styles.metaItem}>
               <Icon name="star" size={16} color={colors.accent.primary} />
               <Text variant="body" weight="medium" color="text.primary" style={styles.metaText}>
@@ -314,26 +395,28 @@ export const RestaurantDetailScreen: React.FC = () => {
         )}
         
         {/* Menu Items */}
-        <Box
-          backgroundColor="background.primary"
-          paddingHorizontal="lg"
-          paddingBottom="xxxl"
-        >
-          {selectedCategory && menuByCategory[selectedCategory] && (
-            <View>
-              <Text
-                variant="heading3"
-                weight="semibold"
-                color="text.primary"
-                style={styles.categoryTitle}
-              >
-                {selectedCategory}
-              </Text>
+        <View onLayout={(event) => { menuSectionY.current = event.nativeEvent.layout.y; }}>
+          <Box
+            backgroundColor="background.primary"
+            paddingHorizontal="lg"
+            paddingBottom="xxxl"
+          >
+            {selectedCategory && menuByCategory[selectedCategory] && (
+              <View>
+                <Text
+                  variant="heading3"
+                  weight="semibold"
+                  color="text.primary"
+                  style={styles.categoryTitle}
+                >
+                  {selectedCategory}
+                </Text>
               
-              {menuByCategory[selectedCategory].map(renderMenuItem)}
-            </View>
-          )}
-        </Box>
+                {menuByCategory[selectedCategory].map(renderMenuItem)}
+              </View>
+            )}
+          </Box>
+        </View>
       </Animated.ScrollView>
       
       {/* Floating Cart Button */}
@@ -364,6 +447,7 @@ export const RestaurantDetailScreen: React.FC = () => {
           isVisible={showItemDetail}
           onClose={handleCloseItemDetail}
           onAddToCart={handleAddToCartFromDetail}
+          userAllergens={userAllergens}
         />
       )}
 
@@ -508,6 +592,11 @@ const styles = StyleSheet.create({
   menuItem: {
     marginBottom: spacing.lg,
   },
+  linkedMenuItem: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.accent.primary,
+    paddingLeft: spacing.sm,
+  },
   floatingCartButton: {
     position: 'absolute',
     bottom: spacing.xl,
@@ -0,0 +1,311 @@
+/**
+ * SavedAddressesScreen Component
+ *
+ * Lists the user's saved delivery addresses. Addresses can be added, removed
+ * or made the default prefilled at checkout.
+ */
+
+import React, { useState } from 'react';
+import { ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Box, Text, Button, Input, Icon, AddressAutocomplete } from '../components';
+import { useUserStore } from '../stores/userStore';
+import { colors, spacing } from '../designSystem/tokens';
+import { Address, AddressFormData, FormErrors } from '../types';
+import { isNotEmpty, isValidZipCode } from '../utils/validationUtils';
+
+const EMPTY_FORM: AddressFormData = {
+  label: 'Home',
+  street: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'US',
+  deliveryInstructions: '',
+};
+
+interface AddressRowProps {
+  address: Address;
+  onSetDefault: (address: Address) => void;
+  onRemove: (address: Address) => void;
+}
+
+const AddressRow: React.FC<AddressRowProps> = ({ address, onSetDefault, onRemove }) => (
+  <Box
+    backgroundColor={colors.background.surface}
+    borderRadius="medium"
+    padding="lg"
+    marginBottom="md"
+    shadow="low"
+    flexDirection="row"
+    alignItems="flex-start"
+  >
+    <Icon name="map-pin" size={20} color={colors.accent.primary} style={{ marginTop: 2 }} />
+    <Box flex={1} marginLeft="md">
+      <Text variant="body" weight="semibold">
+        {address.label}
+      </Text>
+      <Text variant="body" color={colors.text.secondary}>
+        {address.street}
+      </Text>
+      <Text variant="body" color={colors.text.secondary}>
+        {address.city}, {address.state} {address.zipCode}
+      </Text>
+      {address.deliveryInstructions ? (
+        <Text variant="caption" color={colors.text.tertiary} style={{ marginTop: spacing.xs }}>
+          {address.deliveryInstructions}
+        </Text>
+      ) : null}
+      {address.isDefault ? (
+        <Text variant="caption" color={colors.accent.primary} style={{ marginTop: spacing.xs }}>
+          Default
+        </Text>
+      ) : (
+        <TouchableOpacity
+          onPress={() => onSetDefault(address)}
+          style={{ marginTop: spacing.xs }}
+          testID={`set-default-address-${address.id}`}
+        >
+          <Text variant="caption" weight="medium" color={colors.text.secondary}>
+            Set as default
+          </Text>
+        </TouchableOpacity>
+      )}
+    </Box>
+    <TouchableOpacity
+      onPress={() => onRemove(address)}
+      accessibilityLabel={`Remove ${address.label} address`}
+      testID={`remove-address-${address.id}`}
+    >
+      <Icon name="x" size={20} color={colors.text.tertiary} />
+    </TouchableOpacity>
+  </Box>
+);
+
+export const SavedAddressesScreen: React.FC = () => {
+  const { user, addAddress, removeAddress, setDefaultAddress } = useUserStore();
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState<AddressFormData>(EMPTY_FORM);
+  const [coordinates, setCoordinates] = useState<Address['coordinates']>({ latitude: 0, longitude: 0 });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const addresses = user?.savedAddresses ?? [];
+
+  const handleChange = (field: keyof AddressFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleAddressSelect = (selected: Partial<Address>) => {
+    setFormData(prev => ({
+      ...prev,
+      street: selected.street ?? prev.street,
+      city: selected.city ?? prev.city,
+      state: selected.state ?? prev.state,
+      zipCode: selected.zipCode ?? prev.zipCode,
+    }));
+    if (selected.coordinates) {
+      setCoordinates(selected.coordinates);
+    }
+    setErrors({});
+  };
+
+  const validate = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!isNotEmpty(formData.label)) {
+      newErrors.label = 'Give this address a name';
+    }
+    if (!isNotEmpty(formData.street) || formData.street.trim().length < 5) {
+      newErrors.street = 'Please enter a complete street address';
+    }
+    if (!isNotEmpty(formData.city)) {
+      newErrors.city = 'City is required';
+    }
+    if (formData.state.trim().length !== 2) {
+      newErrors.state = 'Please enter a valid 2-letter state code';
+    }
+    if (!isValidZipCode(formData.zipCode)) {
+      newErrors.zipCode = 'Please enter a valid ZIP code';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleCancel = () => {
+    setIsAdding(false);
+    setFormData(EMPTY_FORM);
+    setCoordinates({ latitude: 0, longitude: 0 });
+    setErrors({});
+  };
+
+  const handleSave = () => {
+    if (!validate()) return;
+
+    addAddress({
+      ...formData,
+      id: `address-${Date.now().toString(36)}`,
+      label: formData.label.trim(),
+      street: formData.street.trim(),
+      city: formData.city.trim(),
+      state: formData.state.trim().toUpperCase(),
+      zipCode: formData.zipCode.trim(),
+      deliveryInstructions: formData.deliveryInstructions?.trim() || undefined,
+      coordinates,
+    });
+    handleCancel();
+  };
+
+  const handleRemove = (address: Address) => {
+    Alert.alert(
+      'Remove Address',
+      `Remove ${address.label} (${address.street})?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => removeAddress(address.id) },
+      ]
+    );
+  };
+
+  return (
+    <Box flex={1} backgroundColor={colors.background.primary}>
+      <ScrollView
+        contentContainerStyle={{ padding: spacing.lg }}
+        keyboardShouldPersistTaps="handled"
+      >
+        {addresses.length === 0 && !isAdding && (
+          <Box alignItems="center" paddingVertical="xl">
+            <Icon name="map-pin" size={32} color={colors.text.tertiary} />
+            <Text
+              variant="body"
+              color={colors.text.secondary}
+              align="center"
+              style={{ marginTop: spacing.md }}
+            >
+              No saved addresses yet. Add one to check out faster.
+            </Text>
+          </Box>
+        )}
+
+        {addresses.map(address => (
+          <AddressRow
+            key={address.id}
+            address={address}
+            onSetDefault={(selected) => setDefaultAddress(selected.id)}
+            onRemove={handleRemove}
+          />
+        ))}
+
+        {isAdding ? (
+          <Box
+            backgroundColor={colors.background.surface}
+            borderRadius="medium"
+            padding="lg"
+            marginTop="sm"
+            shadow="low"
+          >
+            <Text variant="subheading" weight="semibold" style={{ marginBottom: spacing.lg }}>
+              New Address
+            </Text>
+
+            <Input
+              label="Label"
+              placeholder="Home, Work..."
+              value={formData.label}
+              onChangeText={(text) => handleChange('label', text)}
+              error={errors.label}
+              style={{ marginBottom: spacing.lg }}
+              testID="address-label-input"
+            />
+
+            <Box style={{ marginBottom: spacing.lg }}>
+              <AddressAutocomplete
+                label="Street Address"
+                placeholder="Start typing your address..."
+                value={formData.street}
+                onTextChange={(text) => handleChange('street', text)}
+                onAddressSelect={handleAddressSelect}
+                error={errors.street}
+                testID="address-street-autocomplete"
+              />
+            </Box>
+
+            <Box flexDirection="row" gap="md" style={{ marginBottom: spacing.lg }}>
+              <Box flex={2}>
+                <Input
+                  label="City"
+                  placeholder="San Francisco"
+                  value={formData.city}
+                  onChangeText={(text) => handleChange('city', text)}
+                  error={errors.city}
+                  testID="address-city-input"
+                />
+              </Box>
+              <Box flex={1}>
+                <Input
+                  label="State"
+                  placeholder="CA"
+                  value={formData.state}
+                  onChangeText={(text) => handleChange('state', text)}
+                  error={errors.state}
+                  maxLength={2}
+                  autoCapitalize="characters"
+                  testID="address-state-input"
+                />
+              </Box>
+            </Box>
+
+            <Input
+              label="ZIP Code"
+              placeholder="94102"
+              value={formData.zipCode}
+              onChangeText={(text) => handleChange('zipCode', text)}
+              error={errors.zipCode}
+              keyboardType="numeric"
+              maxLength={10}
+              style={{ marginBottom: spacing.lg }}
+              testID="address-zipcode-input"
+            />
+
+            <Input
+              label="Delivery Instructions (Optional)"
+              placeholder="Leave at door, ring bell, etc."
+              value={formData.deliveryInstructions || ''}
+              onChangeText={(text) => handleChange('deliveryInstructions', text)}
+              multiline
+              numberOfLines={2}
+              style={{ marginBottom: spacing.xl }}
+              testID="address-instructions-input"
+            />
+
+            <Box flexDirection="row" gap="md">
+              <Box flex={1}>
+                <Button variant="secondary" onPress={handleCancel}>
+                  Cancel
+                </Button>
+              </Box>
+              <Box flex={1}>
+                <Button variant="primary" onPress={handleSave} testID="save-address-button">
+                  Save Address
+                </Button>
+              </Box>
+            </Box>
+          </Box>
+        ) : (
+          <Button
+            variant="secondary"
+            onPress={() => setIsAdding(true)}
+            style={{ marginTop: spacing.sm }}
+            testID="add-address-button"
+          >
+            Add New Address
+          </Button>
+        )}
+      </ScrollView>
+    </Box>
+  );
+};
@@ -0,0 +1,205 @@
+/**
+ * SignUpScreen Component
+ *
+ * Account creation with name, email, phone and password. Signs the new
+ * user in and returns them to the screen that asked them to sign in.
+ */
+
+import React, { useState } from 'react';
+import { ScrollView, TouchableOpacity } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Box, Text, Button, Input, Icon, ErrorBanner } from '../components';
+import { useAuthStore } from '../stores/authStore';
+import { colors, spacing } from '../designSystem/tokens';
+import { FormErrors, RootStackParamList, UserRegistrationData } from '../types';
+import {
+  isNotEmpty,
+  isValidEmail,
+  isValidPhone,
+  isValidPassword,
+  PASSWORD_MIN_LENGTH,
+} from '../utils/validationUtils';
+
+type SignUpScreenRouteProp = RouteProp<RootStackParamList, 'SignUp'>;
+type SignUpScreenNavigationProp = StackNavigationProp<RootStackParamList, 'SignUp'>;
+
+export const SignUpScreen: React.FC = () => {
+  const navigation = useNavigation<SignUpScreenNavigationProp>();
+  const route = useRoute<SignUpScreenRouteProp>();
+  const redirectTo = route.params?.redirectTo;
+  const { signUp, isAuthenticating, error, clearError } = useAuthStore();
+
+  const [formData, setFormData] = useState<UserRegistrationData>({
+    name: '',
+    email: '',
+    phone: '',
+    password: '',
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const handleChange = (field: keyof UserRegistrationData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+    if (error) {
+      clearError();
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!isNotEmpty(formData.name)) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (!isNotEmpty(formData.email)) {
+      newErrors.email = 'Email address is required';
+    } else if (!isValidEmail(formData.email)) {
+      newErrors.email = 'Please enter a valid email address';
+    }
+
+    if (!isNotEmpty(formData.phone)) {
+      newErrors.phone = 'Phone number is required';
+    } else if (!isValidPhone(formData.phone)) {
+      newErrors.phone = 'Please enter a valid phone number';
+    }
+
+    if (!isValidPassword(formData.password)) {
+      newErrors.password = `Use at least ${PASSWORD_MIN_LENGTH} characters with a letter and a number`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSignUp = async () => {
+    if (isAuthenticating || !validate()) return;
+
+    try {
+      await signUp(formData);
+    } catch {
+      // Shown from the store's error
+      return;
+    }
+
+    if (redirectTo) {
+      navigation.replace(redirectTo);
+    } else if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.replace('Home');
+    }
+  };
+
+  const handleSignIn = () => {
+    clearError();
+    navigation.replace('Login', { redirectTo });
+  };
+
+  return (
+    <Box flex={1} backgroundColor={colors.background.primary}>
+      <ScrollView
+        contentContainerStyle={{ padding: spacing.lg, paddingTop: spacing.xxl }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <TouchableOpacity
+          onPress={() => (navigation.canGoBack() ? navigation.goBack() : navigation.replace('Home'))}
+          style={{ marginBottom: spacing.xl }}
+          accessibilityLabel="Go back"
+        >
+          <Icon name="arrow-left" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+
+        <Text variant="heading1" weight="bold" style={{ marginBottom: spacing.sm }}>
+          Create your account
+        </Text>
+        <Text variant="body" color={colors.text.secondary} style={{ marginBottom: spacing.xl }}>
+          Save your addresses and track your orders
+        </Text>
+
+        {error && (
+          <Box marginBottom="lg">
+            <ErrorBanner message={error.message} onDismiss={clearError} />
+          </Box>
+        )}
+
+        <Input
+          label="Full Name"
+          placeholder="Alex Johnson"
+          value={formData.name}
+          onChangeText={(text) => handleChange('name', text)}
+          error={errors.name}
+          autoComplete="name"
+          style={{ marginBottom: spacing.lg }}
+          testID="signup-name-input"
+        />
+
+        <Input
+          label="Email Address"
+          placeholder="your.email@example.com"
+          value={formData.email}
+          onChangeText={(text) => handleChange('email', text)}
+          error={errors.email}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          style={{ marginBottom: spacing.lg }}
+          testID="signup-email-input"
+        />
+
+        <Input
+          label="Phone Number"
+          placeholder="(555) 123-4567"
+          value={formData.phone}
+          onChangeText={(text) => handleChange('phone', text)}
+          error={errors.phone}
+          keyboardType="phone-pad"
+          autoComplete="tel"
+          style={{ marginBottom: spacing.lg }}
+          testID="signup-phone-input"
+        />
+
+        <Input
+          label="Password"
+          placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+          value={formData.password}
+          onChangeText={(text) => handleChange('password', text)}
+          error={errors.password}
+          secureTextEntry
+          showClearButton={false}
+          autoCapitalize="none"
+          autoComplete="password-new"
+          style={{ marginBottom: spacing.xl }}
+          testID="signup-password-input"
+        />
+
+        <Button
+          variant="primary"
+          size="large"
+          onPress={handleSignUp}
+          loading={isAuthenticating}
+          disabled={isAuthenticating}
+          testID="signup-submit-button"
+        >
+          Create Account
+        </Button>
+
+        <Box flexDirection="row" justifyContent="center" marginTop="xl">
+          <Text variant="body" color={colors.text.secondary}>
+            Already have an account?{' '}
+          </Text>
+          <TouchableOpacity onPress={handleSignIn} testID="signup-login-link">
+            <Text variant="body" weight="semibold" color={colors.accent.primary}>
+              Sign in
+            </Text>
+          </TouchableOpacity>
+        </Box>
+      </ScrollView>
+    </Box>
+  );
+};
@@ -6,3 +6,9 @@ export { OrderConfirmationScreen } from './OrderConfirmationScreen';
 export { SpinWheelScreen } from './SpinWheelScreen';
 export { OrderTrackingScreen } from './OrderTrackingScreen';
 export { ProfileScreen } from './ProfileScreen';
+export { LoginScreen } from './LoginScreen';
+export { SignUpScreen } from './SignUpScreen';
+export { SavedAddressesScreen } from './SavedAddressesScreen';
+export { PaymentMethodsScreen } from './PaymentMethodsScreen';
+export { OrderHistoryScreen } from './OrderHistoryScreen';
+export { PreferencesScreen } from './PreferencesScreen';
@@ -0,0 +1,187 @@
+/**
+ * API Client Tests
+ */
+
+import { createApiClient, isAppError, toAppError, API_ERROR_CODES, Transport } from './apiClient';
+import { createMockTransport, matchRoutePath, buildQueryString, ok, fail } from './transports';
+import { createMockServer } from './mockServer';
+
+describe('API Client', () => {
+  describe('envelopes', () => {
+    it('should return ApiResponse envelope for successful requests', async () => {
+      const client = createApiClient({
+        transport: createMockTransport([
+          { method: 'GET', path: '/ping', handler: () => ok({ pong: true }, 'hello') },
+        ]),
+      });
+
+      const response = await client.get<{ pong: boolean }>('/ping');
+
+      expect(response).toEqual({ data: { pong: true }, success: true, message: 'hello' });
+    });
+
+    it('should return PaginatedResponse envelope for paginated requests', async () => {
+      const server = createMockServer({ restaurantCount: 7 });
+      const client = createApiClient({ transport: server });
+
+      const response = await client.getPaginated('/restaurants', { page: 2, limit: 5 });
+
+      expect(response.data).toHaveLength(2);
+      expect(response.pagination).toEqual({ page: 2, limit: 5, total: 7, hasMore: false });
+    });
+  });
+
+  describe('error mapping', () => {
+    it('should map HTTP status to AppError code', async () => {
+      const client = createApiClient({ transport: createMockTransport([]) });
+
+      await expect(client.get('/missing')).rejects.toMatchObject({
+        code: API_ERROR_CODES.NOT_FOUND,
+      });
+    });
+
+    it('should prefer server-provided error code and message', async () => {
+      const client = createApiClient({
+        transport: createMockTransport([
+          { method: 'POST', path: '/orders', handler: () => fail(422, 'Cart is empty', 'EMPTY_CART') },
+        ]),
+      });
+
+      await expect(client.post('/orders', {})).rejects.toMatchObject({
+        code: 'EMPTY_CART',
+        message: 'Cart is empty',
+      });
+    });
+
+    it('should map transport failures to NETWORK_ERROR', async () => {
+      const transport: Transport = () => Promise.reject(new Error('offline'));
+      const client = createApiClient({ transport });
+
+      await expect(client.get('/anything')).rejects.toMatchObject({
+        code: API_ERROR_CODES.NETWORK_ERROR,
+        message: 'offline',
+      });
+    });
+
+    it('should reject with TIMEOUT when transport is too slow', async () => {
+      const transport: Transport = () => new Promise(() => {});
+      const client = createApiClient({ transport, timeoutMs: 10 });
+
+      await expect(client.get('/slow')).rejects.toMatchObject({
+        code: API_ERROR_CODES.TIMEOUT,
+      });
+    });
+
+    it('should abort a request that times out', async () => {
+      let signal: AbortSignal | undefined;
+      const transport: Transport = request => {
+        signal = request.signal;
+        return new Promise(() => {});
+      };
+      const client = createApiClient({ transport, timeoutMs: 10 });
+
+      await expect(client.get('/slow')).rejects.toMatchObject({ code: API_ERROR_CODES.TIMEOUT });
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should not let a timed out request reach the server', async () => {
+      const handler = jest.fn(() => ok({ id: 'order-1' }));
+      const client = createApiClient({
+        transport: createMockTransport([{ method: 'POST', path: '/orders', handler }], { latencyMs: 30 }),
+        timeoutMs: 10,
+      });
+
+      await expect(client.post('/orders', {})).rejects.toMatchObject({ code: API_ERROR_CODES.TIMEOUT });
+      await new Promise(resolve => setTimeout(resolve, 40));
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed bodies with INVALID_RESPONSE', async () => {
+      const transport: Transport = async () => ({ status: 200, body: 'not json' });
+      const client = createApiClient({ transport });
+
+      await expect(client.get('/weird')).rejects.toMatchObject({
+        code: API_ERROR_CODES.INVALID_RESPONSE,
+      });
+    });
+
+    it('should normalize unknown values with toAppError', () => {
+      const error = toAppError('boom');
+
+      expect(isAppError(error)).toBe(true);
+      expect(error.code).toBe(API_ERROR_CODES.UNKNOWN);
+    });
+  });
+
+  describe('authentication', () => {
+    const protectedRoute = (validToken: string) =>
+      createMockTransport([
+        {
+          method: 'GET',
+          path: '/me',
+          handler: ({ headers }) =>
+            headers.Authorization === `Bearer ${validToken}` ? ok({ id: 'user-1' }) : fail(401, 'Unauthorized'),
+        },
+        { method: 'POST', path: '/auth/login', handler: ({ headers }) => ok({ authorization: headers.Authorization ?? null }) },
+      ]);
+
+    it('should send the access token as a bearer header', async () => {
+      const client = createApiClient({
+        transport: protectedRoute('token-1'),
+        auth: { getAccessToken: async () => 'token-1', refreshAccessToken: async () => null },
+      });
+
+      await expect(client.get('/me')).resolves.toMatchObject({ data: { id: 'user-1' } });
+    });
+
+    it('should refresh once and retry after a 401', async () => {
+      const refreshAccessToken = jest.fn(async () => 'token-2');
+      const client = createApiClient({
+        transport: protectedRoute('token-2'),
+        auth: { getAccessToken: async () => 'token-1', refreshAccessToken },
+      });
+
+      await expect(client.get('/me')).resolves.toMatchObject({ data: { id: 'user-1' } });
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the token for requests that opt out', async () => {
+      const client = createApiClient({
+        transport: protectedRoute('token-1'),
+        auth: { getAccessToken: async () => 'token-1', refreshAccessToken: async () => null },
+      });
+
+      const response = await client.request({ method: 'POST', path: '/auth/login', skipAuth: true });
+
+      expect(response.data).toEqual({ authorization: null });
+    });
+  });
+
+  describe('transports', () => {
+    it('should match route params', () => {
+      expect(matchRoutePath('/restaurants/:id/menu', '/restaurants/abc/menu')).toEqual({ id: 'abc' });
+      expect(matchRoutePath('/restaurants/:id', '/restaurants/abc/menu')).toBeNull();
+    });
+
+    it('should build query strings without undefined values', () => {
+      expect(buildQueryString({ page: 1, q: 'thai food', limit: undefined })).toBe('?page=1&q=thai%20food');
+      expect(buildQueryString({})).toBe('');
+    });
+  });
+
+  describe('mock server', () => {
+    it('should serve consistent restaurants and menus', async () => {
+      const server = createMockServer({ restaurantCount: 3, menuItemCount: 4 });
+      const client = createApiClient({ transport: server });
+      const restaurantId = server.db.restaurants[0].id;
+
+      const restaurant = await client.get(`/restaurants/${restaurantId}`);
+      const firstMenu = await client.get<unknown[]>(`/restaurants/${restaurantId}/menu`);
+      const secondMenu = await client.get<unknown[]>(`/restaurants/${restaurantId}/menu`);
+
+      expect(restaurant.data).toEqual(server.db.restaurants[0]);
+      expect(firstMenu.data).toHaveLength(4);
+      expect(secondMenu.data).toEqual(firstMenu.data);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * API Client
+ *
+ * Typed HTTP client that sends requests through a swappable transport and
+ * returns the app's ApiResponse / PaginatedResponse envelopes
+ */
+
+import { ApiResponse, PaginatedResponse, AppError } from '../types';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export interface ApiRequest {
+  method: HttpMethod;
+  path: string;
+  query?: QueryParams;
+  body?: unknown;
+  headers?: Record<string, string>;
+  skipAuth?: boolean; // send without the Authorization header, e.g. sign-in
+  signal?: AbortSignal; // aborted when the client gives up on the request
+}
+
+export interface TransportResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * A transport moves a request to a server and back. Production uses fetch,
+ * tests and local development use the in-memory mock server.
+ */
+export type Transport = (request: ApiRequest) => Promise<TransportResponse>;
+
+/**
+ * Supplies access tokens to the client. When a request is rejected as
+ * unauthorized the client asks for a fresh token once and retries.
+ */
+export interface ApiAuthHandlers {
+  getAccessToken: () => Promise<string | null>;
+  refreshAccessToken: () => Promise<string | null>;
+}
+
+export interface ApiClientOptions {
+  transport: Transport;
+  timeoutMs?: number;
+  auth?: ApiAuthHandlers;
+}
+
+export interface ApiClient {
+  request: <T>(request: ApiRequest) => Promise<ApiResponse<T>>;
+  get: <T>(path: string, query?: QueryParams) => Promise<ApiResponse<T>>;
+  getPaginated: <T>(path: string, query?: QueryParams) => Promise<PaginatedResponse<T>>;
+  post: <T>(path: string, body?: unknown, headers?: Record<string, string>) => Promise<ApiResponse<T>>;
+  put: <T>(path: string, body?: unknown) => Promise<ApiResponse<T>>;
+  patch: <T>(path: string, body?: unknown) => Promise<ApiResponse<T>>;
+  delete: <T>(path: string) => Promise<ApiResponse<T>>;
+}
+
+export const API_ERROR_CODES = {
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  BAD_REQUEST: 'BAD_REQUEST',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  FORBIDDEN: 'FORBIDDEN',
+  NOT_FOUND: 'NOT_FOUND',
+  CONFLICT: 'CONFLICT',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  SERVER_ERROR: 'SERVER_ERROR',
+  INVALID_RESPONSE: 'INVALID_RESPONSE',
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check whether a thrown value is already an AppError
+ */
+export const isAppError = (error: unknown): error is AppError =>
+  isRecord(error) && typeof error.code === 'string' && typeof error.message === 'string';
+
+/**
+ * Map an HTTP status code to an AppError code
+ */
+export const getErrorCodeForStatus = (status: number): string => {
+  switch (status) {
+    case 400:
+      return API_ERROR_CODES.BAD_REQUEST;
+    case 401:
+      return API_ERROR_CODES.UNAUTHORIZED;
+    case 403:
+      return API_ERROR_CODES.FORBIDDEN;
+    case 404:
+      return API_ERROR_CODES.NOT_FOUND;
+    case 409:
+      return API_ERROR_CODES.CONFLICT;
+    case 422:
+      return API_ERROR_CODES.VALIDATION_ERROR;
+    default:
+      return status >= 500 ? API_ERROR_CODES.SERVER_ERROR : API_ERROR_CODES.UNKNOWN;
+  }
+};
+
+/**
+ * Normalize anything thrown during a request into an AppError
+ */
+export const toAppError = (error: unknown): AppError => {
+  if (isAppError(error)) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    return {
+      code: API_ERROR_CODES.NETWORK_ERROR,
+      message: error.message || 'Network request failed',
+      details: error,
+    };
+  }
+
+  return {
+    code: API_ERROR_CODES.UNKNOWN,
+    message: 'An unexpected error occurred',
+    details: error,
+  };
+};
+
+/**
+ * Build the AppError for a failed response, preferring the server's own
+ * code and message when the body provides them
+ */
+const errorFromResponse = (response: TransportResponse): AppError => {
+  const body = isRecord(response.body) ? response.body : {};
+
+  return {
+    code: typeof body.code === 'string' ? body.code : getErrorCodeForStatus(response.status),
+    message: typeof body.message === 'string'
+      ? body.message
+      : `Request failed with status ${response.status}`,
+    details: body.details ?? { status: response.status },
+  };
+};
+
+const isFailedResponse = (response: TransportResponse): boolean =>
+  response.status >= 400 || (isRecord(response.body) && response.body.success === false);
+
+/**
+ * Reject after timeoutMs, aborting the request so it can't still reach the
+ * server once the caller has been told it failed
+ */
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> => {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort();
+      reject({
+        code: API_ERROR_CODES.TIMEOUT,
+        message: `Request timed out after ${timeoutMs}ms`,
+      } as AppError);
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => {
+    if (timeoutId) clearTimeout(timeoutId);
+  });
+};
+
+/**
+ * Create an API client bound to a transport
+ */
+export const createApiClient = ({
+  transport,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  auth,
+}: ApiClientOptions): ApiClient => {
+  const withAuthorization = (request: ApiRequest, accessToken: string | null): ApiRequest => {
+    if (!accessToken) return request;
+
+    return {
+      ...request,
+      headers: { ...request.headers, Authorization: `Bearer ${accessToken}` },
+    };
+  };
+
+  const sendOnce = async (request: ApiRequest): Promise<TransportResponse> => {
+    const controller = new AbortController();
+    try {
+      return await withTimeout(transport({ ...request, signal: controller.signal }), timeoutMs, controller);
+    } catch (error) {
+      throw toAppError(error);
+    }
+  };
+
+  const send = async (request: ApiRequest): Promise<Record<string, unknown>> => {
+    const useAuth = auth !== undefined && !request.skipAuth;
+    let response = await sendOnce(useAuth ? withAuthorization(request, await auth.getAccessToken()) : request);
+
+    if (useAuth && response.status === 401) {
+      const refreshedToken = await auth.refreshAccessToken();
+      if (refreshedToken) {
+        response = await sendOnce(withAuthorization(request, refreshedToken));
+      }
+    }
+
+    if (isFailedResponse(response)) {
+      throw errorFromResponse(response);
+    }
+
+    if (!isRecord(response.body) || !('data' in response.body)) {
+      throw {
+        code: API_ERROR_CODES.INVALID_RESPONSE,
+        message: 'Server returned an unexpected response',
+        details: response.body,
+      } as AppError;
+    }
+
+    return response.body;
+  };
+
+  const request = async <T>(apiRequest: ApiRequest): Promise<ApiResponse<T>> => {
+    const body = await send(apiRequest);
+
+    return {
+      data: body.data as T,
+      success: true,
+      message: typeof body.message === 'string' ? body.message : undefined,
+    };
+  };
+
+  const getPaginated = async <T>(path: string, query?: QueryParams): Promise<PaginatedResponse<T>> => {
+    const body = await send({ method: 'GET', path, query });
+
+    if (!Array.isArray(body.data) || !isRecord(body.pagination)) {
+      throw {
+        code: API_ERROR_CODES.INVALID_RESPONSE,
+        message: 'Server returned an unexpected paginated response',
+        details: body,
+      } as AppError;
+    }
+
+    return {
+      data: body.data as T[],
+      pagination: body.pagination as PaginatedResponse<T>['pagination'],
+    };
+  };
+
+  return {
+    request,
+    get: <T>(path: string, query?: QueryParams) => request<T>({ method: 'GET', path, query }),
+    getPaginated,
+    post: <T>(path: string, body?: unknown, headers?: Record<string, string>) =>
+      request<T>({ method: 'POST', path, body, headers }),
+    put: <T>(path: string, body?: unknown) => request<T>({ method: 'PUT', path, body }),
+    patch: <T>(path: string, body?: unknown) => request<T>({ method: 'PATCH', path, body }),
+    delete: <T>(path: string) => request<T>({ method: 'DELETE', path }),
+  };
+};
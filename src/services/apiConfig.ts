@@ -0,0 +1,57 @@
+/**
+ * API Configuration
+ *
+ * Holds the app-wide API client. Uses the real backend when
+ * EXPO_PUBLIC_API_URL is set and the in-memory mock server otherwise.
+ */
+
+import { ApiAuthHandlers, ApiClient, ApiClientOptions, Transport, createApiClient } from './apiClient';
+import { createFetchTransport } from './transports';
+import { createMockServer } from './mockServer';
+
+const MOCK_LATENCY_MS = 400;
+
+const createDefaultTransport = (): Transport => {
+  const apiUrl = process.env.EXPO_PUBLIC_API_URL;
+
+  if (apiUrl) {
+    return createFetchTransport(apiUrl);
+  }
+
+  return createMockServer({ latencyMs: MOCK_LATENCY_MS, requireAuth: true });
+};
+
+let apiClient: ApiClient | null = null;
+let authHandlers: ApiAuthHandlers | null = null;
+
+// Clients are created before the session store registers itself, so they
+// look the handlers up on every request
+const sharedAuth: ApiAuthHandlers = {
+  getAccessToken: async () => (authHandlers ? authHandlers.getAccessToken() : null),
+  refreshAccessToken: async () => (authHandlers ? authHandlers.refreshAccessToken() : null),
+};
+
+/**
+ * Get the shared API client, creating it on first use
+ */
+export const getApiClient = (): ApiClient => {
+  if (!apiClient) {
+    apiClient = createApiClient({ transport: createDefaultTransport(), auth: sharedAuth });
+  }
+  return apiClient;
+};
+
+/**
+ * Replace the shared API client, e.g. to point tests at a mock server
+ */
+export const configureApiClient = (options: ApiClientOptions): ApiClient => {
+  apiClient = createApiClient({ auth: sharedAuth, ...options });
+  return apiClient;
+};
+
+/**
+ * Register where the shared client gets access tokens from
+ */
+export const configureApiAuth = (handlers: ApiAuthHandlers | null): void => {
+  authHandlers = handlers;
+};
@@ -0,0 +1,52 @@
+/**
+ * Auth Service
+ *
+ * Account and session endpoints. These calls carry their own credentials,
+ * so they never send or refresh the stored access token.
+ */
+
+import { ApiResponse, AuthSession, AuthTokens, LoginCredentials, UserRegistrationData } from '../types';
+import { getApiClient } from './apiConfig';
+
+/**
+ * Dates arrive as strings over the network; restore them
+ */
+const reviveTokens = (tokens: AuthTokens): AuthTokens => ({
+  ...tokens,
+  expiresAt: new Date(tokens.expiresAt),
+});
+
+const reviveSession = (response: ApiResponse<AuthSession>): ApiResponse<AuthSession> => ({
+  ...response,
+  data: { ...response.data, tokens: reviveTokens(response.data.tokens) },
+});
+
+export const authService = {
+  signUp: (data: UserRegistrationData): Promise<ApiResponse<AuthSession>> =>
+    getApiClient()
+      .request<AuthSession>({ method: 'POST', path: '/auth/signup', body: data, skipAuth: true })
+      .then(reviveSession),
+
+  signIn: (credentials: LoginCredentials): Promise<ApiResponse<AuthSession>> =>
+    getApiClient()
+      .request<AuthSession>({ method: 'POST', path: '/auth/login', body: credentials, skipAuth: true })
+      .then(reviveSession),
+
+  /**
+   * Exchange a refresh token for a new token pair. The old refresh token
+   * stops working.
+   */
+  refresh: (refreshToken: string): Promise<ApiResponse<AuthTokens>> =>
+    getApiClient()
+      .request<AuthTokens>({ method: 'POST', path: '/auth/refresh', body: { refreshToken }, skipAuth: true })
+      .then(response => ({ ...response, data: reviveTokens(response.data) })),
+
+  signOut: (tokens: AuthTokens): Promise<ApiResponse<null>> =>
+    getApiClient().request<null>({
+      method: 'POST',
+      path: '/auth/logout',
+      body: { refreshToken: tokens.refreshToken },
+      headers: { Authorization: `Bearer ${tokens.accessToken}` },
+      skipAuth: true,
+    }),
+};
@@ -0,0 +1,45 @@
+/**
+ * Delivery Zone Service Tests
+ */
+
+import { deliveryZoneService } from './deliveryZoneService';
+import { generateMockRestaurant } from '../utils/mockData';
+
+describe('deliveryZoneService', () => {
+  describe('findZone', () => {
+    it('should find the zone a location falls in', () => {
+      expect(deliveryZoneService.findZone({ latitude: 37.7599, longitude: -122.4148 })?.id).toBe('mission');
+      expect(deliveryZoneService.findZone({ latitude: 37.7700, longitude: -122.4030 })?.id).toBe('soma');
+    });
+
+    it('should prefer the zone listed first on a shared edge', () => {
+      expect(deliveryZoneService.findZone({ latitude: 37.7849, longitude: -122.4094 })?.id).toBe('downtown');
+    });
+
+    it('should follow the polygon rather than its bounding box', () => {
+      // Inside the Mission's bounding box, but past its slanted south-east edge
+      expect(deliveryZoneService.findZone({ latitude: 37.7510, longitude: -122.4080 })).toBeNull();
+    });
+
+    it('should not place unknown or far away locations in a zone', () => {
+      expect(deliveryZoneService.findZone({ latitude: 0, longitude: 0 })).toBeNull();
+      expect(deliveryZoneService.findZone(undefined)).toBeNull();
+      expect(deliveryZoneService.isDeliverable({ latitude: 34.0522, longitude: -118.2437 })).toBe(false);
+    });
+  });
+
+  describe('fees and minimums', () => {
+    const mission = deliveryZoneService.getZones().find(zone => zone.id === 'mission')!;
+
+    it('should charge the zone fee unless the restaurant charges more', () => {
+      expect(deliveryZoneService.getDeliveryFee(mission, generateMockRestaurant({ deliveryFee: 1.99 }))).toBe(3.99);
+      expect(deliveryZoneService.getDeliveryFee(mission, generateMockRestaurant({ deliveryFee: 5.49 }))).toBe(5.49);
+    });
+
+    it('should use the higher of the zone and restaurant minimums', () => {
+      expect(deliveryZoneService.getMinimumOrder(mission, generateMockRestaurant({ minimumOrder: 15 }))).toBe(25);
+      expect(deliveryZoneService.getMinimumOrder(mission, generateMockRestaurant({ minimumOrder: 30 }))).toBe(30);
+      expect(deliveryZoneService.getMinimumOrder(null, generateMockRestaurant({ minimumOrder: 15 }))).toBe(15);
+    });
+  });
+});
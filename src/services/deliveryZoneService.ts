@@ -0,0 +1,71 @@
+/**
+ * Delivery Zone Service
+ *
+ * The areas orders are delivered to, and what delivering there costs. Zones
+ * are polygons; where zones share an edge, the one listed first wins.
+ */
+
+import { Coordinates, DeliveryZone, Restaurant } from '../types';
+import { isKnownLocation, isPointInPolygon } from '../utils/geoUtils';
+
+// Mock delivery zones - in a real app, these would come from an API
+export const DELIVERY_ZONES: DeliveryZone[] = [
+  {
+    id: 'downtown',
+    name: 'Downtown',
+    boundary: [
+      { latitude: 37.7849, longitude: -122.4194 },
+      { latitude: 37.7849, longitude: -122.4094 },
+      { latitude: 37.7749, longitude: -122.4094 },
+      { latitude: 37.7749, longitude: -122.4194 },
+    ],
+    deliveryFee: 2.99,
+    minimumOrder: 15,
+  },
+  {
+    id: 'soma',
+    name: 'SOMA',
+    boundary: [
+      { latitude: 37.7849, longitude: -122.4194 },
+      { latitude: 37.7849, longitude: -122.3994 },
+      { latitude: 37.7649, longitude: -122.3994 },
+      { latitude: 37.7649, longitude: -122.4194 },
+    ],
+    deliveryFee: 3.49,
+    minimumOrder: 20,
+  },
+  {
+    id: 'mission',
+    name: 'Mission District',
+    boundary: [
+      { latitude: 37.7699, longitude: -122.4294 },
+      { latitude: 37.7699, longitude: -122.4094 },
+      { latitude: 37.7549, longitude: -122.4064 },
+      { latitude: 37.7499, longitude: -122.4134 },
+      { latitude: 37.7499, longitude: -122.4294 },
+    ],
+    deliveryFee: 3.99,
+    minimumOrder: 25,
+  },
+];
+
+export const deliveryZoneService = {
+  getZones: (): DeliveryZone[] => DELIVERY_ZONES,
+
+  // The zone a location falls in, or null when it's outside every zone or unknown
+  findZone: (coordinates?: Coordinates | null): DeliveryZone | null => {
+    if (!isKnownLocation(coordinates)) return null;
+    return DELIVERY_ZONES.find(zone => isPointInPolygon(coordinates, zone.boundary)) ?? null;
+  },
+
+  isDeliverable: (coordinates?: Coordinates | null): boolean =>
+    deliveryZoneService.findZone(coordinates) !== null,
+
+  // The zone's fee, unless the restaurant charges more
+  getDeliveryFee: (zone: DeliveryZone, restaurant: Restaurant): number =>
+    Math.max(zone.deliveryFee, restaurant.deliveryFee),
+
+  // Whichever of the zone's and the restaurant's minimums is higher
+  getMinimumOrder: (zone: DeliveryZone | null, restaurant: Restaurant): number =>
+    Math.max(zone?.minimumOrder ?? 0, restaurant.minimumOrder),
+};
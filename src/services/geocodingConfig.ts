@@ -0,0 +1,38 @@
+/**
+ * Geocoding Configuration
+ *
+ * Holds the app-wide geocoding provider. Until a places API is wired in,
+ * addresses come from the bundled offline dataset, with a short delay so
+ * loading states behave as they would over the network.
+ */
+
+import {
+  GeocodingProvider,
+  createCachedGeocodingProvider,
+  createOfflineGeocodingProvider,
+} from './geocodingProvider';
+
+const OFFLINE_LATENCY_MS = 300;
+
+let geocodingProvider: GeocodingProvider | null = null;
+
+/**
+ * Get the shared geocoding provider, creating it on first use
+ */
+export const getGeocodingProvider = (): GeocodingProvider => {
+  if (!geocodingProvider) {
+    geocodingProvider = createCachedGeocodingProvider(
+      createOfflineGeocodingProvider({ latencyMs: OFFLINE_LATENCY_MS })
+    );
+  }
+  return geocodingProvider;
+};
+
+/**
+ * Replace the shared geocoding provider, e.g. with a places API client or
+ * an instant offline provider in tests
+ */
+export const configureGeocodingProvider = (provider: GeocodingProvider): GeocodingProvider => {
+  geocodingProvider = provider;
+  return geocodingProvider;
+};
@@ -0,0 +1,119 @@
+/**
+ * Geocoding Provider Tests
+ */
+
+import {
+  GEOCODING_ERROR_CODES,
+  GeocodingProvider,
+  createCachedGeocodingProvider,
+  createOfflineGeocodingProvider,
+  isCancelledLookup,
+} from './geocodingProvider';
+
+describe('createOfflineGeocodingProvider', () => {
+  const provider = createOfflineGeocodingProvider();
+
+  it('should suggest addresses whose words start with every query term', async () => {
+    const suggestions = await provider.autocomplete('456 missi');
+
+    expect(suggestions.map(suggestion => suggestion.placeId)).toEqual(['sf-mission-456']);
+    expect(suggestions[0]).toEqual({
+      placeId: 'sf-mission-456',
+      description: '456 Mission Street, San Francisco, CA 94105',
+      mainText: '456 Mission Street',
+      secondaryText: 'San Francisco, CA 94105',
+    });
+  });
+
+  it('should answer the same query the same way every time', async () => {
+    const first = await provider.autocomplete('street');
+    const second = await provider.autocomplete('STREET');
+
+    expect(first.length).toBe(5);
+    expect(second).toEqual(first);
+    expect(await provider.autocomplete('   ')).toEqual([]);
+  });
+
+  it('should look up place details and reject unknown places', async () => {
+    const place = await provider.getPlaceDetails('sf-valencia-321');
+
+    expect(place.street).toBe('321 Valencia Street');
+    expect(place.coordinates).toEqual({ latitude: 37.7599, longitude: -122.4194 });
+    await expect(provider.getPlaceDetails('nowhere')).rejects.toMatchObject({
+      code: GEOCODING_ERROR_CODES.PLACE_NOT_FOUND,
+    });
+  });
+
+  it('should reverse geocode to the nearest address close enough', async () => {
+    const near = await provider.reverseGeocode({ latitude: 37.7600, longitude: -122.4150 });
+
+    expect(near?.placeId).toBe('sf-mission-456');
+    expect(await provider.reverseGeocode({ latitude: 37.7000, longitude: -122.5000 })).toBeNull();
+    expect(await provider.reverseGeocode({ latitude: 0, longitude: 0 })).toBeNull();
+  });
+
+  it('should reject a lookup cancelled before it answers', async () => {
+    jest.useFakeTimers();
+    const slowProvider = createOfflineGeocodingProvider({ latencyMs: 300 });
+    const controller = new AbortController();
+
+    const lookup = slowProvider.autocomplete('main', { signal: controller.signal });
+    controller.abort();
+
+    const error = await lookup.catch(lookupError => lookupError);
+    expect(isCancelledLookup(error)).toBe(true);
+    jest.useRealTimers();
+  });
+});
+
+describe('createCachedGeocodingProvider', () => {
+  const createCountingProvider = () => {
+    const offline = createOfflineGeocodingProvider();
+    const calls = { autocomplete: 0 };
+    const provider: GeocodingProvider = {
+      ...offline,
+      autocomplete: (query, options) => {
+        calls.autocomplete += 1;
+        return offline.autocomplete(query, options);
+      },
+    };
+    return { provider, calls };
+  };
+
+  it('should answer repeated queries from the cache', async () => {
+    const { provider, calls } = createCountingProvider();
+    const cached = createCachedGeocodingProvider(provider);
+
+    const first = await cached.autocomplete('Market');
+    const second = await cached.autocomplete('  market ');
+
+    expect(second).toEqual(first);
+    expect(calls.autocomplete).toBe(1);
+  });
+
+  it('should drop the least recently used entry once full', async () => {
+    const { provider, calls } = createCountingProvider();
+    const cached = createCachedGeocodingProvider(provider, { maxEntries: 2 });
+
+    await cached.autocomplete('main');
+    await cached.autocomplete('market');
+    await cached.autocomplete('main'); // main is now the most recent
+    await cached.autocomplete('folsom'); // evicts market
+    await cached.autocomplete('main');
+    await cached.autocomplete('market');
+
+    expect(calls.autocomplete).toBe(4);
+  });
+
+  it('should not cache failed lookups', async () => {
+    const offline = createOfflineGeocodingProvider({ latencyMs: 10 });
+    const cached = createCachedGeocodingProvider(offline);
+    const controller = new AbortController();
+
+    const cancelled = cached.getPlaceDetails('sf-main-123', { signal: controller.signal });
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ code: GEOCODING_ERROR_CODES.CANCELLED });
+
+    await expect(cached.getPlaceDetails('sf-main-123')).resolves.toMatchObject({ street: '123 Main Street' });
+  });
+});
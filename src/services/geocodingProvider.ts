@@ -0,0 +1,218 @@
+/**
+ * Geocoding Providers
+ *
+ * Pluggable address lookup: autocomplete while typing, full details for a
+ * picked suggestion, and the address nearest a location. Screens don't care
+ * whether answers come from a places API or the bundled offline dataset.
+ */
+
+import { AppError, Coordinates } from '../types';
+import { toSearchTerms } from '../utils/fuzzyMatch';
+import { getDistanceKm, isKnownLocation } from '../utils/geoUtils';
+import { isAppError } from './apiClient';
+import { OFFLINE_ADDRESSES } from './offlineAddresses';
+
+export interface PlaceSuggestion {
+  placeId: string;
+  description: string; // e.g. "123 Main Street, San Francisco, CA 94102"
+  mainText: string;
+  secondaryText: string;
+}
+
+export interface PlaceDetails {
+  placeId: string;
+  description: string;
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+  coordinates: Coordinates;
+}
+
+export interface GeocodingRequestOptions {
+  // Aborting rejects the lookup with a GEOCODING_CANCELLED error
+  signal?: AbortSignal;
+}
+
+export interface GeocodingProvider {
+  autocomplete: (query: string, options?: GeocodingRequestOptions) => Promise<PlaceSuggestion[]>;
+  getPlaceDetails: (placeId: string, options?: GeocodingRequestOptions) => Promise<PlaceDetails>;
+  // The nearest known address, or null when nothing is close enough
+  reverseGeocode: (coordinates: Coordinates, options?: GeocodingRequestOptions) => Promise<PlaceDetails | null>;
+}
+
+export const GEOCODING_ERROR_CODES = {
+  CANCELLED: 'GEOCODING_CANCELLED',
+  PLACE_NOT_FOUND: 'PLACE_NOT_FOUND',
+} as const;
+
+/**
+ * Whether a lookup failed only because it was cancelled, e.g. by newer input
+ */
+export const isCancelledLookup = (error: unknown): boolean =>
+  isAppError(error) && error.code === GEOCODING_ERROR_CODES.CANCELLED;
+
+const cancelledError = (): AppError => ({
+  code: GEOCODING_ERROR_CODES.CANCELLED,
+  message: 'Address lookup was cancelled',
+});
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw cancelledError();
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(cancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const toPlaceSuggestion = (place: PlaceDetails): PlaceSuggestion => ({
+  placeId: place.placeId,
+  description: place.description,
+  mainText: place.street,
+  secondaryText: `${place.city}, ${place.state} ${place.zipCode}`,
+});
+
+export interface OfflineGeocodingProviderOptions {
+  addresses?: PlaceDetails[];
+  // Simulated network latency; zero answers on the next tick
+  latencyMs?: number;
+  maxResults?: number;
+  // How far from a location reverse geocoding still finds an address
+  maxReverseDistanceKm?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 5;
+const DEFAULT_MAX_REVERSE_DISTANCE_KM = 0.25;
+
+/**
+ * Create a provider that answers from a fixed list of addresses. Every query
+ * term has to start a word of the address, so "456 missi" finds
+ * "456 Mission Street"; matches keep the dataset's order.
+ */
+export const createOfflineGeocodingProvider = ({
+  addresses = OFFLINE_ADDRESSES,
+  latencyMs = 0,
+  maxResults = DEFAULT_MAX_RESULTS,
+  maxReverseDistanceKm = DEFAULT_MAX_REVERSE_DISTANCE_KM,
+}: OfflineGeocodingProviderOptions = {}): GeocodingProvider => {
+  const indexed = addresses.map(place => ({ place, words: toSearchTerms(place.description) }));
+
+  const respond = async (signal?: AbortSignal): Promise<void> => {
+    if (latencyMs > 0) {
+      await delay(latencyMs, signal);
+    }
+    throwIfAborted(signal);
+  };
+
+  return {
+    autocomplete: async (query, options = {}) => {
+      await respond(options.signal);
+
+      const terms = toSearchTerms(query);
+      if (terms.length === 0) return [];
+
+      return indexed
+        .filter(({ words }) => terms.every(term => words.some(word => word.startsWith(term))))
+        .slice(0, maxResults)
+        .map(({ place }) => toPlaceSuggestion(place));
+    },
+
+    getPlaceDetails: async (placeId, options = {}) => {
+      await respond(options.signal);
+
+      const place = addresses.find(candidate => candidate.placeId === placeId);
+      if (!place) {
+        throw {
+          code: GEOCODING_ERROR_CODES.PLACE_NOT_FOUND,
+          message: "We couldn't find that address",
+          details: { placeId },
+        } as AppError;
+      }
+      return place;
+    },
+
+    reverseGeocode: async (coordinates, options = {}) => {
+      await respond(options.signal);
+      if (!isKnownLocation(coordinates)) return null;
+
+      let nearest: PlaceDetails | null = null;
+      let nearestDistance = maxReverseDistanceKm;
+
+      addresses.forEach(place => {
+        const distance = getDistanceKm(coordinates, place.coordinates);
+        if (distance <= nearestDistance) {
+          nearest = place;
+          nearestDistance = distance;
+        }
+      });
+
+      return nearest;
+    },
+  };
+};
+
+export interface CachedGeocodingProviderOptions {
+  maxEntries?: number;
+}
+
+const DEFAULT_MAX_CACHE_ENTRIES = 100;
+
+/**
+ * Wrap a provider so repeated lookups are answered from memory. Only
+ * successful answers are kept, and the least recently used go first once
+ * the cache is full.
+ */
+export const createCachedGeocodingProvider = (
+  provider: GeocodingProvider,
+  { maxEntries = DEFAULT_MAX_CACHE_ENTRIES }: CachedGeocodingProviderOptions = {}
+): GeocodingProvider => {
+  const cache = new Map<string, unknown>();
+
+  const cached = async <T>(key: string, lookup: () => Promise<T>): Promise<T> => {
+    if (cache.has(key)) {
+      const value = cache.get(key) as T;
+      // Re-insert so the entry counts as recently used
+      cache.delete(key);
+      cache.set(key, value);
+      return value;
+    }
+
+    const value = await lookup();
+    cache.set(key, value);
+    if (cache.size > maxEntries) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    return value;
+  };
+
+  return {
+    autocomplete: (query, options) =>
+      cached(`autocomplete:${toSearchTerms(query).join(' ')}`, () => provider.autocomplete(query, options)),
+
+    getPlaceDetails: (placeId, options) =>
+      cached(`details:${placeId}`, () => provider.getPlaceDetails(placeId, options)),
+
+    // About ten metres apart counts as the same spot
+    reverseGeocode: (coordinates, options) =>
+      cached(
+        `reverse:${coordinates.latitude.toFixed(4)},${coordinates.longitude.toFixed(4)}`,
+        () => provider.reverseGeocode(coordinates, options)
+      ),
+  };
+};
@@ -1,2 +1,22 @@
-// Service exports will be added here
-export {};
+/**
+ * Service Exports
+ */
+
+export * from './apiClient';
+export * from './transports';
+export * from './apiConfig';
+export * from './mockServer';
+export { restaurantService } from './restaurantService';
+export type { RestaurantListParams } from './restaurantService';
+export * from './orderStatusSource';
+export * from './orderStatusConfig';
+export { orderService, IDEMPOTENCY_KEY_HEADER } from './orderService';
+export type { OrderStatusResponse, PlaceOrderRequest } from './orderService';
+export { authService } from './authService';
+export { locationService } from './locationService';
+export { deliveryZoneService, DELIVERY_ZONES } from './deliveryZoneService';
+export { promotionService, PROMOTIONS, PROMO_CODE_ERROR, normalizePromoCode } from './promotionService';
+export type { PromotionContext } from './promotionService';
+export * from './geocodingProvider';
+export * from './geocodingConfig';
+export { OFFLINE_ADDRESSES } from './offlineAddresses';
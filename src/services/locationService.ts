@@ -0,0 +1,36 @@
+/**
+ * Location Service
+ *
+ * The device's current position, where the platform provides geolocation
+ */
+
+import { Coordinates } from '../types';
+
+const LOCATION_TIMEOUT_MS = 10000;
+const LOCATION_MAX_AGE_MS = 5 * 60 * 1000; // a recent fix is close enough for finding restaurants
+
+export const locationService = {
+  isAvailable: (): boolean =>
+    typeof navigator !== 'undefined' && !!navigator.geolocation,
+
+  getCurrentPosition: (): Promise<Coordinates> =>
+    new Promise((resolve, reject) => {
+      if (!locationService.isAvailable()) {
+        reject(new Error('Location is not available on this device'));
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        position => resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        }),
+        error => reject(new Error(
+          error.code === error.PERMISSION_DENIED
+            ? 'Location permission was denied'
+            : 'Could not find your location'
+        )),
+        { timeout: LOCATION_TIMEOUT_MS, maximumAge: LOCATION_MAX_AGE_MS }
+      );
+    }),
+};
@@ -0,0 +1,585 @@
+/**
+ * Mock Server
+ *
+ * In-memory backend used in tests and local development. Data is generated
+ * once per server so repeated requests return consistent results, and from a
+ * fixed seed so a cart persisted in an earlier session still matches the
+ * catalog.
+ */
+
+import { Restaurant, MenuItem, Order, User, AuthTokens, LoginCredentials, UserRegistrationData, TipChoice } from '../types';
+import { generateMockRestaurants, generateMockMenuItems, sampleUser, withMockSeed } from '../utils/mockData';
+import { isNotEmpty, isValidEmail, isValidPassword, isValidPhone } from '../utils/validationUtils';
+import { buildDietaryProfile } from '../utils/dietaryUtils';
+import { getAverageItemPrice, getPriceTier } from '../utils/priceTierUtils';
+import {
+  countScheduledOrders,
+  formatSlotTimes,
+  getScheduledReleaseTime,
+  getSlotAvailability,
+  getSlotCapacity,
+  getSlotError,
+} from '../utils/scheduleUtils';
+import { ORDER_STATUS_SEQUENCE, canTransition, isTerminalStatus, transitionOrder } from '../utils/orderLifecycle';
+import { createOrderTip, getTipError, withTip } from '../utils/tipUtils';
+import { getDiscountCents, toCents } from '../utils/pricingUtils';
+import { Transport } from './apiClient';
+import { PROMO_CODE_ERROR, promotionService } from './promotionService';
+import { createMockTransport, MockRoute, ok, fail } from './transports';
+import type { PlaceOrderRequest } from './orderService';
+
+export interface MockAccount {
+  user: User;
+  password: string;
+}
+
+export interface MockDatabase {
+  restaurants: Restaurant[];
+  menus: Record<string, MenuItem[]>;
+  orders: Record<string, Order>;
+  idempotencyKeys: Record<string, string>; // idempotency key -> order id
+  accounts: Record<string, MockAccount>; // lowercased email -> account
+  revokedTokens: Record<string, boolean>;
+}
+
+export interface MockServerOptions {
+  restaurants?: Restaurant[];
+  menus?: Record<string, MenuItem[]>;
+  accounts?: MockAccount[];
+  restaurantCount?: number;
+  menuItemCount?: number;
+  seed?: number; // for the generated catalog; the same seed generates the same ids
+  latencyMs?: number;
+  accessTokenTtlMs?: number;
+  requireAuth?: boolean; // reject order requests without a valid access token
+  statusStepMs?: number; // how long orders spend in each status before moving on
+}
+
+/**
+ * Account seeded into every mock server for local sign-in
+ */
+export const DEMO_ACCOUNT: LoginCredentials = {
+  email: sampleUser.email,
+  password: 'password123',
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_MENU_ITEM_COUNT = 15;
+const DEFAULT_CATALOG_SEED = 2024;
+const DEFAULT_FEATURED_COUNT = 5;
+const DEFAULT_ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_STATUS_STEP_MS = 20000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const toPositiveInt = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+};
+
+/**
+ * Fill in what a restaurant listing derives from its menu
+ */
+const withMenuDetails = (restaurant: Restaurant, menu: MenuItem[]): Restaurant => {
+  const averageItemPrice = restaurant.averageItemPrice ?? getAverageItemPrice(menu);
+
+  return {
+    ...restaurant,
+    dietaryProfile: restaurant.dietaryProfile ?? buildDietaryProfile(menu),
+    averageItemPrice,
+    priceTier: restaurant.priceTier
+      ?? (averageItemPrice !== undefined ? getPriceTier(averageItemPrice) : undefined),
+  };
+};
+
+/**
+ * Create the mock database, generating any data not supplied. Every
+ * restaurant gets a menu up front so the details derived from it, like its
+ * dietary profile and price tier, are in the listing.
+ */
+export const createMockDatabase = ({
+  restaurants,
+  menus = {},
+  accounts = [{ user: sampleUser, password: DEMO_ACCOUNT.password }],
+  restaurantCount = DEFAULT_PAGE_SIZE,
+  menuItemCount = DEFAULT_MENU_ITEM_COUNT,
+  seed = DEFAULT_CATALOG_SEED,
+}: MockServerOptions = {}): MockDatabase => {
+  const { catalog, allMenus } = withMockSeed(seed, () => {
+    const generated = restaurants ?? generateMockRestaurants(restaurantCount);
+    return {
+      catalog: generated,
+      allMenus: Object.fromEntries(generated.map(restaurant => [
+        restaurant.id,
+        menus[restaurant.id] ?? generateMockMenuItems(restaurant.id, menuItemCount),
+      ])),
+    };
+  });
+
+  return {
+    restaurants: catalog.map(restaurant => withMenuDetails(restaurant, allMenus[restaurant.id])),
+    menus: { ...menus, ...allMenus },
+    orders: {},
+    idempotencyKeys: {},
+    accounts: Object.fromEntries(accounts.map(account => [account.user.email.toLowerCase(), account])),
+    revokedTokens: {},
+  };
+};
+
+/**
+ * Restaurant and menu routes
+ */
+const createRestaurantRoutes = (db: MockDatabase, menuItemCount: number): MockRoute[] => {
+  const findRestaurant = (id: string) => db.restaurants.find(restaurant => restaurant.id === id);
+
+  return [
+    {
+      method: 'GET',
+      path: '/restaurants',
+      handler: ({ query }) => {
+        const page = toPositiveInt(query.page, 1);
+        const limit = toPositiveInt(query.limit, DEFAULT_PAGE_SIZE);
+        const start = (page - 1) * limit;
+        const data = db.restaurants.slice(start, start + limit);
+
+        return {
+          status: 200,
+          body: {
+            data,
+            pagination: {
+              page,
+              limit,
+              total: db.restaurants.length,
+              hasMore: start + limit < db.restaurants.length,
+            },
+          },
+        };
+      },
+    },
+    {
+      method: 'GET',
+      path: '/restaurants/featured',
+      handler: ({ query }) => {
+        const limit = toPositiveInt(query.limit, DEFAULT_FEATURED_COUNT);
+        const featured = [...db.restaurants]
+          .sort((a, b) => b.rating - a.rating || b.reviewCount - a.reviewCount)
+          .slice(0, limit);
+
+        return ok(featured);
+      },
+    },
+    {
+      method: 'GET',
+      path: '/restaurants/:id',
+      handler: ({ params }) => {
+        const restaurant = findRestaurant(params.id);
+        return restaurant ? ok(restaurant) : fail(404, 'Restaurant not found');
+      },
+    },
+    {
+      method: 'GET',
+      path: '/restaurants/:id/menu',
+      handler: ({ params }) => {
+        if (!findRestaurant(params.id)) {
+          return fail(404, 'Restaurant not found');
+        }
+
+        if (!db.menus[params.id]) {
+          db.menus[params.id] = generateMockMenuItems(params.id, menuItemCount);
+        }
+
+        return ok(db.menus[params.id]);
+      },
+    },
+    {
+      method: 'GET',
+      path: '/restaurants/:id/slots',
+      handler: ({ params }) => {
+        const restaurant = findRestaurant(params.id);
+        if (!restaurant) {
+          return fail(404, 'Restaurant not found');
+        }
+
+        return ok(getSlotAvailability(restaurant, Object.values(db.orders)));
+      },
+    },
+    {
+      method: 'GET',
+      path: '/menu-items',
+      handler: () => ok(
+        db.restaurants.flatMap(restaurant => db.menus[restaurant.id] ?? [])
+      ),
+    },
+  ];
+};
+
+const getHeader = (headers: Record<string, string>, name: string): string | undefined => {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+};
+
+type MockTokenType = 'access' | 'refresh';
+
+/**
+ * Tokens carry their own claims ("mock.<type>.<userId>.<expiresAt>.<nonce>"),
+ * so a session outlives a restart of the in-memory server like it would
+ * with a real backend
+ */
+const issueToken = (type: MockTokenType, userId: string, expiresAt: number): string =>
+  `mock.${type}.${userId}.${expiresAt}.${Math.random().toString(36).slice(2, 10)}`;
+
+const readToken = (
+  db: MockDatabase,
+  token: unknown,
+  type: MockTokenType
+): { userId: string } | null => {
+  if (typeof token !== 'string' || db.revokedTokens[token]) return null;
+
+  const parts = token.split('.');
+  if (parts.length < 5 || parts[0] !== 'mock' || parts[1] !== type) return null;
+
+  const expiresAt = Number(parts[parts.length - 2]);
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) return null;
+
+  return { userId: parts.slice(2, -2).join('.') };
+};
+
+const issueTokens = (userId: string, accessTokenTtlMs: number): AuthTokens => {
+  const now = Date.now();
+  const expiresAt = now + accessTokenTtlMs;
+
+  return {
+    accessToken: issueToken('access', userId, expiresAt),
+    refreshToken: issueToken('refresh', userId, now + REFRESH_TOKEN_TTL_MS),
+    expiresAt: new Date(expiresAt),
+  };
+};
+
+const getBearerToken = (headers: Record<string, string>): string | undefined => {
+  const authorization = getHeader(headers, 'Authorization');
+  return authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+};
+
+const createUserId = (): string =>
+  `user-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Account and session routes. Sign-up and sign-in return the user with a
+ * token pair; refreshing rotates the pair and signing out revokes it.
+ */
+const createAuthRoutes = (db: MockDatabase, accessTokenTtlMs: number): MockRoute[] => [
+  {
+    method: 'POST',
+    path: '/auth/signup',
+    handler: ({ body }) => {
+      const data = (body ?? {}) as Partial<UserRegistrationData>;
+      const email = (data.email ?? '').trim();
+
+      if (
+        !isNotEmpty(data.name ?? '') ||
+        !isValidEmail(email) ||
+        !isValidPhone(data.phone ?? '') ||
+        !isValidPassword(data.password ?? '')
+      ) {
+        return fail(422, 'Please check your details and try again', 'VALIDATION_ERROR');
+      }
+
+      if (db.accounts[email.toLowerCase()]) {
+        return fail(409, 'An account with this email already exists', 'EMAIL_TAKEN');
+      }
+
+      const user: User = {
+        id: createUserId(),
+        name: data.name!.trim(),
+        email,
+        phone: data.phone!,
+        savedAddresses: [],
+        savedPaymentMethods: [],
+        orderHistory: [],
+        preferences: {
+          dietaryRestrictions: [],
+          favoriteCuisines: [],
+          allergens: [],
+        },
+      };
+
+      db.accounts[email.toLowerCase()] = { user, password: data.password! };
+
+      return ok({ user, tokens: issueTokens(user.id, accessTokenTtlMs) }, 'Account created');
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/login',
+    handler: ({ body }) => {
+      const credentials = (body ?? {}) as Partial<LoginCredentials>;
+      const account = db.accounts[(credentials.email ?? '').trim().toLowerCase()];
+
+      if (!account || account.password !== credentials.password) {
+        return fail(401, 'Incorrect email or password', 'INVALID_CREDENTIALS');
+      }
+
+      return ok({ user: account.user, tokens: issueTokens(account.user.id, accessTokenTtlMs) });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/refresh',
+    handler: ({ body }) => {
+      const refreshToken = (body as { refreshToken?: string } | undefined)?.refreshToken;
+      const claims = readToken(db, refreshToken, 'refresh');
+
+      if (!claims) {
+        return fail(401, 'Your session has expired. Please sign in again.', 'SESSION_EXPIRED');
+      }
+
+      db.revokedTokens[refreshToken!] = true;
+      return ok(issueTokens(claims.userId, accessTokenTtlMs));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/logout',
+    handler: ({ body, headers }) => {
+      const refreshToken = (body as { refreshToken?: string } | undefined)?.refreshToken;
+      const accessToken = getBearerToken(headers);
+
+      if (refreshToken) db.revokedTokens[refreshToken] = true;
+      if (accessToken) db.revokedTokens[accessToken] = true;
+
+      return ok(null, 'Signed out');
+    },
+  },
+];
+
+const createOrderId = (): string =>
+  `order-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Move an order along the normal progression, one status per step since it
+ * was placed, or since its slot came up for scheduled orders. Each status is
+ * recorded at the time it was reached.
+ */
+const progressOrder = (order: Order, stepMs: number, now: Date): Order => {
+  if (isTerminalStatus(order.status)) return order;
+
+  const startsAt = order.scheduledSlot ? getScheduledReleaseTime(order.scheduledSlot) : new Date(order.createdAt);
+  const elapsedMs = now.getTime() - startsAt.getTime();
+  if (elapsedMs < 0) return order;
+
+  // Scheduled orders are confirmed as their slot comes up
+  const startIndex = ORDER_STATUS_SEQUENCE.indexOf(order.scheduledSlot ? 'confirmed' : 'pending');
+  const reachedIndex = Math.min(startIndex + Math.floor(elapsedMs / stepMs), ORDER_STATUS_SEQUENCE.length - 1);
+
+  let progressed = order;
+  for (let index = startIndex; index <= reachedIndex; index++) {
+    const status = ORDER_STATUS_SEQUENCE[index];
+    if (canTransition(progressed.status, status)) {
+      progressed = transitionOrder(progressed, status, new Date(startsAt.getTime() + (index - startIndex) * stepMs));
+    }
+  }
+  return progressed;
+};
+
+/**
+ * Why the server won't honor an order's discount, or null when it will: the
+ * promotion must still apply and take off what the order says
+ */
+const getDiscountError = (db: MockDatabase, request: PlaceOrderRequest, restaurant: Restaurant): string | null => {
+  if (!request.discount) return null;
+
+  const { code, amount } = request.discount;
+  const promotion = promotionService.findPromotion(code);
+  if (!promotion) {
+    return `${code} isn't a valid promo code`;
+  }
+
+  const reason = promotionService.getIneligibility(promotion, {
+    restaurant,
+    subtotal: request.subtotal,
+    orderHistory: Object.values(db.orders).filter(order => order.userId === request.userId),
+  });
+  if (reason) {
+    return reason;
+  }
+
+  const discountCents = getDiscountCents(promotion, toCents(request.subtotal), toCents(request.deliveryFee));
+  return toCents(amount) === discountCents ? null : `${promotion.code} doesn't take that much off this order`;
+};
+
+/**
+ * Order routes. Placement requires an Idempotency-Key header; repeating a
+ * key returns the order created the first time instead of a new one.
+ * With requireAuth every order route needs a valid access token. Orders move
+ * along by themselves, one status every statusStepMs.
+ */
+const createOrderRoutes = (db: MockDatabase, requireAuth: boolean, statusStepMs: number): MockRoute[] => {
+  const isAuthorized = (headers: Record<string, string>): boolean =>
+    !requireAuth || readToken(db, getBearerToken(headers), 'access') !== null;
+
+  const findOrder = (id: string): Order | undefined => {
+    const order = db.orders[id];
+    if (order) {
+      db.orders[id] = progressOrder(order, statusStepMs, new Date());
+    }
+    return db.orders[id];
+  };
+
+  const unauthorized = () => fail(401, 'Please sign in to continue', 'UNAUTHORIZED');
+
+  return [
+    {
+      method: 'POST',
+      path: '/orders',
+      handler: ({ body, headers }) => {
+        if (!isAuthorized(headers)) {
+          return unauthorized();
+        }
+
+        const idempotencyKey = getHeader(headers, 'Idempotency-Key');
+        if (!idempotencyKey) {
+          return fail(400, 'Idempotency-Key header is required', 'BAD_REQUEST');
+        }
+
+        const existingOrderId = db.idempotencyKeys[idempotencyKey];
+        if (existingOrderId) {
+          return ok(db.orders[existingOrderId]);
+        }
+
+        const request = body as PlaceOrderRequest | undefined;
+        if (!request || !Array.isArray(request.items) || request.items.length === 0) {
+          return fail(422, 'Order must contain at least one item', 'VALIDATION_ERROR');
+        }
+
+        const restaurant = request.restaurant
+          && db.restaurants.find(candidate => candidate.id === request.restaurant.id);
+        if (!restaurant) {
+          return fail(422, 'Restaurant not found', 'VALIDATION_ERROR');
+        }
+
+        const discountError = getDiscountError(db, request, restaurant);
+        if (discountError) {
+          return fail(422, discountError, PROMO_CODE_ERROR);
+        }
+
+        // Scheduled orders need a slot the restaurant is open for and has room in
+        const scheduledSlot = request.scheduledSlot
+          ? { start: new Date(request.scheduledSlot.start), end: new Date(request.scheduledSlot.end) }
+          : undefined;
+        if (scheduledSlot) {
+          const slotError = getSlotError(restaurant, scheduledSlot);
+          if (slotError) {
+            return fail(422, slotError, 'VALIDATION_ERROR');
+          }
+
+          if (countScheduledOrders(Object.values(db.orders), restaurant.id, scheduledSlot) >= getSlotCapacity(restaurant)) {
+            return fail(409, 'That delivery time is fully booked. Please choose another time.', 'CONFLICT');
+          }
+        }
+
+        const now = new Date();
+        const status = scheduledSlot ? 'scheduled' : 'pending';
+        const { contactInfo, ...orderFields } = request;
+        const order: Order = {
+          ...orderFields,
+          id: createOrderId(),
+          deliveryAddress: {
+            ...request.deliveryAddress,
+            id: request.deliveryAddress.id || `address-${Date.now().toString(36)}`,
+          },
+          status,
+          statusHistory: [{ status, at: now }],
+          estimatedDeliveryTime: scheduledSlot ? formatSlotTimes(scheduledSlot) : request.restaurant.deliveryTime,
+          ...(scheduledSlot ? { scheduledSlot } : {}),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        db.orders[order.id] = order;
+        db.idempotencyKeys[idempotencyKey] = order.id;
+
+        return ok(order, 'Order placed');
+      },
+    },
+    {
+      method: 'GET',
+      path: '/orders/:id',
+      handler: ({ params, headers }) => {
+        if (!isAuthorized(headers)) {
+          return unauthorized();
+        }
+
+        const order = findOrder(params.id);
+        return order ? ok(order) : fail(404, 'Order not found');
+      },
+    },
+    {
+      method: 'GET',
+      path: '/orders/:id/status',
+      handler: ({ params, headers }) => {
+        if (!isAuthorized(headers)) {
+          return unauthorized();
+        }
+
+        const order = findOrder(params.id);
+        if (!order) {
+          return fail(404, 'Order not found');
+        }
+
+        return ok({
+          orderId: order.id,
+          status: order.status,
+          updatedAt: order.updatedAt,
+          estimatedDeliveryTime: order.estimatedDeliveryTime,
+        });
+      },
+    },
+    {
+      method: 'PATCH',
+      path: '/orders/:id/tip',
+      handler: ({ params, body, headers }) => {
+        if (!isAuthorized(headers)) {
+          return unauthorized();
+        }
+
+        const order = findOrder(params.id);
+        if (!order) {
+          return fail(404, 'Order not found');
+        }
+        if (order.status !== 'delivered') {
+          return fail(422, 'Tips can be changed once your order is delivered', 'VALIDATION_ERROR');
+        }
+
+        const choice = (body as { choice?: TipChoice } | undefined)?.choice;
+        if (!choice) {
+          return fail(422, 'Please choose a tip', 'VALIDATION_ERROR');
+        }
+        const tipError = getTipError(choice);
+        if (tipError) {
+          return fail(422, tipError, 'VALIDATION_ERROR');
+        }
+
+        // The tip is taken of the subtotal the order was placed with
+        const { total, priceLines, tip } = withTip(order, createOrderTip(choice, order.subtotal));
+        const updated: Order = { ...order, total, priceLines, tip, updatedAt: new Date() };
+        db.orders[order.id] = updated;
+
+        return ok(updated, tip ? 'Tip updated' : 'Tip removed');
+      },
+    },
+  ];
+};
+
+/**
+ * Create a transport backed by an in-memory mock backend
+ */
+export const createMockServer = (options: MockServerOptions = {}): Transport & { db: MockDatabase } => {
+  const db = createMockDatabase(options);
+  const routes: MockRoute[] = [
+    ...createRestaurantRoutes(db, options.menuItemCount ?? DEFAULT_MENU_ITEM_COUNT),
+    ...createAuthRoutes(db, options.accessTokenTtlMs ?? DEFAULT_ACCESS_TOKEN_TTL_MS),
+    ...createOrderRoutes(db, options.requireAuth ?? false, options.statusStepMs ?? DEFAULT_STATUS_STEP_MS),
+  ];
+
+  const transport = createMockTransport(routes, { latencyMs: options.latencyMs });
+  return Object.assign(transport, { db });
+};
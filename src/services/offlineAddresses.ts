@@ -0,0 +1,54 @@
+/**
+ * Offline Address Dataset
+ *
+ * A small, fixed set of addresses behind the offline geocoding provider, so
+ * address entry works the same way in tests and development every time.
+ * Some are inside the delivery zones and some deliberately aren't.
+ */
+
+import { PlaceDetails } from './geocodingProvider';
+
+const place = (
+  placeId: string,
+  street: string,
+  zipCode: string,
+  latitude: number,
+  longitude: number,
+  city: string = 'San Francisco'
+): PlaceDetails => ({
+  placeId,
+  description: `${street}, ${city}, CA ${zipCode}`,
+  street,
+  city,
+  state: 'CA',
+  zipCode,
+  country: 'US',
+  coordinates: { latitude, longitude },
+});
+
+export const OFFLINE_ADDRESSES: PlaceDetails[] = [
+  // Downtown
+  place('sf-main-123', '123 Main Street', '94102', 37.7749, -122.4194),
+  place('sf-market-789', '789 Market Street', '94103', 37.7849, -122.4094),
+  place('sf-folsom-654', '654 Folsom Street', '94107', 37.7749, -122.4094),
+  place('sf-mason-250', '250 Mason Street', '94102', 37.7800, -122.4110),
+  place('sf-eddy-455', '455 Eddy Street', '94109', 37.7835, -122.4150),
+
+  // SOMA
+  place('sf-howard-901', '901 Howard Street', '94103', 37.7790, -122.4040),
+  place('sf-brannan-680', '680 Brannan Street', '94107', 37.7700, -122.4030),
+  place('sf-townsend-410', '410 Townsend Street', '94107', 37.7740, -122.4000),
+
+  // Mission District
+  place('sf-mission-456', '456 Mission Street', '94105', 37.7599, -122.4148),
+  place('sf-valencia-321', '321 Valencia Street', '94110', 37.7599, -122.4194),
+  place('sf-guerrero-1200', '1200 Guerrero Street', '94110', 37.7520, -122.4230),
+  place('sf-dolores-3100', '3100 Dolores Street', '94110', 37.7550, -122.4250),
+
+  // Outside every delivery zone
+  place('sf-haight-500', '500 Haight Street', '94117', 37.7720, -122.4310),
+  place('sf-embarcadero-1', '1 Ferry Building, Embarcadero', '94111', 37.7955, -122.3937),
+  place('sf-geary-5200', '5200 Geary Boulevard', '94118', 37.7805, -122.4700),
+  place('sf-mission-4500', '4500 Mission Street', '94112', 37.7270, -122.4330),
+  place('oak-broadway-100', '100 Broadway', '94607', 37.7990, -122.2750, 'Oakland'),
+];
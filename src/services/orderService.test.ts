@@ -0,0 +1,308 @@
+/**
+ * Order Service Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { orderService, PlaceOrderRequest } from './orderService';
+import { restaurantService } from './restaurantService';
+import { configureApiClient } from './apiConfig';
+import { createMockServer } from './mockServer';
+import { PROMO_CODE_ERROR } from './promotionService';
+import { generateMockCartItem, generateMockMenuItem, generateMockRestaurant, sampleUser } from '../utils/mockData';
+import { buildOrderRequest } from '../utils/orderUtils';
+import { getDeliverySlots } from '../utils/scheduleUtils';
+import { createDailyHours } from '../utils/openingHoursUtils';
+import { advanceOrderTo } from '../utils/orderLifecycle';
+import { useCartStore } from '../stores/cartStore';
+import { STORAGE_KEYS } from '../stores/persistence';
+
+describe('Order Service', () => {
+  let server: ReturnType<typeof createMockServer>;
+  let request: PlaceOrderRequest;
+
+  beforeEach(() => {
+    server = createMockServer({ restaurantCount: 3 });
+    configureApiClient({ transport: server });
+
+    const restaurant = server.db.restaurants[0];
+    request = buildOrderRequest({
+      userId: sampleUser.id,
+      restaurant,
+      items: [generateMockCartItem(generateMockMenuItem(restaurant.id), { quantity: 2 })],
+      totals: { subtotal: 30, deliveryFee: 2.99, tax: 2.4, total: 35.39 },
+      formData: {
+        deliveryAddress: sampleUser.savedAddresses[0],
+        paymentMethod: sampleUser.savedPaymentMethods[0],
+        contactInfo: { email: sampleUser.email, phone: sampleUser.phone },
+      },
+    });
+  });
+
+  it('should place an order and return it with a server id', async () => {
+    const { data: order } = await orderService.placeOrder(request, 'key-1');
+
+    expect(order.id).toBeTruthy();
+    expect(order.status).toBe('pending');
+    expect(order.total).toBe(35.39);
+    expect(order.createdAt).toBeInstanceOf(Date);
+    expect(server.db.orders[order.id]).toBeDefined();
+  });
+
+  it('should return the original order when a key is reused', async () => {
+    const first = await orderService.placeOrder(request, 'key-1');
+    const second = await orderService.placeOrder(request, 'key-1');
+
+    expect(second.data.id).toBe(first.data.id);
+    expect(Object.keys(server.db.orders)).toHaveLength(1);
+  });
+
+  it('should share one request between concurrent placements with the same key', async () => {
+    const [first, second] = await Promise.all([
+      orderService.placeOrder(request, 'key-1'),
+      orderService.placeOrder(request, 'key-1'),
+    ]);
+
+    expect(first).toBe(second);
+    expect(Object.keys(server.db.orders)).toHaveLength(1);
+  });
+
+  it('should create separate orders for different keys', async () => {
+    await orderService.placeOrder(request, 'key-1');
+    await orderService.placeOrder(request, 'key-2');
+
+    expect(Object.keys(server.db.orders)).toHaveLength(2);
+  });
+
+  it('should reject orders without items', async () => {
+    await expect(orderService.placeOrder({ ...request, items: [] }, 'key-1')).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+  });
+
+  it('should fetch a placed order and its status', async () => {
+    const { data: placed } = await orderService.placeOrder(request, 'key-1');
+
+    const { data: order } = await orderService.getOrder(placed.id);
+    const { data: status } = await orderService.getOrderStatus(placed.id);
+
+    expect(order.id).toBe(placed.id);
+    expect(status).toMatchObject({ orderId: placed.id, status: 'pending' });
+  });
+
+  it('should move orders along one status per step', async () => {
+    server = createMockServer({ restaurantCount: 3, statusStepMs: 1000 });
+    configureApiClient({ transport: server });
+    const { data: placed } = await orderService.placeOrder(request, 'key-1');
+
+    // Placed two and a half steps ago
+    const placedAt = new Date(Date.now() - 2500);
+    server.db.orders[placed.id] = {
+      ...server.db.orders[placed.id],
+      createdAt: placedAt,
+      statusHistory: [{ status: 'pending', at: placedAt }],
+    };
+
+    const { data: order } = await orderService.getOrder(placed.id);
+    expect(order.status).toBe('preparing');
+    expect(order.statusHistory?.map(event => event.status)).toEqual(['pending', 'confirmed', 'preparing']);
+    expect(order.statusHistory?.[2].at).toEqual(new Date(placedAt.getTime() + 2000));
+
+    server.db.orders[placed.id] = { ...server.db.orders[placed.id], createdAt: new Date(Date.now() - 10000) };
+    const { data: status } = await orderService.getOrderStatus(placed.id);
+    expect(status.status).toBe('delivered');
+  });
+
+  it('should place an order from a cart persisted before a restart', async () => {
+    const restaurant = server.db.restaurants[0];
+    await AsyncStorage.clear();
+    useCartStore.getState().clearCart();
+    useCartStore.getState().addItem({ menuItem: server.db.menus[restaurant.id][0], quantity: 1 }, restaurant);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    // Simulate a cold start: the cart comes back from storage and the mock
+    // backend generates its catalog again
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.cart);
+    useCartStore.setState({ items: [], restaurant: undefined, subtotal: 0 });
+    await AsyncStorage.setItem(STORAGE_KEYS.cart, stored!);
+    await useCartStore.persist.rehydrate();
+    server = createMockServer({ restaurantCount: 3 });
+    configureApiClient({ transport: server });
+
+    const cart = useCartStore.getState();
+    const { data: order } = await orderService.placeOrder(buildOrderRequest({
+      userId: sampleUser.id,
+      restaurant: cart.restaurant!,
+      items: cart.items,
+      totals: { subtotal: cart.subtotal, deliveryFee: cart.deliveryFee, tax: cart.tax, total: cart.total },
+      formData: {
+        deliveryAddress: sampleUser.savedAddresses[0],
+        paymentMethod: sampleUser.savedPaymentMethods[0],
+        contactInfo: { email: sampleUser.email, phone: sampleUser.phone },
+      },
+    }), 'key-1');
+
+    expect(order.restaurant.id).toBe(restaurant.id);
+    expect(server.db.orders[order.id]).toBeDefined();
+  });
+
+  describe('scheduled orders', () => {
+    const restaurant = generateMockRestaurant({
+      id: 'scheduled-restaurant',
+      openingHours: createDailyHours([{ opensAt: '11:00', closesAt: '22:00' }]),
+      slotCapacity: 1,
+    });
+    let scheduledRequest: PlaceOrderRequest;
+
+    beforeEach(() => {
+      server = createMockServer({ restaurants: [restaurant] });
+      configureApiClient({ transport: server });
+
+      scheduledRequest = {
+        ...request,
+        restaurant,
+        scheduledSlot: getDeliverySlots(restaurant)[0],
+      };
+    });
+
+    it('should place the order as scheduled for its slot', async () => {
+      const { data: order } = await orderService.placeOrder(scheduledRequest, 'key-1');
+
+      expect(order.status).toBe('scheduled');
+      expect(order.statusHistory?.map(event => event.status)).toEqual(['scheduled']);
+      expect(order.scheduledSlot?.start).toEqual(scheduledRequest.scheduledSlot?.start);
+    });
+
+    it('should stop taking orders for a slot once it is full', async () => {
+      await orderService.placeOrder(scheduledRequest, 'key-1');
+
+      const { data: slots } = await restaurantService.getDeliverySlots(restaurant.id);
+      expect(slots[0].start).toBeInstanceOf(Date);
+      expect(slots[0].remaining).toBe(0);
+      expect(slots[1].remaining).toBe(1);
+
+      await expect(orderService.placeOrder(scheduledRequest, 'key-2')).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+    });
+
+    it('should reject slots outside opening hours', async () => {
+      const start = new Date(scheduledRequest.scheduledSlot!.start);
+      start.setDate(start.getDate() + 1);
+      start.setHours(23, 0, 0, 0);
+      const lateSlot = { start, end: new Date(start.getTime() + 30 * 60 * 1000) };
+
+      await expect(
+        orderService.placeOrder({ ...scheduledRequest, scheduledSlot: lateSlot }, 'key-1')
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('promo codes', () => {
+    const withDiscount = (code: string, amount: number): PlaceOrderRequest => ({
+      ...request,
+      discount: { code, description: code, amount },
+    });
+
+    it('should honor a discount the promotion gives', async () => {
+      const { data: order } = await orderService.placeOrder(withDiscount('WELCOME20', 6), 'key-1');
+
+      expect(order.discount).toEqual({ code: 'WELCOME20', description: 'WELCOME20', amount: 6 });
+    });
+
+    it('should reject discounts the promotion no longer gives', async () => {
+      await orderService.placeOrder(request, 'key-1');
+
+      await expect(orderService.placeOrder(withDiscount('WELCOME20', 6), 'key-2')).rejects.toMatchObject({
+        code: PROMO_CODE_ERROR,
+        message: 'WELCOME20 is only for your first order',
+      });
+      await expect(orderService.placeOrder(withDiscount('SUMMER10', 3), 'key-3')).rejects.toMatchObject({
+        code: PROMO_CODE_ERROR,
+        message: 'SUMMER10 has expired',
+      });
+      await expect(orderService.placeOrder(withDiscount('NOPE', 3), 'key-4')).rejects.toMatchObject({
+        code: PROMO_CODE_ERROR,
+      });
+    });
+
+    it('should reject a discount larger than the promotion gives', async () => {
+      await expect(orderService.placeOrder(withDiscount('SAVE5', 10), 'key-1')).rejects.toMatchObject({
+        code: PROMO_CODE_ERROR,
+        message: "SAVE5 doesn't take that much off this order",
+      });
+    });
+  });
+
+  describe('tips', () => {
+    let tippedRequest: PlaceOrderRequest;
+
+    beforeEach(() => {
+      tippedRequest = buildOrderRequest({
+        userId: sampleUser.id,
+        restaurant: request.restaurant,
+        items: request.items,
+        totals: { subtotal: 30, deliveryFee: 2.99, tax: 2.4, total: 35.39 },
+        formData: {
+          deliveryAddress: sampleUser.savedAddresses[0],
+          paymentMethod: sampleUser.savedPaymentMethods[0],
+          contactInfo: { email: sampleUser.email, phone: sampleUser.phone },
+          tip: { type: 'percentage', percent: 15 },
+        },
+      });
+    });
+
+    it('should add the tip chosen at checkout to the total', async () => {
+      const { data: order } = await orderService.placeOrder(tippedRequest, 'key-1');
+
+      expect(order.tip).toEqual({ choice: { type: 'percentage', percent: 15 }, amount: 4.5 });
+      expect(order.total).toBe(39.89);
+      expect(order.priceLines?.map(line => line.type)).toEqual(['subtotal', 'deliveryFee', 'tax', 'tip']);
+    });
+
+    const deliver = (orderId: string) => {
+      server.db.orders[orderId] = advanceOrderTo(server.db.orders[orderId], 'delivered');
+    };
+
+    it('should change and remove the tip once the order is delivered', async () => {
+      const { data: placed } = await orderService.placeOrder(tippedRequest, 'key-1');
+      deliver(placed.id);
+
+      const { data: changed } = await orderService.updateTip(placed.id, { type: 'custom', amount: 2 });
+      expect(changed.tip).toEqual({ choice: { type: 'custom', amount: 2 }, amount: 2 });
+      expect(changed.total).toBe(37.39);
+      expect(changed.priceLines?.filter(line => line.type === 'tip')).toHaveLength(1);
+
+      const { data: removed } = await orderService.updateTip(placed.id, { type: 'percentage', percent: 0 });
+      expect(removed.tip).toBeUndefined();
+      expect(removed.total).toBe(35.39);
+      expect(removed.priceLines?.some(line => line.type === 'tip')).toBe(false);
+    });
+
+    it('should only take tips on delivered orders', async () => {
+      const { data: placed } = await orderService.placeOrder(request, 'key-1');
+
+      await expect(orderService.updateTip(placed.id, { type: 'custom', amount: 2 })).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: 'Tips can be changed once your order is delivered',
+      });
+
+      server.db.orders[placed.id] = advanceOrderTo(server.db.orders[placed.id], 'cancelled');
+      await expect(orderService.updateTip(placed.id, { type: 'custom', amount: 2 })).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+
+      await expect(orderService.updateTip('missing', { type: 'custom', amount: 2 })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('should reject invalid tips', async () => {
+      const { data: placed } = await orderService.placeOrder(request, 'key-1');
+      deliver(placed.id);
+
+      await expect(orderService.updateTip(placed.id, { type: 'custom', amount: -1 })).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Order Service
+ *
+ * Order placement, status and tip endpoints
+ */
+
+import { Address, ApiResponse, CheckoutFormData, Order, OrderStatus, TipChoice } from '../types';
+import { getApiClient } from './apiConfig';
+
+export interface OrderStatusResponse {
+  orderId: string;
+  status: OrderStatus;
+  updatedAt: string | Date;
+  estimatedDeliveryTime?: string;
+}
+
+export type PlaceOrderRequest = Omit<
+  Order,
+  'id' | 'deliveryAddress' | 'status' | 'statusHistory' | 'estimatedDeliveryTime' | 'createdAt' | 'updatedAt'
+> & {
+  deliveryAddress: Omit<Address, 'id'> & { id?: string };
+  contactInfo: CheckoutFormData['contactInfo'];
+};
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Dates arrive as strings over the network; restore them
+ */
+const reviveOrderDates = (order: Order): Order => ({
+  ...order,
+  createdAt: new Date(order.createdAt),
+  updatedAt: new Date(order.updatedAt),
+  ...(order.statusHistory
+    ? { statusHistory: order.statusHistory.map(event => ({ ...event, at: new Date(event.at) })) }
+    : {}),
+  ...(order.scheduledSlot
+    ? { scheduledSlot: { start: new Date(order.scheduledSlot.start), end: new Date(order.scheduledSlot.end) } }
+    : {}),
+});
+
+// Placements still waiting for a response, keyed by idempotency key
+const pendingPlacements = new Map<string, Promise<ApiResponse<Order>>>();
+
+export const orderService = {
+  /**
+   * Place an order. Repeated calls with the same idempotency key share the
+   * in-flight request, and the server returns the original order for a key
+   * it has already processed.
+   */
+  placeOrder: (request: PlaceOrderRequest, idempotencyKey: string): Promise<ApiResponse<Order>> => {
+    const pending = pendingPlacements.get(idempotencyKey);
+    if (pending) {
+      return pending;
+    }
+
+    const placement = getApiClient()
+      .post<Order>('/orders', request, { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey })
+      .then(response => ({ ...response, data: reviveOrderDates(response.data) }))
+      .finally(() => pendingPlacements.delete(idempotencyKey));
+
+    pendingPlacements.set(idempotencyKey, placement);
+    return placement;
+  },
+
+  getOrder: (orderId: string): Promise<ApiResponse<Order>> =>
+    getApiClient()
+      .get<Order>(`/orders/${encodeURIComponent(orderId)}`)
+      .then(response => ({ ...response, data: reviveOrderDates(response.data) })),
+
+  getOrderStatus: (orderId: string): Promise<ApiResponse<OrderStatusResponse>> =>
+    getApiClient().get<OrderStatusResponse>(`/orders/${encodeURIComponent(orderId)}/status`),
+
+  /**
+   * Change the tip on an order, e.g. once it's delivered. The server works
+   * out the amount and the new total.
+   */
+  updateTip: (orderId: string, choice: TipChoice): Promise<ApiResponse<Order>> =>
+    getApiClient()
+      .patch<Order>(`/orders/${encodeURIComponent(orderId)}/tip`, { choice })
+      .then(response => ({ ...response, data: reviveOrderDates(response.data) })),
+};
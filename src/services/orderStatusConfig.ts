@@ -0,0 +1,43 @@
+/**
+ * Order Status Configuration
+ *
+ * Holds the app-wide order status source. Polls the backend, real or mock,
+ * so screens show the status the server acts on, e.g. when a tip is changed.
+ */
+
+import { orderService } from './orderService';
+import { OrderStatusSource, createPollingStatusSource } from './orderStatusSource';
+
+const createDefaultStatusSource = (): OrderStatusSource =>
+  createPollingStatusSource({
+    fetchStatus: async (orderId) => {
+      const { data } = await orderService.getOrderStatus(orderId);
+      return {
+        orderId: data.orderId,
+        status: data.status,
+        at: new Date(data.updatedAt),
+        estimatedDeliveryTime: data.estimatedDeliveryTime,
+      };
+    },
+  });
+
+let statusSource: OrderStatusSource | null = null;
+
+/**
+ * Get the shared order status source, creating it on first use
+ */
+export const getOrderStatusSource = (): OrderStatusSource => {
+  if (!statusSource) {
+    statusSource = createDefaultStatusSource();
+  }
+  return statusSource;
+};
+
+/**
+ * Replace the shared order status source, e.g. with a push source or a
+ * faster simulator in tests
+ */
+export const configureOrderStatusSource = (source: OrderStatusSource): OrderStatusSource => {
+  statusSource = source;
+  return statusSource;
+};
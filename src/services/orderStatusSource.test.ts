@@ -0,0 +1,143 @@
+/**
+ * Order Status Source Tests
+ */
+
+import {
+  OrderStatusUpdate,
+  createPollingStatusSource,
+  createPushStatusSource,
+  createSimulatedStatusSource,
+} from './orderStatusSource';
+import { OrderStatus } from '../types';
+
+const flushPromises = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+describe('Order Status Sources', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createPollingStatusSource', () => {
+    it('should poll until the order reaches a final status', async () => {
+      const statuses: OrderStatus[] = ['confirmed', 'preparing', 'delivered'];
+      const fetchStatus = jest.fn(async (orderId: string): Promise<OrderStatusUpdate> => ({
+        orderId,
+        status: statuses.shift()!,
+        at: new Date(),
+      }));
+      const onUpdate = jest.fn();
+
+      createPollingStatusSource({ fetchStatus, intervalMs: 1000 }).subscribe('order-1', onUpdate);
+
+      await flushPromises();
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+      jest.advanceTimersByTime(5000);
+      await flushPromises();
+
+      expect(fetchStatus).toHaveBeenCalledTimes(3);
+      expect(onUpdate.mock.calls.map(([update]) => update.status)).toEqual([
+        'confirmed',
+        'preparing',
+        'delivered',
+      ]);
+    });
+
+    it('should report errors and keep polling', async () => {
+      const fetchStatus = jest.fn()
+        .mockRejectedValueOnce(new Error('Offline'))
+        .mockResolvedValueOnce({ orderId: 'order-1', status: 'preparing', at: new Date() });
+      const onUpdate = jest.fn();
+      const onError = jest.fn();
+
+      createPollingStatusSource({ fetchStatus, intervalMs: 1000 }).subscribe('order-1', onUpdate, onError);
+
+      await flushPromises();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'NETWORK_ERROR', message: 'Offline' }));
+
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+      expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ status: 'preparing' }));
+    });
+
+    it('should stop polling after unsubscribing', async () => {
+      const fetchStatus = jest.fn(async (orderId: string): Promise<OrderStatusUpdate> => ({
+        orderId,
+        status: 'preparing',
+        at: new Date(),
+      }));
+
+      const unsubscribe = createPollingStatusSource({ fetchStatus, intervalMs: 1000 })
+        .subscribe('order-1', jest.fn());
+
+      await flushPromises();
+      unsubscribe();
+      jest.advanceTimersByTime(5000);
+      await flushPromises();
+
+      expect(fetchStatus).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createPushStatusSource', () => {
+    it('should route messages by order id over one shared connection', () => {
+      let emit: (update: OrderStatusUpdate) => void = () => {};
+      const close = jest.fn();
+      const connect = jest.fn((onMessage: (update: OrderStatusUpdate) => void) => {
+        emit = onMessage;
+        return { close };
+      });
+      const source = createPushStatusSource({ connect });
+      const firstListener = jest.fn();
+      const secondListener = jest.fn();
+
+      const unsubscribeFirst = source.subscribe('order-1', firstListener);
+      const unsubscribeSecond = source.subscribe('order-2', secondListener);
+      emit({ orderId: 'order-2', status: 'preparing', at: new Date() });
+
+      expect(connect).toHaveBeenCalledTimes(1);
+      expect(firstListener).not.toHaveBeenCalled();
+      expect(secondListener).toHaveBeenCalledWith(expect.objectContaining({ status: 'preparing' }));
+
+      unsubscribeFirst();
+      expect(close).not.toHaveBeenCalled();
+      unsubscribeSecond();
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createSimulatedStatusSource', () => {
+    it('should report the current status and advance on every step', () => {
+      const onUpdate = jest.fn();
+      createSimulatedStatusSource({ stepMs: 1000 }).subscribe('order-1', onUpdate);
+
+      jest.advanceTimersByTime(5000);
+
+      expect(onUpdate.mock.calls.map(([update]) => update.status)).toEqual([
+        'confirmed',
+        'preparing',
+        'out_for_delivery',
+        'delivered',
+      ]);
+    });
+
+    it('should keep progress across subscriptions and pause without subscribers', () => {
+      const source = createSimulatedStatusSource({ stepMs: 1000 });
+      const unsubscribe = source.subscribe('order-1', jest.fn());
+
+      jest.advanceTimersByTime(1000);
+      unsubscribe();
+      jest.advanceTimersByTime(10000);
+
+      const onUpdate = jest.fn();
+      source.subscribe('order-1', onUpdate);
+      expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ status: 'preparing' }));
+    });
+  });
+});
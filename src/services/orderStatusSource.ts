@@ -0,0 +1,211 @@
+/**
+ * Order Status Sources
+ *
+ * Pluggable sources of live order status updates. Screens subscribe by
+ * order id and don't care whether updates arrive by polling, by push or
+ * from the local simulator used in development.
+ */
+
+import { AppError, OrderStatus } from '../types';
+import { ORDER_STATUS_SEQUENCE, isTerminalStatus } from '../utils/orderLifecycle';
+import { toAppError } from './apiClient';
+
+export interface OrderStatusUpdate {
+  orderId: string;
+  status: OrderStatus;
+  at: Date;
+  estimatedDeliveryTime?: string;
+}
+
+export type OrderStatusListener = (update: OrderStatusUpdate) => void;
+export type OrderStatusErrorListener = (error: AppError) => void;
+
+export interface OrderStatusSource {
+  /**
+   * Listen for status updates of one order
+   * @returns function that stops listening
+   */
+  subscribe: (
+    orderId: string,
+    onUpdate: OrderStatusListener,
+    onError?: OrderStatusErrorListener
+  ) => () => void;
+}
+
+export interface PollingStatusSourceOptions {
+  fetchStatus: (orderId: string) => Promise<OrderStatusUpdate>;
+  intervalMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+
+/**
+ * Create a source that polls for status, stopping once the order is final
+ */
+export const createPollingStatusSource = ({
+  fetchStatus,
+  intervalMs = DEFAULT_POLL_INTERVAL_MS,
+}: PollingStatusSourceOptions): OrderStatusSource => ({
+  subscribe: (orderId, onUpdate, onError) => {
+    let isActive = true;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      let isFinished = false;
+
+      try {
+        const update = await fetchStatus(orderId);
+        if (!isActive) return;
+
+        onUpdate(update);
+        isFinished = isTerminalStatus(update.status);
+      } catch (error) {
+        if (!isActive) return;
+        onError?.(toAppError(error));
+      }
+
+      if (isActive && !isFinished) {
+        timeoutId = setTimeout(poll, intervalMs);
+      }
+    };
+
+    poll();
+
+    return () => {
+      isActive = false;
+      if (timeoutId) clearTimeout(timeoutId);
+    };
+  },
+});
+
+export interface PushConnection {
+  close: () => void;
+}
+
+export interface PushStatusSourceOptions {
+  /**
+   * Open a shared connection (e.g. a websocket) that delivers updates for
+   * any order. It is opened for the first subscriber and closed after the last.
+   */
+  connect: (onMessage: OrderStatusListener, onError: OrderStatusErrorListener) => PushConnection;
+}
+
+/**
+ * Create a source backed by a single push connection, fanning updates out
+ * to subscribers by order id
+ */
+export const createPushStatusSource = ({ connect }: PushStatusSourceOptions): OrderStatusSource => {
+  const subscribers = new Map<string, Set<{ onUpdate: OrderStatusListener; onError?: OrderStatusErrorListener }>>();
+  let connection: PushConnection | null = null;
+
+  const handleMessage = (update: OrderStatusUpdate) => {
+    subscribers.get(update.orderId)?.forEach(subscriber => subscriber.onUpdate(update));
+  };
+
+  const handleError = (error: AppError) => {
+    subscribers.forEach(orderSubscribers =>
+      orderSubscribers.forEach(subscriber => subscriber.onError?.(error))
+    );
+  };
+
+  return {
+    subscribe: (orderId, onUpdate, onError) => {
+      const subscriber = { onUpdate, onError };
+      const orderSubscribers = subscribers.get(orderId) ?? new Set();
+      orderSubscribers.add(subscriber);
+      subscribers.set(orderId, orderSubscribers);
+
+      if (!connection) {
+        connection = connect(handleMessage, handleError);
+      }
+
+      return () => {
+        orderSubscribers.delete(subscriber);
+        if (orderSubscribers.size === 0) {
+          subscribers.delete(orderId);
+        }
+
+        if (subscribers.size === 0 && connection) {
+          connection.close();
+          connection = null;
+        }
+      };
+    },
+  };
+};
+
+export interface SimulatedStatusSourceOptions {
+  stepMs?: number;
+  initialStatus?: OrderStatus;
+}
+
+const DEFAULT_SIMULATION_STEP_MS = 20000;
+
+/**
+ * Create a local source for development that walks every order through the
+ * normal progression. Progress is kept per order, pauses while nobody is
+ * subscribed and is reported to new subscribers immediately.
+ */
+export const createSimulatedStatusSource = ({
+  stepMs = DEFAULT_SIMULATION_STEP_MS,
+  initialStatus = 'confirmed',
+}: SimulatedStatusSourceOptions = {}): OrderStatusSource => {
+  const orders = new Map<string, {
+    status: OrderStatus;
+    at: Date;
+    listeners: Set<OrderStatusListener>;
+    intervalId?: ReturnType<typeof setInterval>;
+  }>();
+
+  const stop = (orderId: string) => {
+    const order = orders.get(orderId);
+    if (order?.intervalId) {
+      clearInterval(order.intervalId);
+      order.intervalId = undefined;
+    }
+  };
+
+  const advance = (orderId: string) => {
+    const order = orders.get(orderId);
+    if (!order) return;
+
+    const nextStatus = ORDER_STATUS_SEQUENCE[ORDER_STATUS_SEQUENCE.indexOf(order.status) + 1];
+    if (!nextStatus) {
+      stop(orderId);
+      return;
+    }
+
+    order.status = nextStatus;
+    order.at = new Date();
+    order.listeners.forEach(listener => listener({ orderId, status: order.status, at: order.at }));
+
+    if (isTerminalStatus(nextStatus)) {
+      stop(orderId);
+    }
+  };
+
+  return {
+    subscribe: (orderId, onUpdate) => {
+      const order = orders.get(orderId) ?? {
+        status: initialStatus,
+        at: new Date(),
+        listeners: new Set<OrderStatusListener>(),
+      };
+      orders.set(orderId, order);
+      order.listeners.add(onUpdate);
+
+      onUpdate({ orderId, status: order.status, at: order.at });
+
+      if (!order.intervalId && !isTerminalStatus(order.status)) {
+        order.intervalId = setInterval(() => advance(orderId), stepMs);
+      }
+
+      return () => {
+        order.listeners.delete(onUpdate);
+        if (order.listeners.size === 0) {
+          stop(orderId);
+        }
+      };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * Promotion Service Tests
+ */
+
+import { promotionService } from './promotionService';
+import { generateMockOrder, generateMockRestaurant, generateMockUser } from '../utils/mockData';
+import { Order, Promotion } from '../types';
+
+const user = generateMockUser();
+const restaurant = generateMockRestaurant({ id: 'restaurant-1', name: 'Trattoria' });
+const now = new Date('2026-06-01T12:00:00Z');
+
+const orderWith = (overrides: Partial<Order> = {}): Order =>
+  generateMockOrder(user, restaurant, [], { status: 'delivered', ...overrides });
+
+const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  code: 'TEST',
+  description: 'Test promotion',
+  discount: { type: 'flat', amountCents: 500 },
+  ...overrides,
+});
+
+const ineligibility = (promo: Promotion, context: { subtotal?: number; orderHistory?: Order[] } = {}) =>
+  promotionService.getIneligibility(promo, {
+    restaurant,
+    subtotal: context.subtotal ?? 30,
+    orderHistory: context.orderHistory ?? [],
+    now,
+  });
+
+describe('promotionService', () => {
+  describe('findPromotion', () => {
+    it('should find a code whatever case and spacing it was typed in', () => {
+      expect(promotionService.findPromotion(' save5 ')?.code).toBe('SAVE5');
+      expect(promotionService.findPromotion('NOPE')).toBeNull();
+      expect(promotionService.findPromotion('')).toBeNull();
+    });
+  });
+
+  describe('getIneligibility', () => {
+    it('should allow a promotion without conditions', () => {
+      expect(ineligibility(promotion())).toBeNull();
+    });
+
+    it('should refuse an expired promotion', () => {
+      expect(ineligibility(promotion({ expiresAt: new Date('2026-05-31T23:59:59Z') }))).toBe('TEST has expired');
+      expect(ineligibility(promotion({ expiresAt: new Date('2026-06-30T23:59:59Z') }))).toBeNull();
+    });
+
+    it('should only allow a restaurant promotion at that restaurant', () => {
+      expect(ineligibility(promotion({ restaurantIds: ['restaurant-1'] }))).toBeNull();
+      expect(ineligibility(promotion({ restaurantIds: ['restaurant-2'] }))).toBe("TEST can't be used at Trattoria");
+    });
+
+    it('should say how much more to spend to reach the minimum', () => {
+      expect(ineligibility(promotion({ minimumSubtotal: 25 }), { subtotal: 19.99 })).toBe('Add $5.01 more to use TEST');
+      expect(ineligibility(promotion({ minimumSubtotal: 25 }), { subtotal: 25 })).toBeNull();
+    });
+
+    it('should keep first order promotions for customers without orders', () => {
+      const firstOrder = promotion({ firstOrderOnly: true });
+
+      expect(ineligibility(firstOrder)).toBeNull();
+      expect(ineligibility(firstOrder, { orderHistory: [orderWith({ status: 'cancelled' })] })).toBeNull();
+      expect(ineligibility(firstOrder, { orderHistory: [orderWith()] })).toBe('TEST is only for your first order');
+    });
+
+    it('should allow a once per customer promotion to be used once', () => {
+      const oncePerUser = promotion({ oncePerUser: true });
+      const usedOn = (status: Order['status']) =>
+        orderWith({ status, discount: { code: 'TEST', description: 'Test promotion', amount: 5 } });
+
+      expect(ineligibility(oncePerUser, { orderHistory: [orderWith()] })).toBeNull();
+      expect(ineligibility(oncePerUser, { orderHistory: [usedOn('cancelled')] })).toBeNull();
+      expect(ineligibility(oncePerUser, { orderHistory: [usedOn('delivered')] })).toBe("You've already used TEST");
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Promotion Service
+ *
+ * The promo codes customers can enter, and whether one can be used on a
+ * cart: at its restaurant, above its minimum spend, before it expires, and
+ * only as often as it allows.
+ */
+
+import { Order, Promotion, Restaurant } from '../types';
+import { formatCents, toCents } from '../utils/pricingUtils';
+
+// Mock promotions - in a real app, these would come from an API
+export const PROMOTIONS: Promotion[] = [
+  {
+    code: 'WELCOME20',
+    description: '20% off your first order, up to $10',
+    discount: { type: 'percentage', basisPoints: 2000, maxCents: 1000 },
+    firstOrderOnly: true,
+  },
+  {
+    code: 'SAVE5',
+    description: '$5 off orders of $25 or more',
+    discount: { type: 'flat', amountCents: 500 },
+    minimumSubtotal: 25,
+    oncePerUser: true,
+  },
+  {
+    code: 'FREEDELIVERY',
+    description: 'Free delivery on orders of $15 or more',
+    discount: { type: 'freeDelivery' },
+    minimumSubtotal: 15,
+    expiresAt: new Date('2027-12-31T23:59:59Z'),
+  },
+  {
+    code: 'SUMMER10',
+    description: '10% off your order',
+    discount: { type: 'percentage', basisPoints: 1000 },
+    expiresAt: new Date('2026-09-01T00:00:00Z'),
+  },
+];
+
+export interface PromotionContext {
+  restaurant?: Restaurant;
+  subtotal: number;
+  orderHistory: Order[]; // the customer's past orders
+  now?: Date;
+}
+
+// Cancelled orders don't use up a code or a first order
+const getPlacedOrders = (orderHistory: Order[]): Order[] =>
+  orderHistory.filter(order => order.status !== 'cancelled');
+
+// Error code for an order whose promo code doesn't apply
+export const PROMO_CODE_ERROR = 'INVALID_PROMO_CODE';
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+export const promotionService = {
+  getPromotions: (): Promotion[] => PROMOTIONS,
+
+  // The promotion a code is for, whatever case it was typed in
+  findPromotion: (code: string, promotions: Promotion[] = PROMOTIONS): Promotion | null => {
+    const normalized = normalizePromoCode(code);
+    return promotions.find(promotion => promotion.code === normalized) ?? null;
+  },
+
+  // Why a promotion can't be used on a cart, or null when it can
+  getIneligibility: (promotion: Promotion, context: PromotionContext): string | null => {
+    const { restaurant, subtotal, orderHistory, now = new Date() } = context;
+
+    if (promotion.expiresAt && now.getTime() > promotion.expiresAt.getTime()) {
+      return `${promotion.code} has expired`;
+    }
+    if (promotion.restaurantIds && (!restaurant || !promotion.restaurantIds.includes(restaurant.id))) {
+      return restaurant
+        ? `${promotion.code} can't be used at ${restaurant.name}`
+        : `${promotion.code} can't be used at this restaurant`;
+    }
+
+    const placedOrders = getPlacedOrders(orderHistory);
+    if (promotion.firstOrderOnly && placedOrders.length > 0) {
+      return `${promotion.code} is only for your first order`;
+    }
+    if (promotion.oncePerUser && placedOrders.some(order => order.discount?.code === promotion.code)) {
+      return `You've already used ${promotion.code}`;
+    }
+
+    const remainingCents = toCents(promotion.minimumSubtotal ?? 0) - toCents(subtotal);
+    if (remainingCents > 0) {
+      return `Add ${formatCents(remainingCents)} more to use ${promotion.code}`;
+    }
+    return null;
+  },
+};
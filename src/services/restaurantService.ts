@@ -0,0 +1,40 @@
+/**
+ * Restaurant Service
+ *
+ * Restaurant and menu endpoints
+ */
+
+import { Restaurant, MenuItem, ApiResponse, PaginatedResponse, DeliverySlotAvailability } from '../types';
+import { getApiClient } from './apiConfig';
+
+export interface RestaurantListParams {
+  page?: number;
+  limit?: number;
+}
+
+export const restaurantService = {
+  getRestaurants: (params: RestaurantListParams = {}): Promise<PaginatedResponse<Restaurant>> =>
+    getApiClient().getPaginated<Restaurant>('/restaurants', { ...params }),
+
+  getFeaturedRestaurants: (limit?: number): Promise<ApiResponse<Restaurant[]>> =>
+    getApiClient().get<Restaurant[]>('/restaurants/featured', { limit }),
+
+  getRestaurant: (restaurantId: string): Promise<ApiResponse<Restaurant>> =>
+    getApiClient().get<Restaurant>(`/restaurants/${encodeURIComponent(restaurantId)}`),
+
+  getMenu: (restaurantId: string): Promise<ApiResponse<MenuItem[]>> =>
+    getApiClient().get<MenuItem[]>(`/restaurants/${encodeURIComponent(restaurantId)}/menu`),
+
+  // Every listed restaurant's menu, for searching dishes across restaurants
+  getAllMenuItems: (): Promise<ApiResponse<MenuItem[]>> =>
+    getApiClient().get<MenuItem[]>('/menu-items'),
+
+  // Upcoming delivery slots and how many more scheduled orders each can take
+  getDeliverySlots: (restaurantId: string): Promise<ApiResponse<DeliverySlotAvailability[]>> =>
+    getApiClient()
+      .get<DeliverySlotAvailability[]>(`/restaurants/${encodeURIComponent(restaurantId)}/slots`)
+      .then(response => ({
+        ...response,
+        data: response.data.map(slot => ({ ...slot, start: new Date(slot.start), end: new Date(slot.end) })),
+      })),
+};
@@ -0,0 +1,163 @@
+/**
+ * Transports
+ *
+ * Concrete transports for the API client: a fetch-based transport for a real
+ * backend and a route-table transport used to build local mock servers
+ */
+
+import { ApiRequest, HttpMethod, QueryParams, Transport, TransportResponse } from './apiClient';
+
+/**
+ * Serialize query params, skipping undefined values
+ */
+export const buildQueryString = (query?: QueryParams): string => {
+  if (!query) return '';
+
+  const pairs = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+
+  return pairs.length > 0 ? `?${pairs.join('&')}` : '';
+};
+
+/**
+ * Create a transport that talks to a real backend over fetch
+ */
+export const createFetchTransport = (baseUrl: string): Transport => {
+  const normalizedBaseUrl = baseUrl.replace(/\/+$/, '');
+
+  return async (request: ApiRequest): Promise<TransportResponse> => {
+    const response = await fetch(`${normalizedBaseUrl}${request.path}${buildQueryString(request.query)}`, {
+      method: request.method,
+      headers: {
+        Accept: 'application/json',
+        ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...request.headers,
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      signal: request.signal,
+    });
+
+    const text = await response.text();
+    let body: unknown = null;
+
+    if (text.length > 0) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    }
+
+    return { status: response.status, body };
+  };
+};
+
+export interface MockRouteContext {
+  params: Record<string, string>;
+  query: QueryParams;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+export interface MockRoute {
+  method: HttpMethod;
+  path: string; // e.g. "/restaurants/:id/menu"
+  handler: (context: MockRouteContext) => TransportResponse | Promise<TransportResponse>;
+}
+
+export interface MockTransportOptions {
+  latencyMs?: number;
+}
+
+/**
+ * Match a request path against a route pattern and extract its params
+ */
+export const matchRoutePath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = path.split('/').filter(Boolean);
+
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const patternSegment = patternSegments[i];
+    const pathSegment = pathSegments[i];
+
+    if (patternSegment.startsWith(':')) {
+      params[patternSegment.slice(1)] = decodeURIComponent(pathSegment);
+    } else if (patternSegment !== pathSegment) {
+      return null;
+    }
+  }
+
+  return params;
+};
+
+/**
+ * Create a transport that resolves requests against an in-memory route table.
+ * Routes are matched in order, so more specific paths should come first.
+ */
+export const createMockTransport = (
+  routes: MockRoute[],
+  { latencyMs = 0 }: MockTransportOptions = {}
+): Transport => {
+  return async (request: ApiRequest): Promise<TransportResponse> => {
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+
+    // Like fetch, an aborted request never reaches the server
+    if (request.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    for (const route of routes) {
+      if (route.method !== request.method) continue;
+
+      const params = matchRoutePath(route.path, request.path);
+      if (!params) continue;
+
+      try {
+        return await route.handler({
+          params,
+          query: request.query || {},
+          body: request.body,
+          headers: request.headers || {},
+        });
+      } catch (error) {
+        return {
+          status: 500,
+          body: {
+            success: false,
+            message: error instanceof Error ? error.message : 'Mock server error',
+          },
+        };
+      }
+    }
+
+    return {
+      status: 404,
+      body: {
+        success: false,
+        message: `No route for ${request.method} ${request.path}`,
+      },
+    };
+  };
+};
+
+/**
+ * Response helpers for mock route handlers
+ */
+export const ok = <T>(data: T, message?: string): TransportResponse => ({
+  status: 200,
+  body: { data, success: true, message },
+});
+
+export const fail = (status: number, message: string, code?: string, details?: unknown): TransportResponse => ({
+  status,
+  body: { success: false, message, code, details },
+});
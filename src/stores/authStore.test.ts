@@ -0,0 +1,152 @@
+/**
+ * Auth Store Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuthStore } from './authStore';
+import { useUserStore } from './userStore';
+import { useCartStore } from './cartStore';
+import { useRestaurantStore } from './restaurantStore';
+import { STORAGE_KEYS } from './persistence';
+import { configureApiClient } from '../services/apiConfig';
+import { createMockServer, DEMO_ACCOUNT } from '../services/mockServer';
+import { orderService } from '../services/orderService';
+import { generateMockCartItem, generateMockMenuItem, generateMockRestaurant, sampleUser } from '../utils/mockData';
+
+describe('Auth Store', () => {
+  let server: ReturnType<typeof createMockServer>;
+
+  const setUpServer = (accessTokenTtlMs?: number) => {
+    server = createMockServer({ restaurantCount: 2, requireAuth: true, accessTokenTtlMs });
+    configureApiClient({ transport: server });
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    useAuthStore.setState({ tokens: null, isAuthenticating: false, error: null });
+    useUserStore.getState().logout();
+    useCartStore.getState().clearCart();
+    setUpServer();
+  });
+
+  describe('signing in', () => {
+    it('should store tokens and the user for valid credentials', async () => {
+      const user = await useAuthStore.getState().signIn(DEMO_ACCOUNT);
+
+      expect(user.email).toBe(sampleUser.email);
+      expect(useAuthStore.getState().tokens?.expiresAt).toBeInstanceOf(Date);
+      expect(useUserStore.getState().isAuthenticated).toBe(true);
+      expect(useUserStore.getState().user?.id).toBe(sampleUser.id);
+    });
+
+    it('should default the dietary search filter to the user\'s preferences', async () => {
+      useRestaurantStore.getState().clearSearch();
+
+      await useAuthStore.getState().signIn(DEMO_ACCOUNT);
+
+      expect(useRestaurantStore.getState().searchFilters.dietaryRestrictions)
+        .toEqual(sampleUser.preferences.dietaryRestrictions);
+    });
+
+    it('should reject wrong credentials and keep the error', async () => {
+      await expect(
+        useAuthStore.getState().signIn({ email: DEMO_ACCOUNT.email, password: 'wrong-password1' })
+      ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+
+      expect(useAuthStore.getState().error?.code).toBe('INVALID_CREDENTIALS');
+      expect(useAuthStore.getState().tokens).toBeNull();
+      expect(useUserStore.getState().isAuthenticated).toBe(false);
+    });
+
+    it('should create an account on sign up and refuse a duplicate email', async () => {
+      const registration = {
+        name: 'Sam Rivera',
+        email: 'sam@example.com',
+        phone: '(555) 123-4567',
+        password: 'secret123',
+      };
+
+      const user = await useAuthStore.getState().signUp(registration);
+
+      expect(user.name).toBe('Sam Rivera');
+      expect(user.orderHistory).toEqual([]);
+      expect(useUserStore.getState().user?.id).toBe(user.id);
+
+      await expect(useAuthStore.getState().signUp(registration)).rejects.toMatchObject({
+        code: 'EMAIL_TAKEN',
+      });
+    });
+  });
+
+  describe('silent refresh', () => {
+    it('should refresh an access token that is about to expire before using it', async () => {
+      setUpServer(30 * 1000);
+      await useAuthStore.getState().signIn(DEMO_ACCOUNT);
+      const { accessToken } = useAuthStore.getState().tokens!;
+
+      const token = await useAuthStore.getState().getAccessToken();
+
+      expect(token).not.toBe(accessToken);
+      expect(token).toBe(useAuthStore.getState().tokens?.accessToken);
+    });
+
+    it('should share one refresh between concurrent callers', async () => {
+      await useAuthStore.getState().signIn(DEMO_ACCOUNT);
+
+      const [first, second] = await Promise.all([
+        useAuthStore.getState().refreshSession(),
+        useAuthStore.getState().refreshSession(),
+      ]);
+
+      expect(first).not.toBeNull();
+      expect(second).toBe(first);
+    });
+
+    it('should retry a rejected request once with a refreshed token', async () => {
+      await useAuthStore.getState().signIn(DEMO_ACCOUNT);
+      server.db.revokedTokens[useAuthStore.getState().tokens!.accessToken] = true;
+
+      await expect(orderService.getOrder('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      expect(server.db.revokedTokens[useAuthStore.getState().tokens!.accessToken]).toBeUndefined();
+    });
+
+    it('should end the session when the refresh token is rejected', async () => {
+      await useAuthStore.getState().signIn(DEMO_ACCOUNT);
+      server.db.revokedTokens[useAuthStore.getState().tokens!.refreshToken] = true;
+
+      const refreshed = await useAuthStore.getState().refreshSession();
+
+      expect(refreshed).toBeNull();
+      expect(useAuthStore.getState().tokens).toBeNull();
+      expect(useUserStore.getState().isAuthenticated).toBe(false);
+    });
+  });
+
+  describe('restoring a session', () => {
+    it('should sign out a restored user without tokens', async () => {
+      useUserStore.getState().setUser(sampleUser);
+
+      await useAuthStore.getState().restoreSession();
+
+      expect(useUserStore.getState().user).toBeNull();
+    });
+  });
+
+  describe('logging out', () => {
+    it('should clear the session, the cart and persisted data', async () => {
+      await useAuthStore.getState().signIn(DEMO_ACCOUNT);
+      const { refreshToken } = useAuthStore.getState().tokens!;
+      const restaurant = generateMockRestaurant({ id: 'r-1' });
+      useCartStore.getState().addItem(generateMockCartItem(generateMockMenuItem('r-1')), restaurant);
+
+      await useAuthStore.getState().logout();
+
+      expect(useAuthStore.getState().tokens).toBeNull();
+      expect(useUserStore.getState().user).toBeNull();
+      expect(useCartStore.getState().items).toHaveLength(0);
+      expect(server.db.revokedTokens[refreshToken]).toBe(true);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.auth)).toBeNull();
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.cart)).toBeNull();
+    });
+  });
+});
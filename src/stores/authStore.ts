@@ -0,0 +1,228 @@
+/**
+ * Auth Store
+ *
+ * Manages the signed-in session: token storage, silent refresh of the access
+ * token and signing in, up and out. The signed-in user itself lives in the
+ * user store.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  AppError,
+  AuthSession,
+  AuthTokens,
+  LoginCredentials,
+  User,
+  UserRegistrationData,
+} from '../types';
+import { authService } from '../services/authService';
+import { configureApiAuth } from '../services/apiConfig';
+import { API_ERROR_CODES, toAppError } from '../services/apiClient';
+import { useUserStore } from './userStore';
+import { useCartStore } from './cartStore';
+import { useRestaurantStore } from './restaurantStore';
+import {
+  STORAGE_KEYS,
+  SCHEMA_VERSIONS,
+  MigrationSteps,
+  createPersistStorage,
+  createMigrate,
+  clearPersistedState,
+} from './persistence';
+
+// Refresh a little before expiry so a request doesn't race the deadline
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+interface AuthStore {
+  // State
+  tokens: AuthTokens | null;
+  isAuthenticating: boolean;
+  error: AppError | null;
+
+  // Actions
+  signIn: (credentials: LoginCredentials) => Promise<User>;
+  signUp: (data: UserRegistrationData) => Promise<User>;
+  logout: () => Promise<void>;
+  clearError: () => void;
+
+  // Session
+  refreshSession: () => Promise<AuthTokens | null>;
+  getAccessToken: () => Promise<string | null>;
+  restoreSession: () => Promise<void>;
+}
+
+type PersistedAuthState = Pick<AuthStore, 'tokens'>;
+
+/**
+ * Persisted auth schema migrations, keyed by the version they upgrade to
+ */
+const authMigrations: MigrationSteps<PersistedAuthState> = {};
+
+// Refresh tokens are single use, so concurrent callers share one refresh
+let pendingRefresh: Promise<AuthTokens | null> | null = null;
+
+const isExpiring = (tokens: AuthTokens): boolean =>
+  new Date(tokens.expiresAt).getTime() - Date.now() <= TOKEN_REFRESH_MARGIN_MS;
+
+/**
+ * Whether a failed refresh means the session is gone, as opposed to the
+ * server being unreachable for now
+ */
+const isSessionRejected = (error: AppError): boolean =>
+  error.code !== API_ERROR_CODES.NETWORK_ERROR &&
+  error.code !== API_ERROR_CODES.TIMEOUT &&
+  error.code !== API_ERROR_CODES.SERVER_ERROR;
+
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set, get) => {
+      const startSession = async (request: () => Promise<{ data: AuthSession }>): Promise<User> => {
+        set({ isAuthenticating: true, error: null });
+
+        try {
+          const { data: session } = await request();
+          set({ tokens: session.tokens, isAuthenticating: false });
+          useUserStore.getState().setUser(session.user);
+          // Search starts out filtered to the user's dietary preferences
+          useRestaurantStore.getState().setSearchFilters({
+            dietaryRestrictions: session.user.preferences.dietaryRestrictions,
+          });
+          return session.user;
+        } catch (error) {
+          const appError = toAppError(error);
+          set({ isAuthenticating: false, error: appError });
+          throw appError;
+        }
+      };
+
+      // Drop the session without touching the cart, e.g. when it has expired
+      const endSession = () => {
+        set({ tokens: null });
+        useUserStore.getState().logout();
+      };
+
+      return {
+        // Initial state
+        tokens: null,
+        isAuthenticating: false,
+        error: null,
+
+        // Actions
+        signIn: (credentials: LoginCredentials) =>
+          startSession(() => authService.signIn({
+            email: credentials.email.trim(),
+            password: credentials.password,
+          })),
+
+        signUp: (data: UserRegistrationData) =>
+          startSession(() => authService.signUp({
+            ...data,
+            name: data.name.trim(),
+            email: data.email.trim(),
+          })),
+
+        logout: async () => {
+          const { tokens } = get();
+
+          set({ tokens: null, error: null });
+          useUserStore.getState().logout();
+          useCartStore.getState().clearCart();
+          useRestaurantStore.getState().clearSearch();
+
+          if (tokens) {
+            try {
+              await authService.signOut(tokens);
+            } catch {
+              // The session is already gone locally; the server expires it
+            }
+          }
+
+          await clearPersistedState();
+        },
+
+        clearError: () => {
+          set({ error: null });
+        },
+
+        // Session
+        refreshSession: () => {
+          if (pendingRefresh) return pendingRefresh;
+
+          const { tokens } = get();
+          if (!tokens) return Promise.resolve(null);
+
+          pendingRefresh = authService
+            .refresh(tokens.refreshToken)
+            .then(({ data: refreshed }) => {
+              // Signed out (or in as someone else) while refreshing
+              if (get().tokens?.refreshToken !== tokens.refreshToken) return null;
+
+              set({ tokens: refreshed });
+              return refreshed;
+            })
+            .catch(error => {
+              if (isSessionRejected(toAppError(error)) && get().tokens?.refreshToken === tokens.refreshToken) {
+                endSession();
+              }
+              return null;
+            })
+            .finally(() => {
+              pendingRefresh = null;
+            });
+
+          return pendingRefresh;
+        },
+
+        getAccessToken: async () => {
+          const { tokens } = get();
+          if (!tokens) return null;
+
+          if (isExpiring(tokens)) {
+            await get().refreshSession();
+          }
+
+          return get().tokens?.accessToken ?? null;
+        },
+
+        /**
+         * Reconcile the restored session with the restored user once both
+         * stores have hydrated
+         */
+        restoreSession: async () => {
+          const { tokens } = get();
+          const { user } = useUserStore.getState();
+
+          if (!tokens) {
+            if (user) endSession();
+            return;
+          }
+
+          if (!user) {
+            set({ tokens: null });
+            return;
+          }
+
+          if (isExpiring(tokens)) {
+            await get().refreshSession();
+          }
+        },
+      };
+    },
+    {
+      name: STORAGE_KEYS.auth,
+      version: SCHEMA_VERSIONS.auth,
+      storage: createPersistStorage<PersistedAuthState>(),
+      migrate: createMigrate<PersistedAuthState>(authMigrations, SCHEMA_VERSIONS.auth),
+      partialize: (state) => ({
+        tokens: state.tokens,
+      }),
+    }
+  )
+);
+
+// The shared API client authenticates requests with this session
+configureApiAuth({
+  getAccessToken: () => useAuthStore.getState().getAccessToken(),
+  refreshAccessToken: async () => (await useAuthStore.getState().refreshSession())?.accessToken ?? null,
+});
@@ -3,7 +3,10 @@
  */
 
 import { useCartStore } from './cartStore';
+import { useUserStore } from './userStore';
 import { Restaurant, MenuItem, CartItem } from '../types';
+import { generateMockUser } from '../utils/mockData';
+import { createDailyHours } from '../utils/openingHoursUtils';
 
 // Mock data
 const mockRestaurant: Restaurant = {
@@ -102,6 +105,21 @@ describe('Cart Store Error Handling', () => {
       expect(errors[0].message).toContain('currently closed');
     });
 
+    it('should detect a restaurant closed by its opening hours', () => {
+      const store = useCartStore.getState();
+      store.addItem(mockCartItem, mockRestaurant);
+
+      // Still taking orders, but not open at any time of day
+      useCartStore.setState({
+        restaurant: { ...mockRestaurant, openingHours: createDailyHours([], 'America/New_York') },
+      });
+      store.checkForErrors();
+
+      const { errors } = useCartStore.getState();
+      expect(errors).toHaveLength(1);
+      expect(errors[0].type).toBe('restaurant_closed');
+    });
+
     it('should detect multiple errors', () => {
       const store = useCartStore.getState();
       
@@ -128,6 +146,57 @@ describe('Cart Store Error Handling', () => {
       expect(errors.some(e => e.type === 'unavailable_item')).toBe(true);
       expect(errors.some(e => e.type === 'restaurant_closed')).toBe(true);
     });
+
+    describe('allergens', () => {
+      const signInWithAllergens = (allergens: string[]) => {
+        useUserStore.getState().setUser(generateMockUser({
+          preferences: { dietaryRestrictions: [], favoriteCuisines: [], allergens },
+        }));
+      };
+
+      afterEach(() => {
+        useUserStore.getState().logout();
+      });
+
+      it('should flag items containing the user\'s allergens', () => {
+        signInWithAllergens(['nuts', 'Shellfish']);
+        const store = useCartStore.getState();
+        store.addItem({
+          ...mockCartItem,
+          menuItem: {
+            ...mockMenuItem,
+            dietaryInfo: { ...mockMenuItem.dietaryInfo, allergens: ['Nuts', 'Dairy'] },
+          },
+        }, mockRestaurant);
+
+        store.checkForErrors();
+        store.checkForErrors();
+
+        const { errors } = useCartStore.getState();
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toMatchObject({
+          type: 'allergen_conflict',
+          itemId: mockMenuItem.id,
+          allergens: ['Nuts'],
+        });
+        expect(errors[0].message).toContain('Nuts');
+      });
+
+      it('should not flag anything without a signed-in user', () => {
+        const store = useCartStore.getState();
+        store.addItem({
+          ...mockCartItem,
+          menuItem: {
+            ...mockMenuItem,
+            dietaryInfo: { ...mockMenuItem.dietaryInfo, allergens: ['Nuts'] },
+          },
+        }, mockRestaurant);
+
+        store.checkForErrors();
+
+        expect(useCartStore.getState().errors).toHaveLength(0);
+      });
+    });
   });
 
   describe('updateItemPrice', () => {
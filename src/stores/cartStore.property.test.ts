@@ -0,0 +1,78 @@
+/**
+ * Property-Based Tests for the Cart Store
+ *
+ * Feature: premium-food-app, Property: Orders below the minimum can't check out
+ */
+
+import fc from 'fast-check';
+import { useCartStore } from './cartStore';
+import { generateMockMenuItem, generateMockRestaurant } from '../utils/mockData';
+
+// Whole cents, as prices and minimums are shown
+const centsArb = (min: number, max: number) =>
+  fc.integer({ min: min * 100, max: max * 100 }).map(cents => cents / 100);
+
+const cartArb = fc.record({
+  minimumOrder: centsArb(0, 60),
+  lines: fc.array(
+    fc.record({ price: centsArb(1, 30), quantity: fc.integer({ min: 1, max: 5 }) }),
+    { minLength: 1, maxLength: 5 }
+  ),
+});
+
+describe('Cart Store Property Tests', () => {
+  beforeEach(() => {
+    useCartStore.getState().clearCart();
+  });
+
+  describe('minimum order', () => {
+    it('should flag exactly the carts whose subtotal is below the minimum', () => {
+      fc.assert(
+        fc.property(cartArb, ({ minimumOrder, lines }) => {
+          useCartStore.getState().clearCart();
+          const restaurant = generateMockRestaurant({ minimumOrder });
+          lines.forEach(({ price, quantity }) => {
+            useCartStore.getState().addItem(
+              { menuItem: generateMockMenuItem(restaurant.id, { price }), quantity },
+              restaurant
+            );
+          });
+
+          const { subtotal, getMinimumOrderError } = useCartStore.getState();
+          const error = getMinimumOrderError();
+
+          expect(error !== null).toBe(subtotal < minimumOrder);
+          if (error) {
+            expect(error.type).toBe('below_minimum');
+            expect(error.remaining).toBeGreaterThan(0);
+            // What's left plus what's in the cart makes up the minimum, to the cent
+            expect(error.remaining! + subtotal).toBeCloseTo(minimumOrder, 2);
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should never ask for more as items are added', () => {
+      fc.assert(
+        fc.property(cartArb, ({ minimumOrder, lines }) => {
+          useCartStore.getState().clearCart();
+          const restaurant = generateMockRestaurant({ minimumOrder });
+          let previousRemaining = Infinity;
+
+          lines.forEach(({ price, quantity }) => {
+            useCartStore.getState().addItem(
+              { menuItem: generateMockMenuItem(restaurant.id, { price }), quantity },
+              restaurant
+            );
+            const remaining = useCartStore.getState().getMinimumOrderError()?.remaining ?? 0;
+
+            expect(remaining).toBeLessThanOrEqual(previousRemaining);
+            previousRemaining = remaining;
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -3,7 +3,9 @@
  */
 
 import { useCartStore } from './cartStore';
+import { useUserStore } from './userStore';
 import { CartItem, Restaurant, MenuItem } from '../types';
+import { generateMockOrder, generateMockUser } from '../utils/mockData';
 
 // Mock data
 const mockRestaurant: Restaurant = {
@@ -188,7 +190,272 @@ describe('Cart Store', () => {
       expect(state.subtotal).toBe(25.98); // 12.99 * 2
       expect(state.deliveryFee).toBe(3.99); // restaurant delivery fee
       expect(state.tax).toBe(2.08); // 8% of subtotal, rounded
-      expect(state.total).toBe(32.05); // subtotal + delivery + tax
+      expect(state.priceLines.map(line => line.type)).toEqual(['subtotal', 'deliveryFee', 'serviceFee', 'tax']);
+      expect(state.total).toBe(33.35); // subtotal + delivery + 5% service fee + tax
     });
   });
-});
\ No newline at end of file
+
+  describe('delivery zones', () => {
+    afterEach(() => {
+      useCartStore.getState().setDeliveryLocation(undefined);
+    });
+
+    it('should charge the delivery zone fee when it is higher than the restaurant fee', () => {
+      const store = useCartStore.getState();
+      store.addItem(mockCartItem, { ...mockRestaurant, deliveryFee: 1.49 });
+
+      store.setDeliveryLocation({ latitude: 37.7599, longitude: -122.4148 }); // Mission District
+
+      const state = useCartStore.getState();
+      expect(state.getDeliveryZone()?.name).toBe('Mission District');
+      expect(state.deliveryFee).toBe(3.99);
+      expect(state.total).toBe(21); // 12.99 + 3.99 + 0.99 service + 1.99 small order + 1.04 tax
+    });
+
+    it('should fall back to the base fee outside every zone', () => {
+      const store = useCartStore.getState();
+      store.setDeliveryLocation({ latitude: 34.0522, longitude: -118.2437 });
+      store.addItem(mockCartItem, { ...mockRestaurant, deliveryFee: 1.49 });
+
+      const state = useCartStore.getState();
+      expect(state.getDeliveryZone()).toBeNull();
+      expect(state.deliveryFee).toBe(2.99);
+    });
+  });
+
+  describe('minimum order', () => {
+    afterEach(() => {
+      useCartStore.getState().setDeliveryLocation(undefined);
+    });
+
+    it('should report the amount remaining below the restaurant minimum', () => {
+      const store = useCartStore.getState();
+      store.addItem(mockCartItem, mockRestaurant); // $12.99, minimum is $15
+
+      expect(useCartStore.getState().getMinimumOrderError()).toEqual({
+        type: 'below_minimum',
+        message: 'Add $2.01 more to meet the $15.00 minimum',
+        remaining: 2.01,
+      });
+    });
+
+    it('should clear once the subtotal reaches the minimum', () => {
+      const store = useCartStore.getState();
+      store.addItem(mockCartItem, mockRestaurant);
+      store.updateQuantity(mockMenuItem.id, 2);
+
+      expect(useCartStore.getState().getMinimumOrderError()).toBeNull();
+    });
+
+    it('should use the delivery zone minimum when it is higher', () => {
+      const store = useCartStore.getState();
+      store.addItem({ ...mockCartItem, quantity: 2 }, mockRestaurant); // $25.98
+
+      store.setDeliveryLocation({ latitude: 37.7599, longitude: -122.4148 }); // Mission District, $25 minimum
+      expect(useCartStore.getState().getMinimumOrderError()).toBeNull();
+
+      store.removeItem(mockMenuItem.id);
+      store.addItem(mockCartItem, mockRestaurant);
+      expect(useCartStore.getState().getMinimumOrder()).toBe(25);
+      expect(useCartStore.getState().getMinimumOrderError()?.remaining).toBe(12.01);
+    });
+
+    it('should not apply to an empty cart', () => {
+      expect(useCartStore.getState().getMinimumOrderError()).toBeNull();
+      expect(useCartStore.getState().getMinimumOrder()).toBe(0);
+    });
+  });
+
+  describe('menu item options', () => {
+    const itemWithOptions: MenuItem = {
+      ...mockMenuItem,
+      id: 'item-2',
+      optionGroups: [
+        {
+          id: 'size',
+          name: 'Size',
+          isRequired: true,
+          minSelections: 1,
+          maxSelections: 1,
+          choices: [
+            { id: 'regular', name: 'Regular', priceDelta: 0, isDefault: true },
+            { id: 'large', name: 'Large', priceDelta: 3 },
+          ],
+        },
+      ],
+    };
+
+    it('should keep the same item with different options as separate lines', () => {
+      const store = useCartStore.getState();
+
+      store.addItem({ menuItem: itemWithOptions, quantity: 1, selectedOptions: [{ optionId: 'size', choiceId: 'regular' }] }, mockRestaurant);
+      store.addItem({ menuItem: itemWithOptions, quantity: 1, selectedOptions: [{ optionId: 'size', choiceId: 'large' }] }, mockRestaurant);
+      store.addItem({ menuItem: itemWithOptions, quantity: 2, selectedOptions: [{ optionId: 'size', choiceId: 'large' }] }, mockRestaurant);
+
+      const state = useCartStore.getState();
+      expect(state.items).toHaveLength(2);
+      expect(state.items[1].quantity).toBe(3);
+    });
+
+    it('should include option price deltas in totals', () => {
+      const store = useCartStore.getState();
+
+      store.addItem({ menuItem: itemWithOptions, quantity: 2, selectedOptions: [{ optionId: 'size', choiceId: 'large' }] }, mockRestaurant);
+
+      expect(useCartStore.getState().subtotal).toBe(31.98); // (12.99 + 3) * 2
+    });
+
+    it('should update and remove a single line by line id', () => {
+      const store = useCartStore.getState();
+
+      store.addItem({ menuItem: itemWithOptions, quantity: 1, selectedOptions: [{ optionId: 'size', choiceId: 'regular' }] }, mockRestaurant);
+      store.addItem({ menuItem: itemWithOptions, quantity: 1, selectedOptions: [{ optionId: 'size', choiceId: 'large' }] }, mockRestaurant);
+
+      store.updateQuantity('item-2::size:large', 4);
+      expect(useCartStore.getState().getItemById('item-2::size:large')?.quantity).toBe(4);
+
+      store.removeItem('item-2::size:regular');
+      const state = useCartStore.getState();
+      expect(state.items).toHaveLength(1);
+      expect(state.items[0].selectedOptions).toEqual([{ optionId: 'size', choiceId: 'large' }]);
+    });
+  });
+
+  describe('special instructions', () => {
+    it('should sanitize instructions when adding an item', () => {
+      const store = useCartStore.getState();
+
+      store.addItem({ ...mockCartItem, specialInstructions: '  <i>No</i>   onions ' }, mockRestaurant);
+
+      expect(useCartStore.getState().items[0].specialInstructions).toBe('No onions');
+    });
+
+    it('should keep lines with different instructions separate', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockCartItem, mockRestaurant);
+      store.addItem({ ...mockCartItem, specialInstructions: 'No onions' }, mockRestaurant);
+
+      expect(useCartStore.getState().items).toHaveLength(2);
+    });
+
+    it('should update and clear instructions on a line', () => {
+      const store = useCartStore.getState();
+
+      store.addItem(mockCartItem, mockRestaurant);
+      store.updateSpecialInstructions('item-1', 'Extra crispy');
+      expect(useCartStore.getState().items[0].specialInstructions).toBe('Extra crispy');
+
+      store.updateSpecialInstructions('item-1::note:Extra crispy', '   ');
+      expect(useCartStore.getState().items[0].specialInstructions).toBeUndefined();
+    });
+
+    it('should merge lines that become identical after editing', () => {
+      const store = useCartStore.getState();
+
+      store.addItem({ ...mockCartItem, quantity: 2 }, mockRestaurant);
+      store.addItem({ ...mockCartItem, specialInstructions: 'No onions' }, mockRestaurant);
+      store.updateSpecialInstructions('item-1::note:No onions', '');
+
+      const state = useCartStore.getState();
+      expect(state.items).toHaveLength(1);
+      expect(state.items[0].quantity).toBe(3);
+    });
+  });
+
+  describe('promo codes', () => {
+    it('should take a valid code off the total', () => {
+      const store = useCartStore.getState();
+      store.addItem({ ...mockCartItem, quantity: 2 }, mockRestaurant);
+
+      expect(store.applyPromoCode(' save5 ')).toBe(true);
+
+      const state = useCartStore.getState();
+      expect(state.promoCode).toBe('SAVE5');
+      expect(state.discount).toBe(5);
+      expect(state.priceLines.find(line => line.type === 'discount')).toEqual({
+        type: 'discount',
+        label: 'Discount',
+        amountCents: -500,
+        detail: 'SAVE5',
+      });
+      expect(state.tax).toBe(1.68); // 8% of 25.98 - 5.00
+      expect(state.total).toBe(27.95);
+    });
+
+    it('should report a code that does not exist', () => {
+      const store = useCartStore.getState();
+      store.addItem(mockCartItem, mockRestaurant);
+
+      expect(store.applyPromoCode('nope')).toBe(false);
+      expect(store.applyPromoCode('')).toBe(false);
+
+      const state = useCartStore.getState();
+      expect(state.promoCode).toBeUndefined();
+      // Only the latest attempt is shown
+      expect(state.errors).toEqual([{ type: 'promo_code', message: 'Enter a promo code' }]);
+    });
+
+    it('should refuse a code the cart is not eligible for', () => {
+      const store = useCartStore.getState();
+      store.addItem(mockCartItem, mockRestaurant);
+
+      expect(store.applyPromoCode('SAVE5')).toBe(false);
+      expect(useCartStore.getState().errors[0].message).toBe('Add $12.01 more to use SAVE5');
+    });
+
+    it('should stop discounting once the cart no longer qualifies', () => {
+      const store = useCartStore.getState();
+      store.addItem({ ...mockCartItem, quantity: 2 }, mockRestaurant);
+      store.applyPromoCode('SAVE5');
+
+      store.updateQuantity('item-1', 1);
+
+      const state = useCartStore.getState();
+      expect(state.promoCode).toBe('SAVE5');
+      expect(state.discount).toBe(0);
+      expect(state.getPromotionError()).toEqual({ type: 'promo_code', message: 'Add $12.01 more to use SAVE5' });
+
+      store.updateQuantity('item-1', 2);
+      expect(useCartStore.getState().discount).toBe(5);
+      expect(useCartStore.getState().getPromotionError()).toBeNull();
+    });
+
+    it('should check the code again before an order is placed', () => {
+      const store = useCartStore.getState();
+      store.addItem({ ...mockCartItem, quantity: 2 }, mockRestaurant);
+      store.applyPromoCode('WELCOME20');
+
+      // An order placed since makes this no longer the first
+      const user = generateMockUser();
+      useUserStore.getState().setUser({
+        ...user,
+        orderHistory: [generateMockOrder(user, mockRestaurant, [], { status: 'delivered' })],
+      });
+
+      expect(store.validatePromoCode()).toEqual({ type: 'promo_code', message: 'WELCOME20 is only for your first order' });
+      expect(useCartStore.getState().discount).toBe(0);
+      expect(useCartStore.getState().priceLines.some(line => line.type === 'discount')).toBe(false);
+
+      useUserStore.getState().logout();
+      expect(store.validatePromoCode()).toBeNull();
+      expect(useCartStore.getState().discount).toBe(5.2);
+    });
+
+    it('should remove the code on request and when the cart is cleared', () => {
+      const store = useCartStore.getState();
+      store.addItem({ ...mockCartItem, quantity: 2 }, mockRestaurant);
+      store.applyPromoCode('WELCOME20');
+      expect(useCartStore.getState().discount).toBe(5.2); // 20% of 25.98
+
+      store.removePromoCode();
+      expect(useCartStore.getState().promoCode).toBeUndefined();
+      expect(useCartStore.getState().discount).toBe(0);
+
+      store.applyPromoCode('WELCOME20');
+      store.clearCart();
+      expect(useCartStore.getState().promoCode).toBeUndefined();
+      expect(useCartStore.getState().getPromotion()).toBeNull();
+    });
+  });
+});
@@ -5,26 +5,65 @@
  */
 
 import { create } from 'zustand';
-import { CartItem, Restaurant, CartState } from '../types';
-
+import { persist } from 'zustand/middleware';
+import { CartItem, Restaurant, CartState, Coordinates, DeliveryZone, OpeningPeriod, Promotion } from '../types';
+import { getCartItemUnitPrice, getCartLineId } from '../utils/menuOptionUtils';
+import { sanitizeSpecialInstructions } from '../utils/validationUtils';
+import { getAllergenConflicts } from '../utils/dietaryUtils';
+import { createDailyHours, getOpeningStatus } from '../utils/openingHoursUtils';
+import { PricingInput, calculatePricing, formatCents, fromCents, getSubtotalCents, toCents } from '../utils/pricingUtils';
+import { useUserStore } from './userStore';
+import { deliveryZoneService } from '../services/deliveryZoneService';
+import { normalizePromoCode, promotionService } from '../services/promotionService';
+import {
+  STORAGE_KEYS,
+  SCHEMA_VERSIONS,
+  MigrationSteps,
+  createPersistStorage,
+  createMigrate,
+} from './persistence';
+
+// Where the cart is delivered, for pricing
+type CartDestination = Pick<PricingInput, 'zone' | 'deliveryLocation' | 'deliveryState'>;
+
+// below_minimum isn't kept in errors: it follows the subtotal, see getMinimumOrderError
 interface CartError {
-  type: 'unavailable_item' | 'price_change' | 'restaurant_closed';
+  type:
+    | 'unavailable_item'
+    | 'price_change'
+    | 'restaurant_closed'
+    | 'allergen_conflict'
+    | 'below_minimum'
+    | 'promo_code';
   itemId?: string;
   message: string;
   originalPrice?: number;
   newPrice?: number;
+  allergens?: string[]; // the user's allergens the item contains
+  remaining?: number; // still to add to the subtotal to reach the minimum
 }
 
 interface CartStore extends CartState {
   // Error state
   errors: CartError[];
+
+  // Where the order is going; the default address's location until checkout picks one
+  deliveryLocation?: Coordinates;
+  deliveryState?: string; // the state taxed, likewise
+
+  promoCode?: string; // applied, though it only takes anything off while the cart is eligible
   
   // Actions
   addItem: (item: CartItem, restaurant: Restaurant) => void;
-  removeItem: (itemId: string) => void;
-  updateQuantity: (itemId: string, quantity: number) => void;
+  removeItem: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  updateSpecialInstructions: (lineId: string, instructions: string) => void;
   clearCart: () => void;
   setRestaurant: (restaurant: Restaurant) => void;
+  setDeliveryLocation: (coordinates?: Coordinates, state?: string) => void;
+  applyPromoCode: (code: string) => boolean;
+  removePromoCode: () => void;
+  validatePromoCode: () => CartError | null;
   
   // Error handling
   checkForErrors: () => void;
@@ -34,225 +73,513 @@ interface CartStore extends CartState {
   
   // Computed values
   getItemCount: () => number;
-  getItemById: (itemId: string) => CartItem | undefined;
+  getItemById: (lineId: string) => CartItem | undefined;
   canAddItem: (restaurant: Restaurant) => boolean;
   hasErrors: () => boolean;
+  getDeliveryZone: () => DeliveryZone | null;
+  getDestination: () => CartDestination;
+  getMinimumOrder: () => number;
+  getMinimumOrderError: () => CartError | null;
+  getPromotion: () => Promotion | null;
+  getPromotionError: () => CartError | null;
 }
 
-const TAX_RATE = 0.08; // 8% tax rate
-const BASE_DELIVERY_FEE = 2.99;
+type PersistedCartState = Pick<
+  CartStore,
+  | 'items'
+  | 'restaurant'
+  | 'subtotal'
+  | 'deliveryFee'
+  | 'tax'
+  | 'total'
+  | 'priceLines'
+  | 'discount'
+  | 'deliveryLocation'
+  | 'deliveryState'
+  | 'promoCode'
+>;
 
 /**
- * Calculate cart totals based on items
+ * Persisted cart schema migrations, keyed by the version they upgrade to
  */
-const calculateTotals = (items: CartItem[], restaurant?: Restaurant) => {
-  const subtotal = items.reduce((sum, item) => sum + (item.menuItem.price * item.quantity), 0);
-  const deliveryFee = restaurant ? Math.max(BASE_DELIVERY_FEE, restaurant.deliveryFee) : 0;
-  const tax = subtotal * TAX_RATE;
-  const total = subtotal + deliveryFee + tax;
+const cartMigrations: MigrationSteps<PersistedCartState> = {
+  // v2: carts remember where they're delivered to, for the zone's delivery fee
+  2: (state: PersistedCartState) => ({
+    ...state,
+    deliveryLocation: undefined,
+  }),
+  // v3: opening hours are weekly; the same daily period before
+  3: (state: PersistedCartState) => {
+    const dailyHours = state.restaurant?.openingHours as Partial<OpeningPeriod> | undefined;
+    if (!state.restaurant || !dailyHours?.opensAt || !dailyHours.closesAt) return state;
+
+    return {
+      ...state,
+      restaurant: {
+        ...state.restaurant,
+        openingHours: createDailyHours([{ opensAt: dailyHours.opensAt, closesAt: dailyHours.closesAt }]),
+      },
+    };
+  },
+  // v4: totals are itemized and taxed by the state delivered to; older carts
+  // show their three totals until next repriced
+  4: (state: PersistedCartState) => ({
+    ...state,
+    priceLines: [],
+    deliveryState: undefined,
+  }),
+  // v5: promo codes
+  5: (state: PersistedCartState) => ({
+    ...state,
+    discount: 0,
+    promoCode: undefined,
+  }),
+};
+
+/**
+ * Sanitize a line's special instructions, dropping them when empty
+ */
+const withSanitizedInstructions = (item: CartItem): CartItem => {
+  const { specialInstructions, ...rest } = item;
+  const sanitized = specialInstructions ? sanitizeSpecialInstructions(specialInstructions) : '';
+  return sanitized ? { ...rest, specialInstructions: sanitized } : rest;
+};
+
+/**
+ * Why a cart can't use a promotion, or null when it can
+ */
+const getPromotionIneligibility = (
+  promotion: Promotion,
+  items: CartItem[],
+  restaurant: Restaurant | undefined
+): string | null =>
+  promotionService.getIneligibility(promotion, {
+    restaurant,
+    subtotal: fromCents(getSubtotalCents(items)),
+    orderHistory: useUserStore.getState().user?.orderHistory ?? [],
+  });
+
+/**
+ * Cart totals in dollars, with the itemized lines they come from. The promo
+ * code only counts while the cart is eligible for it.
+ */
+const calculateTotals = (
+  items: CartItem[],
+  restaurant: Restaurant | undefined,
+  destination: CartDestination,
+  promoCode?: string
+) => {
+  const promotion = promoCode ? promotionService.findPromotion(promoCode) : null;
+  const isEligible = promotion !== null && getPromotionIneligibility(promotion, items, restaurant) === null;
+  const pricing = calculatePricing({
+    items,
+    restaurant,
+    ...destination,
+    ...(isEligible ? { promotion } : {}),
+  });
 
   return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    deliveryFee: Math.round(deliveryFee * 100) / 100,
-    tax: Math.round(tax * 100) / 100,
-    total: Math.round(total * 100) / 100,
+    subtotal: fromCents(pricing.subtotalCents),
+    deliveryFee: fromCents(pricing.deliveryFeeCents),
+    tax: fromCents(pricing.taxCents),
+    total: fromCents(pricing.totalCents),
+    priceLines: pricing.lines,
+    discount: fromCents(pricing.discountCents),
   };
 };
 
-export const useCartStore = create<CartStore>((set, get) => ({
-  // Initial state
-  items: [],
-  restaurant: undefined,
-  subtotal: 0,
-  deliveryFee: 0,
-  tax: 0,
-  total: 0,
-  errors: [],
+export const useCartStore = create<CartStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      items: [],
+      restaurant: undefined,
+      subtotal: 0,
+      deliveryFee: 0,
+      tax: 0,
+      total: 0,
+      priceLines: [],
+      discount: 0,
+      errors: [],
 
-  // Actions
-  addItem: (newItem: CartItem, restaurant: Restaurant) => {
-    const state = get();
+      // Actions
+      addItem: (item: CartItem, restaurant: Restaurant) => {
+        const state = get();
     
-    // Check if we can add items from this restaurant
-    if (!state.canAddItem(restaurant)) {
-      throw new Error('Cannot add items from different restaurants');
-    }
+        // Check if we can add items from this restaurant
+        if (!state.canAddItem(restaurant)) {
+          throw new Error('Cannot add items from different restaurants');
+        }
+
+        const newItem = withSanitizedInstructions(item);
 
-    const existingItemIndex = state.items.findIndex(
-      item => item.menuItem.id === newItem.menuItem.id
-    );
+        // Same menu item with different options or instructions is a separate line
+        const newLineId = getCartLineId(newItem);
+        const existingItemIndex = state.items.findIndex(
+          item => getCartLineId(item) === newLineId
+        );
 
-    let updatedItems: CartItem[];
+        let updatedItems: CartItem[];
     
-    if (existingItemIndex >= 0) {
-      // Update existing item quantity
-      updatedItems = state.items.map((item, index) =>
-        index === existingItemIndex
-          ? { ...item, quantity: item.quantity + newItem.quantity }
-          : item
-      );
-    } else {
-      // Add new item
-      updatedItems = [...state.items, newItem];
-    }
+        if (existingItemIndex >= 0) {
+          // Update existing item quantity
+          updatedItems = state.items.map((item, index) =>
+            index === existingItemIndex
+              ? { ...item, quantity: item.quantity + newItem.quantity }
+              : item
+          );
+        } else {
+          // Add new item
+          updatedItems = [...state.items, newItem];
+        }
 
-    const totals = calculateTotals(updatedItems, restaurant);
+        const totals = calculateTotals(updatedItems, restaurant, state.getDestination(), state.promoCode);
 
-    set({
-      items: updatedItems,
-      restaurant,
-      ...totals,
-    });
-  },
+        set({
+          items: updatedItems,
+          restaurant,
+          ...totals,
+        });
+      },
 
-  removeItem: (itemId: string) => {
-    const state = get();
-    const updatedItems = state.items.filter(item => item.menuItem.id !== itemId);
+      removeItem: (lineId: string) => {
+        const state = get();
+        const updatedItems = state.items.filter(item => getCartLineId(item) !== lineId);
     
-    // If cart is empty, clear restaurant
-    const restaurant = updatedItems.length > 0 ? state.restaurant : undefined;
-    const totals = calculateTotals(updatedItems, restaurant);
-
-    set({
-      items: updatedItems,
-      restaurant,
-      ...totals,
-    });
-  },
+        // If cart is empty, clear restaurant
+        const restaurant = updatedItems.length > 0 ? state.restaurant : undefined;
+        const totals = calculateTotals(updatedItems, restaurant, state.getDestination(), state.promoCode);
+
+        set({
+          items: updatedItems,
+          restaurant,
+          ...totals,
+        });
+      },
 
-  updateQuantity: (itemId: string, quantity: number) => {
-    const state = get();
+      updateQuantity: (lineId: string, quantity: number) => {
+        const state = get();
     
-    if (quantity <= 0) {
-      state.removeItem(itemId);
-      return;
-    }
+        if (quantity <= 0) {
+          state.removeItem(lineId);
+          return;
+        }
 
-    const updatedItems = state.items.map(item =>
-      item.menuItem.id === itemId
-        ? { ...item, quantity }
-        : item
-    );
+        const updatedItems = state.items.map(item =>
+          getCartLineId(item) === lineId
+            ? { ...item, quantity }
+            : item
+        );
 
-    const totals = calculateTotals(updatedItems, state.restaurant);
+        const totals = calculateTotals(updatedItems, state.restaurant, state.getDestination(), state.promoCode);
 
-    set({
-      items: updatedItems,
-      ...totals,
-    });
-  },
+        set({
+          items: updatedItems,
+          ...totals,
+        });
+      },
 
-  clearCart: () => {
-    set({
-      items: [],
-      restaurant: undefined,
-      subtotal: 0,
-      deliveryFee: 0,
-      tax: 0,
-      total: 0,
-      errors: [],
-    });
-  },
+      updateSpecialInstructions: (lineId: string, instructions: string) => {
+        const state = get();
+        const currentItem = state.items.find(item => getCartLineId(item) === lineId);
 
-  // Error handling
-  checkForErrors: () => {
-    const state = get();
-    const existingErrors = state.errors.filter(error => error.type === 'price_change');
-    const newErrors: CartError[] = [...existingErrors];
-
-    // Check for unavailable items
-    state.items.forEach(item => {
-      if (!item.menuItem.isAvailable) {
-        // Only add if not already present
-        const existingError = newErrors.find(
-          error => error.type === 'unavailable_item' && error.itemId === item.menuItem.id
-        );
-        if (!existingError) {
-          newErrors.push({
-            type: 'unavailable_item',
-            itemId: item.menuItem.id,
-            message: `${item.menuItem.name} is no longer available`,
+        if (!currentItem) {
+          return;
+        }
+
+        const updatedItem = withSanitizedInstructions({ ...currentItem, specialInstructions: instructions });
+        const updatedLineId = getCartLineId(updatedItem);
+
+        if (updatedLineId === lineId) {
+          set({
+            items: state.items.map(item => (item === currentItem ? updatedItem : item)),
           });
+          return;
         }
-      }
-    });
-
-    // Check if restaurant is closed
-    if (state.restaurant && !state.restaurant.isOpen) {
-      const existingError = newErrors.find(error => error.type === 'restaurant_closed');
-      if (!existingError) {
-        newErrors.push({
-          type: 'restaurant_closed',
-          message: `${state.restaurant.name} is currently closed`,
+
+        // Editing the note can make this line identical to another one, so merge them
+        const matchingItem = state.items.find(item => getCartLineId(item) === updatedLineId);
+        const updatedItems = matchingItem
+          ? state.items
+              .filter(item => item !== currentItem)
+              .map(item =>
+                item === matchingItem
+                  ? { ...item, quantity: item.quantity + currentItem.quantity }
+                  : item
+              )
+          : state.items.map(item => (item === currentItem ? updatedItem : item));
+
+        set({ items: updatedItems });
+      },
+
+      clearCart: () => {
+        set({
+          items: [],
+          restaurant: undefined,
+          subtotal: 0,
+          deliveryFee: 0,
+          tax: 0,
+          total: 0,
+          priceLines: [],
+          discount: 0,
+          promoCode: undefined,
+          errors: [],
         });
-      }
-    }
+      },
 
-    set({ errors: newErrors });
-  },
+      // Error handling
+      checkForErrors: () => {
+        const state = get();
+        const existingErrors = state.errors.filter(
+          error => error.type === 'price_change' || error.type === 'promo_code'
+        );
+        const newErrors: CartError[] = [...existingErrors];
+
+        // Check for unavailable items
+        state.items.forEach(item => {
+          if (!item.menuItem.isAvailable) {
+            // Only add if not already present
+            const existingError = newErrors.find(
+              error => error.type === 'unavailable_item' && error.itemId === item.menuItem.id
+            );
+            if (!existingError) {
+              newErrors.push({
+                type: 'unavailable_item',
+                itemId: item.menuItem.id,
+                message: `${item.menuItem.name} is no longer available`,
+              });
+            }
+          }
+        });
 
-  dismissError: (index: number) => {
-    const state = get();
-    const updatedErrors = state.errors.filter((_, i) => i !== index);
-    set({ errors: updatedErrors });
-  },
+        // Check for items containing the signed-in user's allergens
+        const userAllergens = useUserStore.getState().user?.preferences.allergens ?? [];
+        state.items.forEach(item => {
+          const allergens = getAllergenConflicts(item.menuItem, userAllergens);
+          const existingError = newErrors.find(
+            error => error.type === 'allergen_conflict' && error.itemId === item.menuItem.id
+          );
+          if (allergens.length > 0 && !existingError) {
+            newErrors.push({
+              type: 'allergen_conflict',
+              itemId: item.menuItem.id,
+              message: `${item.menuItem.name} contains ${allergens.join(', ')}`,
+              allergens,
+            });
+          }
+        });
 
-  clearErrors: () => {
-    set({ errors: [] });
-  },
+        // Check if restaurant is closed, by its opening hours as of now
+        if (state.restaurant && getOpeningStatus(state.restaurant).state === 'closed') {
+          const existingError = newErrors.find(error => error.type === 'restaurant_closed');
+          if (!existingError) {
+            newErrors.push({
+              type: 'restaurant_closed',
+              message: `${state.restaurant.name} is currently closed`,
+            });
+          }
+        }
 
-  updateItemPrice: (itemId: string, newPrice: number) => {
-    const state = get();
-    const item = state.items.find(item => item.menuItem.id === itemId);
-    
-    if (item && item.menuItem.price !== newPrice) {
-      // Add price change error
-      const errors = [...state.errors];
-      const existingErrorIndex = errors.findIndex(
-        error => error.type === 'price_change' && error.itemId === itemId
-      );
-
-      const priceChangeError: CartError = {
-        type: 'price_change',
-        itemId,
-        message: `${item.menuItem.name} price changed from $${item.menuItem.price.toFixed(2)} to $${newPrice.toFixed(2)}`,
-        originalPrice: item.menuItem.price,
-        newPrice,
-      };
-
-      if (existingErrorIndex >= 0) {
-        errors[existingErrorIndex] = priceChangeError;
-      } else {
-        errors.push(priceChangeError);
-      }
-
-      set({ errors });
-    }
-  },
+        set({ errors: newErrors });
+      },
 
-  setRestaurant: (restaurant: Restaurant) => {
-    set({ restaurant });
-  },
+      dismissError: (index: number) => {
+        const state = get();
+        const updatedErrors = state.errors.filter((_, i) => i !== index);
+        set({ errors: updatedErrors });
+      },
 
-  // Computed values
-  getItemCount: () => {
-    const state = get();
-    return state.items.reduce((count, item) => count + item.quantity, 0);
-  },
+      clearErrors: () => {
+        set({ errors: [] });
+      },
 
-  getItemById: (itemId: string) => {
-    const state = get();
-    return state.items.find(item => item.menuItem.id === itemId);
-  },
+      updateItemPrice: (itemId: string, newPrice: number) => {
+        const state = get();
+        const item = state.items.find(item => item.menuItem.id === itemId);
+    
+        if (item && item.menuItem.price !== newPrice) {
+          // Add price change error
+          const errors = [...state.errors];
+          const existingErrorIndex = errors.findIndex(
+            error => error.type === 'price_change' && error.itemId === itemId
+          );
+
+          const priceChangeError: CartError = {
+            type: 'price_change',
+            itemId,
+            message: `${item.menuItem.name} price changed from $${item.menuItem.price.toFixed(2)} to $${newPrice.toFixed(2)}`,
+            originalPrice: item.menuItem.price,
+            newPrice,
+          };
+
+          if (existingErrorIndex >= 0) {
+            errors[existingErrorIndex] = priceChangeError;
+          } else {
+            errors.push(priceChangeError);
+          }
+
+          set({ errors });
+        }
+      },
+
+      setRestaurant: (restaurant: Restaurant) => {
+        set({ restaurant });
+      },
+
+      setDeliveryLocation: (coordinates?: Coordinates, deliveryState?: string) => {
+        set({ deliveryLocation: coordinates, deliveryState });
+
+        // A new location can mean a different zone, delivery fee and tax
+        const state = get();
+        set(calculateTotals(state.items, state.restaurant, state.getDestination(), state.promoCode));
+      },
+
+      applyPromoCode: (code: string) => {
+        const state = get();
+        const normalized = normalizePromoCode(code);
+        const promotion = promotionService.findPromotion(normalized);
+
+        // Only the latest attempt is worth showing
+        const errors = state.errors.filter(error => error.type !== 'promo_code');
+        const reject = (message: string) => {
+          set({ errors: [...errors, { type: 'promo_code', message }] });
+          return false;
+        };
+
+        if (!promotion) {
+          return reject(normalized ? `${normalized} isn't a valid promo code` : 'Enter a promo code');
+        }
+        const reason = getPromotionIneligibility(promotion, state.items, state.restaurant);
+        if (reason) {
+          return reject(reason);
+        }
 
-  canAddItem: (restaurant: Restaurant) => {
-    const state = get();
-    // Can add if cart is empty or restaurant matches
-    return state.items.length === 0 || state.restaurant?.id === restaurant.id;
-  },
+        set({
+          promoCode: promotion.code,
+          errors,
+          ...calculateTotals(state.items, state.restaurant, state.getDestination(), promotion.code),
+        });
+        return true;
+      },
+
+      removePromoCode: () => {
+        const state = get();
+        set({
+          promoCode: undefined,
+          errors: state.errors.filter(error => error.type !== 'promo_code'),
+          ...calculateTotals(state.items, state.restaurant, state.getDestination()),
+        });
+      },
+
+      // Reprice with the promo code checked again, e.g. before placing an
+      // order: it may have expired or been used up since it was applied
+      validatePromoCode: () => {
+        const state = get();
+        set(calculateTotals(state.items, state.restaurant, state.getDestination(), state.promoCode));
+        return get().getPromotionError();
+      },
+
+      // Computed values
+      getItemCount: () => {
+        const state = get();
+        return state.items.reduce((count, item) => count + item.quantity, 0);
+      },
+
+      getItemById: (lineId: string) => {
+        const state = get();
+        return state.items.find(item => getCartLineId(item) === lineId);
+      },
+
+      canAddItem: (restaurant: Restaurant) => {
+        const state = get();
+        // Can add if cart is empty or restaurant matches
+        return state.items.length === 0 || state.restaurant?.id === restaurant.id;
+      },
+
+      hasErrors: () => {
+        const state = get();
+        return state.errors.length > 0;
+      },
+
+      getDeliveryZone: () => {
+        const location = get().deliveryLocation
+          ?? useUserStore.getState().getDefaultAddress()?.coordinates;
+        return deliveryZoneService.findZone(location);
+      },
+
+      getDestination: () => {
+        const state = get();
+        const defaultAddress = useUserStore.getState().getDefaultAddress();
+        return {
+          zone: state.getDeliveryZone(),
+          deliveryLocation: state.deliveryLocation ?? defaultAddress?.coordinates,
+          deliveryState: state.deliveryState ?? defaultAddress?.state,
+        };
+      },
+
+      // The delivery zone can ask for a higher minimum than the restaurant
+      getMinimumOrder: () => {
+        const state = get();
+        return state.restaurant
+          ? deliveryZoneService.getMinimumOrder(state.getDeliveryZone(), state.restaurant)
+          : 0;
+      },
+
+      getMinimumOrderError: () => {
+        const state = get();
+        if (!state.restaurant || state.items.length === 0) {
+          return null;
+        }
 
-  hasErrors: () => {
-    const state = get();
-    return state.errors.length > 0;
-  },
-}));
\ No newline at end of file
+        const minimumOrderCents = toCents(state.getMinimumOrder());
+        const remainingCents = minimumOrderCents - toCents(state.subtotal);
+        if (remainingCents <= 0) {
+          return null;
+        }
+
+        return {
+          type: 'below_minimum',
+          message: `Add ${formatCents(remainingCents)} more to meet the ${formatCents(minimumOrderCents)} minimum`,
+          remaining: fromCents(remainingCents),
+        };
+      },
+
+      getPromotion: () => {
+        const { promoCode } = get();
+        return promoCode ? promotionService.findPromotion(promoCode) : null;
+      },
+
+      // An applied promo code the cart has stopped being eligible for, e.g.
+      // after items were removed
+      getPromotionError: () => {
+        const state = get();
+        const promotion = state.getPromotion();
+        if (!promotion || state.items.length === 0) {
+          return null;
+        }
+
+        const reason = getPromotionIneligibility(promotion, state.items, state.restaurant);
+        return reason ? { type: 'promo_code', message: reason } : null;
+      },
+    }),
+    {
+      name: STORAGE_KEYS.cart,
+      version: SCHEMA_VERSIONS.cart,
+      storage: createPersistStorage<PersistedCartState>(),
+      migrate: createMigrate<PersistedCartState>(cartMigrations, SCHEMA_VERSIONS.cart),
+      partialize: (state) => ({
+        items: state.items,
+        restaurant: state.restaurant,
+        subtotal: state.subtotal,
+        deliveryFee: state.deliveryFee,
+        tax: state.tax,
+        total: state.total,
+        priceLines: state.priceLines,
+        discount: state.discount,
+        deliveryLocation: state.deliveryLocation,
+        deliveryState: state.deliveryState,
+        promoCode: state.promoCode,
+      }),
+    }
+  )
+);
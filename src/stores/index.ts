@@ -6,4 +6,6 @@
 
 export { useCartStore } from './cartStore';
 export { useUserStore } from './userStore';
-export { useRestaurantStore } from './restaurantStore';
\ No newline at end of file
+export { useRestaurantStore } from './restaurantStore';
+export { useAuthStore } from './authStore';
+export { useSearchHistoryStore } from './searchHistoryStore';
@@ -0,0 +1,111 @@
+/**
+ * Store Persistence Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  STORAGE_KEYS,
+  SCHEMA_VERSIONS,
+  createMigrate,
+  clearPersistedState,
+  dateReplacer,
+  dateReviver,
+} from './persistence';
+import { useCartStore } from './cartStore';
+import { useUserStore } from './userStore';
+import { generateMockMenuItem, generateMockRestaurant, generateMockUser, generateMockOrder } from '../utils/mockData';
+
+describe('Store Persistence', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    useCartStore.getState().clearCart();
+  });
+
+  describe('Date serialization', () => {
+    it('should round-trip Date values through JSON', () => {
+      const createdAt = new Date('2024-05-01T18:30:00.000Z');
+      const json = JSON.stringify({ order: { createdAt, label: 'x' } }, dateReplacer);
+      const parsed = JSON.parse(json, dateReviver);
+
+      expect(parsed.order.createdAt).toBeInstanceOf(Date);
+      expect(parsed.order.createdAt.getTime()).toBe(createdAt.getTime());
+      expect(parsed.order.label).toBe('x');
+    });
+  });
+
+  describe('createMigrate', () => {
+    it('should apply each step from the persisted version to the current one', () => {
+      const migrate = createMigrate<{ steps: number[] }>({
+        2: state => ({ steps: [...state.steps, 2] }),
+        3: state => ({ steps: [...state.steps, 3] }),
+      }, 3);
+
+      expect(migrate({ steps: [] }, 1)).toEqual({ steps: [2, 3] });
+      expect(migrate({ steps: [] }, 2)).toEqual({ steps: [3] });
+    });
+  });
+
+  describe('cart store', () => {
+    it('should write cart contents to storage with schema version', async () => {
+      const restaurant = generateMockRestaurant({ id: 'r-1' });
+      const menuItem = generateMockMenuItem('r-1', { id: 'i-1', price: 10 });
+
+      useCartStore.getState().addItem({ menuItem, quantity: 2 }, restaurant);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const stored = JSON.parse((await AsyncStorage.getItem(STORAGE_KEYS.cart))!);
+      expect(stored.version).toBe(SCHEMA_VERSIONS.cart);
+      expect(stored.state.items).toHaveLength(1);
+      expect(stored.state.subtotal).toBe(20);
+      expect(stored.state.errors).toBeUndefined();
+    });
+
+    it('should rehydrate the cart after a restart', async () => {
+      const restaurant = generateMockRestaurant({ id: 'r-1' });
+      const menuItem = generateMockMenuItem('r-1', { id: 'i-1', price: 10 });
+
+      useCartStore.getState().addItem({ menuItem, quantity: 1 }, restaurant);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // Simulate a cold start: in-memory state is gone, storage remains
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.cart);
+      useCartStore.setState({ items: [], restaurant: undefined, subtotal: 0 });
+      await AsyncStorage.setItem(STORAGE_KEYS.cart, stored!);
+      await useCartStore.persist.rehydrate();
+
+      const state = useCartStore.getState();
+      expect(state.items).toHaveLength(1);
+      expect(state.restaurant?.id).toBe('r-1');
+      expect(useCartStore.persist.hasHydrated()).toBe(true);
+    });
+  });
+
+  describe('user store', () => {
+    it('should rehydrate order dates as Date instances', async () => {
+      const user = generateMockUser();
+      const order = generateMockOrder(user, generateMockRestaurant(), []);
+      useUserStore.getState().setUser({ ...user, orderHistory: [order] });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.user);
+      useUserStore.setState({ user: null, isAuthenticated: false });
+      await AsyncStorage.setItem(STORAGE_KEYS.user, stored!);
+      await useUserStore.persist.rehydrate();
+
+      const restored = useUserStore.getState().user!.orderHistory[0];
+      expect(restored.createdAt).toBeInstanceOf(Date);
+      expect(restored.createdAt.getTime()).toBe(order.createdAt.getTime());
+      expect(useUserStore.getState().isAuthenticated).toBe(true);
+    });
+  });
+
+  it('should clear all persisted stores', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.cart, '{}');
+    await AsyncStorage.setItem(STORAGE_KEYS.user, '{}');
+
+    await clearPersistedState();
+
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.cart)).toBeNull();
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.user)).toBeNull();
+  });
+});
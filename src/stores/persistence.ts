@@ -0,0 +1,103 @@
+/**
+ * Store Persistence
+ *
+ * Shared configuration for persisting Zustand stores across app restarts:
+ * storage keys, schema versions, migrations and Date-aware serialization
+ */
+
+import { createJSONStorage, PersistStorage } from 'zustand/middleware';
+import { appStorage } from './storage';
+
+/**
+ * Storage keys for every persisted store
+ */
+export const STORAGE_KEYS = {
+  cart: 'premium-food-app:cart',
+  user: 'premium-food-app:user',
+  search: 'premium-food-app:search',
+  searchHistory: 'premium-food-app:search-history',
+  auth: 'premium-food-app:auth',
+} as const;
+
+/**
+ * Current schema version for each persisted store. Bump a version and add a
+ * migration step whenever the persisted shape changes.
+ */
+export const SCHEMA_VERSIONS = {
+  cart: 5,
+  user: 3,
+  search: 3,
+  searchHistory: 1,
+  auth: 1,
+} as const;
+
+/**
+ * A migration step upgrades persisted state from version (key - 1) to key.
+ * Steps see older state through the current shape, so fields added since are
+ * possibly missing until the step that adds them.
+ */
+export type MigrationSteps<S> = Record<number, (state: S) => S>;
+
+const DATE_TAG = '__date';
+
+/**
+ * Encode Date instances as tagged objects so they survive JSON
+ */
+export const dateReplacer = function (this: unknown, key: string, value: unknown): unknown {
+  const holder = Object(this) as Record<string, unknown>;
+  const rawValue = this && key in holder ? holder[key] : value;
+  if (rawValue instanceof Date) {
+    return { [DATE_TAG]: rawValue.toISOString() };
+  }
+  return value;
+};
+
+/**
+ * Turn tagged Date objects back into Date instances
+ */
+export const dateReviver = (_key: string, value: unknown): unknown => {
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as Record<string, unknown>)[DATE_TAG] === 'string'
+  ) {
+    return new Date((value as Record<string, string>)[DATE_TAG]);
+  }
+  return value;
+};
+
+/**
+ * Build the persist storage used by all stores
+ */
+export const createPersistStorage = <S>(): PersistStorage<S> | undefined =>
+  createJSONStorage<S>(() => appStorage, {
+    replacer: dateReplacer,
+    reviver: dateReviver,
+  });
+
+/**
+ * Create a migrate function that applies every step between the persisted
+ * version and the current one, in order
+ */
+export const createMigrate = <S>(steps: MigrationSteps<S>, currentVersion: number) =>
+  (persistedState: unknown, version: number): S => {
+    let state = persistedState as S;
+
+    for (let nextVersion = version + 1; nextVersion <= currentVersion; nextVersion++) {
+      const step = steps[nextVersion];
+      if (step) {
+        state = step(state);
+      }
+    }
+
+    return state;
+  };
+
+/**
+ * Remove every persisted store from device storage
+ */
+export const clearPersistedState = async (): Promise<void> => {
+  await Promise.all(
+    Object.values(STORAGE_KEYS).map(key => appStorage.removeItem(key))
+  );
+};
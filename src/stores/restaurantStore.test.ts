@@ -0,0 +1,174 @@
+/**
+ * Restaurant Store Tests
+ */
+
+import { useRestaurantStore } from './restaurantStore';
+import { useUserStore } from './userStore';
+import { configureApiClient, createMockServer, createMockTransport } from '../services';
+import { generateMockAddress, generateMockUser } from '../utils/mockData';
+
+describe('Restaurant Store', () => {
+  let server: ReturnType<typeof createMockServer>;
+
+  beforeEach(() => {
+    server = createMockServer({ restaurantCount: 6, menuItemCount: 5 });
+    configureApiClient({ transport: server });
+    useRestaurantStore.setState({
+      restaurants: [],
+      featuredRestaurants: [],
+      currentRestaurant: null,
+      currentMenu: [],
+      isLoading: false,
+      hasError: false,
+      errorMessage: null,
+      searchResults: [],
+      dishResults: [],
+      menuSearchIndex: null,
+      sortMode: 'relevance',
+      nearbyMode: 'off',
+      currentLocation: null,
+      locationError: null,
+    });
+    useUserStore.getState().logout();
+  });
+
+  it('should fetch restaurants from the API', async () => {
+    await useRestaurantStore.getState().fetchRestaurants();
+
+    const state = useRestaurantStore.getState();
+    expect(state.restaurants).toEqual(server.db.restaurants);
+    expect(state.isLoading).toBe(false);
+    expect(state.hasError).toBe(false);
+  });
+
+  it('should fetch featured restaurants from the same catalog', async () => {
+    await useRestaurantStore.getState().fetchFeaturedRestaurants();
+
+    const ids = server.db.restaurants.map(restaurant => restaurant.id);
+    const featured = useRestaurantStore.getState().featuredRestaurants;
+    expect(featured.length).toBeGreaterThan(0);
+    featured.forEach(restaurant => expect(ids).toContain(restaurant.id));
+  });
+
+  it('should fetch restaurant details and menu', async () => {
+    const restaurantId = server.db.restaurants[2].id;
+
+    await useRestaurantStore.getState().fetchRestaurantDetails(restaurantId);
+    await useRestaurantStore.getState().fetchMenu(restaurantId);
+
+    const state = useRestaurantStore.getState();
+    expect(state.currentRestaurant?.id).toBe(restaurantId);
+    expect(state.currentMenu).toHaveLength(5);
+    state.currentMenu.forEach(item => expect(item.restaurantId).toBe(restaurantId));
+  });
+
+  it('should set error state when the API fails', async () => {
+    configureApiClient({ transport: createMockTransport([]) });
+
+    await useRestaurantStore.getState().fetchRestaurantDetails('unknown');
+
+    const state = useRestaurantStore.getState();
+    expect(state.hasError).toBe(true);
+    expect(state.errorMessage).toBe('Failed to fetch restaurant details');
+    expect(state.isLoading).toBe(false);
+  });
+
+  it('should group dishes matching a search by restaurant', async () => {
+    const [first, second] = server.db.restaurants;
+    server.db.menus[first.id][0] = { ...server.db.menus[first.id][0], name: 'Saffron Paella', isAvailable: true };
+    server.db.menus[second.id][1] = { ...server.db.menus[second.id][1], name: 'Paella Negra', isAvailable: true };
+
+    await useRestaurantStore.getState().searchRestaurants('paella');
+
+    const { dishResults } = useRestaurantStore.getState();
+    expect(dishResults.map(group => group.restaurant.id).sort()).toEqual([first.id, second.id].sort());
+    dishResults.forEach(group => {
+      expect(group.menuItems).toHaveLength(1);
+      expect(group.menuItems[0].restaurantId).toBe(group.restaurant.id);
+    });
+  });
+
+  it('should not search dishes without a query', async () => {
+    await useRestaurantStore.getState().searchRestaurants('', { cuisineTypes: ['Italian'] });
+
+    const state = useRestaurantStore.getState();
+    expect(state.dishResults).toEqual([]);
+    expect(state.menuSearchIndex).toBeNull();
+  });
+
+  it('should order search results by the chosen sort mode', async () => {
+    const fees = [3.5, 0, 1.25, 0, 4, 2];
+    server.db.restaurants.forEach((restaurant, index) => {
+      restaurant.cuisineType = ['Italian'];
+      restaurant.deliveryFee = fees[index];
+    });
+
+    useRestaurantStore.getState().setSortMode('deliveryFee');
+    await useRestaurantStore.getState().searchRestaurants('', { cuisineTypes: ['Italian'] });
+
+    const { searchResults, sortMode } = useRestaurantStore.getState();
+    expect(sortMode).toBe('deliveryFee');
+    expect(searchResults.map(restaurant => restaurant.deliveryFee)).toEqual([0, 0, 1.25, 2, 3.5, 4]);
+  });
+
+  describe('nearby restaurants', () => {
+    const MISSION = { latitude: 37.7599, longitude: -122.4148 };
+
+    beforeEach(() => {
+      const spots = [
+        [37.7605, -122.4190], // under half a kilometre from the Mission
+        [37.7880, -122.4075], // downtown, about 3 km away
+        [37.8044, -122.2712], // Oakland, beyond the delivery radius
+      ];
+      server.db.restaurants.forEach((restaurant, index) => {
+        const [latitude, longitude] = spots[index % spots.length];
+        restaurant.cuisineType = ['Italian'];
+        restaurant.location = { address: '', coordinates: { latitude, longitude } };
+      });
+    });
+
+    const signInAt = (coordinates: { latitude: number; longitude: number }) => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedAddresses: [generateMockAddress({ id: 'home', isDefault: true, coordinates })],
+      }));
+    };
+
+    it('should leave out restaurants beyond the delivery radius of the default address', async () => {
+      signInAt(MISSION);
+      await useRestaurantStore.getState().setNearbyMode('deliveryAddress');
+      await useRestaurantStore.getState().searchRestaurants('', { cuisineTypes: ['Italian'] });
+
+      const { searchResults } = useRestaurantStore.getState();
+      expect(searchResults).toHaveLength(4);
+      searchResults.forEach(restaurant => {
+        expect(restaurant.location.coordinates.longitude).toBeLessThan(-122.4);
+      });
+    });
+
+    it('should list every restaurant when the delivery address has no location', () => {
+      signInAt({ latitude: 0, longitude: 0 });
+      useRestaurantStore.setState({ nearbyMode: 'deliveryAddress' });
+
+      expect(useRestaurantStore.getState().getDiscoveryOrigin()).toBeNull();
+      expect(useRestaurantStore.getState().getNearbyRestaurants(server.db.restaurants)).toHaveLength(6);
+    });
+
+    it('should sort by distance from the current location when near me is on', () => {
+      signInAt(MISSION);
+      const oakland = { latitude: 37.8044, longitude: -122.2712 };
+      useRestaurantStore.setState({ nearbyMode: 'currentLocation', currentLocation: oakland, sortMode: 'distance' });
+
+      const [nearest] = useRestaurantStore.getState().getSortedRestaurants(server.db.restaurants);
+      expect(nearest.location.coordinates).toEqual(oakland);
+    });
+
+    it('should turn near me off when the location cannot be found', async () => {
+      await useRestaurantStore.getState().setNearbyMode('currentLocation');
+
+      const state = useRestaurantStore.getState();
+      expect(state.nearbyMode).toBe('off');
+      expect(state.locationError).toBe('Location is not available on this device');
+      expect(state.isLocating).toBe(false);
+    });
+  });
+});
@@ -5,7 +5,36 @@
  */
 
 import { create } from 'zustand';
-import { Restaurant, MenuItem, SearchFilters } from '../types';
+import { persist } from 'zustand/middleware';
+import {
+  Restaurant,
+  MenuItem,
+  SearchFilters,
+  DishSearchResult,
+  RestaurantSortMode,
+  NearbyMode,
+  Coordinates,
+} from '../types';
+import { restaurantService } from '../services/restaurantService';
+import { locationService } from '../services/locationService';
+import { hasActiveFilters } from '../utils/searchUtils';
+import { DEFAULT_SORT_MODE, sortRestaurants } from '../utils/sortUtils';
+import { filterWithinDeliveryRadius } from '../utils/nearbyUtils';
+import { isKnownLocation } from '../utils/geoUtils';
+import { useUserStore } from './userStore';
+import {
+  MenuSearchIndex,
+  buildMenuSearchIndex,
+  groupDishMatches,
+  searchMenuIndex,
+} from '../utils/menuSearchIndex';
+import {
+  STORAGE_KEYS,
+  SCHEMA_VERSIONS,
+  MigrationSteps,
+  createPersistStorage,
+  createMigrate,
+} from './persistence';
 
 interface RestaurantStore {
   // State
@@ -21,7 +50,16 @@ interface RestaurantStore {
   searchQuery: string;
   searchFilters: SearchFilters;
   searchResults: Restaurant[];
+  dishResults: DishSearchResult[];
+  menuSearchIndex: MenuSearchIndex | null; // built on the first dish search
   isSearching: boolean;
+  sortMode: RestaurantSortMode;
+
+  // Location state
+  nearbyMode: NearbyMode;
+  currentLocation: Coordinates | null; // device position, once located
+  isLocating: boolean;
+  locationError: string | null;
   
   // Actions
   setRestaurants: (restaurants: Restaurant[]) => void;
@@ -35,258 +73,373 @@ interface RestaurantStore {
   setSearchQuery: (query: string) => void;
   setSearchFilters: (filters: Partial<SearchFilters>) => void;
   setSearchResults: (results: Restaurant[]) => void;
+  setDishResults: (results: DishSearchResult[]) => void;
   setSearching: (searching: boolean) => void;
+  setSortMode: (mode: RestaurantSortMode) => void;
   clearSearch: () => void;
+
+  // Location actions
+  setNearbyMode: (mode: NearbyMode) => Promise<void>;
+  locateCurrentPosition: () => Promise<Coordinates | null>;
   
-  // Data fetching actions (would integrate with API)
+  // Data fetching actions
   fetchRestaurants: () => Promise<void>;
   fetchFeaturedRestaurants: () => Promise<void>;
   fetchRestaurantDetails: (restaurantId: string) => Promise<void>;
   fetchMenu: (restaurantId: string) => Promise<void>;
   searchRestaurants: (query: string, filters?: Partial<SearchFilters>) => Promise<void>;
+  loadMenuSearchIndex: () => Promise<MenuSearchIndex>;
   
   // Computed values
   getRestaurantById: (id: string) => Restaurant | undefined;
   getMenuByCategory: () => { [category: string]: MenuItem[] };
   getFilteredRestaurants: () => Restaurant[];
   getCuisineTypes: () => string[];
+  getSortedRestaurants: (restaurants: Restaurant[], query?: string) => Restaurant[];
+  getDiscoveryOrigin: () => Coordinates | null;
+  getNearbyRestaurants: (restaurants: Restaurant[]) => Restaurant[];
 }
 
-export const useRestaurantStore = create<RestaurantStore>((set, get) => ({
-  // Initial state
-  restaurants: [],
-  featuredRestaurants: [],
-  currentRestaurant: null,
-  currentMenu: [],
-  isLoading: false,
-  hasError: false,
-  errorMessage: null,
-  
-  // Search state
-  searchQuery: '',
-  searchFilters: {
-    cuisineTypes: [],
-    dietaryRestrictions: [],
-  },
-  searchResults: [],
-  isSearching: false,
-
-  // Actions
-  setRestaurants: (restaurants: Restaurant[]) => {
-    set({ restaurants, hasError: false, errorMessage: null });
-  },
-
-  setFeaturedRestaurants: (restaurants: Restaurant[]) => {
-    set({ featuredRestaurants: restaurants });
-  },
-
-  setCurrentRestaurant: (restaurant: Restaurant | null) => {
-    set({ currentRestaurant: restaurant });
-  },
-
-  setCurrentMenu: (menu: MenuItem[]) => {
-    set({ currentMenu: menu });
-  },
-
-  setLoading: (loading: boolean) => {
-    set({ isLoading: loading });
-  },
-
-  setError: (error: string | null) => {
-    set({ 
-      hasError: error !== null, 
-      errorMessage: error,
-      isLoading: false 
-    });
-  },
-
-  // Search actions
-  setSearchQuery: (query: string) => {
-    set({ searchQuery: query });
-  },
-
-  setSearchFilters: (filters: Partial<SearchFilters>) => {
-    const state = get();
-    set({
-      searchFilters: {
-        ...state.searchFilters,
-        ...filters,
-      },
-    });
-  },
+type PersistedRestaurantState = Pick<RestaurantStore, 'searchQuery' | 'searchFilters' | 'sortMode' | 'nearbyMode'>;
 
-  setSearchResults: (results: Restaurant[]) => {
-    set({ searchResults: results });
-  },
+/**
+ * Persisted search schema migrations, keyed by the version they upgrade to
+ */
+const searchMigrations: MigrationSteps<PersistedRestaurantState> = {
+  // v2: listings remember the sort the user picked
+  2: (state: PersistedRestaurantState) => ({
+    ...state,
+    sortMode: DEFAULT_SORT_MODE,
+  }),
+  // v3: listings can be limited to restaurants delivering nearby
+  3: (state: PersistedRestaurantState) => ({
+    ...state,
+    nearbyMode: 'off',
+  }),
+};
 
-  setSearching: (searching: boolean) => {
-    set({ isSearching: searching });
-  },
+const RESTAURANT_PAGE_SIZE = 20;
+const FEATURED_COUNT = 5;
 
-  clearSearch: () => {
-    set({
+export const useRestaurantStore = create<RestaurantStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      restaurants: [],
+      featuredRestaurants: [],
+      currentRestaurant: null,
+      currentMenu: [],
+      isLoading: false,
+      hasError: false,
+      errorMessage: null,
+  
+      // Search state
       searchQuery: '',
       searchFilters: {
         cuisineTypes: [],
         dietaryRestrictions: [],
       },
       searchResults: [],
+      dishResults: [],
+      menuSearchIndex: null,
       isSearching: false,
-    });
-  },
+      sortMode: DEFAULT_SORT_MODE,
+
+      // Location state
+      nearbyMode: 'off',
+      currentLocation: null,
+      isLocating: false,
+      locationError: null,
+
+      // Actions
+      setRestaurants: (restaurants: Restaurant[]) => {
+        set({ restaurants, hasError: false, errorMessage: null });
+      },
+
+      setFeaturedRestaurants: (restaurants: Restaurant[]) => {
+        set({ featuredRestaurants: restaurants });
+      },
+
+      setCurrentRestaurant: (restaurant: Restaurant | null) => {
+        set({ currentRestaurant: restaurant });
+      },
+
+      setCurrentMenu: (menu: MenuItem[]) => {
+        set({ currentMenu: menu });
+      },
+
+      setLoading: (loading: boolean) => {
+        set({ isLoading: loading });
+      },
+
+      setError: (error: string | null) => {
+        set({ 
+          hasError: error !== null, 
+          errorMessage: error,
+          isLoading: false 
+        });
+      },
+
+      // Search actions
+      setSearchQuery: (query: string) => {
+        set({ searchQuery: query });
+      },
+
+      setSearchFilters: (filters: Partial<SearchFilters>) => {
+        const state = get();
+        set({
+          searchFilters: {
+            ...state.searchFilters,
+            ...filters,
+          },
+        });
+      },
+
+      setSearchResults: (results: Restaurant[]) => {
+        set({ searchResults: results });
+      },
+
+      setDishResults: (results: DishSearchResult[]) => {
+        set({ dishResults: results });
+      },
+
+      setSearching: (searching: boolean) => {
+        set({ isSearching: searching });
+      },
+
+      setSortMode: (mode: RestaurantSortMode) => {
+        set({ sortMode: mode });
+      },
+
+      clearSearch: () => {
+        set({
+          searchQuery: '',
+          searchFilters: {
+            cuisineTypes: [],
+            dietaryRestrictions: [],
+          },
+          searchResults: [],
+          dishResults: [],
+          isSearching: false,
+        });
+      },
+
+      // Location actions
+      setNearbyMode: async (mode: NearbyMode) => {
+        set({ nearbyMode: mode, locationError: null });
+
+        // Finding restaurants near the device needs its position first
+        if (mode === 'currentLocation' && !get().currentLocation) {
+          const location = await get().locateCurrentPosition();
+          if (!location && get().nearbyMode === 'currentLocation') {
+            set({ nearbyMode: 'off' });
+          }
+        }
+      },
 
-  // Data fetching actions (mock implementations)
-  fetchRestaurants: async () => {
-    const state = get();
-    state.setLoading(true);
+      locateCurrentPosition: async () => {
+        set({ isLocating: true, locationError: null });
+
+        try {
+          const location = await locationService.getCurrentPosition();
+          set({ currentLocation: location });
+          return location;
+        } catch (error) {
+          set({ locationError: error instanceof Error ? error.message : 'Could not find your location' });
+          return null;
+        } finally {
+          set({ isLocating: false });
+        }
+      },
+
+      // Data fetching actions
+      fetchRestaurants: async () => {
+        const state = get();
+        state.setLoading(true);
     
-    try {
-      // Mock API call - would be replaced with actual API integration
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // For now, use mock data
-      const { generateMockRestaurants } = await import('../utils/mockData');
-      const restaurants = generateMockRestaurants(20);
-      
-      state.setRestaurants(restaurants);
-    } catch (error) {
-      state.setError('Failed to fetch restaurants');
-    } finally {
-      state.setLoading(false);
-    }
-  },
+        try {
+          const response = await restaurantService.getRestaurants({ limit: RESTAURANT_PAGE_SIZE });
+          state.setRestaurants(response.data);
+        } catch (error) {
+          state.setError('Failed to fetch restaurants');
+        } finally {
+          state.setLoading(false);
+        }
+      },
 
-  fetchFeaturedRestaurants: async () => {
-    const state = get();
+      fetchFeaturedRestaurants: async () => {
+        const state = get();
     
-    try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      const { generateMockRestaurants } = await import('../utils/mockData');
-      const featured = generateMockRestaurants(5);
-      
-      state.setFeaturedRestaurants(featured);
-    } catch (error) {
-      state.setError('Failed to fetch featured restaurants');
-    }
-  },
+        try {
+          const response = await restaurantService.getFeaturedRestaurants(FEATURED_COUNT);
+          state.setFeaturedRestaurants(response.data);
+        } catch (error) {
+          state.setError('Failed to fetch featured restaurants');
+        }
+      },
 
-  fetchRestaurantDetails: async (restaurantId: string) => {
-    const state = get();
-    state.setLoading(true);
+      fetchRestaurantDetails: async (restaurantId: string) => {
+        const state = get();
+        state.setLoading(true);
     
-    try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 800));
+        try {
+          // Use the loaded listing when available, otherwise fetch it
+          const restaurant = state.getRestaurantById(restaurantId)
+            ?? (await restaurantService.getRestaurant(restaurantId)).data;
       
-      // Find restaurant in current data or generate mock
-      let restaurant = state.getRestaurantById(restaurantId);
-      
-      if (!restaurant) {
-        const { generateMockRestaurants } = await import('../utils/mockData');
-        const mockRestaurants = generateMockRestaurants(1);
-        restaurant = { ...mockRestaurants[0], id: restaurantId };
-      }
-      
-      state.setCurrentRestaurant(restaurant);
-    } catch (error) {
-      state.setError('Failed to fetch restaurant details');
-    } finally {
-      state.setLoading(false);
-    }
-  },
+          state.setCurrentRestaurant(restaurant);
+        } catch (error) {
+          state.setError('Failed to fetch restaurant details');
+        } finally {
+          state.setLoading(false);
+        }
+      },
 
-  fetchMenu: async (restaurantId: string) => {
-    const state = get();
+      fetchMenu: async (restaurantId: string) => {
+        const state = get();
     
-    try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 600));
-      
-      const { generateMockMenuItems } = await import('../utils/mockData');
-      const menu = generateMockMenuItems(restaurantId, 15);
-      
-      state.setCurrentMenu(menu);
-    } catch (error) {
-      state.setError('Failed to fetch menu');
-    }
-  },
+        try {
+          const response = await restaurantService.getMenu(restaurantId);
+          state.setCurrentMenu(response.data);
+        } catch (error) {
+          state.setError('Failed to fetch menu');
+        }
+      },
 
-  searchRestaurants: async (query: string, filters?: Partial<SearchFilters>) => {
-    const state = get();
-    state.setSearching(true);
-    state.setSearchQuery(query);
+      searchRestaurants: async (query: string, filters?: Partial<SearchFilters>) => {
+        const state = get();
+        state.setSearching(true);
+        state.setSearchQuery(query);
     
-    if (filters) {
-      state.setSearchFilters(filters);
-    }
+        if (filters) {
+          state.setSearchFilters(filters);
+        }
     
-    try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 400));
+        try {
+          // Search runs over the loaded restaurant list, fetching it first if needed,
+          // limited to restaurants delivering nearby when the user asked for that
+          const allRestaurants = state.getNearbyRestaurants(state.restaurants.length > 0 
+            ? state.restaurants 
+            : (await restaurantService.getRestaurants({ limit: RESTAURANT_PAGE_SIZE })).data);
       
-      // Get all restaurants (from state or generate mock data)
-      const allRestaurants = state.restaurants.length > 0 
-        ? state.restaurants 
-        : (await import('../utils/mockData')).generateMockRestaurants(20);
+          // Enhanced search implementation using utility functions
+          const currentFilters = { ...state.searchFilters, ...filters };
+          const { filterRestaurants } = await import('../utils/searchUtils');
       
-      // Enhanced search implementation using utility functions
-      const currentFilters = { ...state.searchFilters, ...filters };
-      const { filterRestaurants, sortByRelevance } = await import('../utils/searchUtils');
+          // Filter restaurants based on query and filters
+          const filteredResults = filterRestaurants(allRestaurants, query, currentFilters);
       
-      // Filter restaurants based on query and filters
-      const filteredResults = filterRestaurants(allRestaurants, query, currentFilters);
+          // Sort results the way the user picked
+          const results = state.getSortedRestaurants(filteredResults, query);
       
-      // Sort results by relevance
-      const results = sortByRelevance(filteredResults, query);
+          state.setSearchResults(results);
       
-      state.setSearchResults(results);
-    } catch (error) {
-      state.setError('Search failed');
-    } finally {
-      state.setSearching(false);
-    }
-  },
+          // Dishes only come up for a typed query, from restaurants the filters allow
+          if (query.trim()) {
+            const dishMatches = searchMenuIndex(await state.loadMenuSearchIndex(), query);
+            const allowedRestaurants = filterRestaurants(allRestaurants, '', currentFilters);
+            state.setDishResults(groupDishMatches(dishMatches, allowedRestaurants));
+          } else {
+            state.setDishResults([]);
+          }
+        } catch (error) {
+          state.setError('Search failed');
+        } finally {
+          state.setSearching(false);
+        }
+      },
 
-  // Computed values
-  getRestaurantById: (id: string) => {
-    const state = get();
-    return state.restaurants.find(restaurant => restaurant.id === id);
-  },
-
-  getMenuByCategory: () => {
-    const state = get();
-    const categorized: { [category: string]: MenuItem[] } = {};
+      loadMenuSearchIndex: async () => {
+        const cached = get().menuSearchIndex;
+        if (cached) return cached;
+    
+        const response = await restaurantService.getAllMenuItems();
+        const index = buildMenuSearchIndex(response.data);
+        set({ menuSearchIndex: index });
+        return index;
+      },
+
+      // Computed values
+      getRestaurantById: (id: string) => {
+        const state = get();
+        return state.restaurants.find(restaurant => restaurant.id === id);
+      },
+
+      getMenuByCategory: () => {
+        const state = get();
+        const categorized: { [category: string]: MenuItem[] } = {};
     
-    state.currentMenu.forEach(item => {
-      if (!categorized[item.category]) {
-        categorized[item.category] = [];
-      }
-      categorized[item.category].push(item);
-    });
+        state.currentMenu.forEach(item => {
+          if (!categorized[item.category]) {
+            categorized[item.category] = [];
+          }
+          categorized[item.category].push(item);
+        });
     
-    return categorized;
-  },
+        return categorized;
+      },
 
-  getFilteredRestaurants: () => {
-    const state = get();
+      getFilteredRestaurants: () => {
+        const state = get();
     
-    if (state.searchQuery || state.searchFilters.cuisineTypes.length > 0) {
-      return state.searchResults;
-    }
+        if (state.searchQuery || hasActiveFilters(state.searchFilters)) {
+          return state.searchResults;
+        }
     
-    return state.restaurants;
-  },
+        return state.restaurants;
+      },
 
-  getCuisineTypes: () => {
-    const state = get();
-    const cuisines = new Set<string>();
+      getCuisineTypes: () => {
+        const state = get();
+        const cuisines = new Set<string>();
     
-    state.restaurants.forEach(restaurant => {
-      restaurant.cuisineType.forEach(cuisine => cuisines.add(cuisine));
-    });
+        state.restaurants.forEach(restaurant => {
+          restaurant.cuisineType.forEach(cuisine => cuisines.add(cuisine));
+        });
     
-    return Array.from(cuisines).sort();
-  },
-}));
\ No newline at end of file
+        return Array.from(cuisines).sort();
+      },
+
+      getSortedRestaurants: (restaurants: Restaurant[], query: string = '') => {
+        const state = get();
+        return sortRestaurants(restaurants, state.sortMode, { query, origin: state.getDiscoveryOrigin() });
+      },
+
+      getDiscoveryOrigin: () => {
+        const state = get();
+
+        // Near me uses the device's position; otherwise orders go to the default address
+        if (state.nearbyMode === 'currentLocation' && state.currentLocation) {
+          return state.currentLocation;
+        }
+
+        const coordinates = useUserStore.getState().getDefaultAddress()?.coordinates;
+        return isKnownLocation(coordinates) ? coordinates : null;
+      },
+
+      getNearbyRestaurants: (restaurants: Restaurant[]) => {
+        const state = get();
+        const origin = state.getDiscoveryOrigin();
+
+        // Without a location to measure from, every restaurant stays listed
+        if (state.nearbyMode === 'off' || !origin) {
+          return restaurants;
+        }
+
+        return filterWithinDeliveryRadius(restaurants, origin);
+      },
+    }),
+    {
+      name: STORAGE_KEYS.search,
+      version: SCHEMA_VERSIONS.search,
+      storage: createPersistStorage<PersistedRestaurantState>(),
+      migrate: createMigrate<PersistedRestaurantState>(searchMigrations, SCHEMA_VERSIONS.search),
+      partialize: (state) => ({
+        searchQuery: state.searchQuery,
+        searchFilters: state.searchFilters,
+        sortMode: state.sortMode,
+        nearbyMode: state.nearbyMode,
+      }),
+    }
+  )
+);
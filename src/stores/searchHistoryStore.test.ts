@@ -0,0 +1,80 @@
+/**
+ * Search History Store Tests
+ */
+
+import { GUEST_HISTORY_OWNER, MAX_RECENT_SEARCHES, useSearchHistoryStore } from './searchHistoryStore';
+import { useUserStore } from './userStore';
+import { SearchFilters } from '../types';
+import { generateMockUser } from '../utils/mockData';
+
+const noFilters: SearchFilters = { cuisineTypes: [], dietaryRestrictions: [] };
+
+const history = () => useSearchHistoryStore.getState().getHistory();
+
+describe('Search History Store', () => {
+  beforeEach(() => {
+    useUserStore.getState().setUser(generateMockUser({ id: 'user-1' }));
+    useSearchHistoryStore.setState({ historyByUser: {} });
+  });
+
+  it('should record searches newest first, merging repeats', () => {
+    const { recordSearch } = useSearchHistoryStore.getState();
+
+    recordSearch('pizza', noFilters);
+    recordSearch('sushi', noFilters);
+    recordSearch('  PIZZA ', noFilters);
+
+    expect(history().map(entry => entry.query)).toEqual(['PIZZA', 'sushi']);
+    expect(history()[0].useCount).toBe(2);
+  });
+
+  it('should tell searches apart by their filters', () => {
+    const { recordSearch } = useSearchHistoryStore.getState();
+
+    recordSearch('pizza', noFilters);
+    recordSearch('pizza', { ...noFilters, priceTiers: [1] });
+    recordSearch('', { ...noFilters, cuisineTypes: ['Thai'] });
+    recordSearch('   ', noFilters);
+
+    expect(history()).toHaveLength(3);
+  });
+
+  it('should keep each user\'s history separate', () => {
+    useSearchHistoryStore.getState().recordSearch('pizza', noFilters);
+
+    useUserStore.getState().logout();
+    useSearchHistoryStore.getState().recordSearch('tacos', noFilters);
+
+    const { historyByUser } = useSearchHistoryStore.getState();
+    expect(historyByUser['user-1'].map(entry => entry.query)).toEqual(['pizza']);
+    expect(historyByUser[GUEST_HISTORY_OWNER].map(entry => entry.query)).toEqual(['tacos']);
+  });
+
+  it('should cap recent searches but keep saved ones', () => {
+    const { recordSearch, togglePinned } = useSearchHistoryStore.getState();
+
+    recordSearch('saved', noFilters);
+    togglePinned(history()[0].id);
+    for (let i = 0; i < MAX_RECENT_SEARCHES + 5; i++) {
+      recordSearch(`search ${i}`, noFilters);
+    }
+
+    expect(history()).toHaveLength(MAX_RECENT_SEARCHES + 1);
+    expect(history().find(entry => entry.query === 'saved')?.isPinned).toBe(true);
+    expect(history().some(entry => entry.query === 'search 0')).toBe(false);
+  });
+
+  it('should clear recent searches, and saved ones only when asked', () => {
+    const { recordSearch, togglePinned, clearHistory } = useSearchHistoryStore.getState();
+
+    recordSearch('pizza', noFilters);
+    recordSearch('sushi', noFilters);
+    togglePinned(history()[1].id);
+
+    clearHistory();
+    expect(history().map(entry => entry.query)).toEqual(['pizza']);
+
+    clearHistory({ includeSaved: true });
+    expect(history()).toEqual([]);
+  });
+});
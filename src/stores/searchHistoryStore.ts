@@ -0,0 +1,147 @@
+/**
+ * Search History Store
+ *
+ * Keeps each user's recent searches (query plus filters) and the ones they
+ * pinned as saved searches. Searches made while signed out are kept under a
+ * guest history.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { SearchFilters, SearchHistoryEntry } from '../types';
+import { useUserStore } from './userStore';
+import { hasActiveFilters } from '../utils/searchUtils';
+import { foldForSearch } from '../utils/fuzzyMatch';
+import {
+  STORAGE_KEYS,
+  SCHEMA_VERSIONS,
+  MigrationSteps,
+  createPersistStorage,
+  createMigrate,
+} from './persistence';
+
+export const GUEST_HISTORY_OWNER = 'guest';
+
+// Recent searches kept per user; saved searches don't count towards it
+export const MAX_RECENT_SEARCHES = 20;
+
+interface SearchHistoryStore {
+  // State
+  historyByUser: Record<string, SearchHistoryEntry[]>; // newest first
+
+  // Actions
+  recordSearch: (query: string, filters: SearchFilters) => void;
+  togglePinned: (entryId: string) => void;
+  removeSearch: (entryId: string) => void;
+  clearHistory: (options?: { includeSaved?: boolean }) => void;
+
+  // Computed values
+  getHistory: () => SearchHistoryEntry[];
+}
+
+type PersistedSearchHistoryState = Pick<SearchHistoryStore, 'historyByUser'>;
+
+/**
+ * Persisted search history schema migrations, keyed by the version they upgrade to
+ */
+const searchHistoryMigrations: MigrationSteps<PersistedSearchHistoryState> = {};
+
+/**
+ * The history a user's searches are kept under
+ */
+export const getHistoryOwner = (userId?: string): string => userId ?? GUEST_HISTORY_OWNER;
+
+const currentHistoryOwner = (): string => getHistoryOwner(useUserStore.getState().user?.id);
+
+const sorted = <T>(values: T[] | undefined): T[] => [...(values ?? [])].sort();
+
+/**
+ * Identify a search by what it finds, so repeating it updates one entry
+ */
+const getSearchKey = (query: string, filters: SearchFilters): string =>
+  JSON.stringify([
+    foldForSearch(query),
+    sorted(filters.cuisineTypes),
+    sorted(filters.dietaryRestrictions),
+    filters.priceRange ?? null,
+    sorted(filters.priceTiers),
+    filters.deliveryTime ?? null,
+    filters.rating ?? null,
+  ]);
+
+/**
+ * Drop the oldest recent searches past the limit, keeping every saved one
+ */
+const trimHistory = (entries: SearchHistoryEntry[]): SearchHistoryEntry[] => {
+  let recentCount = 0;
+  return entries.filter(entry => entry.isPinned || ++recentCount <= MAX_RECENT_SEARCHES);
+};
+
+export const useSearchHistoryStore = create<SearchHistoryStore>()(
+  persist(
+    (set, get) => {
+      const updateHistory = (update: (entries: SearchHistoryEntry[]) => SearchHistoryEntry[]) => {
+        const owner = currentHistoryOwner();
+        const { historyByUser } = get();
+        set({
+          historyByUser: {
+            ...historyByUser,
+            [owner]: update(historyByUser[owner] ?? []),
+          },
+        });
+      };
+
+      return {
+        // Initial state
+        historyByUser: {},
+
+        // Actions
+        recordSearch: (query: string, filters: SearchFilters) => {
+          // Nothing to search for, nothing to remember
+          if (!query.trim() && !hasActiveFilters(filters)) return;
+
+          const key = getSearchKey(query, filters);
+          updateHistory(entries => {
+            const existing = entries.find(entry => getSearchKey(entry.query, entry.filters) === key);
+            const entry: SearchHistoryEntry = {
+              id: existing?.id ?? `search-${Date.now().toString(36)}-${entries.length}`,
+              query: query.trim(),
+              filters,
+              searchedAt: new Date(),
+              useCount: (existing?.useCount ?? 0) + 1,
+              isPinned: existing?.isPinned ?? false,
+            };
+
+            return trimHistory([entry, ...entries.filter(other => other !== existing)]);
+          });
+        },
+
+        togglePinned: (entryId: string) => {
+          updateHistory(entries => trimHistory(entries.map(entry =>
+            entry.id === entryId ? { ...entry, isPinned: !entry.isPinned } : entry
+          )));
+        },
+
+        removeSearch: (entryId: string) => {
+          updateHistory(entries => entries.filter(entry => entry.id !== entryId));
+        },
+
+        clearHistory: ({ includeSaved = false } = {}) => {
+          updateHistory(entries => includeSaved ? [] : entries.filter(entry => entry.isPinned));
+        },
+
+        // Computed values
+        getHistory: () => get().historyByUser[currentHistoryOwner()] ?? [],
+      };
+    },
+    {
+      name: STORAGE_KEYS.searchHistory,
+      version: SCHEMA_VERSIONS.searchHistory,
+      storage: createPersistStorage<PersistedSearchHistoryState>(),
+      migrate: createMigrate<PersistedSearchHistoryState>(searchHistoryMigrations, SCHEMA_VERSIONS.searchHistory),
+      partialize: (state) => ({
+        historyByUser: state.historyByUser,
+      }),
+    }
+  )
+);
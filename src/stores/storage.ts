@@ -0,0 +1,14 @@
+/**
+ * Native Storage Adapter
+ *
+ * Backs persisted stores with AsyncStorage on iOS and Android
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StateStorage } from 'zustand/middleware';
+
+export const appStorage: StateStorage = {
+  getItem: (name: string) => AsyncStorage.getItem(name),
+  setItem: (name: string, value: string) => AsyncStorage.setItem(name, value),
+  removeItem: (name: string) => AsyncStorage.removeItem(name),
+};
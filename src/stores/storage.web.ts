@@ -0,0 +1,30 @@
+/**
+ * Web Storage Adapter
+ *
+ * Backs persisted stores with localStorage on web. Falls back to a no-op when
+ * localStorage is unavailable (private browsing, server rendering).
+ */
+
+import { StateStorage } from 'zustand/middleware';
+
+const getLocalStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+export const appStorage: StateStorage = {
+  getItem: (name: string) => getLocalStorage()?.getItem(name) ?? null,
+  setItem: (name: string, value: string) => {
+    try {
+      getLocalStorage()?.setItem(name, value);
+    } catch {
+      // Quota exceeded or storage disabled; state stays in memory only
+    }
+  },
+  removeItem: (name: string) => {
+    getLocalStorage()?.removeItem(name);
+  },
+};
@@ -0,0 +1,179 @@
+/**
+ * User Store Tests
+ */
+
+import { useUserStore } from './userStore';
+import { PaymentMethod } from '../types';
+import { generateMockAddress, generateMockUser } from '../utils/mockData';
+
+const card = (id: string, isDefault = false): PaymentMethod => ({
+  id,
+  type: 'card',
+  last4: '4242',
+  brand: 'Visa',
+  isDefault,
+});
+
+describe('User Store', () => {
+  beforeEach(() => {
+    useUserStore.getState().logout();
+  });
+
+  describe('addresses', () => {
+    const defaultIds = () =>
+      useUserStore.getState().user!.savedAddresses
+        .filter(address => address.isDefault)
+        .map(address => address.id);
+
+    it('should make the first address added the default', () => {
+      useUserStore.getState().setUser(generateMockUser({ savedAddresses: [] }));
+
+      useUserStore.getState().addAddress(generateMockAddress({ id: 'a-1' }));
+      useUserStore.getState().addAddress(generateMockAddress({ id: 'a-2' }));
+
+      expect(useUserStore.getState().getDefaultAddress()?.id).toBe('a-1');
+      expect(defaultIds()).toEqual(['a-1']);
+    });
+
+    it('should replace the default when a new default address is added', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedAddresses: [generateMockAddress({ id: 'a-1', isDefault: true })],
+      }));
+
+      useUserStore.getState().addAddress(generateMockAddress({ id: 'a-2', isDefault: true }));
+
+      expect(defaultIds()).toEqual(['a-2']);
+    });
+
+    it('should keep exactly one default after setDefaultAddress', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedAddresses: [
+          generateMockAddress({ id: 'a-1', isDefault: true }),
+          generateMockAddress({ id: 'a-2' }),
+        ],
+      }));
+
+      useUserStore.getState().setDefaultAddress('a-2');
+      expect(useUserStore.getState().getDefaultAddress()?.id).toBe('a-2');
+
+      useUserStore.getState().setDefaultAddress('missing');
+      expect(defaultIds()).toEqual(['a-2']);
+    });
+
+    it('should keep exactly one default when an address is updated', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedAddresses: [
+          generateMockAddress({ id: 'a-1', isDefault: true }),
+          generateMockAddress({ id: 'a-2' }),
+        ],
+      }));
+
+      useUserStore.getState().updateAddress('a-2', { isDefault: true, label: 'Work' });
+      expect(defaultIds()).toEqual(['a-2']);
+      expect(useUserStore.getState().getDefaultAddress()?.label).toBe('Work');
+
+      useUserStore.getState().updateAddress('a-2', { isDefault: false });
+      expect(defaultIds()).toEqual(['a-1']);
+
+      useUserStore.getState().updateAddress('a-2', { label: 'Office' });
+      expect(defaultIds()).toEqual(['a-1']);
+    });
+
+    it('should promote another address when the default is removed', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedAddresses: [
+          generateMockAddress({ id: 'a-1' }),
+          generateMockAddress({ id: 'a-2', isDefault: true }),
+          generateMockAddress({ id: 'a-3' }),
+        ],
+      }));
+
+      useUserStore.getState().removeAddress('a-2');
+
+      expect(defaultIds()).toEqual(['a-1']);
+    });
+
+    it('should have no default once every address is removed', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedAddresses: [generateMockAddress({ id: 'a-1', isDefault: true })],
+      }));
+
+      useUserStore.getState().removeAddress('a-1');
+
+      expect(useUserStore.getState().getDefaultAddress()).toBeUndefined();
+    });
+  });
+
+  describe('payment methods', () => {
+    it('should make the first method added the default', () => {
+      useUserStore.getState().setUser(generateMockUser({ savedPaymentMethods: [] }));
+
+      useUserStore.getState().addPaymentMethod(card('pm-1'));
+      useUserStore.getState().addPaymentMethod(card('pm-2'));
+
+      expect(useUserStore.getState().getDefaultPaymentMethod()?.id).toBe('pm-1');
+    });
+
+    it('should promote another method when the default is removed', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedPaymentMethods: [card('pm-1', true), card('pm-2'), card('pm-3')],
+      }));
+
+      useUserStore.getState().removePaymentMethod('pm-1');
+
+      const methods = useUserStore.getState().user!.savedPaymentMethods;
+      expect(methods.map(method => method.id)).toEqual(['pm-2', 'pm-3']);
+      expect(methods.filter(method => method.isDefault).map(method => method.id)).toEqual(['pm-2']);
+    });
+
+    it('should keep the default when another method is removed', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedPaymentMethods: [card('pm-1'), card('pm-2', true)],
+      }));
+
+      useUserStore.getState().removePaymentMethod('pm-1');
+
+      expect(useUserStore.getState().getDefaultPaymentMethod()?.id).toBe('pm-2');
+    });
+
+    it('should replace the default when a new default method is added', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        savedPaymentMethods: [card('pm-1', true)],
+      }));
+
+      useUserStore.getState().addPaymentMethod(card('pm-2', true));
+
+      const methods = useUserStore.getState().user!.savedPaymentMethods;
+      expect(methods.filter(method => method.isDefault).map(method => method.id)).toEqual(['pm-2']);
+    });
+  });
+
+  describe('preferences', () => {
+    it('should add and remove dietary restrictions without duplicates', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        preferences: { dietaryRestrictions: [], favoriteCuisines: [], allergens: [] },
+      }));
+
+      useUserStore.getState().addDietaryRestriction('Vegan');
+      useUserStore.getState().addDietaryRestriction('Vegan');
+      expect(useUserStore.getState().user!.preferences.dietaryRestrictions).toEqual(['Vegan']);
+
+      useUserStore.getState().removeDietaryRestriction('Vegan');
+      expect(useUserStore.getState().user!.preferences.dietaryRestrictions).toEqual([]);
+    });
+
+    it('should add and remove allergens without duplicates', () => {
+      useUserStore.getState().setUser(generateMockUser({
+        preferences: { dietaryRestrictions: [], favoriteCuisines: [], allergens: [] },
+      }));
+
+      useUserStore.getState().addAllergen('Nuts');
+      useUserStore.getState().addAllergen('Nuts');
+      useUserStore.getState().addAllergen('Soy');
+      expect(useUserStore.getState().user!.preferences.allergens).toEqual(['Nuts', 'Soy']);
+
+      useUserStore.getState().removeAllergen('Nuts');
+      expect(useUserStore.getState().user!.preferences.allergens).toEqual(['Soy']);
+    });
+  });
+});
@@ -5,7 +5,15 @@
  */
 
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import { User, Address, PaymentMethod, Order } from '../types';
+import {
+  STORAGE_KEYS,
+  SCHEMA_VERSIONS,
+  MigrationSteps,
+  createPersistStorage,
+  createMigrate,
+} from './persistence';
 
 interface UserStore {
   // State
@@ -36,6 +44,8 @@ interface UserStore {
   removeFavoriteCuisine: (cuisine: string) => void;
   addDietaryRestriction: (restriction: string) => void;
   removeDietaryRestriction: (restriction: string) => void;
+  addAllergen: (allergen: string) => void;
+  removeAllergen: (allergen: string) => void;
   
   // Order history
   addOrder: (order: Order) => void;
@@ -47,317 +57,423 @@ interface UserStore {
   getRecentOrders: (limit?: number) => Order[];
 }
 
-export const useUserStore = create<UserStore>((set, get) => ({
-  // Initial state
-  user: null,
-  isAuthenticated: false,
-  isLoading: false,
+type PersistedUserState = Pick<UserStore, 'user' | 'isAuthenticated'>;
 
-  // Actions
-  setUser: (user: User) => {
-    set({
-      user,
-      isAuthenticated: true,
-      isLoading: false,
-    });
-  },
-
-  updateUser: (updates: Partial<User>) => {
-    const state = get();
-    if (!state.user) return;
-
-    set({
-      user: { ...state.user, ...updates },
-    });
-  },
+/**
+ * Make sure exactly one entry is the default, keeping the current default
+ * if there is one and falling back to the first entry otherwise
+ */
+const withSingleDefault = <T extends { isDefault?: boolean }>(entries: T[]): T[] => {
+  const defaultIndex = Math.max(0, entries.findIndex(entry => entry.isDefault));
+  return entries.map((entry, index) => ({ ...entry, isDefault: index === defaultIndex }));
+};
 
-  logout: () => {
-    set({
+/**
+ * Persisted user schema migrations, keyed by the version they upgrade to
+ */
+const userMigrations: MigrationSteps<PersistedUserState> = {
+  // v2: addresses carry an explicit default; the first one used to be implied
+  2: (state: PersistedUserState) => ({
+    ...state,
+    user: state.user
+      ? { ...state.user, savedAddresses: withSingleDefault(state.user.savedAddresses) }
+      : state.user,
+  }),
+  // v3: users declare allergens in their preferences
+  3: (state: PersistedUserState) => ({
+    ...state,
+    user: state.user
+      ? { ...state.user, preferences: { ...state.user.preferences, allergens: [] } }
+      : state.user,
+  }),
+};
+
+export const useUserStore = create<UserStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
       user: null,
       isAuthenticated: false,
       isLoading: false,
-    });
-  },
 
-  // Address management
-  addAddress: (address: Address) => {
-    const state = get();
-    if (!state.user) return;
-
-    const updatedAddresses = [...state.user.savedAddresses, address];
-    
-    set({
-      user: {
-        ...state.user,
-        savedAddresses: updatedAddresses,
+      // Actions
+      setUser: (user: User) => {
+        set({
+          user,
+          isAuthenticated: true,
+          isLoading: false,
+        });
       },
-    });
-  },
 
-  updateAddress: (addressId: string, updates: Partial<Address>) => {
-    const state = get();
-    if (!state.user) return;
+      updateUser: (updates: Partial<User>) => {
+        const state = get();
+        if (!state.user) return;
 
-    const updatedAddresses = state.user.savedAddresses.map(address =>
-      address.id === addressId ? { ...address, ...updates } : address
-    );
+        set({
+          user: { ...state.user, ...updates },
+        });
+      },
 
-    set({
-      user: {
-        ...state.user,
-        savedAddresses: updatedAddresses,
+      logout: () => {
+        set({
+          user: null,
+          isAuthenticated: false,
+          isLoading: false,
+        });
       },
-    });
-  },
 
-  removeAddress: (addressId: string) => {
-    const state = get();
-    if (!state.user) return;
+      // Address management
+      addAddress: (address: Address) => {
+        const state = get();
+        if (!state.user) return;
+
+        // The first address becomes the default; a new default replaces the old one
+        const isDefault = state.user.savedAddresses.length === 0 || address.isDefault === true;
+        const updatedAddresses = [
+          ...state.user.savedAddresses.map(existing =>
+            isDefault ? { ...existing, isDefault: false } : existing
+          ),
+          { ...address, isDefault },
+        ];
+
+        set({
+          user: {
+            ...state.user,
+            savedAddresses: updatedAddresses,
+          },
+        });
+      },
 
-    const updatedAddresses = state.user.savedAddresses.filter(
-      address => address.id !== addressId
-    );
+      updateAddress: (addressId: string, updates: Partial<Address>) => {
+        const state = get();
+        if (!state.user) return;
+
+        const { savedAddresses } = state.user;
+        if (!savedAddresses.some(address => address.id === addressId)) return;
+
+        // A new default replaces the old one; unsetting the default hands it to
+        // another address, so there's still exactly one
+        const currentDefaultId = savedAddresses.find(address => address.isDefault)?.id;
+        let defaultId = currentDefaultId;
+        if (updates.isDefault) {
+          defaultId = addressId;
+        } else if (updates.isDefault === false && currentDefaultId === addressId) {
+          defaultId = savedAddresses.find(address => address.id !== addressId)?.id ?? addressId;
+        }
+
+        const updatedAddresses = savedAddresses.map(address => ({
+          ...address,
+          ...(address.id === addressId ? updates : {}),
+          isDefault: address.id === defaultId,
+        }));
+
+        set({
+          user: {
+            ...state.user,
+            savedAddresses: updatedAddresses,
+          },
+        });
+      },
 
-    set({
-      user: {
-        ...state.user,
-        savedAddresses: updatedAddresses,
+      removeAddress: (addressId: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        // Keep a default while any address is left
+        const updatedAddresses = withSingleDefault(
+          state.user.savedAddresses.filter(address => address.id !== addressId)
+        );
+
+        set({
+          user: {
+            ...state.user,
+            savedAddresses: updatedAddresses,
+          },
+        });
       },
-    });
-  },
-
-  setDefaultAddress: (addressId: string) => {
-    const state = get();
-    if (!state.user) return;
-
-    // This would typically be handled by updating a user preference
-    // For now, we'll assume the first address is the default
-    const updatedAddresses = state.user.savedAddresses.map(address => ({
-      ...address,
-      // Add isDefault property if needed in the future
-    }));
-
-    set({
-      user: {
-        ...state.user,
-        savedAddresses: updatedAddresses,
+
+      setDefaultAddress: (addressId: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        if (!state.user.savedAddresses.some(address => address.id === addressId)) return;
+
+        const updatedAddresses = state.user.savedAddresses.map(address => ({
+          ...address,
+          isDefault: address.id === addressId,
+        }));
+
+        set({
+          user: {
+            ...state.user,
+            savedAddresses: updatedAddresses,
+          },
+        });
       },
-    });
-  },
 
-  // Payment method management
-  addPaymentMethod: (paymentMethod: PaymentMethod) => {
-    const state = get();
-    if (!state.user) return;
-
-    // If this is the first payment method, make it default
-    const isFirstMethod = state.user.savedPaymentMethods.length === 0;
-    const methodToAdd = isFirstMethod 
-      ? { ...paymentMethod, isDefault: true }
-      : paymentMethod;
-
-    const updatedMethods = [...state.user.savedPaymentMethods, methodToAdd];
-
-    set({
-      user: {
-        ...state.user,
-        savedPaymentMethods: updatedMethods,
+      // Payment method management
+      addPaymentMethod: (paymentMethod: PaymentMethod) => {
+        const state = get();
+        if (!state.user) return;
+
+        // The first method becomes the default; a new default replaces the old one
+        const isDefault = state.user.savedPaymentMethods.length === 0 || paymentMethod.isDefault;
+        const updatedMethods = [
+          ...state.user.savedPaymentMethods.map(method =>
+            isDefault ? { ...method, isDefault: false } : method
+          ),
+          { ...paymentMethod, isDefault },
+        ];
+
+        set({
+          user: {
+            ...state.user,
+            savedPaymentMethods: updatedMethods,
+          },
+        });
       },
-    });
-  },
 
-  updatePaymentMethod: (paymentMethodId: string, updates: Partial<PaymentMethod>) => {
-    const state = get();
-    if (!state.user) return;
+      updatePaymentMethod: (paymentMethodId: string, updates: Partial<PaymentMethod>) => {
+        const state = get();
+        if (!state.user) return;
 
-    const updatedMethods = state.user.savedPaymentMethods.map(method =>
-      method.id === paymentMethodId ? { ...method, ...updates } : method
-    );
+        const updatedMethods = state.user.savedPaymentMethods.map(method =>
+          method.id === paymentMethodId ? { ...method, ...updates } : method
+        );
 
-    set({
-      user: {
-        ...state.user,
-        savedPaymentMethods: updatedMethods,
+        set({
+          user: {
+            ...state.user,
+            savedPaymentMethods: updatedMethods,
+          },
+        });
       },
-    });
-  },
 
-  removePaymentMethod: (paymentMethodId: string) => {
-    const state = get();
-    if (!state.user) return;
+      removePaymentMethod: (paymentMethodId: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        // Keep a default while any method is left
+        const updatedMethods = withSingleDefault(
+          state.user.savedPaymentMethods.filter(method => method.id !== paymentMethodId)
+        );
+
+        set({
+          user: {
+            ...state.user,
+            savedPaymentMethods: updatedMethods,
+          },
+        });
+      },
 
-    const updatedMethods = state.user.savedPaymentMethods.filter(
-      method => method.id !== paymentMethodId
-    );
+      setDefaultPaymentMethod: (paymentMethodId: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        const updatedMethods = state.user.savedPaymentMethods.map(method => ({
+          ...method,
+          isDefault: method.id === paymentMethodId,
+        }));
+
+        set({
+          user: {
+            ...state.user,
+            savedPaymentMethods: updatedMethods,
+          },
+        });
+      },
 
-    set({
-      user: {
-        ...state.user,
-        savedPaymentMethods: updatedMethods,
+      // Preferences
+      updatePreferences: (preferences: Partial<User['preferences']>) => {
+        const state = get();
+        if (!state.user) return;
+
+        set({
+          user: {
+            ...state.user,
+            preferences: {
+              ...state.user.preferences,
+              ...preferences,
+            },
+          },
+        });
       },
-    });
-  },
-
-  setDefaultPaymentMethod: (paymentMethodId: string) => {
-    const state = get();
-    if (!state.user) return;
-
-    const updatedMethods = state.user.savedPaymentMethods.map(method => ({
-      ...method,
-      isDefault: method.id === paymentMethodId,
-    }));
-
-    set({
-      user: {
-        ...state.user,
-        savedPaymentMethods: updatedMethods,
+
+      addFavoriteCuisine: (cuisine: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        const currentCuisines = state.user.preferences.favoriteCuisines;
+        if (currentCuisines.includes(cuisine)) return;
+
+        set({
+          user: {
+            ...state.user,
+            preferences: {
+              ...state.user.preferences,
+              favoriteCuisines: [...currentCuisines, cuisine],
+            },
+          },
+        });
       },
-    });
-  },
 
-  // Preferences
-  updatePreferences: (preferences: Partial<User['preferences']>) => {
-    const state = get();
-    if (!state.user) return;
-
-    set({
-      user: {
-        ...state.user,
-        preferences: {
-          ...state.user.preferences,
-          ...preferences,
-        },
+      removeFavoriteCuisine: (cuisine: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        const updatedCuisines = state.user.preferences.favoriteCuisines.filter(
+          c => c !== cuisine
+        );
+
+        set({
+          user: {
+            ...state.user,
+            preferences: {
+              ...state.user.preferences,
+              favoriteCuisines: updatedCuisines,
+            },
+          },
+        });
       },
-    });
-  },
-
-  addFavoriteCuisine: (cuisine: string) => {
-    const state = get();
-    if (!state.user) return;
-
-    const currentCuisines = state.user.preferences.favoriteCuisines;
-    if (currentCuisines.includes(cuisine)) return;
-
-    set({
-      user: {
-        ...state.user,
-        preferences: {
-          ...state.user.preferences,
-          favoriteCuisines: [...currentCuisines, cuisine],
-        },
+
+      addDietaryRestriction: (restriction: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        const currentRestrictions = state.user.preferences.dietaryRestrictions;
+        if (currentRestrictions.includes(restriction)) return;
+
+        set({
+          user: {
+            ...state.user,
+            preferences: {
+              ...state.user.preferences,
+              dietaryRestrictions: [...currentRestrictions, restriction],
+            },
+          },
+        });
       },
-    });
-  },
-
-  removeFavoriteCuisine: (cuisine: string) => {
-    const state = get();
-    if (!state.user) return;
-
-    const updatedCuisines = state.user.preferences.favoriteCuisines.filter(
-      c => c !== cuisine
-    );
-
-    set({
-      user: {
-        ...state.user,
-        preferences: {
-          ...state.user.preferences,
-          favoriteCuisines: updatedCuisines,
-        },
+
+      removeDietaryRestriction: (restriction: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        const updatedRestrictions = state.user.preferences.dietaryRestrictions.filter(
+          r => r !== restriction
+        );
+
+        set({
+          user: {
+            ...state.user,
+            preferences: {
+              ...state.user.preferences,
+              dietaryRestrictions: updatedRestrictions,
+            },
+          },
+        });
       },
-    });
-  },
-
-  addDietaryRestriction: (restriction: string) => {
-    const state = get();
-    if (!state.user) return;
-
-    const currentRestrictions = state.user.preferences.dietaryRestrictions;
-    if (currentRestrictions.includes(restriction)) return;
-
-    set({
-      user: {
-        ...state.user,
-        preferences: {
-          ...state.user.preferences,
-          dietaryRestrictions: [...currentRestrictions, restriction],
-        },
+
+      addAllergen: (allergen: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        const currentAllergens = state.user.preferences.allergens;
+        if (currentAllergens.includes(allergen)) return;
+
+        set({
+          user: {
+            ...state.user,
+            preferences: {
+              ...state.user.preferences,
+              allergens: [...currentAllergens, allergen],
+            },
+          },
+        });
       },
-    });
-  },
-
-  removeDietaryRestriction: (restriction: string) => {
-    const state = get();
-    if (!state.user) return;
-
-    const updatedRestrictions = state.user.preferences.dietaryRestrictions.filter(
-      r => r !== restriction
-    );
-
-    set({
-      user: {
-        ...state.user,
-        preferences: {
-          ...state.user.preferences,
-          dietaryRestrictions: updatedRestrictions,
-        },
+
+      removeAllergen: (allergen: string) => {
+        const state = get();
+        if (!state.user) return;
+
+        const updatedAllergens = state.user.preferences.allergens.filter(
+          a => a !== allergen
+        );
+
+        set({
+          user: {
+            ...state.user,
+            preferences: {
+              ...state.user.preferences,
+              allergens: updatedAllergens,
+            },
+          },
+        });
       },
-    });
-  },
 
-  // Order history
-  addOrder: (order: Order) => {
-    const state = get();
-    if (!state.user) return;
+      // Order history
+      addOrder: (order: Order) => {
+        const state = get();
+        if (!state.user) return;
 
-    const updatedOrders = [order, ...state.user.orderHistory];
+        const updatedOrders = [order, ...state.user.orderHistory];
 
-    set({
-      user: {
-        ...state.user,
-        orderHistory: updatedOrders,
+        set({
+          user: {
+            ...state.user,
+            orderHistory: updatedOrders,
+          },
+        });
       },
-    });
-  },
 
-  updateOrder: (orderId: string, updates: Partial<Order>) => {
-    const state = get();
-    if (!state.user) return;
+      updateOrder: (orderId: string, updates: Partial<Order>) => {
+        const state = get();
+        if (!state.user) return;
 
-    const updatedOrders = state.user.orderHistory.map(order =>
-      order.id === orderId ? { ...order, ...updates } : order
-    );
+        const updatedOrders = state.user.orderHistory.map(order =>
+          order.id === orderId ? { ...order, ...updates } : order
+        );
 
-    set({
-      user: {
-        ...state.user,
-        orderHistory: updatedOrders,
+        set({
+          user: {
+            ...state.user,
+            orderHistory: updatedOrders,
+          },
+        });
       },
-    });
-  },
 
-  // Computed values
-  getDefaultAddress: () => {
-    const state = get();
-    if (!state.user || state.user.savedAddresses.length === 0) return undefined;
+      // Computed values
+      getDefaultAddress: () => {
+        const state = get();
+        if (!state.user) return undefined;
     
-    // Return first address as default (could be enhanced with isDefault property)
-    return state.user.savedAddresses[0];
-  },
+        return state.user.savedAddresses.find(address => address.isDefault);
+      },
 
-  getDefaultPaymentMethod: () => {
-    const state = get();
-    if (!state.user) return undefined;
+      getDefaultPaymentMethod: () => {
+        const state = get();
+        if (!state.user) return undefined;
     
-    return state.user.savedPaymentMethods.find(method => method.isDefault);
-  },
+        return state.user.savedPaymentMethods.find(method => method.isDefault);
+      },
 
-  getRecentOrders: (limit = 10) => {
-    const state = get();
-    if (!state.user) return [];
+      getRecentOrders: (limit = 10) => {
+        const state = get();
+        if (!state.user) return [];
     
-    return state.user.orderHistory
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, limit);
-  },
-}));
\ No newline at end of file
+        return state.user.orderHistory
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+          .slice(0, limit);
+      },
+    }),
+    {
+      name: STORAGE_KEYS.user,
+      version: SCHEMA_VERSIONS.user,
+      storage: createPersistStorage<PersistedUserState>(),
+      migrate: createMigrate<PersistedUserState>(userMigrations, SCHEMA_VERSIONS.user),
+      partialize: (state) => ({
+        user: state.user,
+        isAuthenticated: state.isAuthenticated,
+      }),
+    }
+  )
+);
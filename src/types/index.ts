@@ -14,14 +14,92 @@ export interface Restaurant {
   minimumOrder: number;
   imageUrl: string;
   heroImageUrl: string;
-  isOpen: boolean;
+  isOpen: boolean; // taking orders at all; openingHours decide when
   location: {
     address: string;
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
+    coordinates: Coordinates;
   };
+  dietaryProfile?: RestaurantDietaryProfile; // derived from the menu, absent until known
+  averageItemPrice?: number; // mean price of available menu items
+  priceTier?: PriceTier; // derived from averageItemPrice
+  listedAt?: Date; // when the restaurant joined the app
+  openingHours?: OpeningHours; // absent means open whenever isOpen, scheduling on DEFAULT_OPENING_HOURS
+  slotCapacity?: number; // scheduled orders accepted per delivery slot
+}
+
+// A stretch of opening as 24-hour "HH:MM" times in the restaurant's time
+// zone. A closing time at or before the opening time means closing after
+// midnight.
+export interface OpeningPeriod {
+  opensAt: string;
+  closesAt: string;
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Hours for one date that replace the usual weekly ones
+export interface HolidayHours {
+  date: string; // "YYYY-MM-DD" in the restaurant's time zone
+  name?: string; // e.g. "Thanksgiving"
+  periods: OpeningPeriod[]; // empty means closed all day
+}
+
+export interface OpeningHours {
+  timeZone?: string; // IANA name, e.g. "America/Los_Angeles"; absent means the device's
+  weekly: Record<Weekday, OpeningPeriod[]>; // a day with no periods is closed
+  holidays?: HolidayHours[];
+}
+
+// A window an order can be scheduled for delivery in
+export interface DeliverySlot {
+  start: Date;
+  end: Date;
+}
+
+export interface DeliverySlotAvailability extends DeliverySlot {
+  remaining: number; // scheduled orders the restaurant can still take
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// An area orders are delivered to, with its own delivery fee and minimum
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  boundary: Coordinates[]; // polygon vertices in order; the last joins back to the first
+  deliveryFee: number;
+  minimumOrder: number; // subtotal needed before fees
+}
+
+export type PriceTier = 1 | 2 | 3 | 4; // $ to $$$$
+
+export interface RestaurantDietaryProfile {
+  suitableItemCounts: Record<string, number>; // dietary restriction -> available menu items that suit it
+}
+
+export interface MenuItemOptionChoice {
+  id: string;
+  name: string;
+  priceDelta: number; // added to the item's base price, may be 0
+  isDefault?: boolean;
+  isAvailable?: boolean;
+}
+
+export interface MenuItemOptionGroup {
+  id: string;
+  name: string; // e.g., "Size", "Add-ons"
+  isRequired: boolean;
+  minSelections: number;
+  maxSelections: number;
+  choices: MenuItemOptionChoice[];
+}
+
+export interface SelectedOption {
+  optionId: string; // MenuItemOptionGroup id
+  choiceId: string; // MenuItemOptionChoice id
 }
 
 export interface MenuItem {
@@ -44,6 +122,7 @@ export interface MenuItem {
     carbs: number;
     fat: number;
   };
+  optionGroups?: MenuItemOptionGroup[];
   isAvailable: boolean;
 }
 
@@ -51,10 +130,7 @@ export interface CartItem {
   menuItem: MenuItem;
   quantity: number;
   specialInstructions?: string;
-  selectedOptions?: {
-    optionId: string;
-    choiceId: string;
-  }[];
+  selectedOptions?: SelectedOption[];
 }
 
 export interface Address {
@@ -65,11 +141,9 @@ export interface Address {
   state: string;
   zipCode: string;
   country: string;
-  coordinates: {
-    latitude: number;
-    longitude: number;
-  };
+  coordinates: Coordinates;
   deliveryInstructions?: string;
+  isDefault?: boolean; // exactly one saved address is the default
 }
 
 export interface PaymentMethod {
@@ -80,6 +154,13 @@ export interface PaymentMethod {
   isDefault: boolean;
 }
 
+export type OrderStatus = 'scheduled' | 'pending' | 'confirmed' | 'preparing' | 'out_for_delivery' | 'delivered' | 'cancelled';
+
+export interface OrderStatusEvent {
+  status: OrderStatus;
+  at: Date;
+}
+
 export interface Order {
   id: string;
   userId: string;
@@ -89,10 +170,16 @@ export interface Order {
   deliveryFee: number;
   tax: number;
   total: number;
+  priceLines?: PriceLine[]; // absent on orders placed before itemized pricing
+  discount?: OrderDiscount; // absent when no promo code took anything off
+  tip?: OrderTip; // absent without a tip; can still change after delivery
   deliveryAddress: Address;
   paymentMethod: PaymentMethod;
-  status: 'pending' | 'confirmed' | 'preparing' | 'out_for_delivery' | 'delivered' | 'cancelled';
+  specialInstructions?: string;
+  status: OrderStatus;
+  statusHistory?: OrderStatusEvent[]; // one entry per transition, oldest first
   estimatedDeliveryTime: string;
+  scheduledSlot?: DeliverySlot; // absent for orders delivered as soon as possible
   createdAt: Date;
   updatedAt: Date;
 }
@@ -108,6 +195,8 @@ export interface User {
   preferences: {
     dietaryRestrictions: string[];
     favoriteCuisines: string[];
+    allergens: string[]; // matched against MenuItem.dietaryInfo.allergens
+    lastTip?: TipChoice; // offered again at the next checkout
   };
 }
 
@@ -129,6 +218,8 @@ export interface CheckoutFormData {
     phone: string;
   };
   specialInstructions?: string;
+  deliverySlot?: DeliverySlot; // absent to deliver as soon as possible
+  tip?: TipChoice; // absent for no tip
 }
 
 export interface UserRegistrationData {
@@ -138,6 +229,23 @@ export interface UserRegistrationData {
   password: string;
 }
 
+// Authentication types
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date; // when the access token stops being accepted
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
 export interface AddressFormData {
   label: string;
   street: string;
@@ -153,9 +261,10 @@ export interface SearchFilters {
   cuisineTypes: string[];
   dietaryRestrictions: string[];
   priceRange?: {
-    min: number;
+    min: number; // average menu item price, in dollars
     max: number;
   };
+  priceTiers?: PriceTier[];
   deliveryTime?: {
     max: number; // in minutes
   };
@@ -164,6 +273,60 @@ export interface SearchFilters {
   };
 }
 
+// How restaurant listings are ordered; 'relevance' ranks search matches
+export type RestaurantSortMode =
+  | 'relevance'
+  | 'distance'
+  | 'deliveryTime'
+  | 'deliveryFee'
+  | 'rating'
+  | 'reviewCount'
+  | 'newest';
+
+// Where nearby restaurants are found from: nowhere (every restaurant), the
+// default delivery address, or the device's current location
+export type NearbyMode = 'off' | 'deliveryAddress' | 'currentLocation';
+
+// A search the user ran, kept so it can be suggested again
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  filters: SearchFilters;
+  searchedAt: Date; // most recent run
+  useCount: number;
+  isPinned: boolean; // saved searches stay until unpinned
+}
+
+export type SearchSuggestionType = 'saved' | 'recent' | 'cuisine' | 'restaurant';
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string;
+  detail?: string; // e.g. the filters a history entry applies
+  query: string;
+  filters?: SearchFilters; // history entries restore their filters too
+  historyEntryId?: string;
+}
+
+// A matched span of text, end exclusive
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface RestaurantSearchMatch {
+  edits: number; // typo corrections needed; 0 when every term matched as typed
+  name: MatchRange[];
+  description: MatchRange[];
+  cuisineType: MatchRange[][]; // one list per entry in Restaurant.cuisineType
+}
+
+// Dishes matching a search, grouped under the restaurant serving them
+export interface DishSearchResult {
+  restaurant: Restaurant;
+  menuItems: MenuItem[];
+}
+
 export interface SearchState {
   query: string;
   filters: SearchFilters;
@@ -172,6 +335,57 @@ export interface SearchState {
   hasError: boolean;
 }
 
+// One line of what an order costs, in whole cents
+export type PriceLineType =
+  | 'subtotal'
+  | 'deliveryFee'
+  | 'serviceFee'
+  | 'smallOrderFee'
+  | 'discount'
+  | 'tax'
+  | 'tip';
+
+export interface PriceLine {
+  type: PriceLineType;
+  label: string;
+  amountCents: number;
+  detail?: string; // why it's charged, e.g. "CA 7.25%" for tax
+}
+
+// Promotion types
+export type PromotionDiscount =
+  | { type: 'percentage'; basisPoints: number; maxCents?: number } // off the subtotal
+  | { type: 'flat'; amountCents: number } // off the subtotal, never below zero
+  | { type: 'freeDelivery' };
+
+export interface Promotion {
+  code: string; // upper case
+  description: string; // e.g. "$5 off orders of $25 or more"
+  discount: PromotionDiscount;
+  restaurantIds?: string[]; // absent means any restaurant
+  minimumSubtotal?: number;
+  expiresAt?: Date;
+  firstOrderOnly?: boolean;
+  oncePerUser?: boolean;
+}
+
+// Tip types
+export type TipChoice =
+  | { type: 'percentage'; percent: number } // of the subtotal
+  | { type: 'custom'; amount: number };
+
+export interface OrderTip {
+  choice: TipChoice;
+  amount: number;
+}
+
+// What a promo code took off an order
+export interface OrderDiscount {
+  code: string;
+  description: string;
+  amount: number;
+}
+
 // Cart state types
 export interface CartState {
   items: CartItem[];
@@ -180,6 +394,8 @@ export interface CartState {
   deliveryFee: number;
   tax: number;
   total: number;
+  priceLines: PriceLine[]; // how the total is made up, subtotal first
+  discount: number; // taken off by the promo code, 0 without one
 }
 
 // API response types
@@ -209,10 +425,26 @@ export interface AppError {
 // Navigation types
 export type RootStackParamList = {
   Home: undefined;
-  RestaurantDetail: { restaurantId: string };
+  RestaurantDetail: { restaurantId: string; menuItemId?: string };
   Cart: undefined;
   Checkout: undefined;
   OrderConfirmation: { orderId: string };
+  OrderTracking: { orderId: string };
   Profile: undefined;
   Search: { initialQuery?: string };
+  Login: { redirectTo?: ProtectedRouteName };
+  SignUp: { redirectTo?: ProtectedRouteName };
+  SavedAddresses: undefined;
+  PaymentMethods: undefined;
+  OrderHistory: undefined;
+  Preferences: undefined;
 };
+
+// Screens that require a signed-in user
+export type ProtectedRouteName =
+  | 'Checkout'
+  | 'Profile'
+  | 'SavedAddresses'
+  | 'PaymentMethods'
+  | 'OrderHistory'
+  | 'Preferences';
@@ -0,0 +1,99 @@
+/**
+ * Dietary Utils Tests
+ */
+
+import {
+  buildDietaryProfile,
+  getAllergenConflicts,
+  restaurantSuitsDietaryRestrictions,
+  suitsDietaryRestriction,
+} from './dietaryUtils';
+import { generateMockMenuItem, generateMockRestaurant } from './mockData';
+import { MenuItem } from '../types';
+
+const dish = (
+  dietaryInfo: Partial<MenuItem['dietaryInfo']>,
+  overrides: Partial<MenuItem> = {}
+): MenuItem => generateMockMenuItem('r-1', {
+  dietaryInfo: {
+    isVegetarian: false,
+    isVegan: false,
+    isGlutenFree: false,
+    allergens: [],
+    ...dietaryInfo,
+  },
+  nutritionalInfo: undefined,
+  isAvailable: true,
+  ...overrides,
+});
+
+describe('suitsDietaryRestriction', () => {
+  it('should treat vegan dishes as vegetarian', () => {
+    expect(suitsDietaryRestriction(dish({ isVegan: true }), 'Vegetarian')).toBe(true);
+    expect(suitsDietaryRestriction(dish({ isVegetarian: true }), 'Vegan')).toBe(false);
+  });
+
+  it('should use allergens for dairy-free and nut-free', () => {
+    const withDairy = dish({ allergens: ['Dairy'] });
+    expect(suitsDietaryRestriction(withDairy, 'Dairy-Free')).toBe(false);
+    expect(suitsDietaryRestriction(withDairy, 'Nut-Free')).toBe(true);
+    expect(suitsDietaryRestriction(dish({ allergens: ['nuts'] }), 'Nut-Free')).toBe(false);
+  });
+
+  it('should use carbs for keto and low-carb', () => {
+    const lowCarb = dish({}, { nutritionalInfo: { calories: 400, protein: 30, carbs: 15, fat: 20 } });
+    expect(suitsDietaryRestriction(lowCarb, 'Low-Carb')).toBe(true);
+    expect(suitsDietaryRestriction(lowCarb, 'Keto')).toBe(false);
+    expect(suitsDietaryRestriction(dish({}), 'Low-Carb')).toBe(false);
+  });
+
+  it('should never match an unknown restriction', () => {
+    expect(suitsDietaryRestriction(dish({ isVegan: true }), 'Paleo')).toBe(false);
+  });
+});
+
+describe('getAllergenConflicts', () => {
+  it('should return the user\'s allergens an item contains, ignoring case', () => {
+    const item = dish({ allergens: ['Nuts', 'Dairy', 'Soy'] });
+
+    expect(getAllergenConflicts(item, ['dairy', 'Shellfish', 'Soy'])).toEqual(['Dairy', 'Soy']);
+    expect(getAllergenConflicts(item, [])).toEqual([]);
+  });
+});
+
+describe('buildDietaryProfile', () => {
+  it('should count only available dishes', () => {
+    const profile = buildDietaryProfile([
+      dish({ isVegan: true }),
+      dish({ isVegetarian: true }),
+      dish({ isVegan: true }, { isAvailable: false }),
+    ]);
+
+    expect(profile.suitableItemCounts['Vegetarian']).toBe(2);
+    expect(profile.suitableItemCounts['Vegan']).toBe(1);
+    expect(profile.suitableItemCounts['Gluten-Free']).toBe(0);
+  });
+});
+
+describe('restaurantSuitsDietaryRestrictions', () => {
+  const restaurant = generateMockRestaurant({
+    dietaryProfile: buildDietaryProfile([dish({ isVegetarian: true, isGlutenFree: true })]),
+  });
+
+  it('should require a suitable dish for every restriction', () => {
+    expect(restaurantSuitsDietaryRestrictions(restaurant, ['Vegetarian', 'Gluten-Free'])).toBe(true);
+    expect(restaurantSuitsDietaryRestrictions(restaurant, ['Vegetarian', 'Vegan'])).toBe(false);
+  });
+
+  it('should ignore restrictions it cannot check', () => {
+    expect(restaurantSuitsDietaryRestrictions(restaurant, ['Paleo'])).toBe(true);
+    expect(restaurantSuitsDietaryRestrictions(restaurant, ['Paleo', 'Vegan'])).toBe(false);
+  });
+
+  it('should exclude restaurants without a profile only when a restriction applies', () => {
+    const unprofiled = generateMockRestaurant({ dietaryProfile: undefined });
+
+    expect(restaurantSuitsDietaryRestrictions(unprofiled, [])).toBe(true);
+    expect(restaurantSuitsDietaryRestrictions(unprofiled, ['Vegetarian'])).toBe(false);
+  });
+});
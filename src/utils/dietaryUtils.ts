@@ -0,0 +1,96 @@
+/**
+ * Dietary Utilities
+ *
+ * Decide which dietary restrictions a menu item suits, which of a user's
+ * allergens it contains, and summarize a restaurant's menu into what it can
+ * offer each restriction
+ */
+
+import { MenuItem, Restaurant, RestaurantDietaryProfile } from '../types';
+
+/**
+ * Allergens users can declare, as they appear on menu items
+ */
+export const ALLERGEN_OPTIONS = ['Nuts', 'Dairy', 'Gluten', 'Shellfish', 'Eggs', 'Soy'];
+
+// Carbohydrate limits per serving, in grams
+export const KETO_MAX_CARBS = 10;
+export const LOW_CARB_MAX_CARBS = 20;
+
+const containsAllergen = (menuItem: MenuItem, allergen: string): boolean =>
+  menuItem.dietaryInfo.allergens.some(
+    itemAllergen => itemAllergen.toLowerCase() === allergen.toLowerCase()
+  );
+
+const hasCarbsAtMost = (menuItem: MenuItem, maxCarbs: number): boolean =>
+  menuItem.nutritionalInfo !== undefined && menuItem.nutritionalInfo.carbs <= maxCarbs;
+
+/**
+ * The user's allergens a menu item contains, in the menu item's wording
+ */
+export const getAllergenConflicts = (menuItem: MenuItem, userAllergens: string[]): string[] =>
+  menuItem.dietaryInfo.allergens.filter(itemAllergen =>
+    userAllergens.some(allergen => allergen.toLowerCase() === itemAllergen.toLowerCase())
+  );
+
+/**
+ * How to tell whether a menu item suits each dietary restriction we filter by
+ */
+const DIETARY_RULES: Record<string, (menuItem: MenuItem) => boolean> = {
+  'Vegetarian': item => item.dietaryInfo.isVegetarian || item.dietaryInfo.isVegan,
+  'Vegan': item => item.dietaryInfo.isVegan,
+  'Gluten-Free': item => item.dietaryInfo.isGlutenFree,
+  'Dairy-Free': item => item.dietaryInfo.isVegan || !containsAllergen(item, 'Dairy'),
+  'Nut-Free': item => !containsAllergen(item, 'Nuts'),
+  'Keto': item => hasCarbsAtMost(item, KETO_MAX_CARBS),
+  'Low-Carb': item => hasCarbsAtMost(item, LOW_CARB_MAX_CARBS),
+};
+
+/**
+ * Whether we can tell from menu data if a dish suits this restriction
+ */
+export const isKnownDietaryRestriction = (restriction: string): boolean =>
+  restriction in DIETARY_RULES;
+
+/**
+ * Check if a menu item suits a dietary restriction. Restrictions we have no
+ * rule for can't be checked, so they never match.
+ */
+export const suitsDietaryRestriction = (menuItem: MenuItem, restriction: string): boolean => {
+  const rule = DIETARY_RULES[restriction];
+  return rule ? rule(menuItem) : false;
+};
+
+/**
+ * Count the available menu items suiting each known dietary restriction
+ */
+export const buildDietaryProfile = (menuItems: MenuItem[]): RestaurantDietaryProfile => {
+  const availableItems = menuItems.filter(item => item.isAvailable);
+
+  const suitableItemCounts = Object.fromEntries(
+    Object.keys(DIETARY_RULES).map(restriction => [
+      restriction,
+      availableItems.filter(item => suitsDietaryRestriction(item, restriction)).length,
+    ])
+  );
+
+  return { suitableItemCounts };
+};
+
+/**
+ * Check if a restaurant has something on the menu for every restriction.
+ * Restrictions we can't check from menu data are ignored, and a restaurant
+ * whose menu hasn't been profiled only matches when nothing needs checking.
+ */
+export const restaurantSuitsDietaryRestrictions = (
+  restaurant: Restaurant,
+  restrictions: string[]
+): boolean => {
+  const checkable = restrictions.filter(isKnownDietaryRestriction);
+  if (checkable.length === 0) return true;
+
+  const profile = restaurant.dietaryProfile;
+  if (!profile) return false;
+
+  return checkable.every(restriction => (profile.suitableItemCounts[restriction] ?? 0) > 0);
+};
@@ -0,0 +1,91 @@
+/**
+ * Fuzzy Match Tests
+ */
+
+import {
+  editDistance,
+  findTermInText,
+  foldText,
+  maxEditsFor,
+  mergeRanges,
+  toSearchTerms,
+} from './fuzzyMatch';
+
+describe('foldText', () => {
+  it('should lowercase and strip diacritics', () => {
+    expect(foldText('Crème Brûlée').text).toBe('creme brulee');
+  });
+
+  it('should map folded characters back to the original text', () => {
+    const decomposed = 'Café Noir';
+    const folded = foldText(decomposed);
+
+    expect(folded.text).toBe('cafe noir');
+    expect(folded.indexMap[5]).toBe(6);
+  });
+});
+
+describe('toSearchTerms', () => {
+  it('should split a query into folded words', () => {
+    expect(toSearchTerms('  Crème, BRÛLÉE & tea ')).toEqual(['creme', 'brulee', 'tea']);
+    expect(toSearchTerms('   ')).toEqual([]);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    expect(editDistance('itallian', 'italian')).toBe(1);
+    expect(editDistance('sushi', 'suhsi')).toBe(2);
+    expect(editDistance('pizza', 'pizza')).toBe(0);
+    expect(editDistance('', 'thai')).toBe(4);
+  });
+
+  it('should stop early once past the maximum', () => {
+    expect(editDistance('burger', 'tiramisu', 2)).toBe(3);
+  });
+});
+
+describe('maxEditsFor', () => {
+  it('should tolerate more typos in longer terms', () => {
+    expect(maxEditsFor(3)).toBe(0);
+    expect(maxEditsFor(5)).toBe(1);
+    expect(maxEditsFor(9)).toBe(2);
+  });
+});
+
+describe('findTermInText', () => {
+  it('should prefer an exact substring', () => {
+    expect(findTermInText('bis', 'Italian Bistro')).toEqual({
+      range: { start: 8, end: 11 },
+      edits: 0,
+    });
+  });
+
+  it('should match a misspelled word within tolerance', () => {
+    expect(findTermInText('itallian', 'Authentic Italian')).toEqual({
+      range: { start: 10, end: 17 },
+      edits: 1,
+    });
+    expect(findTermInText('thia', 'Thai Garden')).toBeNull();
+  });
+
+  it('should match accented text and cover trailing combining marks', () => {
+    expect(findTermInText('brulee', 'Crème Brûlée')?.range).toEqual({ start: 6, end: 12 });
+    expect(findTermInText('cafe', 'Café')?.range).toEqual({ start: 0, end: 5 });
+  });
+});
+
+describe('mergeRanges', () => {
+  it('should sort and merge overlapping or touching ranges', () => {
+    expect(mergeRanges([
+      { start: 6, end: 9 },
+      { start: 0, end: 3 },
+      { start: 2, end: 5 },
+      { start: 5, end: 6 },
+      { start: 12, end: 14 },
+    ])).toEqual([
+      { start: 0, end: 9 },
+      { start: 12, end: 14 },
+    ]);
+  });
+});
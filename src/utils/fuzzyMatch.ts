@@ -0,0 +1,146 @@
+/**
+ * Fuzzy Match Utilities
+ *
+ * Typo-tolerant, accent-insensitive text matching that reports where in the
+ * original text each match was found
+ */
+
+import { MatchRange } from '../types';
+
+export interface FoldedText {
+  text: string; // lowercased with diacritics removed
+  indexMap: number[]; // folded index -> index in the original text
+}
+
+export interface TermMatch {
+  range: MatchRange; // in the original text
+  edits: number;
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const WORD_PATTERN = /[^\s.,;:!?&'"()/\-]+/g;
+
+/**
+ * Lowercase text and strip diacritics, e.g. "Crème Brûlée" -> "creme brulee",
+ * keeping track of where each folded character came from
+ */
+export const foldText = (text: string): FoldedText => {
+  let folded = '';
+  const indexMap: number[] = [];
+
+  for (let index = 0; index < text.length; index++) {
+    const foldedChar = text[index].normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+    for (let i = 0; i < foldedChar.length; i++) {
+      folded += foldedChar[i];
+      indexMap.push(index);
+    }
+  }
+
+  return { text: folded, indexMap };
+};
+
+/**
+ * Fold text for comparison without tracking positions
+ */
+export const foldForSearch = (text: string): string => foldText(text.trim()).text;
+
+/**
+ * Split folded search text into its terms
+ */
+export const toSearchTerms = (query: string): string[] =>
+  foldForSearch(query).match(WORD_PATTERN) ?? [];
+
+/**
+ * Typos tolerated in a term: none for short terms, where a single edit
+ * turns one word into another, and up to two for long ones
+ */
+export const maxEditsFor = (termLength: number): number => {
+  if (termLength <= 3) return 0;
+  if (termLength <= 7) return 1;
+  return 2;
+};
+
+/**
+ * Levenshtein distance between two strings. Gives up early and returns
+ * maxDistance + 1 once the distance is known to exceed maxDistance.
+ */
+export const editDistance = (a: string, b: string, maxDistance: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Map a range in folded text back onto the original text, keeping any
+ * combining marks that follow the last character
+ */
+const toOriginalRange = (text: string, folded: FoldedText, start: number, end: number): MatchRange => {
+  let originalEnd = folded.indexMap[end - 1] + 1;
+  while (originalEnd < text.length && /[\u0300-\u036f]/.test(text[originalEnd])) {
+    originalEnd++;
+  }
+  return { start: folded.indexMap[start], end: originalEnd };
+};
+
+/**
+ * Find a folded search term in text. An exact substring wins; otherwise the
+ * closest whole word within the term's typo tolerance matches.
+ */
+export const findTermInText = (term: string, text: string): TermMatch | null => {
+  if (!term) return null;
+
+  const folded = foldText(text);
+  const exactIndex = folded.text.indexOf(term);
+  if (exactIndex >= 0) {
+    return { range: toOriginalRange(text, folded, exactIndex, exactIndex + term.length), edits: 0 };
+  }
+
+  const maxEdits = maxEditsFor(term.length);
+  if (maxEdits === 0) return null;
+
+  let best: TermMatch | null = null;
+  for (const word of folded.text.matchAll(WORD_PATTERN)) {
+    const edits = editDistance(term, word[0], maxEdits);
+    if (edits <= maxEdits && (!best || edits < best.edits)) {
+      const start = word.index ?? 0;
+      best = { range: toOriginalRange(text, folded, start, start + word[0].length), edits };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Sort ranges and merge any that overlap or touch
+ */
+export const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged;
+};
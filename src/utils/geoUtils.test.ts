@@ -0,0 +1,101 @@
+/**
+ * Geo Utils Tests
+ */
+
+import {
+  formatDistance,
+  getBoundingBox,
+  getDistanceKm,
+  isKnownLocation,
+  isPointInPolygon,
+  isWithinBoundingBox,
+} from './geoUtils';
+
+const SAN_FRANCISCO = { latitude: 37.7749, longitude: -122.4194 };
+const LOS_ANGELES = { latitude: 34.0522, longitude: -118.2437 };
+
+describe('getDistanceKm', () => {
+  it('should measure great-circle distances', () => {
+    expect(getDistanceKm(SAN_FRANCISCO, LOS_ANGELES)).toBeCloseTo(559, 0);
+    expect(getDistanceKm(LOS_ANGELES, SAN_FRANCISCO)).toBeCloseTo(getDistanceKm(SAN_FRANCISCO, LOS_ANGELES), 6);
+  });
+
+  it('should be zero between the same point', () => {
+    expect(getDistanceKm(SAN_FRANCISCO, SAN_FRANCISCO)).toBe(0);
+  });
+});
+
+describe('isKnownLocation', () => {
+  it('should treat missing and 0,0 coordinates as unknown', () => {
+    expect(isKnownLocation(SAN_FRANCISCO)).toBe(true);
+    expect(isKnownLocation({ latitude: 0, longitude: 0 })).toBe(false);
+    expect(isKnownLocation(undefined)).toBe(false);
+    expect(isKnownLocation({ latitude: NaN, longitude: 10 })).toBe(false);
+  });
+});
+
+describe('getBoundingBox', () => {
+  it('should contain every point within the radius', () => {
+    const box = getBoundingBox(SAN_FRANCISCO, 10);
+    const bearings = [0, 45, 90, 135, 180, 225, 270, 315];
+
+    bearings.forEach(bearing => {
+      const radians = (bearing * Math.PI) / 180;
+      // Just inside 10 km in each direction
+      const point = {
+        latitude: SAN_FRANCISCO.latitude + (9.9 / 111.2) * Math.cos(radians),
+        longitude: SAN_FRANCISCO.longitude
+          + (9.9 / (111.2 * Math.cos((SAN_FRANCISCO.latitude * Math.PI) / 180))) * Math.sin(radians),
+      };
+      expect(getDistanceKm(SAN_FRANCISCO, point)).toBeLessThan(10);
+      expect(isWithinBoundingBox(point, box)).toBe(true);
+    });
+
+    expect(isWithinBoundingBox(LOS_ANGELES, box)).toBe(false);
+  });
+
+  it('should span every longitude across the antimeridian', () => {
+    const box = getBoundingBox({ latitude: 0, longitude: 179.99 }, 50);
+
+    expect(box.minLongitude).toBe(-180);
+    expect(box.maxLongitude).toBe(180);
+  });
+});
+
+describe('formatDistance', () => {
+  it('should show metres under a kilometre and fewer decimals further away', () => {
+    expect(formatDistance(0.432)).toBe('430 m');
+    expect(formatDistance(0.998)).toBe('1.0 km');
+    expect(formatDistance(2.44)).toBe('2.4 km');
+    expect(formatDistance(12.6)).toBe('13 km');
+  });
+});
+
+describe('isPointInPolygon', () => {
+  // An L shape: the notch at the top right is outside
+  const lShape = [
+    { latitude: 0, longitude: 0 },
+    { latitude: 0, longitude: 2 },
+    { latitude: 1, longitude: 2 },
+    { latitude: 1, longitude: 1 },
+    { latitude: 2, longitude: 1 },
+    { latitude: 2, longitude: 0 },
+  ];
+
+  it('should handle concave polygons', () => {
+    expect(isPointInPolygon({ latitude: 0.5, longitude: 1.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 0.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 1.5 }, lShape)).toBe(false);
+    expect(isPointInPolygon({ latitude: -0.5, longitude: 0.5 }, lShape)).toBe(false);
+  });
+
+  it('should count points on an edge or corner as inside', () => {
+    expect(isPointInPolygon({ latitude: 0, longitude: 1 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 1 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ latitude: 2, longitude: 1 }, lShape)).toBe(true);
+  });
+
+  it('should need at least three vertices', () => {
+    expect(isPointInPolygon({ latitude: 0, longitude: 0 }, lShape.slice(0, 2))).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Geo Utilities
+ *
+ * Distances between coordinates on the Earth's surface, bounding boxes for
+ * cheaply ruling out points that are too far away, and point-in-polygon checks
+ */
+
+import { Coordinates } from '../types';
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Whether coordinates point somewhere real. Addresses entered by hand are
+ * saved at 0,0 until they're geocoded.
+ */
+export const isKnownLocation = (coordinates?: Coordinates | null): coordinates is Coordinates =>
+  !!coordinates &&
+  Number.isFinite(coordinates.latitude) &&
+  Number.isFinite(coordinates.longitude) &&
+  !(coordinates.latitude === 0 && coordinates.longitude === 0);
+
+/**
+ * Great-circle distance between two points, in kilometres (haversine formula)
+ */
+export const getDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const latDelta = toRadians(to.latitude - from.latitude);
+  const lonDelta = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(latDelta / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(lonDelta / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * A latitude/longitude box containing every point within radiusKm of
+ * center. Near a pole, or across the antimeridian, it spans all longitudes.
+ */
+export const getBoundingBox = (center: Coordinates, radiusKm: number): BoundingBox => {
+  const latDelta = toDegrees(radiusKm / EARTH_RADIUS_KM);
+  const minLatitude = Math.max(-90, center.latitude - latDelta);
+  const maxLatitude = Math.min(90, center.latitude + latDelta);
+
+  // Longitude degrees shrink towards the poles, so widest at the latitude furthest from the equator
+  const widestLatitude = Math.max(Math.abs(minLatitude), Math.abs(maxLatitude));
+  const lonDelta = widestLatitude < 90
+    ? toDegrees(radiusKm / (EARTH_RADIUS_KM * Math.cos(toRadians(widestLatitude))))
+    : 180;
+
+  if (center.longitude - lonDelta < -180 || center.longitude + lonDelta > 180) {
+    return { minLatitude, maxLatitude, minLongitude: -180, maxLongitude: 180 };
+  }
+
+  return {
+    minLatitude,
+    maxLatitude,
+    minLongitude: center.longitude - lonDelta,
+    maxLongitude: center.longitude + lonDelta,
+  };
+};
+
+/**
+ * Whether a point lies inside a bounding box, edges included
+ */
+export const isWithinBoundingBox = (point: Coordinates, box: BoundingBox): boolean =>
+  point.latitude >= box.minLatitude &&
+  point.latitude <= box.maxLatitude &&
+  point.longitude >= box.minLongitude &&
+  point.longitude <= box.maxLongitude;
+
+/**
+ * Format a distance for display, e.g. "450 m", "2.4 km", "12 km"
+ */
+export const formatDistance = (distanceKm: number): string => {
+  const metres = Math.round(distanceKm * 100) * 10;
+  if (metres < 1000) {
+    return `${metres} m`;
+  }
+  if (distanceKm < 10) {
+    return `${distanceKm.toFixed(1)} km`;
+  }
+  return `${Math.round(distanceKm)} km`;
+};
+
+/**
+ * Whether a point lies on the segment between two others, within a small
+ * tolerance for rounding
+ */
+const isOnSegment = (point: Coordinates, start: Coordinates, end: Coordinates): boolean => {
+  const EPSILON = 1e-9;
+  const cross =
+    (point.latitude - start.latitude) * (end.longitude - start.longitude) -
+    (point.longitude - start.longitude) * (end.latitude - start.latitude);
+  if (Math.abs(cross) > EPSILON) return false;
+
+  return (
+    point.latitude >= Math.min(start.latitude, end.latitude) - EPSILON &&
+    point.latitude <= Math.max(start.latitude, end.latitude) + EPSILON &&
+    point.longitude >= Math.min(start.longitude, end.longitude) - EPSILON &&
+    point.longitude <= Math.max(start.longitude, end.longitude) + EPSILON
+  );
+};
+
+/**
+ * Whether a point lies inside a polygon given by its vertices in order, edges
+ * included. Uses ray casting, so concave polygons work too; coordinates are
+ * treated as flat, which is fine at city scale.
+ */
+export const isPointInPolygon = (point: Coordinates, polygon: Coordinates[]): boolean => {
+  if (polygon.length < 3) return false;
+
+  let isInside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const current = polygon[i];
+    const previous = polygon[j];
+
+    if (isOnSegment(point, previous, current)) return true;
+
+    // Count edges crossed by a ray running east from the point
+    const crossesLatitude = (current.latitude > point.latitude) !== (previous.latitude > point.latitude);
+    if (crossesLatitude) {
+      const crossingLongitude = previous.longitude
+        + ((point.latitude - previous.latitude) / (current.latitude - previous.latitude))
+        * (current.longitude - previous.longitude);
+      if (point.longitude < crossingLongitude) {
+        isInside = !isInside;
+      }
+    }
+  }
+
+  return isInside;
+};
@@ -0,0 +1,183 @@
+/**
+ * Menu Option Utilities Tests
+ */
+
+import {
+  getDefaultSelections,
+  toggleOptionSelection,
+  validateOptionSelections,
+  requiresOptionSelection,
+  getOptionsUnitPrice,
+  getCartLineId,
+  formatSelectedOptions,
+} from './menuOptionUtils';
+import { MenuItem, MenuItemOptionGroup } from '../types';
+
+const sizeGroup: MenuItemOptionGroup = {
+  id: 'size',
+  name: 'Size',
+  isRequired: true,
+  minSelections: 1,
+  maxSelections: 1,
+  choices: [
+    { id: 'small', name: 'Small', priceDelta: -1, isDefault: true },
+    { id: 'large', name: 'Large', priceDelta: 2.5 },
+  ],
+};
+
+const addOnGroup: MenuItemOptionGroup = {
+  id: 'addons',
+  name: 'Add-ons',
+  isRequired: false,
+  minSelections: 0,
+  maxSelections: 2,
+  choices: [
+    { id: 'cheese', name: 'Extra Cheese', priceDelta: 1.25 },
+    { id: 'bacon', name: 'Bacon', priceDelta: 2 },
+    { id: 'egg', name: 'Fried Egg', priceDelta: 1.5 },
+    { id: 'truffle', name: 'Truffle Oil', priceDelta: 4, isAvailable: false },
+  ],
+};
+
+const menuItem: MenuItem = {
+  id: 'burger',
+  restaurantId: 'restaurant-1',
+  name: 'Burger',
+  description: 'A burger',
+  price: 10,
+  imageUrl: 'burger.jpg',
+  category: 'Mains',
+  dietaryInfo: {
+    isVegetarian: false,
+    isVegan: false,
+    isGlutenFree: false,
+    allergens: [],
+  },
+  optionGroups: [sizeGroup, addOnGroup],
+  isAvailable: true,
+};
+
+describe('Menu Option Utilities', () => {
+  describe('getDefaultSelections', () => {
+    it('should select default choices', () => {
+      expect(getDefaultSelections(menuItem)).toEqual([{ optionId: 'size', choiceId: 'small' }]);
+    });
+
+    it('should return no selections for items without options', () => {
+      expect(getDefaultSelections({ ...menuItem, optionGroups: undefined })).toEqual([]);
+    });
+  });
+
+  describe('toggleOptionSelection', () => {
+    it('should replace the choice in single-choice groups', () => {
+      const selections = toggleOptionSelection(getDefaultSelections(menuItem), sizeGroup, 'large');
+      expect(selections).toEqual([{ optionId: 'size', choiceId: 'large' }]);
+    });
+
+    it('should deselect an already selected choice', () => {
+      const selections = toggleOptionSelection([{ optionId: 'addons', choiceId: 'cheese' }], addOnGroup, 'cheese');
+      expect(selections).toEqual([]);
+    });
+
+    it('should not exceed the group maximum', () => {
+      let selections = toggleOptionSelection([], addOnGroup, 'cheese');
+      selections = toggleOptionSelection(selections, addOnGroup, 'bacon');
+      selections = toggleOptionSelection(selections, addOnGroup, 'egg');
+
+      expect(selections.map(selection => selection.choiceId)).toEqual(['cheese', 'bacon']);
+    });
+  });
+
+  describe('validateOptionSelections', () => {
+    it('should accept default selections', () => {
+      expect(validateOptionSelections(menuItem, getDefaultSelections(menuItem))).toEqual({});
+    });
+
+    it('should require a choice for required groups', () => {
+      expect(validateOptionSelections(menuItem, [])).toEqual({ size: 'Please choose a size' });
+    });
+
+    it('should reject unavailable choices', () => {
+      const errors = validateOptionSelections(menuItem, [
+        { optionId: 'size', choiceId: 'small' },
+        { optionId: 'addons', choiceId: 'truffle' },
+      ]);
+      expect(errors.addons).toBe('Invalid choice for Add-ons');
+    });
+
+    it('should reject too many choices', () => {
+      const errors = validateOptionSelections(menuItem, [
+        { optionId: 'size', choiceId: 'small' },
+        { optionId: 'size', choiceId: 'large' },
+      ]);
+      expect(errors.size).toBe('Choose up to 1 size');
+    });
+  });
+
+  describe('requiresOptionSelection', () => {
+    it('should be false when defaults satisfy every group', () => {
+      expect(requiresOptionSelection(menuItem)).toBe(false);
+    });
+
+    it('should be true when a required group has no default', () => {
+      const noDefault = {
+        ...sizeGroup,
+        choices: sizeGroup.choices.map(choice => ({ ...choice, isDefault: false })),
+      };
+      expect(requiresOptionSelection({ ...menuItem, optionGroups: [noDefault] })).toBe(true);
+    });
+  });
+
+  describe('getOptionsUnitPrice', () => {
+    it('should add option price deltas to the base price', () => {
+      expect(getOptionsUnitPrice(menuItem, [
+        { optionId: 'size', choiceId: 'large' },
+        { optionId: 'addons', choiceId: 'cheese' },
+      ])).toBe(13.75);
+    });
+
+    it('should use the base price without selections', () => {
+      expect(getOptionsUnitPrice(menuItem)).toBe(10);
+    });
+  });
+
+  describe('getCartLineId', () => {
+    it('should use the menu item id when no options are selected', () => {
+      expect(getCartLineId({ menuItem })).toBe('burger');
+      expect(getCartLineId({ menuItem, selectedOptions: [] })).toBe('burger');
+    });
+
+    it('should not depend on selection order', () => {
+      const a = getCartLineId({
+        menuItem,
+        selectedOptions: [
+          { optionId: 'addons', choiceId: 'bacon' },
+          { optionId: 'size', choiceId: 'large' },
+        ],
+      });
+      const b = getCartLineId({
+        menuItem,
+        selectedOptions: [
+          { optionId: 'size', choiceId: 'large' },
+          { optionId: 'addons', choiceId: 'bacon' },
+        ],
+      });
+
+      expect(a).toBe(b);
+      expect(a).not.toBe(getCartLineId({ menuItem, selectedOptions: [{ optionId: 'size', choiceId: 'large' }] }));
+    });
+
+    it('should distinguish lines by special instructions', () => {
+      expect(getCartLineId({ menuItem, specialInstructions: 'No onions' })).toBe('burger::note:No onions');
+    });
+  });
+
+  describe('formatSelectedOptions', () => {
+    it('should list choice names in menu order', () => {
+      expect(formatSelectedOptions(menuItem, [
+        { optionId: 'addons', choiceId: 'bacon' },
+        { optionId: 'size', choiceId: 'large' },
+      ])).toBe('Large, Bacon');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Menu Option Utilities
+ *
+ * Selection rules, pricing and line-item identity for menu item options
+ */
+
+import {
+  CartItem,
+  MenuItem,
+  MenuItemOptionChoice,
+  MenuItemOptionGroup,
+  SelectedOption,
+} from '../types';
+
+/**
+ * Get the selected choices for a single option group
+ */
+export const getGroupSelections = (
+  selections: SelectedOption[],
+  groupId: string
+): string[] => {
+  return selections
+    .filter(selection => selection.optionId === groupId)
+    .map(selection => selection.choiceId);
+};
+
+/**
+ * Build the initial selections for a menu item from its default choices
+ */
+export const getDefaultSelections = (menuItem: MenuItem): SelectedOption[] => {
+  const selections: SelectedOption[] = [];
+
+  (menuItem.optionGroups || []).forEach(group => {
+    group.choices
+      .filter(choice => choice.isDefault && choice.isAvailable !== false)
+      .slice(0, group.maxSelections)
+      .forEach(choice => selections.push({ optionId: group.id, choiceId: choice.id }));
+  });
+
+  return selections;
+};
+
+/**
+ * Toggle a choice within a group, respecting the group's maximum.
+ * Single-choice groups behave like radio buttons.
+ */
+export const toggleOptionSelection = (
+  selections: SelectedOption[],
+  group: MenuItemOptionGroup,
+  choiceId: string
+): SelectedOption[] => {
+  const current = getGroupSelections(selections, group.id);
+  const otherGroups = selections.filter(selection => selection.optionId !== group.id);
+
+  if (current.includes(choiceId)) {
+    return [
+      ...otherGroups,
+      ...current
+        .filter(id => id !== choiceId)
+        .map(id => ({ optionId: group.id, choiceId: id })),
+    ];
+  }
+
+  if (group.maxSelections === 1) {
+    return [...otherGroups, { optionId: group.id, choiceId }];
+  }
+
+  if (current.length >= group.maxSelections) {
+    return selections;
+  }
+
+  return [...selections, { optionId: group.id, choiceId }];
+};
+
+/**
+ * Validate selections against each group's required flag and min/max limits
+ * @returns map of group id to error message; empty when valid
+ */
+export const validateOptionSelections = (
+  menuItem: MenuItem,
+  selections: SelectedOption[]
+): { [groupId: string]: string } => {
+  const errors: { [groupId: string]: string } = {};
+
+  (menuItem.optionGroups || []).forEach(group => {
+    const selected = getGroupSelections(selections, group.id);
+    const validChoiceIds = group.choices
+      .filter(choice => choice.isAvailable !== false)
+      .map(choice => choice.id);
+    const minSelections = group.isRequired ? Math.max(1, group.minSelections) : group.minSelections;
+
+    if (selected.some(choiceId => !validChoiceIds.includes(choiceId))) {
+      errors[group.id] = `Invalid choice for ${group.name}`;
+    } else if (selected.length < minSelections) {
+      errors[group.id] = minSelections === 1
+        ? `Please choose a ${group.name.toLowerCase()}`
+        : `Please choose at least ${minSelections} ${group.name.toLowerCase()}`;
+    } else if (selected.length > group.maxSelections) {
+      errors[group.id] = `Choose up to ${group.maxSelections} ${group.name.toLowerCase()}`;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Check whether selections satisfy every option group
+ */
+export const areOptionSelectionsValid = (
+  menuItem: MenuItem,
+  selections: SelectedOption[]
+): boolean => {
+  return Object.keys(validateOptionSelections(menuItem, selections)).length === 0;
+};
+
+/**
+ * Check whether a menu item needs the user to pick options before adding
+ */
+export const requiresOptionSelection = (menuItem: MenuItem): boolean => {
+  return !areOptionSelectionsValid(menuItem, getDefaultSelections(menuItem));
+};
+
+/**
+ * Resolve selections to their choice objects, in menu order
+ */
+export const getSelectedChoices = (
+  menuItem: MenuItem,
+  selections: SelectedOption[] = []
+): { group: MenuItemOptionGroup; choice: MenuItemOptionChoice }[] => {
+  const resolved: { group: MenuItemOptionGroup; choice: MenuItemOptionChoice }[] = [];
+
+  (menuItem.optionGroups || []).forEach(group => {
+    const selected = getGroupSelections(selections, group.id);
+    group.choices
+      .filter(choice => selected.includes(choice.id))
+      .forEach(choice => resolved.push({ group, choice }));
+  });
+
+  return resolved;
+};
+
+/**
+ * Price of one unit of a menu item with the given selections
+ */
+export const getOptionsUnitPrice = (
+  menuItem: MenuItem,
+  selections: SelectedOption[] = []
+): number => {
+  const delta = getSelectedChoices(menuItem, selections)
+    .reduce((sum, { choice }) => sum + choice.priceDelta, 0);
+
+  return Math.round((menuItem.price + delta) * 100) / 100;
+};
+
+/**
+ * Price of one unit of a cart line, including option price deltas
+ */
+export const getCartItemUnitPrice = (item: CartItem): number => {
+  return getOptionsUnitPrice(item.menuItem, item.selectedOptions);
+};
+
+/**
+ * Identity of a cart line: the same menu item with different options or
+ * special instructions is a separate line. Items without either use the
+ * plain menu item id.
+ */
+export const getCartLineId = (
+  item: Pick<CartItem, 'menuItem' | 'selectedOptions' | 'specialInstructions'>
+): string => {
+  const selections = item.selectedOptions || [];
+  let lineId = item.menuItem.id;
+
+  if (selections.length > 0) {
+    const signature = selections
+      .map(selection => `${selection.optionId}:${selection.choiceId}`)
+      .sort()
+      .join(',');
+
+    lineId = `${lineId}::${signature}`;
+  }
+
+  if (item.specialInstructions) {
+    lineId = `${lineId}::note:${item.specialInstructions}`;
+  }
+
+  return lineId;
+};
+
+/**
+ * Human-readable summary of selected options, e.g. "Large, Extra Cheese"
+ */
+export const formatSelectedOptions = (
+  menuItem: MenuItem,
+  selections: SelectedOption[] = []
+): string => {
+  return getSelectedChoices(menuItem, selections)
+    .map(({ choice }) => choice.name)
+    .join(', ');
+};
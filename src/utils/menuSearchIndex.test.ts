@@ -0,0 +1,75 @@
+/**
+ * Menu Search Index Tests
+ */
+
+import { buildMenuSearchIndex, groupDishMatches, searchMenuIndex } from './menuSearchIndex';
+import { generateMockMenuItem, generateMockRestaurant } from './mockData';
+import { MenuItem } from '../types';
+
+const dish = (restaurantId: string, name: string, overrides: Partial<MenuItem> = {}): MenuItem =>
+  generateMockMenuItem(restaurantId, {
+    id: `${restaurantId}-${name}`,
+    name,
+    description: `House ${name.toLowerCase()}`,
+    category: 'Mains',
+    isAvailable: true,
+    ...overrides,
+  });
+
+const trattoria = generateMockRestaurant({ id: 'trattoria', name: 'Trattoria' });
+const patisserie = generateMockRestaurant({ id: 'patisserie', name: 'Pâtisserie' });
+
+const menuItems = [
+  dish('trattoria', 'Tiramisu', { category: 'Desserts' }),
+  dish('trattoria', 'Lobster Ravioli'),
+  dish('trattoria', 'Affogato', { description: 'Espresso poured over gelato, tiramisu style' }),
+  dish('patisserie', 'Crème Brûlée', { category: 'Desserts' }),
+  dish('patisserie', 'Tiramisu Cake', { category: 'Desserts' }),
+  dish('patisserie', 'Sold Out Tiramisu', { isAvailable: false }),
+];
+
+const index = buildMenuSearchIndex(menuItems);
+const names = (query: string) => searchMenuIndex(index, query).map(match => match.menuItem.name);
+
+describe('buildMenuSearchIndex', () => {
+  it('should index only available dishes by the words they use', () => {
+    expect(Object.keys(index.menuItems)).toHaveLength(5);
+    expect(index.words['ravioli']).toEqual(['trattoria-Lobster Ravioli']);
+    expect(index.words['desserts']).toHaveLength(3);
+  });
+});
+
+describe('searchMenuIndex', () => {
+  it('should rank name matches above description matches', () => {
+    expect(names('tiramisu')).toEqual(['Tiramisu', 'Tiramisu Cake', 'Affogato']);
+  });
+
+  it('should match partial words, typos and accents', () => {
+    expect(names('ravi')).toEqual(['Lobster Ravioli']);
+    expect(names('tiramsu')).toContain('Tiramisu');
+    expect(names('creme brulee')).toEqual(['Crème Brûlée']);
+  });
+
+  it('should search categories and require every term', () => {
+    expect(names('desserts')).toHaveLength(3);
+    expect(names('tiramisu cake')).toEqual(['Tiramisu Cake']);
+    expect(names('tiramisu pizza')).toEqual([]);
+    expect(names('  ')).toEqual([]);
+  });
+});
+
+describe('groupDishMatches', () => {
+  it('should group dishes under restaurants in order of their best match', () => {
+    const groups = groupDishMatches(searchMenuIndex(index, 'tiramisu'), [patisserie, trattoria]);
+
+    expect(groups.map(group => group.restaurant.id)).toEqual(['trattoria', 'patisserie']);
+    expect(groups[0].menuItems.map(item => item.name)).toEqual(['Tiramisu', 'Affogato']);
+  });
+
+  it('should drop dishes from restaurants not listed', () => {
+    const groups = groupDishMatches(searchMenuIndex(index, 'tiramisu'), [patisserie]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].menuItems.map(item => item.name)).toEqual(['Tiramisu Cake']);
+  });
+});
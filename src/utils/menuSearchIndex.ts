@@ -0,0 +1,125 @@
+/**
+ * Menu Search Index
+ *
+ * Dish-level search across every restaurant's menu. Each word of a dish's
+ * name, description and category points back at the dishes using it, so a
+ * query is checked against the distinct words rather than every dish.
+ */
+
+import { DishSearchResult, MenuItem, Restaurant } from '../types';
+import { editDistance, maxEditsFor, toSearchTerms } from './fuzzyMatch';
+
+export interface MenuSearchIndex {
+  menuItems: Record<string, MenuItem>; // by id
+  words: Record<string, string[]>; // folded word -> ids of the dishes using it
+}
+
+export interface DishMatch {
+  menuItem: MenuItem;
+  edits: number; // typo corrections needed across the query's terms
+  inName: boolean; // every term matched the dish name
+}
+
+/**
+ * Index the available dishes by the words in their name, description and
+ * category
+ */
+export const buildMenuSearchIndex = (menuItems: MenuItem[]): MenuSearchIndex => {
+  const index: MenuSearchIndex = { menuItems: {}, words: {} };
+
+  menuItems
+    .filter(item => item.isAvailable)
+    .forEach(item => {
+      index.menuItems[item.id] = item;
+
+      const words = new Set(toSearchTerms(`${item.name} ${item.description} ${item.category}`));
+      words.forEach(word => {
+        if (!index.words[word]) index.words[word] = [];
+        index.words[word].push(item.id);
+      });
+    });
+
+  return index;
+};
+
+/**
+ * Edits needed for a search term to match an indexed word, or null if it
+ * doesn't. A word starting with the term, as while typing, counts as exact.
+ */
+const matchWord = (term: string, word: string): number | null => {
+  if (word.startsWith(term)) return 0;
+
+  const maxEdits = maxEditsFor(term.length);
+  if (maxEdits === 0) return null;
+
+  const edits = editDistance(term, word, maxEdits);
+  return edits <= maxEdits ? edits : null;
+};
+
+/**
+ * Find the dishes matching every term of a query, best matches first:
+ * matches on the dish name, then fewer typo corrections, then by name
+ */
+export const searchMenuIndex = (index: MenuSearchIndex, query: string): DishMatch[] => {
+  const terms = toSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  // Edits each term needs per dish it matches
+  const termMatches = terms.map(term => {
+    const termEdits = new Map<string, number>();
+
+    Object.entries(index.words).forEach(([word, itemIds]) => {
+      const edits = matchWord(term, word);
+      if (edits === null) return;
+
+      itemIds.forEach(id => {
+        termEdits.set(id, Math.min(edits, termEdits.get(id) ?? Infinity));
+      });
+    });
+
+    return termEdits;
+  });
+
+  // Keep only dishes every term matched
+  const [firstTerm, ...otherTerms] = termMatches;
+  return Array.from(firstTerm.entries())
+    .filter(([id]) => otherTerms.every(termEdits => termEdits.has(id)))
+    .map(([id, firstEdits]) => {
+      const edits = otherTerms.reduce((total, termEdits) => total + (termEdits.get(id) ?? 0), firstEdits);
+      const menuItem = index.menuItems[id];
+      const nameWords = toSearchTerms(menuItem.name);
+      const inName = terms.every(term => nameWords.some(word => matchWord(term, word) !== null));
+      return { menuItem, edits, inName };
+    })
+    .sort((a, b) => {
+      if (a.inName !== b.inName) return a.inName ? -1 : 1;
+      if (a.edits !== b.edits) return a.edits - b.edits;
+      return a.menuItem.name.localeCompare(b.menuItem.name);
+    });
+};
+
+/**
+ * Group dish matches under their restaurants, keeping the order of each
+ * restaurant's best match. Dishes from restaurants not listed are dropped.
+ */
+export const groupDishMatches = (
+  matches: DishMatch[],
+  restaurants: Restaurant[]
+): DishSearchResult[] => {
+  const restaurantsById = new Map(restaurants.map(restaurant => [restaurant.id, restaurant]));
+  const groups = new Map<string, DishSearchResult>();
+
+  matches.forEach(({ menuItem }) => {
+    const restaurant = restaurantsById.get(menuItem.restaurantId);
+    if (!restaurant) return;
+
+    const group = groups.get(restaurant.id);
+    if (group) {
+      group.menuItems.push(menuItem);
+    } else {
+      groups.set(restaurant.id, { restaurant, menuItems: [menuItem] });
+    }
+  });
+
+  return Array.from(groups.values());
+};
@@ -3,7 +3,22 @@
  * Used for development and testing purposes
  */
 
-import { Restaurant, MenuItem, CartItem, User, Address, PaymentMethod, Order } from '../types';
+import {
+  Restaurant,
+  MenuItem,
+  MenuItemOptionGroup,
+  CartItem,
+  User,
+  Address,
+  PaymentMethod,
+  Order,
+  OpeningHours,
+  HolidayHours,
+  Weekday,
+} from '../types';
+import { getCartItemUnitPrice } from './menuOptionUtils';
+import { createDailyHours } from './openingHoursUtils';
+import { advanceOrderTo, startOrderLifecycle } from './orderLifecycle';
 
 // Sample data arrays for generating realistic mock data
 const restaurantNames = [
@@ -71,25 +86,112 @@ const addresses = [
   { street: '654 Maple Dr', city: 'Austin', state: 'TX', zipCode: '73301' },
 ];
 
+// Every mock restaurant is in San Francisco
+const RESTAURANT_TIME_ZONE = 'America/Los_Angeles';
+
+const holidayYear = new Date().getFullYear();
+const holidays: HolidayHours[] = [
+  { date: `${holidayYear}-12-25`, name: 'Christmas Day', periods: [] },
+  { date: `${holidayYear}-12-31`, name: "New Year's Eve", periods: [{ opensAt: '17:00', closesAt: '01:00' }] },
+];
+
+const withDayOff = (hours: OpeningHours, weekday: Weekday): OpeningHours => ({
+  ...hours,
+  weekly: { ...hours.weekly, [weekday]: [] },
+});
+
+const openingHours: OpeningHours[] = [
+  createDailyHours([{ opensAt: '11:00', closesAt: '22:00' }], RESTAURANT_TIME_ZONE),
+  withDayOff(createDailyHours([{ opensAt: '07:00', closesAt: '15:00' }], RESTAURANT_TIME_ZONE), 'monday'),
+  createDailyHours(
+    [{ opensAt: '11:30', closesAt: '14:30' }, { opensAt: '17:00', closesAt: '23:30' }],
+    RESTAURANT_TIME_ZONE
+  ),
+  createDailyHours([{ opensAt: '18:00', closesAt: '02:00' }], RESTAURANT_TIME_ZONE), // past midnight
+].map(hours => ({ ...hours, holidays }));
+
 const allergens = ['Nuts', 'Dairy', 'Gluten', 'Shellfish', 'Eggs', 'Soy'];
 
+const addOnNames = ['Extra Cheese', 'Avocado', 'Bacon', 'Side Salad', 'Truffle Oil', 'Fried Egg'];
+
+// Random source for the generators: Math.random, or seeded while inside withMockSeed
+let random: () => number = Math.random;
+
+// mulberry32: a small, fast PRNG that gives the same sequence for the same seed
+const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Run generators with a seeded random source, so the same seed always
+ * generates the same data, ids included
+ */
+export const withMockSeed = <T>(seed: number, generate: () => T): T => {
+  const previous = random;
+  random = createSeededRandom(seed);
+  try {
+    return generate();
+  } finally {
+    random = previous;
+  }
+};
+
 // Utility functions
 const randomInt = (min: number, max: number): number => 
-  Math.floor(Math.random() * (max - min + 1)) + min;
+  Math.floor(random() * (max - min + 1)) + min;
 
 const randomFloat = (min: number, max: number, decimals: number = 2): number => 
-  parseFloat((Math.random() * (max - min) + min).toFixed(decimals));
+  parseFloat((random() * (max - min) + min).toFixed(decimals));
 
 const randomChoice = <T>(array: T[]): T => 
-  array[Math.floor(Math.random() * array.length)];
+  array[Math.floor(random() * array.length)];
 
 const randomChoices = <T>(array: T[], count: number): T[] => {
-  const shuffled = [...array].sort(() => 0.5 - Math.random());
+  const shuffled = [...array].sort(() => 0.5 - random());
   return shuffled.slice(0, Math.min(count, array.length));
 };
 
 const generateId = (): string => 
-  Math.random().toString(36).substr(2, 9);
+  random().toString(36).substr(2, 9);
+
+export const generateMockOptionGroups = (): MenuItemOptionGroup[] => {
+  const sizeGroupId = generateId();
+  const addOnGroupId = generateId();
+  const addOns = randomChoices(addOnNames, randomInt(2, 4));
+
+  return [
+    {
+      id: sizeGroupId,
+      name: 'Size',
+      isRequired: true,
+      minSelections: 1,
+      maxSelections: 1,
+      choices: [
+        { id: generateId(), name: 'Regular', priceDelta: 0, isDefault: true },
+        { id: generateId(), name: 'Large', priceDelta: randomFloat(2, 5) },
+      ],
+    },
+    {
+      id: addOnGroupId,
+      name: 'Add-ons',
+      isRequired: false,
+      minSelections: 0,
+      maxSelections: Math.min(addOns.length, randomInt(2, 3)),
+      choices: addOns.map(addOn => ({
+        id: generateId(),
+        name: addOn,
+        priceDelta: randomFloat(0.5, 3.5),
+      })),
+    },
+  ];
+};
 
 // Mock data generators
 export const generateMockRestaurant = (overrides: Partial<Restaurant> = {}): Restaurant => {
@@ -108,7 +210,7 @@ export const generateMockRestaurant = (overrides: Partial<Restaurant> = {}): Res
     minimumOrder: randomFloat(15, 35),
     imageUrl: `https://picsum.photos/400/300?random=${randomInt(1, 1000)}`,
     heroImageUrl: `https://picsum.photos/800/400?random=${randomInt(1, 1000)}`,
-    isOpen: Math.random() > 0.2, // 80% chance of being open
+    isOpen: random() > 0.2, // 80% chance of being open
     location: {
       address: randomChoice(addresses).street + ', ' + randomChoice(addresses).city,
       coordinates: {
@@ -116,6 +218,9 @@ export const generateMockRestaurant = (overrides: Partial<Restaurant> = {}): Res
         longitude: randomFloat(-122.5, -122.4, 6),
       },
     },
+    listedAt: new Date(Date.now() - randomInt(0, 2 * 365 * 24 * 60 * 60 * 1000)), // Within last two years
+    openingHours: randomChoice(openingHours),
+    slotCapacity: randomInt(4, 12),
     ...overrides,
   };
 };
@@ -134,18 +239,19 @@ export const generateMockMenuItem = (restaurantId: string, overrides: Partial<Me
     imageUrl: `https://picsum.photos/300/200?random=${randomInt(1, 1000)}`,
     category: category.charAt(0).toUpperCase() + category.slice(1),
     dietaryInfo: {
-      isVegetarian: Math.random() > 0.7,
-      isVegan: Math.random() > 0.8,
-      isGlutenFree: Math.random() > 0.75,
-      allergens: Math.random() > 0.5 ? randomChoices(allergens, randomInt(0, 3)) : [],
+      isVegetarian: random() > 0.7,
+      isVegan: random() > 0.8,
+      isGlutenFree: random() > 0.75,
+      allergens: random() > 0.5 ? randomChoices(allergens, randomInt(0, 3)) : [],
     },
-    nutritionalInfo: Math.random() > 0.3 ? {
+    nutritionalInfo: random() > 0.3 ? {
       calories: randomInt(200, 800),
       protein: randomInt(10, 50),
       carbs: randomInt(15, 60),
       fat: randomInt(5, 35),
     } : undefined,
-    isAvailable: Math.random() > 0.1, // 90% chance of being available
+    optionGroups: random() > 0.6 ? generateMockOptionGroups() : undefined,
+    isAvailable: random() > 0.1, // 90% chance of being available
     ...overrides,
   };
 };
@@ -165,7 +271,7 @@ export const generateMockAddress = (overrides: Partial<Address> = {}): Address =
       latitude: randomFloat(37.7, 37.8, 6),
       longitude: randomFloat(-122.5, -122.4, 6),
     },
-    deliveryInstructions: Math.random() > 0.6 ? 'Please ring doorbell' : undefined,
+    deliveryInstructions: random() > 0.6 ? 'Please ring doorbell' : undefined,
     ...overrides,
   };
 };
@@ -179,7 +285,7 @@ export const generateMockPaymentMethod = (overrides: Partial<PaymentMethod> = {}
     type,
     last4: type === 'card' ? randomInt(1000, 9999).toString() : undefined,
     brand: type === 'card' ? randomChoice(['Visa', 'Mastercard', 'Amex']) : undefined,
-    isDefault: Math.random() > 0.7,
+    isDefault: random() > 0.7,
     ...overrides,
   };
 };
@@ -196,12 +302,13 @@ export const generateMockUser = (overrides: Partial<User> = {}): User => {
     name: `${firstName} ${lastName}`,
     email: `${firstName.toLowerCase()}.${lastName.toLowerCase()}@example.com`,
     phone: `+1${randomInt(200, 999)}${randomInt(200, 999)}${randomInt(1000, 9999)}`,
-    savedAddresses: Array.from({ length: randomInt(1, 3) }, () => generateMockAddress()),
+    savedAddresses: Array.from({ length: randomInt(1, 3) }, (_, index) => generateMockAddress({ isDefault: index === 0 })),
     savedPaymentMethods: Array.from({ length: randomInt(1, 2) }, () => generateMockPaymentMethod()),
     orderHistory: [], // Will be populated separately if needed
     preferences: {
       dietaryRestrictions: randomChoices(['Vegetarian', 'Vegan', 'Gluten-Free', 'Dairy-Free'], randomInt(0, 2)),
       favoriteCuisines: randomChoices(cuisineTypes, randomInt(2, 4)),
+      allergens: [],
     },
     ...overrides,
   };
@@ -211,7 +318,7 @@ export const generateMockCartItem = (menuItem: MenuItem, overrides: Partial<Cart
   return {
     menuItem,
     quantity: randomInt(1, 3),
-    specialInstructions: Math.random() > 0.7 ? 'Extra sauce on the side' : undefined,
+    specialInstructions: random() > 0.7 ? 'Extra sauce on the side' : undefined,
     selectedOptions: [], // Simplified for now
     ...overrides,
   };
@@ -223,14 +330,14 @@ export const generateMockOrder = (
   items: CartItem[],
   overrides: Partial<Order> = {}
 ): Order => {
-  const subtotal = items.reduce((sum, item) => sum + (item.menuItem.price * item.quantity), 0);
+  const subtotal = items.reduce((sum, item) => sum + (getCartItemUnitPrice(item) * item.quantity), 0);
   const deliveryFee = restaurant.deliveryFee;
   const tax = subtotal * 0.0875; // 8.75% tax rate
   const total = subtotal + deliveryFee + tax;
   
   const statuses: Order['status'][] = ['pending', 'confirmed', 'preparing', 'out_for_delivery', 'delivered'];
   
-  return {
+  const order: Order = {
     id: generateId(),
     userId: user.id,
     restaurant,
@@ -247,14 +354,36 @@ export const generateMockOrder = (
     updatedAt: new Date(),
     ...overrides,
   };
+
+  if (order.statusHistory) {
+    return order;
+  }
+
+  // Record a history that walks from placement to the chosen status;
+  // scheduled orders are placed as scheduled
+  const placed = startOrderLifecycle({
+    ...order,
+    status: order.scheduledSlot || order.status === 'scheduled' ? 'scheduled' : 'pending',
+  });
+  return {
+    ...advanceOrderTo(placed, order.status, new Date(order.updatedAt)),
+    updatedAt: order.updatedAt,
+  };
 };
 
 // Batch generators for creating multiple items
 export const generateMockRestaurants = (count: number): Restaurant[] => 
   Array.from({ length: count }, () => generateMockRestaurant());
 
-export const generateMockMenuItems = (restaurantId: string, count: number): MenuItem[] => 
-  Array.from({ length: count }, () => generateMockMenuItem(restaurantId));
+// Menu price bands, so restaurants land in different price tiers
+const menuPriceBands = [[6, 16], [12, 28], [22, 45], [38, 80]];
+
+export const generateMockMenuItems = (restaurantId: string, count: number): MenuItem[] => {
+  const [minPrice, maxPrice] = randomChoice(menuPriceBands);
+  return Array.from({ length: count }, () =>
+    generateMockMenuItem(restaurantId, { price: randomFloat(minPrice, maxPrice) })
+  );
+};
 
 export const generateMockRestaurantWithMenu = (menuItemCount: number = 12): { restaurant: Restaurant; menuItems: MenuItem[] } => {
   const restaurant = generateMockRestaurant();
@@ -294,6 +423,7 @@ export const sampleUser: User = generateMockUser({
   preferences: {
     dietaryRestrictions: ['Vegetarian'],
     favoriteCuisines: ['Mediterranean', 'Italian', 'Asian Fusion'],
+    allergens: [],
   },
   savedPaymentMethods: [
     {
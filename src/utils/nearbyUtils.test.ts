@@ -0,0 +1,64 @@
+/**
+ * Nearby Utils Tests
+ */
+
+import {
+  DELIVERY_RADIUS_KM,
+  estimateDeliveryTime,
+  filterWithinDeliveryRadius,
+  getDeliveryEstimate,
+  getRestaurantDistanceKm,
+} from './nearbyUtils';
+import { generateMockRestaurant } from './mockData';
+import { parseDeliveryTime } from './searchUtils';
+import { Restaurant } from '../types';
+
+const MISSION = { latitude: 37.7599, longitude: -122.4148 };
+
+const restaurantAt = (id: string, latitude: number, longitude: number): Restaurant =>
+  generateMockRestaurant({ id, location: { address: '', coordinates: { latitude, longitude } } });
+
+describe('filterWithinDeliveryRadius', () => {
+  it('should keep only restaurants within the radius', () => {
+    const restaurants = [
+      restaurantAt('mission', 37.7605, -122.4190), // under half a kilometre
+      restaurantAt('downtown', 37.7880, -122.4075), // about 3 km
+      restaurantAt('oakland', 37.8044, -122.2712), // about 13 km
+      restaurantAt('los-angeles', 34.0522, -118.2437),
+    ];
+
+    expect(filterWithinDeliveryRadius(restaurants, MISSION).map(r => r.id))
+      .toEqual(['mission', 'downtown']);
+    expect(filterWithinDeliveryRadius(restaurants, MISSION, 1).map(r => r.id))
+      .toEqual(['mission']);
+    expect(DELIVERY_RADIUS_KM).toBeLessThan(13);
+  });
+});
+
+describe('getRestaurantDistanceKm', () => {
+  it('should be null when either location is unknown', () => {
+    expect(getRestaurantDistanceKm(restaurantAt('a', 37.78, -122.41), null)).toBeNull();
+    expect(getRestaurantDistanceKm(restaurantAt('a', 0, 0), MISSION)).toBeNull();
+  });
+});
+
+describe('estimateDeliveryTime', () => {
+  it('should quote a ten minute window that grows with distance', () => {
+    expect(estimateDeliveryTime(0)).toBe('15-25 min');
+    expect(estimateDeliveryTime(3)).toBe('25-35 min');
+
+    const near = parseDeliveryTime(estimateDeliveryTime(1)) ?? 0;
+    const far = parseDeliveryTime(estimateDeliveryTime(7)) ?? 0;
+    expect(far).toBeGreaterThan(near);
+  });
+});
+
+describe('getDeliveryEstimate', () => {
+  it('should pair the distance with the estimate for it', () => {
+    const estimate = getDeliveryEstimate(restaurantAt('downtown', 37.7880, -122.4075), MISSION);
+
+    expect(estimate?.distanceKm).toBeCloseTo(3.2, 1);
+    expect(estimate?.deliveryTime).toBe(estimateDeliveryTime(estimate?.distanceKm ?? 0));
+    expect(getDeliveryEstimate(restaurantAt('downtown', 37.7880, -122.4075), undefined)).toBeNull();
+  });
+});
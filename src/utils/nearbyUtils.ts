@@ -0,0 +1,84 @@
+/**
+ * Nearby Restaurant Utilities
+ *
+ * How far restaurants are from where the user is ordering to, which of them
+ * deliver that far, and how long delivery takes over that distance
+ */
+
+import { Coordinates, NearbyMode, Restaurant } from '../types';
+import { getBoundingBox, getDistanceKm, isKnownLocation, isWithinBoundingBox } from './geoUtils';
+
+// Furthest restaurants deliver
+export const DELIVERY_RADIUS_KM = 8;
+
+// Delivery estimate: kitchen time plus a courier riding through the city
+const PREPARATION_MINUTES = 15;
+const COURIER_SPEED_KMH = 18;
+const ESTIMATE_WINDOW_MINUTES = 10;
+
+export interface NearbyOption {
+  mode: NearbyMode;
+  label: string;
+}
+
+export const NEARBY_OPTIONS: NearbyOption[] = [
+  { mode: 'off', label: 'All restaurants' },
+  { mode: 'deliveryAddress', label: 'Near my address' },
+  { mode: 'currentLocation', label: 'Near me' },
+];
+
+export interface DeliveryEstimate {
+  distanceKm: number;
+  deliveryTime: string; // e.g. "25-35 min", like Restaurant.deliveryTime
+}
+
+/**
+ * Distance from a restaurant to a location, or null if either isn't known
+ */
+export const getRestaurantDistanceKm = (
+  restaurant: Restaurant,
+  origin?: Coordinates | null
+): number | null => {
+  const coordinates = restaurant.location.coordinates;
+  if (!isKnownLocation(origin) || !isKnownLocation(coordinates)) return null;
+  return getDistanceKm(origin, coordinates);
+};
+
+/**
+ * Keep the restaurants that deliver to a location. A bounding box rules out
+ * most far away restaurants before measuring the exact distance.
+ */
+export const filterWithinDeliveryRadius = (
+  restaurants: Restaurant[],
+  origin: Coordinates,
+  radiusKm: number = DELIVERY_RADIUS_KM
+): Restaurant[] => {
+  const box = getBoundingBox(origin, radiusKm);
+
+  return restaurants.filter(restaurant => {
+    const coordinates = restaurant.location.coordinates;
+    return isWithinBoundingBox(coordinates, box) && getDistanceKm(origin, coordinates) <= radiusKm;
+  });
+};
+
+/**
+ * Estimated delivery window for a distance, rounded to five minutes
+ */
+export const estimateDeliveryTime = (distanceKm: number): string => {
+  const travelMinutes = (distanceKm / COURIER_SPEED_KMH) * 60;
+  const earliest = Math.ceil((PREPARATION_MINUTES + travelMinutes) / 5) * 5;
+  return `${earliest}-${earliest + ESTIMATE_WINDOW_MINUTES} min`;
+};
+
+/**
+ * Distance and delivery estimate for a restaurant, or null when the location
+ * isn't known and the restaurant's own quote is all there is
+ */
+export const getDeliveryEstimate = (
+  restaurant: Restaurant,
+  origin?: Coordinates | null
+): DeliveryEstimate | null => {
+  const distanceKm = getRestaurantDistanceKm(restaurant, origin);
+  if (distanceKm === null) return null;
+  return { distanceKm, deliveryTime: estimateDeliveryTime(distanceKm) };
+};
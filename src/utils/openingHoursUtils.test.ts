@@ -0,0 +1,154 @@
+/**
+ * Opening Hours Utils Tests
+ */
+
+import {
+  createDailyHours,
+  getOpeningStatus,
+  getOpeningWindows,
+  isRestaurantOpen,
+  parseTimeOfDay,
+} from './openingHoursUtils';
+import { generateMockRestaurant } from './mockData';
+import { OpeningHours } from '../types';
+
+const NEW_YORK = 'America/New_York';
+
+const lunchToLate = [{ opensAt: '11:00', closesAt: '22:00' }];
+
+// Closed on Sundays and for a holiday on Wednesday, March 11 2026
+const dailyNewYorkHours = createDailyHours(lunchToLate, NEW_YORK);
+const newYorkHours: OpeningHours = {
+  ...dailyNewYorkHours,
+  weekly: { ...dailyNewYorkHours.weekly, sunday: [] },
+  holidays: [{ date: '2026-03-11', name: 'Staff party', periods: [] }],
+};
+
+const restaurantWith = (openingHours: OpeningHours) =>
+  generateMockRestaurant({ name: 'Trattoria', isOpen: true, openingHours });
+
+describe('parseTimeOfDay', () => {
+  it('should read 24-hour times and reject anything else', () => {
+    expect(parseTimeOfDay('00:00')).toBe(0);
+    expect(parseTimeOfDay('18:30')).toBe(1110);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('6:30')).toBeNull();
+  });
+});
+
+describe('getOpeningWindows', () => {
+  it('should read hours in the restaurant time zone across daylight saving', () => {
+    const restaurant = restaurantWith(createDailyHours(lunchToLate, NEW_YORK));
+    // New York moves to daylight saving time on March 8 2026
+    const windows = getOpeningWindows(
+      restaurant,
+      new Date('2026-03-07T12:00:00Z'),
+      new Date('2026-03-08T23:00:00Z')
+    );
+
+    expect(windows.map(window => window.start.toISOString())).toEqual([
+      '2026-03-07T16:00:00.000Z',
+      '2026-03-08T15:00:00.000Z',
+    ]);
+    expect(windows[1].end.toISOString()).toBe('2026-03-09T02:00:00.000Z');
+  });
+
+  it('should use holiday hours instead of the usual day', () => {
+    const restaurant = restaurantWith({
+      ...createDailyHours(lunchToLate, NEW_YORK),
+      holidays: [{ date: '2026-03-10', periods: [{ opensAt: '17:00', closesAt: '01:00' }] }],
+    });
+    const windows = getOpeningWindows(
+      restaurant,
+      new Date('2026-03-10T04:00:00Z'),
+      new Date('2026-03-11T04:00:00Z')
+    );
+
+    expect(windows).toEqual([
+      { start: new Date('2026-03-10T21:00:00Z'), end: new Date('2026-03-11T05:00:00Z') },
+    ]);
+  });
+
+  it('should join periods that run into each other', () => {
+    const restaurant = restaurantWith(createDailyHours([
+      { opensAt: '11:00', closesAt: '15:00' },
+      { opensAt: '15:00', closesAt: '22:00' },
+    ], NEW_YORK));
+    const windows = getOpeningWindows(
+      restaurant,
+      new Date('2026-03-10T04:00:00Z'),
+      new Date('2026-03-11T04:00:00Z')
+    );
+
+    expect(windows).toEqual([
+      { start: new Date('2026-03-10T15:00:00Z'), end: new Date('2026-03-11T02:00:00Z') },
+    ]);
+  });
+});
+
+describe('getOpeningStatus', () => {
+  const restaurant = restaurantWith(newYorkHours);
+
+  it('should say when an open restaurant closes', () => {
+    // 11:00 AM on Tuesday in New York
+    expect(getOpeningStatus(restaurant, new Date('2026-03-10T15:00:00Z'))).toEqual({
+      state: 'open',
+      label: 'Open until 10:00 PM',
+      closesAt: new Date('2026-03-11T02:00:00Z'),
+      changesAt: new Date('2026-03-11T01:30:00Z'),
+    });
+  });
+
+  it('should warn in the last half hour before closing', () => {
+    const status = getOpeningStatus(restaurant, new Date('2026-03-11T01:45:00Z'));
+
+    expect(status.state).toBe('closingSoon');
+    expect(status.label).toBe('Closes at 10:00 PM');
+    expect(status.changesAt).toEqual(new Date('2026-03-11T02:00:00Z'));
+  });
+
+  it('should say when a closed restaurant opens next', () => {
+    const labelAt = (iso: string) => getOpeningStatus(restaurant, new Date(iso)).label;
+
+    expect(labelAt('2026-03-10T12:00:00Z')).toBe('Opens at 11:00 AM'); // Tuesday morning
+    expect(labelAt('2026-03-10T03:00:00Z')).toBe('Opens tomorrow at 11:00 AM'); // Monday night
+    expect(labelAt('2026-03-11T03:00:00Z')).toBe('Opens Thu at 11:00 AM'); // past the holiday
+    expect(labelAt('2026-03-08T03:00:00Z')).toBe('Opens Mon at 11:00 AM'); // closed Sundays
+  });
+
+  it('should keep a late-night restaurant open past midnight', () => {
+    const lateNight = restaurantWith(createDailyHours([{ opensAt: '18:00', closesAt: '02:00' }], 'Europe/London'));
+
+    expect(getOpeningStatus(lateNight, new Date('2026-03-11T01:00:00Z')).label).toBe('Open until 2:00 AM');
+    expect(getOpeningStatus(lateNight, new Date('2026-03-11T01:40:00Z')).state).toBe('closingSoon');
+    expect(getOpeningStatus(lateNight, new Date('2026-03-11T02:00:00Z')).label).toBe('Opens at 6:00 PM');
+  });
+
+  it('should depend on the time zone the hours are in', () => {
+    const now = new Date('2026-03-10T17:00:00Z');
+    const inLosAngeles = restaurantWith(createDailyHours(lunchToLate, 'America/Los_Angeles'));
+    const inTokyo = restaurantWith(createDailyHours(lunchToLate, 'Asia/Tokyo'));
+
+    expect(isRestaurantOpen(inLosAngeles, now)).toBe(false); // 10:00 AM
+    expect(isRestaurantOpen(inTokyo, now)).toBe(false); // 2:00 AM
+    expect(isRestaurantOpen(restaurant, now)).toBe(true); // 1:00 PM
+  });
+
+  it('should close a restaurant that is not taking orders whatever its hours', () => {
+    const paused = { ...restaurant, isOpen: false };
+
+    expect(getOpeningStatus(paused, new Date('2026-03-10T15:00:00Z'))).toEqual({ state: 'closed', label: 'Closed' });
+  });
+
+  it('should follow isOpen alone without opening hours', () => {
+    const withoutHours = { ...restaurant, openingHours: undefined };
+
+    expect(getOpeningStatus(withoutHours, new Date('2026-03-11T03:00:00Z'))).toEqual({ state: 'open', label: 'Open' });
+  });
+
+  it('should stay closed without an opening this week', () => {
+    const neverOpen = restaurantWith(createDailyHours([], NEW_YORK));
+
+    expect(getOpeningStatus(neverOpen, new Date('2026-03-10T15:00:00Z'))).toEqual({ state: 'closed', label: 'Closed' });
+  });
+});
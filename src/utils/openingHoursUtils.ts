@@ -0,0 +1,284 @@
+/**
+ * Opening Hours Utilities
+ *
+ * When a restaurant is open: weekly hours with holiday exceptions, read in
+ * the restaurant's own time zone, and the open, closing soon or opens at
+ * status customers see.
+ */
+
+import { OpeningHours, OpeningPeriod, Restaurant, Weekday } from '../types';
+
+export const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+// How long before closing a restaurant shows as closing soon
+export const CLOSING_SOON_MINUTES = 30;
+
+// How far ahead to look for the next opening
+const LOOKAHEAD_DAYS = 7;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export type OpeningState = 'open' | 'closingSoon' | 'closed';
+
+export interface OpeningStatus {
+  state: OpeningState;
+  label: string; // e.g. "Open until 10:00 PM", "Closes at 9:45 PM" or "Opens tomorrow at 11:00 AM"
+  closesAt?: Date;
+  opensAt?: Date; // the next opening when closed, if there is one this week
+  changesAt?: Date; // when the status next changes, if it will
+}
+
+// A stretch of time the restaurant is open
+export interface OpeningWindow {
+  start: Date;
+  end: Date;
+}
+
+// A calendar date in some time zone
+interface ZonedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface ZonedDateTime extends ZonedDate {
+  minutes: number; // after midnight
+}
+
+/**
+ * Minutes after midnight of an "HH:MM" time, or null if it isn't one
+ */
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = TIME_OF_DAY_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Opening hours with the same periods every day of the week
+ */
+export const createDailyHours = (periods: OpeningPeriod[], timeZone?: string): OpeningHours => ({
+  ...(timeZone ? { timeZone } : {}),
+  weekly: WEEKDAYS.reduce(
+    (weekly, weekday) => ({ ...weekly, [weekday]: periods }),
+    {} as Record<Weekday, OpeningPeriod[]>
+  ),
+});
+
+export const DEFAULT_OPENING_HOURS: OpeningHours = createDailyHours([{ opensAt: '11:00', closesAt: '22:00' }]);
+
+export const getOpeningHours = (restaurant: Restaurant): OpeningHours =>
+  restaurant.openingHours ?? DEFAULT_OPENING_HOURS;
+
+export const getTimeZone = (hours: OpeningHours): string =>
+  hours.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Building a formatter is slow, so keep one per time zone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * What the calendar and clock read at an instant in a time zone
+ */
+const toZonedDateTime = (date: Date, timeZone: string): ZonedDateTime => {
+  const parts: Record<string, number> = {};
+  getZonedFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    // Some engines still read midnight as hour 24
+    minutes: (parts.hour % 24) * 60 + parts.minute,
+  };
+};
+
+/**
+ * How far a time zone's clocks are ahead of UTC at an instant
+ */
+const getOffsetMs = (date: Date, timeZone: string): number => {
+  const zoned = toZonedDateTime(date, timeZone);
+  const wholeMinute = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  return Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, zoned.minutes) - wholeMinute;
+};
+
+/**
+ * The instant a time zone's clocks read some minutes after midnight on a
+ * date. Minutes past a day run on into the next.
+ */
+const fromZonedTime = (date: ZonedDate, minutes: number, timeZone: string): Date => {
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  // Check the offset again at the first guess, in case daylight saving changed in between
+  const guess = asUtc - getOffsetMs(new Date(asUtc), timeZone);
+  return new Date(asUtc - getOffsetMs(new Date(guess), timeZone));
+};
+
+const addDays = (date: ZonedDate, days: number): ZonedDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+// "YYYY-MM-DD", which also sorts in date order
+const toDateKey = (date: ZonedDate): string =>
+  `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+
+const getWeekday = (date: ZonedDate): Weekday =>
+  WEEKDAYS[new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()];
+
+/**
+ * The periods the restaurant opens for on a date: a holiday's if it has
+ * one, else the usual ones for that day of the week
+ */
+const getPeriodsOn = (hours: OpeningHours, date: ZonedDate): OpeningPeriod[] => {
+  const holiday = hours.holidays?.find(candidate => candidate.date === toDateKey(date));
+  return holiday ? holiday.periods : hours.weekly[getWeekday(date)] ?? [];
+};
+
+/**
+ * Midnight in the restaurant's time zone, some days from the day a date is on
+ */
+export const getStartOfRestaurantDay = (restaurant: Restaurant, date: Date, dayOffset: number = 0): Date => {
+  const timeZone = getTimeZone(getOpeningHours(restaurant));
+  return fromZonedTime(addDays(toZonedDateTime(date, timeZone), dayOffset), 0, timeZone);
+};
+
+/**
+ * Every stretch the restaurant is open that overlaps from to to, earliest
+ * first. Periods that run into each other are joined, and the night before
+ * counts for restaurants open past midnight.
+ */
+export const getOpeningWindows = (restaurant: Restaurant, from: Date, to: Date): OpeningWindow[] => {
+  const hours = getOpeningHours(restaurant);
+  const timeZone = getTimeZone(hours);
+  const lastDateKey = toDateKey(toZonedDateTime(to, timeZone));
+  const windows: OpeningWindow[] = [];
+
+  for (
+    let date = addDays(toZonedDateTime(from, timeZone), -1);
+    toDateKey(date) <= lastDateKey;
+    date = addDays(date, 1)
+  ) {
+    getPeriodsOn(hours, date).forEach(period => {
+      const opensAt = parseTimeOfDay(period.opensAt);
+      const closesAt = parseTimeOfDay(period.closesAt);
+      if (opensAt === null || closesAt === null) return;
+
+      // Closing at or before opening time is after midnight
+      const start = fromZonedTime(date, opensAt, timeZone);
+      const end = fromZonedTime(date, closesAt > opensAt ? closesAt : closesAt + DAY_MINUTES, timeZone);
+      if (end.getTime() > from.getTime() && start.getTime() < to.getTime()) {
+        windows.push({ start, end });
+      }
+    });
+  }
+
+  return windows
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .reduce<OpeningWindow[]>((joined, window) => {
+      const previous = joined[joined.length - 1];
+      if (previous && window.start.getTime() <= previous.end.getTime()) {
+        if (window.end.getTime() > previous.end.getTime()) previous.end = window.end;
+      } else {
+        joined.push({ ...window });
+      }
+      return joined;
+    }, []);
+};
+
+const formatTime = (date: Date, timeZone: string): string =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+
+/**
+ * When a closed restaurant opens next, e.g. "Opens at 5:00 PM",
+ * "Opens tomorrow at 11:00 AM" or "Opens Tue at 11:00 AM"
+ */
+const formatOpensAt = (opensAt: Date, now: Date, timeZone: string): string => {
+  const today = toZonedDateTime(now, timeZone);
+  const openingDay = toDateKey(toZonedDateTime(opensAt, timeZone));
+  const time = formatTime(opensAt, timeZone);
+
+  if (openingDay === toDateKey(today)) return `Opens at ${time}`;
+  if (openingDay === toDateKey(addDays(today, 1))) return `Opens tomorrow at ${time}`;
+  return `Opens ${opensAt.toLocaleDateString('en-US', { weekday: 'short', timeZone })} at ${time}`;
+};
+
+/**
+ * Whether a restaurant is open at an instant, and what to tell customers.
+ * A restaurant that isn't taking orders is closed whatever its hours say;
+ * one without hours of its own is open whenever it's taking orders.
+ */
+export const getOpeningStatus = (restaurant: Restaurant, now: Date = new Date()): OpeningStatus => {
+  if (!restaurant.isOpen) {
+    return { state: 'closed', label: 'Closed' };
+  }
+  if (!restaurant.openingHours) {
+    return { state: 'open', label: 'Open' };
+  }
+
+  const timeZone = getTimeZone(restaurant.openingHours);
+  const lookaheadEnd = new Date(now.getTime() + LOOKAHEAD_DAYS * DAY_MINUTES * MINUTE_MS);
+  const [current] = getOpeningWindows(restaurant, now, lookaheadEnd);
+
+  if (!current) {
+    return { state: 'closed', label: 'Closed' };
+  }
+  if (current.start.getTime() > now.getTime()) {
+    return {
+      state: 'closed',
+      label: formatOpensAt(current.start, now, timeZone),
+      opensAt: current.start,
+      changesAt: current.start,
+    };
+  }
+
+  // Open around the clock for as far as we look
+  if (current.end.getTime() >= lookaheadEnd.getTime()) {
+    return { state: 'open', label: 'Open' };
+  }
+
+  const closingSoonAt = new Date(current.end.getTime() - CLOSING_SOON_MINUTES * MINUTE_MS);
+  if (now.getTime() >= closingSoonAt.getTime()) {
+    return {
+      state: 'closingSoon',
+      label: `Closes at ${formatTime(current.end, timeZone)}`,
+      closesAt: current.end,
+      changesAt: current.end,
+    };
+  }
+  return {
+    state: 'open',
+    label: `Open until ${formatTime(current.end, timeZone)}`,
+    closesAt: current.end,
+    changesAt: closingSoonAt,
+  };
+};
+
+export const isRestaurantOpen = (restaurant: Restaurant, now: Date = new Date()): boolean =>
+  getOpeningStatus(restaurant, now).state !== 'closed';
@@ -0,0 +1,149 @@
+/**
+ * Order Lifecycle Tests
+ */
+
+import {
+  canTransition,
+  isTerminalStatus,
+  getTransitionPath,
+  canReachStatus,
+  getStatusHistory,
+  getStatusTimestamp,
+  transitionOrder,
+  advanceOrderTo,
+  startOrderLifecycle,
+} from './orderLifecycle';
+import { generateMockOrder, generateMockRestaurant, generateMockUser } from './mockData';
+import { Order } from '../types';
+
+const createdAt = new Date('2026-03-01T18:00:00Z');
+
+const createOrder = (overrides: Partial<Order> = {}): Order =>
+  startOrderLifecycle({
+    ...generateMockOrder(generateMockUser(), generateMockRestaurant(), []),
+    status: 'pending',
+    statusHistory: undefined,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  });
+
+describe('Order Lifecycle', () => {
+  describe('canTransition', () => {
+    it('should allow the normal progression', () => {
+      expect(canTransition('pending', 'confirmed')).toBe(true);
+      expect(canTransition('confirmed', 'preparing')).toBe(true);
+      expect(canTransition('preparing', 'out_for_delivery')).toBe(true);
+      expect(canTransition('out_for_delivery', 'delivered')).toBe(true);
+    });
+
+    it('should allow cancelling until the order leaves the restaurant', () => {
+      expect(canTransition('pending', 'cancelled')).toBe(true);
+      expect(canTransition('preparing', 'cancelled')).toBe(true);
+      expect(canTransition('out_for_delivery', 'cancelled')).toBe(false);
+    });
+
+    it('should confirm or cancel scheduled orders', () => {
+      expect(canTransition('scheduled', 'confirmed')).toBe(true);
+      expect(canTransition('scheduled', 'cancelled')).toBe(true);
+      expect(canTransition('scheduled', 'preparing')).toBe(false);
+      expect(canTransition('pending', 'scheduled')).toBe(false);
+    });
+
+    it('should reject skipping steps and going backwards', () => {
+      expect(canTransition('pending', 'delivered')).toBe(false);
+      expect(canTransition('preparing', 'confirmed')).toBe(false);
+      expect(canTransition('delivered', 'pending')).toBe(false);
+    });
+  });
+
+  describe('isTerminalStatus', () => {
+    it('should treat delivered and cancelled as final', () => {
+      expect(isTerminalStatus('delivered')).toBe(true);
+      expect(isTerminalStatus('cancelled')).toBe(true);
+      expect(isTerminalStatus('preparing')).toBe(false);
+    });
+  });
+
+  describe('getTransitionPath', () => {
+    it('should list the statuses between two statuses', () => {
+      expect(getTransitionPath('pending', 'out_for_delivery')).toEqual([
+        'confirmed',
+        'preparing',
+        'out_for_delivery',
+      ]);
+    });
+
+    it('should return an empty path for the same status', () => {
+      expect(getTransitionPath('preparing', 'preparing')).toEqual([]);
+    });
+
+    it('should return null for unreachable statuses', () => {
+      expect(getTransitionPath('delivered', 'cancelled')).toBeNull();
+      expect(getTransitionPath('preparing', 'pending')).toBeNull();
+    });
+  });
+
+  describe('canReachStatus', () => {
+    it('should only accept statuses ahead of the current one', () => {
+      expect(canReachStatus('confirmed', 'delivered')).toBe(true);
+      expect(canReachStatus('confirmed', 'confirmed')).toBe(false);
+      expect(canReachStatus('delivered', 'confirmed')).toBe(false);
+    });
+  });
+
+  describe('transitionOrder', () => {
+    it('should update status and record the transition time', () => {
+      const at = new Date('2026-03-01T18:05:00Z');
+      const order = transitionOrder(createOrder(), 'confirmed', at);
+
+      expect(order.status).toBe('confirmed');
+      expect(order.updatedAt).toBe(at);
+      expect(order.statusHistory).toEqual([
+        { status: 'pending', at: createdAt },
+        { status: 'confirmed', at },
+      ]);
+    });
+
+    it('should throw for disallowed transitions', () => {
+      expect(() => transitionOrder(createOrder(), 'delivered')).toThrow(
+        'Cannot move order from pending to delivered'
+      );
+    });
+  });
+
+  describe('advanceOrderTo', () => {
+    it('should record every intermediate status', () => {
+      const at = new Date('2026-03-01T18:30:00Z');
+      const order = advanceOrderTo(createOrder(), 'out_for_delivery', at);
+
+      expect(order.status).toBe('out_for_delivery');
+      expect(order.statusHistory?.map(event => event.status)).toEqual([
+        'pending',
+        'confirmed',
+        'preparing',
+        'out_for_delivery',
+      ]);
+      expect(getStatusTimestamp(order, 'preparing')).toEqual(at);
+    });
+
+    it('should leave the order unchanged for its current status', () => {
+      const order = createOrder({ status: 'confirmed' });
+      expect(advanceOrderTo(order, 'confirmed')).toBe(order);
+    });
+
+    it('should throw for unreachable statuses', () => {
+      const order = advanceOrderTo(createOrder(), 'delivered');
+      expect(() => advanceOrderTo(order, 'cancelled')).toThrow();
+    });
+  });
+
+  describe('getStatusHistory', () => {
+    it('should fall back to the creation time for orders without history', () => {
+      const order = { ...createOrder({ status: 'preparing' }), statusHistory: undefined };
+
+      expect(getStatusHistory(order)).toEqual([{ status: 'preparing', at: createdAt }]);
+      expect(getStatusTimestamp(order, 'delivered')).toBeUndefined();
+    });
+  });
+});
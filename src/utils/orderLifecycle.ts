@@ -0,0 +1,173 @@
+/**
+ * Order Lifecycle
+ *
+ * State machine over Order['status'] with the allowed transitions and a
+ * timestamped history entry for every transition
+ */
+
+import { Order, OrderStatus, OrderStatusEvent } from '../types';
+
+/**
+ * Statuses each status may move to directly
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  // Scheduled orders are confirmed once their slot comes up
+  scheduled: ['confirmed', 'cancelled'],
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'cancelled'],
+  preparing: ['out_for_delivery', 'cancelled'],
+  out_for_delivery: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+/**
+ * The normal progression of an order, used for timelines
+ */
+export const ORDER_STATUS_SEQUENCE: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'preparing',
+  'out_for_delivery',
+  'delivered',
+];
+
+/**
+ * Short customer-facing name of each status
+ */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  scheduled: 'Scheduled',
+  pending: 'Placed',
+  confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  out_for_delivery: 'On the way',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Check whether an order can move directly from one status to another
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Check whether a status is final
+ */
+export const isTerminalStatus = (status: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+};
+
+/**
+ * Shortest sequence of transitions from one status to another
+ * @returns statuses to pass through, ending with the target; null if unreachable
+ */
+export const getTransitionPath = (from: OrderStatus, to: OrderStatus): OrderStatus[] | null => {
+  if (from === to) return [];
+
+  const previous: Partial<Record<OrderStatus, OrderStatus>> = {};
+  const queue: OrderStatus[] = [from];
+  const visited = new Set<OrderStatus>([from]);
+
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+
+    for (const next of ORDER_STATUS_TRANSITIONS[status]) {
+      if (visited.has(next)) continue;
+
+      visited.add(next);
+      previous[next] = status;
+
+      if (next === to) {
+        const path: OrderStatus[] = [to];
+        let step = status;
+        while (step !== from) {
+          path.unshift(step);
+          step = previous[step]!;
+        }
+        return path;
+      }
+
+      queue.push(next);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check whether an order can eventually reach a status from where it is now
+ */
+export const canReachStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+  const path = getTransitionPath(from, to);
+  return path !== null && path.length > 0;
+};
+
+/**
+ * Status history of an order, falling back to its creation for orders
+ * recorded before history was tracked
+ */
+export const getStatusHistory = (order: Order): OrderStatusEvent[] => {
+  if (order.statusHistory && order.statusHistory.length > 0) {
+    return order.statusHistory;
+  }
+
+  return [{ status: order.status, at: new Date(order.createdAt) }];
+};
+
+/**
+ * When an order entered a status, if it has
+ */
+export const getStatusTimestamp = (order: Order, status: OrderStatus): Date | undefined => {
+  const event = getStatusHistory(order).find(entry => entry.status === status);
+  return event ? new Date(event.at) : undefined;
+};
+
+/**
+ * Move an order to a new status, recording when it happened
+ * @throws Error if the transition is not allowed
+ */
+export const transitionOrder = (order: Order, to: OrderStatus, at: Date = new Date()): Order => {
+  if (!canTransition(order.status, to)) {
+    throw new Error(`Cannot move order from ${order.status} to ${to}`);
+  }
+
+  return {
+    ...order,
+    status: to,
+    statusHistory: [...getStatusHistory(order), { status: to, at }],
+    updatedAt: at,
+  };
+};
+
+/**
+ * Move an order forward to a status, passing through any statuses in
+ * between. Status sources may skip steps (e.g. a slow poll), so every
+ * intermediate transition is recorded with the same timestamp.
+ * @throws Error if the status cannot be reached from the current one
+ */
+export const advanceOrderTo = (order: Order, to: OrderStatus, at: Date = new Date()): Order => {
+  const path = getTransitionPath(order.status, to);
+
+  if (path === null) {
+    throw new Error(`Cannot move order from ${order.status} to ${to}`);
+  }
+
+  return path.reduce((current, status) => transitionOrder(current, status, at), order);
+};
+
+/**
+ * Start a new order's history at its current status
+ */
+export const startOrderLifecycle = (order: Order): Order => ({
+  ...order,
+  statusHistory: [{ status: order.status, at: new Date(order.createdAt) }],
+});
+
+/**
+ * Format a status timestamp for display, e.g. "6:30 PM"
+ */
+export const formatStatusTime = (date: Date): string => {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
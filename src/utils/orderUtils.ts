@@ -0,0 +1,71 @@
+/**
+ * Order Utilities
+ *
+ * Build order placement requests from the cart and checkout form
+ */
+
+import { CartItem, CheckoutFormData, OrderDiscount, PriceLine, Restaurant } from '../types';
+import type { PlaceOrderRequest } from '../services/orderService';
+import { createOrderTip, withTip } from './tipUtils';
+
+export interface OrderRequestInput {
+  userId: string;
+  restaurant: Restaurant;
+  items: CartItem[];
+  totals: {
+    subtotal: number;
+    deliveryFee: number;
+    tax: number;
+    total: number;
+    priceLines?: PriceLine[];
+    discount?: OrderDiscount;
+  };
+  formData: CheckoutFormData;
+}
+
+/**
+ * Build the request for placing an order, with the tip chosen at checkout
+ * added to its total
+ * @throws Error if the cart is empty
+ */
+export const buildOrderRequest = ({
+  userId,
+  restaurant,
+  items,
+  totals,
+  formData,
+}: OrderRequestInput): PlaceOrderRequest => {
+  if (items.length === 0) {
+    throw new Error('Cannot place an order with an empty cart');
+  }
+
+  const tip = createOrderTip(formData.tip, totals.subtotal);
+  const { total, priceLines } = tip ? withTip(totals, tip) : totals;
+
+  return {
+    userId,
+    restaurant,
+    items: items.map(item => ({ ...item })),
+    subtotal: totals.subtotal,
+    deliveryFee: totals.deliveryFee,
+    tax: totals.tax,
+    total,
+    ...(priceLines?.length ? { priceLines: priceLines.map(line => ({ ...line })) } : {}),
+    ...(totals.discount ? { discount: { ...totals.discount } } : {}),
+    ...(tip ? { tip: { ...tip, choice: { ...tip.choice } } } : {}),
+    deliveryAddress: { ...formData.deliveryAddress },
+    paymentMethod: formData.paymentMethod,
+    contactInfo: { ...formData.contactInfo },
+    ...(formData.specialInstructions ? { specialInstructions: formData.specialInstructions } : {}),
+    ...(formData.deliverySlot ? { scheduledSlot: { ...formData.deliverySlot } } : {}),
+  };
+};
+
+/**
+ * Create a unique key so retries of the same order placement are only
+ * processed once by the server
+ */
+export const createIdempotencyKey = (): string => {
+  const random = Math.random().toString(36).slice(2, 10);
+  return `order-${Date.now().toString(36)}-${random}`;
+};
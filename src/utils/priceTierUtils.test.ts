@@ -0,0 +1,53 @@
+/**
+ * Price Tier Utils Tests
+ */
+
+import {
+  formatPriceTier,
+  formatPriceTiers,
+  getAverageItemPrice,
+  getPriceTier,
+  parsePriceTier,
+} from './priceTierUtils';
+import { generateMockMenuItem } from './mockData';
+
+describe('getAverageItemPrice', () => {
+  it('should average the available items only', () => {
+    const menu = [
+      generateMockMenuItem('r-1', { price: 10, isAvailable: true }),
+      generateMockMenuItem('r-1', { price: 20, isAvailable: true }),
+      generateMockMenuItem('r-1', { price: 90, isAvailable: false }),
+    ];
+
+    expect(getAverageItemPrice(menu)).toBe(15);
+  });
+
+  it('should be undefined with nothing to order', () => {
+    expect(getAverageItemPrice([])).toBeUndefined();
+    expect(getAverageItemPrice([generateMockMenuItem('r-1', { isAvailable: false })])).toBeUndefined();
+  });
+});
+
+describe('getPriceTier', () => {
+  it('should place prices on the $ to $$$$ scale', () => {
+    expect(getPriceTier(9.5)).toBe(1);
+    expect(getPriceTier(15)).toBe(2);
+    expect(getPriceTier(24.99)).toBe(2);
+    expect(getPriceTier(32)).toBe(3);
+    expect(getPriceTier(40)).toBe(4);
+  });
+});
+
+describe('formatting', () => {
+  it('should round-trip tiers through dollar signs', () => {
+    expect(formatPriceTier(3)).toBe('$$$');
+    expect(parsePriceTier('$$$')).toBe(3);
+    expect(parsePriceTier('$$$$$')).toBeUndefined();
+  });
+
+  it('should collapse consecutive tiers into ranges', () => {
+    expect(formatPriceTiers([2])).toBe('$$');
+    expect(formatPriceTiers([4, 1, 2])).toBe('$–$$, $$$$');
+    expect(formatPriceTiers([1, 2, 3, 4])).toBe('$–$$$$');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Price Tier Utilities
+ *
+ * Place a restaurant on the $ to $$$$ scale from its menu prices
+ */
+
+import { MenuItem, PriceTier } from '../types';
+
+export const PRICE_TIERS: PriceTier[] = [1, 2, 3, 4];
+
+// Highest average item price, in dollars, for each tier below $$$$
+const PRICE_TIER_CEILINGS: Record<Exclude<PriceTier, 4>, number> = {
+  1: 15,
+  2: 25,
+  3: 40,
+};
+
+const PRICE_TIER_DESCRIPTIONS: Record<PriceTier, string> = {
+  1: 'Inexpensive',
+  2: 'Moderate',
+  3: 'Pricey',
+  4: 'Very expensive',
+};
+
+/**
+ * Mean price of the available menu items, or undefined with nothing to order
+ */
+export const getAverageItemPrice = (menuItems: MenuItem[]): number | undefined => {
+  const availableItems = menuItems.filter(item => item.isAvailable);
+  if (availableItems.length === 0) return undefined;
+
+  const total = availableItems.reduce((sum, item) => sum + item.price, 0);
+  return Math.round((total / availableItems.length) * 100) / 100;
+};
+
+/**
+ * Price tier for an average item price
+ */
+export const getPriceTier = (averageItemPrice: number): PriceTier => {
+  if (averageItemPrice < PRICE_TIER_CEILINGS[1]) return 1;
+  if (averageItemPrice < PRICE_TIER_CEILINGS[2]) return 2;
+  if (averageItemPrice < PRICE_TIER_CEILINGS[3]) return 3;
+  return 4;
+};
+
+/**
+ * Display a tier as dollar signs, e.g. 3 -> "$$$"
+ */
+export const formatPriceTier = (tier: PriceTier): string => '$'.repeat(tier);
+
+/**
+ * Parse dollar signs back into a tier, or undefined if they aren't one
+ */
+export const parsePriceTier = (label: string): PriceTier | undefined =>
+  PRICE_TIERS.find(tier => formatPriceTier(tier) === label);
+
+/**
+ * Spoken description of a tier for screen readers
+ */
+export const describePriceTier = (tier: PriceTier): string => PRICE_TIER_DESCRIPTIONS[tier];
+
+/**
+ * Summarize selected tiers, collapsing consecutive ones into a range,
+ * e.g. [1, 2, 4] -> "$–$$, $$$$"
+ */
+export const formatPriceTiers = (tiers: PriceTier[]): string => {
+  const sorted = Array.from(new Set(tiers)).sort((a, b) => a - b);
+  const ranges: PriceTier[][] = [];
+
+  sorted.forEach(tier => {
+    const currentRange = ranges[ranges.length - 1];
+    if (currentRange && currentRange[currentRange.length - 1] === tier - 1) {
+      currentRange.push(tier);
+    } else {
+      ranges.push([tier]);
+    }
+  });
+
+  return ranges
+    .map(range => range.length === 1
+      ? formatPriceTier(range[0])
+      : `${formatPriceTier(range[0])}–${formatPriceTier(range[range.length - 1])}`)
+    .join(', ');
+};
@@ -0,0 +1,189 @@
+/**
+ * Pricing Utils Tests
+ */
+
+import {
+  DEFAULT_PRICING_RULES,
+  calculatePricing,
+  configurePricingRules,
+  formatCents,
+  getPriceLines,
+  getPricingRules,
+  toCents,
+} from './pricingUtils';
+import { generateMockMenuItem, generateMockRestaurant } from './mockData';
+import { CartItem, DeliveryZone, Promotion } from '../types';
+
+const restaurant = generateMockRestaurant({
+  deliveryFee: 1.99,
+  location: { address: '1 Market St', coordinates: { latitude: 37.7749, longitude: -122.4194 } },
+});
+
+// About 4.4 km and 55 km north of the restaurant
+const nearby = { latitude: 37.8149, longitude: -122.4194 };
+const faraway = { latitude: 38.2749, longitude: -122.4194 };
+
+const mission: DeliveryZone = {
+  id: 'zone-mission',
+  name: 'Mission',
+  boundary: [],
+  deliveryFee: 3.99,
+  minimumOrder: 15,
+};
+
+const itemsCosting = (price: number, quantity: number = 1): CartItem[] => [
+  { menuItem: generateMockMenuItem(restaurant.id, { price }), quantity },
+];
+
+const amountOf = (lines: { type: string; amountCents: number }[], type: string) =>
+  lines.find(line => line.type === type)?.amountCents;
+
+describe('formatCents', () => {
+  it('should show cents as dollars', () => {
+    expect(formatCents(1250)).toBe('$12.50');
+    expect(formatCents(5)).toBe('$0.05');
+    expect(formatCents(-500)).toBe('-$5.00');
+    expect(toCents(0.1 + 0.2)).toBe(30);
+  });
+});
+
+describe('calculatePricing', () => {
+  afterEach(() => {
+    configurePricingRules(DEFAULT_PRICING_RULES);
+  });
+
+  it('should itemize an order and add the lines up to its total', () => {
+    const pricing = calculatePricing({ items: itemsCosting(25), restaurant, deliveryState: 'CA' });
+
+    expect(pricing.lines).toEqual([
+      { type: 'subtotal', label: 'Subtotal', amountCents: 2500 },
+      { type: 'deliveryFee', label: 'Delivery Fee', amountCents: 299 },
+      { type: 'serviceFee', label: 'Service Fee', amountCents: 125 },
+      { type: 'tax', label: 'Tax', amountCents: 181, detail: 'CA 7.25%' },
+    ]);
+    expect(pricing.totalCents).toBe(3105);
+  });
+
+  it('should work in whole cents whatever the prices', () => {
+    const pricing = calculatePricing({ items: itemsCosting(0.1, 3), restaurant });
+
+    expect(pricing.subtotalCents).toBe(30);
+    pricing.lines.forEach(line => expect(Number.isInteger(line.amountCents)).toBe(true));
+    expect(pricing.totalCents).toBe(pricing.lines.reduce((sum, line) => sum + line.amountCents, 0));
+  });
+
+  it('should tax fees only where the state does', () => {
+    const taxIn = (deliveryState?: string) =>
+      calculatePricing({ items: itemsCosting(25), restaurant, deliveryState }).taxCents;
+
+    expect(taxIn('NY')).toBe(117); // 4% of food, delivery and service
+    expect(taxIn('IL')).toBe(164); // 6.25% of food and service
+    expect(taxIn('ca')).toBe(181); // 7.25% of food alone
+    expect(taxIn('WA')).toBe(200); // 8% default
+    expect(taxIn()).toBe(200);
+  });
+
+  it('should keep the service fee between its minimum and maximum', () => {
+    const serviceFeeFor = (price: number) =>
+      calculatePricing({ items: itemsCosting(price), restaurant }).serviceFeeCents;
+
+    expect(serviceFeeFor(10)).toBe(99);
+    expect(serviceFeeFor(40)).toBe(200);
+    expect(serviceFeeFor(200)).toBe(499);
+  });
+
+  it('should charge the small order fee only below the threshold', () => {
+    const below = calculatePricing({ items: itemsCosting(19.99), restaurant });
+    const atThreshold = calculatePricing({ items: itemsCosting(20), restaurant });
+
+    expect(amountOf(below.lines, 'smallOrderFee')).toBe(199);
+    expect(below.lines.find(line => line.type === 'smallOrderFee')?.detail).toBe('Orders under $20.00');
+    expect(atThreshold.smallOrderFeeCents).toBe(0);
+    expect(amountOf(atThreshold.lines, 'smallOrderFee')).toBeUndefined();
+  });
+
+  it('should charge for distance beyond what the delivery fee covers, up to a cap', () => {
+    const nearbyPricing = calculatePricing({ items: itemsCosting(25), restaurant, zone: mission, deliveryLocation: nearby });
+    const farawayPricing = calculatePricing({ items: itemsCosting(25), restaurant, deliveryLocation: faraway });
+
+    // The zone fee and two started kilometres past the first three
+    expect(nearbyPricing.deliveryFeeCents).toBe(499);
+    expect(nearbyPricing.lines[1].detail).toBe('Mission · 4.4 km');
+    expect(farawayPricing.deliveryFeeCents).toBe(599);
+  });
+
+  it('should charge the restaurant fee when it is higher', () => {
+    const pricey = { ...restaurant, deliveryFee: 5.49 };
+
+    expect(calculatePricing({ items: itemsCosting(25), restaurant: pricey }).deliveryFeeCents).toBe(549);
+  });
+
+  describe('promotions', () => {
+    const promotion = (discount: Promotion['discount']): Promotion => ({
+      code: 'TEST',
+      description: 'Test promotion',
+      discount,
+    });
+    const priceWith = (discount: Promotion['discount'], price: number = 40) =>
+      calculatePricing({ items: itemsCosting(price), restaurant, deliveryState: 'NY', promotion: promotion(discount) });
+
+    it('should take a percentage off the subtotal, up to its cap', () => {
+      expect(priceWith({ type: 'percentage', basisPoints: 1000 }).discountCents).toBe(400);
+      expect(priceWith({ type: 'percentage', basisPoints: 5000, maxCents: 1000 }).discountCents).toBe(1000);
+    });
+
+    it('should not take more than the subtotal off', () => {
+      expect(priceWith({ type: 'flat', amountCents: 500 }).discountCents).toBe(500);
+      expect(priceWith({ type: 'flat', amountCents: 500 }, 3).discountCents).toBe(300);
+    });
+
+    it('should take the delivery fee off for free delivery', () => {
+      expect(priceWith({ type: 'freeDelivery' }).discountCents).toBe(299);
+    });
+
+    it('should show the discount as a negative line and tax what is left', () => {
+      const pricing = priceWith({ type: 'flat', amountCents: 500 });
+
+      expect(pricing.lines.find(line => line.type === 'discount')).toEqual({
+        type: 'discount',
+        label: 'Discount',
+        amountCents: -500,
+        detail: 'TEST',
+      });
+      // 4% of 40.00 - 5.00 food, 2.99 delivery and 2.00 service
+      expect(pricing.taxCents).toBe(160);
+      expect(pricing.totalCents).toBe(4000 + 299 + 200 - 500 + 160);
+    });
+  });
+
+  it('should price an empty cart at nothing', () => {
+    expect(calculatePricing({ items: [], restaurant })).toMatchObject({ lines: [], totalCents: 0 });
+    expect(calculatePricing({ items: itemsCosting(25) })).toMatchObject({ lines: [], totalCents: 0 });
+  });
+
+  it('should price by the configured rules', () => {
+    configurePricingRules({
+      ...DEFAULT_PRICING_RULES,
+      serviceFee: { rateBasisPoints: 0, minCents: 0, maxCents: 0 },
+    });
+
+    expect(getPricingRules().serviceFee.maxCents).toBe(0);
+    expect(calculatePricing({ items: itemsCosting(25), restaurant }).serviceFeeCents).toBe(0);
+  });
+});
+
+describe('getPriceLines', () => {
+  it('should use the itemized lines when there are some', () => {
+    const { lines } = calculatePricing({ items: itemsCosting(25), restaurant });
+
+    expect(getPriceLines({ subtotal: 25, deliveryFee: 2.99, tax: 2, priceLines: lines })).toBe(lines);
+  });
+
+  it('should fall back to subtotal, delivery fee and tax for older orders', () => {
+    expect(getPriceLines({ subtotal: 12.99, deliveryFee: 2.99, tax: 1.04 })).toEqual([
+      { type: 'subtotal', label: 'Subtotal', amountCents: 1299 },
+      { type: 'deliveryFee', label: 'Delivery Fee', amountCents: 299 },
+      { type: 'tax', label: 'Tax', amountCents: 104 },
+    ]);
+  });
+});
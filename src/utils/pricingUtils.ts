@@ -0,0 +1,280 @@
+/**
+ * Pricing Utilities
+ *
+ * What an order costs: the food, delivery, service and small-order fees, any
+ * promo code discount, and tax for the state it's delivered to. Everything is worked out in whole
+ * cents, so the lines of a breakdown always add up to its total.
+ */
+
+import { CartItem, Coordinates, DeliveryZone, PriceLine, Promotion, Restaurant } from '../types';
+import { getCartItemUnitPrice } from './menuOptionUtils';
+import { getRestaurantDistanceKm } from './nearbyUtils';
+import { formatDistance } from './geoUtils';
+
+export interface TaxRule {
+  rateBasisPoints: number; // 725 is 7.25%
+  taxesDeliveryFee: boolean;
+  taxesServiceFees: boolean; // the service and small-order fees
+}
+
+export interface PricingRules {
+  tax: {
+    byState: Record<string, TaxRule>; // keyed by two-letter state code
+    default: TaxRule; // states without a rule, or an unknown state
+  };
+  delivery: {
+    baseFeeCents: number; // outside every delivery zone
+    includedKm: number; // how far the base or zone fee covers
+    perKmCents: number; // for each started kilometre beyond that
+    maxDistanceFeeCents: number;
+  };
+  serviceFee: {
+    rateBasisPoints: number; // of the subtotal
+    minCents: number;
+    maxCents: number;
+  };
+  smallOrderFee: {
+    thresholdCents: number; // subtotals under this pay the fee
+    feeCents: number;
+  };
+}
+
+// Mock pricing rules - in a real app, these would come from an API
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  tax: {
+    byState: {
+      CA: { rateBasisPoints: 725, taxesDeliveryFee: false, taxesServiceFees: false },
+      IL: { rateBasisPoints: 625, taxesDeliveryFee: false, taxesServiceFees: true },
+      NY: { rateBasisPoints: 400, taxesDeliveryFee: true, taxesServiceFees: true },
+      TX: { rateBasisPoints: 625, taxesDeliveryFee: true, taxesServiceFees: true },
+    },
+    default: { rateBasisPoints: 800, taxesDeliveryFee: false, taxesServiceFees: false },
+  },
+  delivery: {
+    baseFeeCents: 299,
+    includedKm: 3,
+    perKmCents: 50,
+    maxDistanceFeeCents: 300,
+  },
+  serviceFee: {
+    rateBasisPoints: 500,
+    minCents: 99,
+    maxCents: 499,
+  },
+  smallOrderFee: {
+    thresholdCents: 2000,
+    feeCents: 199,
+  },
+};
+
+// The rules orders are priced by
+let activeRules: PricingRules = DEFAULT_PRICING_RULES;
+
+export const getPricingRules = (): PricingRules => activeRules;
+
+/**
+ * Price orders by different rules from now on, e.g. in tests
+ */
+export const configurePricingRules = (rules: PricingRules): void => {
+  activeRules = rules;
+};
+
+export const toCents = (dollars: number): number => Math.round(dollars * 100);
+
+export const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Format cents as dollars, e.g. 1250 as "$12.50" and -500 as "-$5.00"
+ */
+export const formatCents = (cents: number): string =>
+  `${cents < 0 ? '-' : ''}$${fromCents(Math.abs(cents)).toFixed(2)}`;
+
+const formatRate = (basisPoints: number): string => `${basisPoints / 100}%`;
+
+const percentOf = (cents: number, basisPoints: number): number =>
+  Math.round((cents * basisPoints) / 10000);
+
+export interface PricingInput {
+  items: CartItem[];
+  restaurant?: Restaurant;
+  zone?: DeliveryZone | null;
+  deliveryLocation?: Coordinates | null;
+  deliveryState?: string; // two-letter code of the state delivered to
+  promotion?: Promotion; // one the cart is eligible for
+}
+
+export interface Pricing {
+  lines: PriceLine[]; // empty for an empty cart
+  subtotalCents: number;
+  deliveryFeeCents: number;
+  serviceFeeCents: number;
+  smallOrderFeeCents: number;
+  discountCents: number; // taken off, so never negative
+  taxCents: number;
+  totalCents: number;
+}
+
+/**
+ * What the items cost before fees
+ */
+export const getSubtotalCents = (items: CartItem[]): number =>
+  items.reduce((sum, item) => sum + toCents(getCartItemUnitPrice(item)) * item.quantity, 0);
+
+/**
+ * What a promotion takes off the food and off the delivery fee
+ */
+const getDiscount = (
+  promotion: Promotion | undefined,
+  subtotalCents: number,
+  deliveryFeeCents: number
+): { foodCents: number; deliveryCents: number } => {
+  switch (promotion?.discount.type) {
+    case 'percentage': {
+      const { basisPoints, maxCents = Infinity } = promotion.discount;
+      return { foodCents: Math.min(percentOf(subtotalCents, basisPoints), maxCents), deliveryCents: 0 };
+    }
+    case 'flat':
+      return { foodCents: Math.min(promotion.discount.amountCents, subtotalCents), deliveryCents: 0 };
+    case 'freeDelivery':
+      return { foodCents: 0, deliveryCents: deliveryFeeCents };
+    default:
+      return { foodCents: 0, deliveryCents: 0 };
+  }
+};
+
+/**
+ * Everything a promotion takes off, e.g. to check a discount an order claims
+ */
+export const getDiscountCents = (promotion: Promotion, subtotalCents: number, deliveryFeeCents: number): number => {
+  const discount = getDiscount(promotion, subtotalCents, deliveryFeeCents);
+  return discount.foodCents + discount.deliveryCents;
+};
+
+/**
+ * The delivery fee: the zone's fee, or the base fee outside every zone,
+ * unless the restaurant charges more, plus a charge for each kilometre past
+ * what that covers
+ */
+const getDeliveryFee = (
+  input: PricingInput & { restaurant: Restaurant },
+  rules: PricingRules['delivery']
+): { cents: number; detail?: string } => {
+  const baseCents = Math.max(
+    input.zone ? toCents(input.zone.deliveryFee) : rules.baseFeeCents,
+    toCents(input.restaurant.deliveryFee)
+  );
+
+  const distanceKm = getRestaurantDistanceKm(input.restaurant, input.deliveryLocation);
+  const extraKm = distanceKm === null ? 0 : Math.max(0, Math.ceil(distanceKm - rules.includedKm));
+  const distanceCents = Math.min(extraKm * rules.perKmCents, rules.maxDistanceFeeCents);
+
+  const details = [
+    ...(input.zone ? [input.zone.name] : []),
+    ...(distanceKm !== null ? [formatDistance(distanceKm)] : []),
+  ];
+  return {
+    cents: baseCents + distanceCents,
+    ...(details.length > 0 ? { detail: details.join(' · ') } : {}),
+  };
+};
+
+/**
+ * Price a cart. Rules default to the configured ones.
+ */
+export const calculatePricing = (input: PricingInput, rules: PricingRules = getPricingRules()): Pricing => {
+  const { items, restaurant } = input;
+  if (!restaurant || items.length === 0) {
+    return {
+      lines: [],
+      subtotalCents: 0,
+      deliveryFeeCents: 0,
+      serviceFeeCents: 0,
+      smallOrderFeeCents: 0,
+      discountCents: 0,
+      taxCents: 0,
+      totalCents: 0,
+    };
+  }
+
+  const subtotalCents = getSubtotalCents(items);
+  const deliveryFee = getDeliveryFee({ ...input, restaurant }, rules.delivery);
+  const serviceFeeCents = Math.min(
+    Math.max(percentOf(subtotalCents, rules.serviceFee.rateBasisPoints), rules.serviceFee.minCents),
+    rules.serviceFee.maxCents
+  );
+  const smallOrderFeeCents = subtotalCents < rules.smallOrderFee.thresholdCents ? rules.smallOrderFee.feeCents : 0;
+  const discount = getDiscount(input.promotion, subtotalCents, deliveryFee.cents);
+  const discountCents = discount.foodCents + discount.deliveryCents;
+
+  const stateCode = input.deliveryState?.trim().toUpperCase();
+  const stateRule = stateCode ? rules.tax.byState[stateCode] : undefined;
+  const taxRule = stateRule ?? rules.tax.default;
+  // Tax is on what's paid, after the discount
+  const taxableCents =
+    subtotalCents - discount.foodCents +
+    (taxRule.taxesDeliveryFee ? deliveryFee.cents - discount.deliveryCents : 0) +
+    (taxRule.taxesServiceFees ? serviceFeeCents + smallOrderFeeCents : 0);
+  const taxCents = percentOf(taxableCents, taxRule.rateBasisPoints);
+
+  const lines: PriceLine[] = [
+    { type: 'subtotal', label: 'Subtotal', amountCents: subtotalCents },
+    {
+      type: 'deliveryFee',
+      label: 'Delivery Fee',
+      amountCents: deliveryFee.cents,
+      ...(deliveryFee.detail ? { detail: deliveryFee.detail } : {}),
+    },
+    { type: 'serviceFee', label: 'Service Fee', amountCents: serviceFeeCents },
+    ...(smallOrderFeeCents > 0
+      ? [{
+          type: 'smallOrderFee' as const,
+          label: 'Small Order Fee',
+          amountCents: smallOrderFeeCents,
+          detail: `Orders under ${formatCents(rules.smallOrderFee.thresholdCents)}`,
+        }]
+      : []),
+    ...(discountCents > 0 && input.promotion
+      ? [{
+          type: 'discount' as const,
+          label: 'Discount',
+          amountCents: -discountCents,
+          detail: input.promotion.code,
+        }]
+      : []),
+    {
+      type: 'tax',
+      label: 'Tax',
+      amountCents: taxCents,
+      detail: stateRule ? `${stateCode} ${formatRate(taxRule.rateBasisPoints)}` : formatRate(taxRule.rateBasisPoints),
+    },
+  ];
+
+  return {
+    lines,
+    subtotalCents,
+    deliveryFeeCents: deliveryFee.cents,
+    serviceFeeCents,
+    smallOrderFeeCents,
+    discountCents,
+    taxCents,
+    totalCents: lines.reduce((sum, line) => sum + line.amountCents, 0),
+  };
+};
+
+/**
+ * The lines to show for a cart or order. Ones priced before itemized
+ * pricing only have a subtotal, delivery fee and tax.
+ */
+export const getPriceLines = (totals: {
+  subtotal: number;
+  deliveryFee: number;
+  tax: number;
+  priceLines?: PriceLine[];
+}): PriceLine[] =>
+  totals.priceLines && totals.priceLines.length > 0
+    ? totals.priceLines
+    : [
+        { type: 'subtotal', label: 'Subtotal', amountCents: toCents(totals.subtotal) },
+        { type: 'deliveryFee', label: 'Delivery Fee', amountCents: toCents(totals.deliveryFee) },
+        { type: 'tax', label: 'Tax', amountCents: toCents(totals.tax) },
+      ];
@@ -0,0 +1,142 @@
+/**
+ * Schedule Utils Tests
+ */
+
+import {
+  SCHEDULING_LEAD_MINUTES,
+  countScheduledOrders,
+  formatDeliverySlot,
+  getDeliverySlots,
+  getSlotAvailability,
+  getSlotError,
+  isSlotWithinOpeningHours,
+} from './scheduleUtils';
+import { createDailyHours } from './openingHoursUtils';
+import { generateMockOrder, generateMockRestaurant, generateMockUser } from './mockData';
+import { DeliverySlot, OpeningPeriod, Order } from '../types';
+
+// Local times, so the tests read the same in any time zone
+const at = (day: number, hours: number, minutes: number = 0): Date =>
+  new Date(2026, 2, day, hours, minutes);
+
+const slotAt = (day: number, hours: number, minutes: number = 0): DeliverySlot => ({
+  start: at(day, hours, minutes),
+  end: at(day, hours, minutes + 30),
+});
+
+const restaurantOpen = (period: OpeningPeriod, slotCapacity: number = 2) =>
+  generateMockRestaurant({
+    id: 'restaurant-1',
+    name: 'Trattoria',
+    openingHours: createDailyHours([period]),
+    slotCapacity,
+  });
+
+describe('isSlotWithinOpeningHours', () => {
+  it('should need the whole slot inside the opening hours', () => {
+    const restaurant = restaurantOpen({ opensAt: '11:00', closesAt: '22:00' });
+
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(10, 11))).toBe(true);
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(10, 21, 30))).toBe(true);
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(10, 21, 45))).toBe(false);
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(10, 10, 45))).toBe(false);
+  });
+
+  it('should follow opening hours past midnight', () => {
+    const restaurant = restaurantOpen({ opensAt: '18:00', closesAt: '02:00' });
+
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(10, 23, 30))).toBe(true);
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(11, 1))).toBe(true);
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(11, 2))).toBe(false);
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(11, 12))).toBe(false);
+  });
+
+  it('should let a slot run across back-to-back periods', () => {
+    const restaurant = generateMockRestaurant({
+      openingHours: createDailyHours([
+        { opensAt: '11:00', closesAt: '15:15' },
+        { opensAt: '15:15', closesAt: '22:00' },
+      ]),
+    });
+
+    expect(isSlotWithinOpeningHours(restaurant, slotAt(10, 15))).toBe(true);
+  });
+});
+
+describe('getDeliverySlots', () => {
+  it('should start after the lead time and stay within opening hours', () => {
+    const restaurant = restaurantOpen({ opensAt: '11:00', closesAt: '22:00' });
+    const slots = getDeliverySlots(restaurant, at(10, 20, 0), 2);
+
+    // 20:45 at the earliest; the last slot of the day starts at 21:30
+    expect(slots[0]).toEqual(slotAt(10, 21));
+    expect(slots[1]).toEqual(slotAt(10, 21, 30));
+    expect(slots[2]).toEqual(slotAt(11, 11));
+    expect(slots).toHaveLength(2 + 22);
+    expect(slots.every(slot => isSlotWithinOpeningHours(restaurant, slot))).toBe(true);
+    expect(slots[0].start.getTime() - at(10, 20).getTime()).toBeGreaterThanOrEqual(SCHEDULING_LEAD_MINUTES * 60 * 1000);
+  });
+
+  it('should include the rest of a window that started the day before', () => {
+    const restaurant = restaurantOpen({ opensAt: '18:00', closesAt: '02:00' });
+    const slots = getDeliverySlots(restaurant, at(11, 0, 0), 1);
+
+    expect(slots[0]).toEqual(slotAt(11, 1));
+    expect(slots[1]).toEqual(slotAt(11, 1, 30));
+    expect(slots[2]).toEqual(slotAt(11, 18));
+  });
+});
+
+describe('slot capacity', () => {
+  const restaurant = restaurantOpen({ opensAt: '11:00', closesAt: '22:00' }, 2);
+  const now = at(10, 9);
+
+  const orderFor = (slot: DeliverySlot, overrides: Partial<Order> = {}): Order =>
+    generateMockOrder(generateMockUser(), restaurant, [], { status: 'scheduled', scheduledSlot: slot, ...overrides });
+
+  it('should count the orders still booked into a slot', () => {
+    const orders = [
+      orderFor(slotAt(10, 12)),
+      orderFor(slotAt(10, 12), { status: 'cancelled' }),
+      orderFor(slotAt(10, 12, 30)),
+      orderFor(slotAt(10, 12), { restaurant: generateMockRestaurant({ id: 'other' }) }),
+    ];
+
+    expect(countScheduledOrders(orders, restaurant.id, slotAt(10, 12))).toBe(1);
+  });
+
+  it('should report the places left in each slot', () => {
+    const orders = [orderFor(slotAt(10, 12)), orderFor(slotAt(10, 12)), orderFor(slotAt(10, 12, 30))];
+    const availability = getSlotAvailability(restaurant, orders, now);
+    const remainingAt = (slot: DeliverySlot) =>
+      availability.find(candidate => candidate.start.getTime() === slot.start.getTime())?.remaining;
+
+    expect(remainingAt(slotAt(10, 12))).toBe(0);
+    expect(remainingAt(slotAt(10, 12, 30))).toBe(1);
+    expect(remainingAt(slotAt(10, 13))).toBe(2);
+  });
+});
+
+describe('getSlotError', () => {
+  const restaurant = restaurantOpen({ opensAt: '11:00', closesAt: '22:00' });
+
+  it('should explain why a slot cannot be booked', () => {
+    expect(getSlotError(restaurant, slotAt(10, 23), at(10, 9))).toBe(
+      "Trattoria isn't open then. Please choose another time."
+    );
+    expect(getSlotError(restaurant, slotAt(10, 12), at(10, 11, 30))).toBe(
+      'That time is too soon to schedule. Please choose a later time.'
+    );
+    expect(getSlotError(restaurant, slotAt(10, 12), at(10, 9))).toBeNull();
+  });
+});
+
+describe('formatDeliverySlot', () => {
+  it('should name the day relative to today', () => {
+    const now = at(10, 9);
+
+    expect(formatDeliverySlot(slotAt(10, 18, 30), now)).toBe('Today, 6:30 PM - 7:00 PM');
+    expect(formatDeliverySlot(slotAt(11, 12), now)).toBe('Tomorrow, 12:00 PM - 12:30 PM');
+    expect(formatDeliverySlot(slotAt(12, 12), now)).toBe('Thu, Mar 12, 12:00 PM - 12:30 PM');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Schedule Utilities
+ *
+ * The delivery slots an order can be scheduled for, and how many scheduled
+ * orders each slot can still take. Slots follow the restaurant's opening
+ * hours and are shown in the device's local time.
+ */
+
+import { DeliverySlot, DeliverySlotAvailability, Order, Restaurant } from '../types';
+import { getOpeningWindows, getStartOfRestaurantDay } from './openingHoursUtils';
+
+export const SLOT_LENGTH_MINUTES = 30;
+
+// The earliest slot has to leave the kitchen and courier enough time
+export const SCHEDULING_LEAD_MINUTES = 45;
+
+// Today and the next two days
+export const SCHEDULING_DAYS = 3;
+
+export const DEFAULT_SLOT_CAPACITY = 8;
+
+const MINUTE_MS = 60 * 1000;
+
+export const getSlotCapacity = (restaurant: Restaurant): number =>
+  restaurant.slotCapacity ?? DEFAULT_SLOT_CAPACITY;
+
+const addMinutes = (date: Date, minutes: number): Date =>
+  new Date(date.getTime() + minutes * MINUTE_MS);
+
+const startOfDay = (date: Date, dayOffset: number = 0): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + dayOffset);
+
+/**
+ * Whether a slot falls wholly inside one of the restaurant's opening windows
+ */
+export const isSlotWithinOpeningHours = (restaurant: Restaurant, slot: DeliverySlot): boolean => {
+  const start = new Date(slot.start);
+  const end = new Date(slot.end);
+  if (!(end.getTime() > start.getTime())) return false;
+
+  return getOpeningWindows(restaurant, start, end).some(window =>
+    start.getTime() >= window.start.getTime() && end.getTime() <= window.end.getTime()
+  );
+};
+
+/**
+ * Every slot the restaurant delivers in over the coming days, earliest
+ * first. Days are the restaurant's, in its time zone.
+ */
+export const getDeliverySlots = (
+  restaurant: Restaurant,
+  now: Date = new Date(),
+  days: number = SCHEDULING_DAYS
+): DeliverySlot[] => {
+  const earliestStart = addMinutes(now, SCHEDULING_LEAD_MINUTES).getTime();
+  const windows = getOpeningWindows(restaurant, now, getStartOfRestaurantDay(restaurant, now, days));
+  const slots: DeliverySlot[] = [];
+
+  windows.forEach(window => {
+    for (
+      let start = window.start;
+      addMinutes(start, SLOT_LENGTH_MINUTES).getTime() <= window.end.getTime();
+      start = addMinutes(start, SLOT_LENGTH_MINUTES)
+    ) {
+      if (start.getTime() >= earliestStart) {
+        slots.push({ start, end: addMinutes(start, SLOT_LENGTH_MINUTES) });
+      }
+    }
+  });
+
+  return slots;
+};
+
+export const isSameSlot = (a: DeliverySlot, b: DeliverySlot): boolean =>
+  new Date(a.start).getTime() === new Date(b.start).getTime() &&
+  new Date(a.end).getTime() === new Date(b.end).getTime();
+
+/**
+ * Orders still booked into a slot at a restaurant
+ */
+export const countScheduledOrders = (orders: Order[], restaurantId: string, slot: DeliverySlot): number =>
+  orders.filter(order =>
+    order.restaurant.id === restaurantId &&
+    order.status !== 'cancelled' &&
+    !!order.scheduledSlot &&
+    isSameSlot(order.scheduledSlot, slot)
+  ).length;
+
+/**
+ * Upcoming slots with how many more orders each can take
+ */
+export const getSlotAvailability = (
+  restaurant: Restaurant,
+  orders: Order[],
+  now: Date = new Date()
+): DeliverySlotAvailability[] => {
+  const capacity = getSlotCapacity(restaurant);
+
+  return getDeliverySlots(restaurant, now).map(slot => ({
+    ...slot,
+    remaining: Math.max(0, capacity - countScheduledOrders(orders, restaurant.id, slot)),
+  }));
+};
+
+/**
+ * Why a slot can't be booked, or null if it can
+ */
+export const getSlotError = (
+  restaurant: Restaurant,
+  slot: DeliverySlot,
+  now: Date = new Date()
+): string | null => {
+  if (!isSlotWithinOpeningHours(restaurant, slot)) {
+    return `${restaurant.name} isn't open then. Please choose another time.`;
+  }
+  if (new Date(slot.start).getTime() < addMinutes(now, SCHEDULING_LEAD_MINUTES).getTime()) {
+    return 'That time is too soon to schedule. Please choose a later time.';
+  }
+  return null;
+};
+
+/**
+ * When a scheduled order should start being prepared
+ */
+export const getScheduledReleaseTime = (slot: DeliverySlot): Date =>
+  addMinutes(new Date(slot.start), -SCHEDULING_LEAD_MINUTES);
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Format a slot's times, e.g. "6:30 PM - 7:00 PM"
+ */
+export const formatSlotTimes = (slot: DeliverySlot): string =>
+  `${formatTime(new Date(slot.start))} - ${formatTime(new Date(slot.end))}`;
+
+/**
+ * Name the day a slot is on, e.g. "Today", "Tomorrow" or "Wed, Oct 21"
+ */
+export const formatSlotDay = (slot: DeliverySlot, now: Date = new Date()): string => {
+  const day = startOfDay(new Date(slot.start)).getTime();
+  if (day === startOfDay(now).getTime()) return 'Today';
+  if (day === startOfDay(now, 1).getTime()) return 'Tomorrow';
+  return new Date(slot.start).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+/**
+ * Format a slot for display, e.g. "Tomorrow, 6:30 PM - 7:00 PM"
+ */
+export const formatDeliverySlot = (slot: DeliverySlot, now: Date = new Date()): string =>
+  `${formatSlotDay(slot, now)}, ${formatSlotTimes(slot)}`;
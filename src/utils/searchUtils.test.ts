@@ -7,10 +7,12 @@ import {
   matchesSearchQuery, 
   matchesFilters, 
   filterRestaurants,
+  getSearchMatch,
   parseDeliveryTime,
+  rankSearchSuggestions,
   sortByRelevance 
 } from './searchUtils';
-import { Restaurant, SearchFilters } from '../types';
+import { Restaurant, SearchFilters, SearchHistoryEntry } from '../types';
 
 // Mock restaurant data
 const mockRestaurant: Restaurant = {
@@ -29,7 +31,9 @@ const mockRestaurant: Restaurant = {
   location: {
     address: '123 Main St',
     coordinates: { latitude: 40.7128, longitude: -74.0060 }
-  }
+  },
+  averageItemPrice: 22.5,
+  priceTier: 2
 };
 
 describe('normalizeSearchText', () => {
@@ -66,6 +70,62 @@ describe('matchesSearchQuery', () => {
     expect(matchesSearchQuery(mockRestaurant, 'chinese')).toBe(false);
     expect(matchesSearchQuery(mockRestaurant, 'sushi')).toBe(false);
   });
+
+  it('should tolerate typos in longer terms', () => {
+    expect(matchesSearchQuery(mockRestaurant, 'itallian')).toBe(true);
+    expect(matchesSearchQuery(mockRestaurant, 'bisto')).toBe(true);
+    expect(matchesSearchQuery(mockRestaurant, 'bsitro')).toBe(false);
+  });
+
+  it('should match dishes that mean a cuisine', () => {
+    const sushiBar: Restaurant = { ...mockRestaurant, name: 'Blue Fin', cuisineType: ['Japanese'] };
+
+    expect(matchesSearchQuery(sushiBar, 'sushi')).toBe(true);
+    expect(matchesSearchQuery(sushiBar, 'raman')).toBe(true);
+    expect(matchesSearchQuery(mockRestaurant, 'pizza')).toBe(true);
+  });
+
+  it('should ignore accents', () => {
+    const creperie: Restaurant = { ...mockRestaurant, name: 'Crème Brûlée Café' };
+
+    expect(matchesSearchQuery(creperie, 'creme brulee')).toBe(true);
+    expect(matchesSearchQuery({ ...mockRestaurant, name: 'Creme Cafe' }, 'Crème')).toBe(true);
+  });
+
+  it('should require every term to match somewhere', () => {
+    expect(matchesSearchQuery(mockRestaurant, 'fresh italian')).toBe(true);
+    expect(matchesSearchQuery(mockRestaurant, 'fresh sushi')).toBe(false);
+  });
+});
+
+describe('getSearchMatch', () => {
+  it('should return the matched ranges for highlighting', () => {
+    const match = getSearchMatch(mockRestaurant, 'bistro itallian');
+
+    expect(match).toEqual({
+      edits: 1,
+      name: [{ start: 0, end: 7 }, { start: 8, end: 14 }],
+      description: [{ start: 10, end: 17 }],
+      cuisineType: [[{ start: 0, end: 7 }], []],
+    });
+  });
+
+  it('should highlight the whole cuisine for an alias', () => {
+    const match = getSearchMatch({ ...mockRestaurant, cuisineType: ['Japanese'] }, 'sushi');
+
+    expect(match?.cuisineType).toEqual([[{ start: 0, end: 8 }]]);
+    expect(match?.edits).toBe(0);
+  });
+
+  it('should return no ranges for an empty query and null for no match', () => {
+    expect(getSearchMatch(mockRestaurant, '  ')).toEqual({
+      edits: 0,
+      name: [],
+      description: [],
+      cuisineType: [[], []],
+    });
+    expect(getSearchMatch(mockRestaurant, 'chinese')).toBeNull();
+  });
 });
 
 describe('parseDeliveryTime', () => {
@@ -108,18 +168,34 @@ describe('matchesFilters', () => {
     expect(matchesFilters(mockRestaurant, nonMatchingFilter)).toBe(false);
   });
 
-  it('should filter by price range', () => {
+  it('should filter by price range using the average item price', () => {
     const priceFilter: SearchFilters = {
       ...emptyFilters,
-      priceRange: { min: 2, max: 5 }
+      priceRange: { min: 15, max: 30 }
     };
     expect(matchesFilters(mockRestaurant, priceFilter)).toBe(true);
 
     const expensiveFilter: SearchFilters = {
       ...emptyFilters,
-      priceRange: { min: 10, max: 20 }
+      priceRange: { min: 30, max: 50 }
     };
     expect(matchesFilters(mockRestaurant, expensiveFilter)).toBe(false);
+
+    // The delivery fee is not a price range
+    const deliveryFeeFilter: SearchFilters = {
+      ...emptyFilters,
+      priceRange: { min: 2, max: 5 }
+    };
+    expect(matchesFilters(mockRestaurant, deliveryFeeFilter)).toBe(false);
+  });
+
+  it('should filter by price tier', () => {
+    expect(matchesFilters(mockRestaurant, { ...emptyFilters, priceTiers: [1, 2] })).toBe(true);
+    expect(matchesFilters(mockRestaurant, { ...emptyFilters, priceTiers: [3] })).toBe(false);
+    expect(matchesFilters(mockRestaurant, { ...emptyFilters, priceTiers: [] })).toBe(true);
+
+    const unpriced: Restaurant = { ...mockRestaurant, priceTier: undefined };
+    expect(matchesFilters(unpriced, { ...emptyFilters, priceTiers: [2] })).toBe(false);
   });
 
   it('should filter by delivery time', () => {
@@ -149,6 +225,25 @@ describe('matchesFilters', () => {
     };
     expect(matchesFilters(mockRestaurant, highRatingFilter)).toBe(false);
   });
+
+  it('should filter by dietary restrictions using the menu profile', () => {
+    const profiled: Restaurant = {
+      ...mockRestaurant,
+      dietaryProfile: { suitableItemCounts: { 'Vegetarian': 4, 'Vegan': 0 } }
+    };
+    const vegetarianFilter: SearchFilters = {
+      ...emptyFilters,
+      dietaryRestrictions: ['Vegetarian']
+    };
+    expect(matchesFilters(profiled, vegetarianFilter)).toBe(true);
+    expect(matchesFilters(mockRestaurant, vegetarianFilter)).toBe(false);
+
+    const veganFilter: SearchFilters = {
+      ...emptyFilters,
+      dietaryRestrictions: ['Vegetarian', 'Vegan']
+    };
+    expect(matchesFilters(profiled, veganFilter)).toBe(false);
+  });
 });
 
 describe('filterRestaurants', () => {
@@ -198,7 +293,76 @@ describe('sortByRelevance', () => {
     const sorted = sortByRelevance(restaurants, 'pizza');
     expect(sorted[0].name).toBe('Pizza Palace');
   });
+
+  it('should rank cuisine alias matches above description-only matches', () => {
+    const japanese: Restaurant = { ...mockRestaurant, id: '5', name: 'Blue Fin', cuisineType: ['Japanese'], rating: 4.0 };
+    const mentionsSushi: Restaurant = {
+      ...mockRestaurant,
+      id: '6',
+      name: 'Corner Deli',
+      description: 'Sandwiches and sushi rolls',
+      cuisineType: ['American'],
+      rating: 4.9,
+    };
+
+    const sorted = sortByRelevance([mentionsSushi, japanese], 'sushi');
+    expect(sorted.map(r => r.id)).toEqual(['5', '6']);
+  });
+
+  it('should rank exact matches above typo matches', () => {
+    const exact: Restaurant = { ...mockRestaurant, id: '7', name: 'Noodle Burrito House', rating: 3.9 };
+    const typo: Restaurant = { ...mockRestaurant, id: '8', name: 'Noodle Burito House', rating: 4.9 };
+
+    const sorted = sortByRelevance([typo, exact], 'burrito');
+    expect(sorted.map(r => r.id)).toEqual(['7', '8']);
+  });
+});
+describe('rankSearchSuggestions', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const entry = (query: string, overrides: Partial<SearchHistoryEntry> = {}): SearchHistoryEntry => ({
+    id: `search-${query}`,
+    query,
+    filters: { cuisineTypes: [], dietaryRestrictions: [] },
+    searchedAt: daysAgo(1),
+    useCount: 1,
+    isPinned: false,
+    ...overrides,
+  });
+  const sources = {
+    history: [
+      entry('pad thai', { searchedAt: daysAgo(0) }),
+      entry('pizza', { searchedAt: daysAgo(3), useCount: 4 }),
+      entry('', { isPinned: true, filters: { cuisineTypes: ['Thai'], dietaryRestrictions: [] } }),
+    ],
+    cuisines: ['Italian', 'Japanese', 'Thai'],
+    restaurantNames: ['Pizza Palace', 'Thai Orchid', 'Blue Fin'],
+  };
+  const labels = (query: string) => rankSearchSuggestions(query, sources, now).map(s => s.label);
+
+  it('should lead with saved then recent searches when nothing is typed', () => {
+    const suggestions = rankSearchSuggestions('', sources, now);
+
+    expect(suggestions.map(s => s.type)).toEqual(['saved', 'recent', 'recent', 'cuisine', 'cuisine']);
+    expect(suggestions[0]).toMatchObject({ label: '1 cuisine', query: '', historyEntryId: 'search-' });
+    expect(suggestions[1].label).toBe('pad thai');
+  });
+
+  it('should rank better matches first, with history winning ties', () => {
+    expect(labels('piz')).toEqual(['pizza', 'Pizza Palace', 'Italian']);
+    expect(labels('thai')).toEqual(['Thai', 'Thai Orchid', 'pad thai']);
+  });
+
+  it('should suggest cuisines from the dishes that mean them', () => {
+    expect(labels('sus')).toEqual(['Japanese']);
+  });
+
+  it('should tolerate typos and cap the number of suggestions', () => {
+    expect(labels('itallian')).toEqual(['Italian']);
+    expect(rankSearchSuggestions('', sources, now, 2)).toHaveLength(2);
+  });
 });
+
 describe('Advanced Filter Utils', () => {
   const { 
     toggleCuisineFilter, 
@@ -269,6 +433,19 @@ describe('Advanced Filter Utils', () => {
       expect(summary.summary).toContain('≥4★');
     });
 
+    it('should describe selected price tiers', () => {
+      const filters: SearchFilters = {
+        cuisineTypes: [],
+        dietaryRestrictions: [],
+        priceTiers: [3, 1, 2]
+      };
+      
+      const summary = getFilterSummary(filters);
+      expect(summary.activeCount).toBe(1);
+      expect(summary.summary).toEqual(['$–$$$']);
+      expect(hasActiveFilters(filters)).toBe(true);
+    });
+
     it('should return empty summary for no filters', () => {
       const filters: SearchFilters = {
         cuisineTypes: [],
@@ -4,7 +4,25 @@
  * Advanced search and filtering functions for restaurants
  */
 
-import { Restaurant, SearchFilters } from '../types';
+import {
+  PriceTier,
+  Restaurant,
+  RestaurantSearchMatch,
+  SearchFilters,
+  SearchHistoryEntry,
+  SearchSuggestion,
+  SearchSuggestionType,
+} from '../types';
+import { restaurantSuitsDietaryRestrictions } from './dietaryUtils';
+import {
+  editDistance,
+  findTermInText,
+  foldForSearch,
+  maxEditsFor,
+  mergeRanges,
+  toSearchTerms,
+} from './fuzzyMatch';
+import { formatPriceTiers } from './priceTierUtils';
 
 /**
  * Normalize text for case-insensitive search
@@ -14,29 +32,106 @@ export const normalizeSearchText = (text: string): string => {
 };
 
 /**
- * Check if a restaurant matches the search query
+ * Dishes and words people search for that mean a cuisine, e.g. "sushi" for
+ * Japanese. Aliases are single lowercase words without accents.
  */
-export const matchesSearchQuery = (restaurant: Restaurant, query: string): boolean => {
-  if (!query.trim()) return true;
-  
-  const normalizedQuery = normalizeSearchText(query);
-  
-  // Search in restaurant name
-  if (restaurant.name.toLowerCase().includes(normalizedQuery)) {
-    return true;
+export const CUISINE_ALIASES: Record<string, string[]> = {
+  'Italian': ['pizza', 'pasta', 'risotto', 'lasagna', 'gelato', 'tiramisu'],
+  'Japanese': ['sushi', 'sashimi', 'ramen', 'udon', 'tempura', 'teriyaki'],
+  'Mexican': ['taco', 'tacos', 'burrito', 'burritos', 'quesadilla', 'enchilada'],
+  'Indian': ['curry', 'tandoori', 'biryani', 'masala', 'naan', 'tikka'],
+  'Thai': ['satay', 'curry', 'larb', 'panang'],
+  'Vietnamese': ['pho', 'banh', 'vermicelli'],
+  'Korean': ['bibimbap', 'kimchi', 'bulgogi', 'bbq'],
+  'American': ['burger', 'burgers', 'bbq', 'wings', 'fries'],
+  'Mediterranean': ['falafel', 'hummus', 'shawarma', 'kebab'],
+  'Greek': ['gyro', 'gyros', 'souvlaki', 'feta'],
+  'French': ['crepe', 'crepes', 'croissant', 'bistro'],
+  'Asian Fusion': ['dumplings', 'bao', 'noodles'],
+};
+
+/**
+ * Edits needed for a search term to mean this cuisine through one of its
+ * aliases, or null if it doesn't. A partly typed alias counts as a match.
+ */
+const matchCuisineAlias = (term: string, cuisine: string): number | null => {
+  const aliases = CUISINE_ALIASES[cuisine] ?? [];
+  if (aliases.some(alias => alias === term || (term.length >= 3 && alias.startsWith(term)))) {
+    return 0;
   }
-  
-  // Search in description
-  if (restaurant.description.toLowerCase().includes(normalizedQuery)) {
-    return true;
+
+  const maxEdits = maxEditsFor(term.length);
+  const edits = aliases
+    .map(alias => editDistance(term, alias, maxEdits))
+    .filter(distance => distance <= maxEdits);
+  return edits.length > 0 ? Math.min(...edits) : null;
+};
+
+/**
+ * Match a search query against a restaurant's name, description and
+ * cuisines. Every term in the query has to match somewhere, exactly or
+ * within its typo tolerance; a cuisine alias highlights the whole cuisine.
+ * Returns null when the restaurant doesn't match.
+ */
+export const getSearchMatch = (
+  restaurant: Restaurant,
+  query: string
+): RestaurantSearchMatch | null => {
+  const match: RestaurantSearchMatch = {
+    edits: 0,
+    name: [],
+    description: [],
+    cuisineType: restaurant.cuisineType.map(() => []),
+  };
+
+  for (const term of toSearchTerms(query)) {
+    const termEdits: number[] = [];
+
+    const nameMatch = findTermInText(term, restaurant.name);
+    if (nameMatch) {
+      match.name.push(nameMatch.range);
+      termEdits.push(nameMatch.edits);
+    }
+
+    const descriptionMatch = findTermInText(term, restaurant.description);
+    if (descriptionMatch) {
+      match.description.push(descriptionMatch.range);
+      termEdits.push(descriptionMatch.edits);
+    }
+
+    restaurant.cuisineType.forEach((cuisine, index) => {
+      const cuisineMatch = findTermInText(term, cuisine);
+      if (cuisineMatch) {
+        match.cuisineType[index].push(cuisineMatch.range);
+        termEdits.push(cuisineMatch.edits);
+        return;
+      }
+
+      const aliasEdits = matchCuisineAlias(term, cuisine);
+      if (aliasEdits !== null) {
+        match.cuisineType[index].push({ start: 0, end: cuisine.length });
+        termEdits.push(aliasEdits);
+      }
+    });
+
+    if (termEdits.length === 0) return null;
+    match.edits += Math.min(...termEdits);
   }
-  
-  // Search in cuisine types
-  return restaurant.cuisineType.some(cuisine => 
-    cuisine.toLowerCase().includes(normalizedQuery)
-  );
+
+  return {
+    ...match,
+    name: mergeRanges(match.name),
+    description: mergeRanges(match.description),
+    cuisineType: match.cuisineType.map(mergeRanges),
+  };
 };
 
+/**
+ * Check if a restaurant matches the search query
+ */
+export const matchesSearchQuery = (restaurant: Restaurant, query: string): boolean =>
+  getSearchMatch(restaurant, query) !== null;
+
 /**
  * Check if a restaurant matches the applied filters
  */
@@ -49,10 +144,23 @@ export const matchesFilters = (restaurant: Restaurant, filters: SearchFilters):
     if (!matchesCuisine) return false;
   }
   
-  // Price range filter (using delivery fee as proxy for restaurant price range)
+  // Dietary filter (the menu must offer something for every restriction)
+  if (!restaurantSuitsDietaryRestrictions(restaurant, filters.dietaryRestrictions)) {
+    return false;
+  }
+  
+  // Price range filter (average menu item price; unknown prices don't match)
   if (filters.priceRange) {
-    if (restaurant.deliveryFee < filters.priceRange.min || 
-        restaurant.deliveryFee > filters.priceRange.max) {
+    if (restaurant.averageItemPrice === undefined ||
+        restaurant.averageItemPrice < filters.priceRange.min || 
+        restaurant.averageItemPrice > filters.priceRange.max) {
+      return false;
+    }
+  }
+  
+  // Price tier filter
+  if (filters.priceTiers && filters.priceTiers.length > 0) {
+    if (restaurant.priceTier === undefined || !filters.priceTiers.includes(restaurant.priceTier)) {
       return false;
     }
   }
@@ -106,46 +214,68 @@ export const parseDeliveryTime = (deliveryTime: string): number | null => {
   return null;
 };
 
+/**
+ * Better rated restaurants first, then more reviewed; name and id settle any
+ * tie so the order is stable
+ */
+export const compareByRating = (a: Restaurant, b: Restaurant): number => {
+  if (a.rating !== b.rating) {
+    return b.rating - a.rating;
+  }
+  if (a.reviewCount !== b.reviewCount) {
+    return b.reviewCount - a.reviewCount;
+  }
+  const byName = a.name.localeCompare(b.name);
+  if (byName !== 0) {
+    return byName;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
 /**
  * Sort restaurants by relevance to search query
  */
 export const sortByRelevance = (restaurants: Restaurant[], query: string): Restaurant[] => {
   if (!query.trim()) {
     // No query, sort by rating and review count
-    return [...restaurants].sort((a, b) => {
-      if (a.rating !== b.rating) {
-        return b.rating - a.rating;
-      }
-      return b.reviewCount - a.reviewCount;
-    });
+    return [...restaurants].sort(compareByRating);
   }
   
-  const normalizedQuery = normalizeSearchText(query);
+  const foldedQuery = foldForSearch(query);
+  const matches = new Map(
+    restaurants.map(restaurant => [restaurant.id, getSearchMatch(restaurant, query)])
+  );
+  const editsFor = (restaurant: Restaurant): number =>
+    matches.get(restaurant.id)?.edits ?? Infinity;
+  const matchesCuisine = (restaurant: Restaurant): boolean =>
+    matches.get(restaurant.id)?.cuisineType.some(ranges => ranges.length > 0) ?? false;
   
   return [...restaurants].sort((a, b) => {
     // Exact name match gets highest priority
-    const aNameExact = a.name.toLowerCase() === normalizedQuery;
-    const bNameExact = b.name.toLowerCase() === normalizedQuery;
+    const aNameExact = foldForSearch(a.name) === foldedQuery;
+    const bNameExact = foldForSearch(b.name) === foldedQuery;
     if (aNameExact && !bNameExact) return -1;
     if (!aNameExact && bNameExact) return 1;
     
     // Name starts with query gets second priority
-    const aNameStarts = a.name.toLowerCase().startsWith(normalizedQuery);
-    const bNameStarts = b.name.toLowerCase().startsWith(normalizedQuery);
+    const aNameStarts = foldForSearch(a.name).startsWith(foldedQuery);
+    const bNameStarts = foldForSearch(b.name).startsWith(foldedQuery);
     if (aNameStarts && !bNameStarts) return -1;
     if (!aNameStarts && bNameStarts) return 1;
     
-    // Cuisine type match gets third priority
-    const aCuisineMatch = a.cuisineType.some(c => c.toLowerCase().includes(normalizedQuery));
-    const bCuisineMatch = b.cuisineType.some(c => c.toLowerCase().includes(normalizedQuery));
+    // Cuisine type match (including aliases) gets third priority
+    const aCuisineMatch = matchesCuisine(a);
+    const bCuisineMatch = matchesCuisine(b);
     if (aCuisineMatch && !bCuisineMatch) return -1;
     if (!aCuisineMatch && bCuisineMatch) return 1;
     
-    // Finally sort by rating and review count
-    if (a.rating !== b.rating) {
-      return b.rating - a.rating;
+    // Then matches needing fewer typo corrections
+    if (editsFor(a) !== editsFor(b)) {
+      return editsFor(a) - editsFor(b);
     }
-    return b.reviewCount - a.reviewCount;
+    
+    // Finally sort by rating and review count
+    return compareByRating(a, b);
   });
 };
 
@@ -153,6 +283,19 @@ export const sortByRelevance = (restaurants: Restaurant[], query: string): Resta
  * Advanced filter utilities for multi-filter support
  */
 
+/**
+ * Dietary restrictions users can filter by and save as preferences
+ */
+export const DIETARY_OPTIONS = [
+  'Vegetarian',
+  'Vegan',
+  'Gluten-Free',
+  'Dairy-Free',
+  'Nut-Free',
+  'Keto',
+  'Low-Carb',
+];
+
 /**
  * Toggle a cuisine filter (add if not present, remove if present)
  */
@@ -191,6 +334,7 @@ export const applyMultipleFilters = (
     cuisineTypes?: string[];
     dietaryRestrictions?: string[];
     priceRange?: { min: number; max: number };
+    priceTiers?: PriceTier[];
     deliveryTime?: { max: number };
     rating?: { min: number };
   }
@@ -199,6 +343,7 @@ export const applyMultipleFilters = (
     cuisineTypes: filters.cuisineTypes || [],
     dietaryRestrictions: filters.dietaryRestrictions || [],
     priceRange: filters.priceRange,
+    priceTiers: filters.priceTiers,
     deliveryTime: filters.deliveryTime,
     rating: filters.rating
   };
@@ -231,6 +376,11 @@ export const getFilterSummary = (filters: SearchFilters): {
     activeCount++;
   }
   
+  if (filters.priceTiers && filters.priceTiers.length > 0) {
+    summary.push(formatPriceTiers(filters.priceTiers));
+    activeCount++;
+  }
+  
   if (filters.deliveryTime) {
     summary.push(`≤${filters.deliveryTime.max} min`);
     activeCount++;
@@ -251,6 +401,7 @@ export const hasActiveFilters = (filters: SearchFilters): boolean => {
   return filters.cuisineTypes.length > 0 ||
          filters.dietaryRestrictions.length > 0 ||
          filters.priceRange !== undefined ||
+         (filters.priceTiers !== undefined && filters.priceTiers.length > 0) ||
          filters.deliveryTime !== undefined ||
          filters.rating !== undefined;
 };
@@ -374,6 +525,141 @@ export const getSearchSuggestions = (
   return suggestions.slice(0, 5);
 };
 
+/**
+ * Suggestions shown at most while typing in the search bar
+ */
+export const MAX_SEARCH_SUGGESTIONS = 6;
+
+// Saved searches outrank recent ones, which outrank catalog suggestions
+const SUGGESTION_TYPE_WEIGHTS: Record<SearchSuggestionType, number> = {
+  saved: 3,
+  recent: 2,
+  cuisine: 1,
+  restaurant: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How well text matches what's been typed so far: 4 exact, 3 prefix,
+ * 2 every term starts a word, 1 every term found (typos allowed), 0 no match
+ */
+const suggestionMatchQuality = (text: string, terms: string[]): number => {
+  const folded = foldForSearch(text);
+  const typed = terms.join(' ');
+  if (folded === typed) return 4;
+  if (folded.startsWith(typed)) return 3;
+
+  const words = toSearchTerms(text);
+  if (terms.every(term => words.some(word => word.startsWith(term)))) return 2;
+  if (terms.every(term => findTermInText(term, text) !== null)) return 1;
+  return 0;
+};
+
+/**
+ * Describe the filters a search applied, e.g. "2 cuisines, $$"
+ */
+const describeSearchFilters = (filters: SearchFilters): string =>
+  getFilterSummary(filters).summary.join(', ');
+
+const toHistorySuggestion = (entry: SearchHistoryEntry): SearchSuggestion => {
+  const filterDetail = describeSearchFilters(entry.filters);
+  return {
+    type: entry.isPinned ? 'saved' : 'recent',
+    label: entry.query || filterDetail,
+    detail: entry.query && filterDetail ? filterDetail : undefined,
+    query: entry.query,
+    filters: entry.filters,
+    historyEntryId: entry.id,
+  };
+};
+
+/**
+ * Rank suggestions for what's been typed from the user's search history,
+ * cuisines (including dishes that mean one) and restaurant names. The
+ * match quality counts most; history gets a boost for recent and repeated
+ * use. With nothing typed, saved then recent searches come first, topped up
+ * with popular cuisines.
+ */
+export const rankSearchSuggestions = (
+  query: string,
+  sources: {
+    history: SearchHistoryEntry[];
+    cuisines: string[];
+    restaurantNames: string[];
+  },
+  now: Date = new Date(),
+  limit: number = MAX_SEARCH_SUGGESTIONS
+): SearchSuggestion[] => {
+  const terms = toSearchTerms(query);
+  const scored: { suggestion: SearchSuggestion; score: number }[] = [];
+
+  const historyBoost = (entry: SearchHistoryEntry): number => {
+    const daysAgo = Math.max(0, (now.getTime() - entry.searchedAt.getTime()) / DAY_MS);
+    return Math.min(entry.useCount, 5) * 0.2 + 1 / (1 + daysAgo);
+  };
+
+  sources.history.forEach(entry => {
+    const quality = terms.length === 0 ? 1 : suggestionMatchQuality(entry.query, terms);
+    if (quality === 0) return;
+
+    const suggestion = toHistorySuggestion(entry);
+    scored.push({
+      suggestion,
+      score: quality * 10 + SUGGESTION_TYPE_WEIGHTS[suggestion.type] + historyBoost(entry),
+    });
+  });
+
+  if (terms.length === 0) {
+    getSearchSuggestions(sources.cuisines).forEach(cuisine => {
+      scored.push({
+        suggestion: { type: 'cuisine', label: cuisine, query: cuisine },
+        score: SUGGESTION_TYPE_WEIGHTS.cuisine,
+      });
+    });
+  } else {
+    const typed = terms.join(' ');
+
+    sources.cuisines.forEach(cuisine => {
+      let quality = suggestionMatchQuality(cuisine, terms);
+      // A dish that means the cuisine, e.g. "sus" for Japanese via sushi
+      if (quality === 0 && typed.length >= 3 &&
+          (CUISINE_ALIASES[cuisine] ?? []).some(alias => alias.startsWith(typed))) {
+        quality = 2;
+      }
+      if (quality === 0) return;
+
+      scored.push({
+        suggestion: { type: 'cuisine', label: cuisine, query: cuisine },
+        score: quality * 10 + SUGGESTION_TYPE_WEIGHTS.cuisine,
+      });
+    });
+
+    sources.restaurantNames.forEach(name => {
+      const quality = suggestionMatchQuality(name, terms);
+      if (quality === 0) return;
+
+      scored.push({
+        suggestion: { type: 'restaurant', label: name, query: name },
+        score: quality * 10 + SUGGESTION_TYPE_WEIGHTS.restaurant,
+      });
+    });
+  }
+
+  // Best first; the same label only shows once, as its best-scoring suggestion
+  const seen = new Set<string>();
+  return scored
+    .sort((a, b) => b.score - a.score || a.suggestion.label.localeCompare(b.suggestion.label))
+    .filter(({ suggestion }) => {
+      const key = `${foldForSearch(suggestion.label)}|${suggestion.detail ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+};
+
 /**
  * Get empty state action based on context
  */
@@ -0,0 +1,105 @@
+/**
+ * Sort Utils Tests
+ */
+
+import { sortRestaurants, SORT_OPTIONS } from './sortUtils';
+import { generateMockRestaurant } from './mockData';
+import { Restaurant } from '../types';
+
+const restaurant = (id: string, overrides: Partial<Restaurant> = {}): Restaurant =>
+  generateMockRestaurant({
+    id,
+    name: `Restaurant ${id}`,
+    rating: 4.5,
+    reviewCount: 100,
+    deliveryTime: '30-40 min',
+    deliveryFee: 2.99,
+    listedAt: new Date('2025-01-01'),
+    ...overrides,
+  });
+
+const at = (latitude: number, longitude: number) => ({
+  location: { address: '', coordinates: { latitude, longitude } },
+});
+
+const ids = (restaurants: Restaurant[]): string[] => restaurants.map(r => r.id);
+
+describe('sortRestaurants', () => {
+  it('should sort by distance from the delivery address', () => {
+    const origin = { latitude: 37.7749, longitude: -122.4194 };
+    const restaurants = [
+      restaurant('far', at(37.8044, -122.2712)),
+      restaurant('near', at(37.7755, -122.4180)),
+      restaurant('mid', at(37.7599, -122.4148)),
+    ];
+
+    expect(ids(sortRestaurants(restaurants, 'distance', { origin }))).toEqual(['near', 'mid', 'far']);
+  });
+
+  it('should fall back to the tie-break when the delivery address has no location', () => {
+    const restaurants = [
+      restaurant('a', { ...at(37.8, -122.3), rating: 4.0 }),
+      restaurant('b', { ...at(37.7, -122.4), rating: 4.8 }),
+    ];
+
+    expect(ids(sortRestaurants(restaurants, 'distance', { origin: { latitude: 0, longitude: 0 } })))
+      .toEqual(['b', 'a']);
+    expect(ids(sortRestaurants(restaurants, 'distance'))).toEqual(['b', 'a']);
+  });
+
+  it('should sort by the longest quoted delivery time, unknown times last', () => {
+    const restaurants = [
+      restaurant('slow', { deliveryTime: '40-55 min' }),
+      restaurant('asap', { deliveryTime: 'ASAP' }),
+      restaurant('fast', { deliveryTime: '15-25 min' }),
+    ];
+
+    expect(ids(sortRestaurants(restaurants, 'deliveryTime'))).toEqual(['fast', 'slow', 'asap']);
+  });
+
+  it('should sort by delivery fee, rating, review count and newest', () => {
+    const restaurants = [
+      restaurant('a', { deliveryFee: 4, rating: 4.9, reviewCount: 50, listedAt: new Date('2024-06-01') }),
+      restaurant('b', { deliveryFee: 0, rating: 4.1, reviewCount: 900, listedAt: new Date('2025-09-01') }),
+      restaurant('c', { deliveryFee: 1.5, rating: 4.5, reviewCount: 300, listedAt: undefined }),
+    ];
+
+    expect(ids(sortRestaurants(restaurants, 'deliveryFee'))).toEqual(['b', 'c', 'a']);
+    expect(ids(sortRestaurants(restaurants, 'rating'))).toEqual(['a', 'c', 'b']);
+    expect(ids(sortRestaurants(restaurants, 'reviewCount'))).toEqual(['b', 'c', 'a']);
+    expect(ids(sortRestaurants(restaurants, 'newest'))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should rank search matches when sorting by relevance', () => {
+    const restaurants = [
+      restaurant('other', { name: 'Golden Dragon', cuisineType: ['Chinese'], rating: 5 }),
+      restaurant('match', { name: 'Pasta House', cuisineType: ['Italian'], rating: 3.5 }),
+    ];
+
+    expect(ids(sortRestaurants(restaurants, 'relevance', { query: 'pasta' }))[0]).toBe('match');
+  });
+
+  it('should not change the list it is given', () => {
+    const restaurants = [restaurant('b', { deliveryFee: 3 }), restaurant('a', { deliveryFee: 1 })];
+
+    sortRestaurants(restaurants, 'deliveryFee');
+
+    expect(ids(restaurants)).toEqual(['b', 'a']);
+  });
+
+  it('should give ties the same order whatever order they arrive in', () => {
+    const tied = [
+      restaurant('r-2', { name: 'Noodle Bar', reviewCount: 200 }),
+      restaurant('r-3', { name: 'Noodle Bar' }),
+      restaurant('r-1', { name: 'Noodle Bar' }),
+      restaurant('r-4', { name: 'Bistro', rating: 4.5, reviewCount: 100 }),
+    ];
+    const reversed = [...tied].reverse();
+
+    SORT_OPTIONS.forEach(({ mode }) => {
+      const expected = ids(sortRestaurants(tied, mode));
+      expect(expected).toEqual(['r-2', 'r-4', 'r-1', 'r-3']);
+      expect(ids(sortRestaurants(reversed, mode))).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Restaurant Sort Utilities
+ *
+ * Orders restaurant listings by the sort the user picked. Every sort falls
+ * back to rating, review count, name and id, so restaurants that tie keep
+ * the same order from one render to the next.
+ */
+
+import { Coordinates, Restaurant, RestaurantSortMode } from '../types';
+import { compareByRating, parseDeliveryTime, sortByRelevance } from './searchUtils';
+import { getDeliveryEstimate, getRestaurantDistanceKm } from './nearbyUtils';
+
+export interface SortOption {
+  mode: RestaurantSortMode;
+  label: string;
+}
+
+export const DEFAULT_SORT_MODE: RestaurantSortMode = 'relevance';
+
+export const SORT_OPTIONS: SortOption[] = [
+  { mode: 'relevance', label: 'Recommended' },
+  { mode: 'distance', label: 'Nearest' },
+  { mode: 'deliveryTime', label: 'Fastest delivery' },
+  { mode: 'deliveryFee', label: 'Lowest delivery fee' },
+  { mode: 'rating', label: 'Top rated' },
+  { mode: 'reviewCount', label: 'Most reviewed' },
+  { mode: 'newest', label: 'Newest' },
+];
+
+export interface SortContext {
+  query?: string; // ranks matches when sorting by relevance
+  origin?: Coordinates | null; // where distances and delivery estimates are measured from
+}
+
+/**
+ * The value a restaurant is sorted by, lower first; null when it's unknown,
+ * which sorts last
+ */
+type SortKey = (restaurant: Restaurant) => number | null;
+
+const getListedTime = (restaurant: Restaurant): number | null => {
+  if (!restaurant.listedAt) return null;
+  const time = new Date(restaurant.listedAt).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const getSortKey = (mode: RestaurantSortMode, { origin }: SortContext): SortKey | null => {
+  switch (mode) {
+    case 'distance':
+      return restaurant => getRestaurantDistanceKm(restaurant, origin);
+    case 'deliveryTime':
+      // Estimated from the distance when it's known, else the restaurant's quote
+      return restaurant => parseDeliveryTime(
+        getDeliveryEstimate(restaurant, origin)?.deliveryTime ?? restaurant.deliveryTime
+      );
+    case 'deliveryFee':
+      return restaurant => restaurant.deliveryFee;
+    case 'rating':
+      return restaurant => -restaurant.rating;
+    case 'reviewCount':
+      return restaurant => -restaurant.reviewCount;
+    case 'newest':
+      return restaurant => {
+        const listedTime = getListedTime(restaurant);
+        return listedTime === null ? null : -listedTime;
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Sort restaurants by the given mode without changing the input list
+ */
+export const sortRestaurants = (
+  restaurants: Restaurant[],
+  mode: RestaurantSortMode,
+  context: SortContext = {}
+): Restaurant[] => {
+  const getKey = getSortKey(mode, context);
+  if (!getKey) {
+    return sortByRelevance(restaurants, context.query ?? '');
+  }
+
+  // Work out each key once rather than on every comparison
+  const keys = new Map(restaurants.map(restaurant => [restaurant.id, getKey(restaurant)]));
+
+  return [...restaurants].sort((a, b) => {
+    const aKey = keys.get(a.id) ?? null;
+    const bKey = keys.get(b.id) ?? null;
+
+    if (aKey !== bKey) {
+      if (aKey === null) return 1;
+      if (bKey === null) return -1;
+      return aKey - bKey;
+    }
+
+    return compareByRating(a, b);
+  });
+};
@@ -0,0 +1,101 @@
+/**
+ * Tip Utils Tests
+ */
+
+import {
+  MAX_CUSTOM_TIP,
+  NO_TIP,
+  createOrderTip,
+  getTipCents,
+  getTipError,
+  isSameTipChoice,
+  withTip,
+} from './tipUtils';
+import { PriceLine } from '../types';
+
+const priceLines: PriceLine[] = [
+  { type: 'subtotal', label: 'Subtotal', amountCents: 2599 },
+  { type: 'deliveryFee', label: 'Delivery Fee', amountCents: 299 },
+  { type: 'tax', label: 'Tax', amountCents: 208 },
+];
+const order = { subtotal: 25.99, deliveryFee: 2.99, tax: 2.08, total: 31.06, priceLines };
+
+describe('getTipCents', () => {
+  it('should take percentages of the subtotal, to the cent', () => {
+    expect(getTipCents({ type: 'percentage', percent: 15 }, 25.99)).toBe(390);
+    expect(getTipCents({ type: 'percentage', percent: 20 }, 25.99)).toBe(520);
+    expect(getTipCents(NO_TIP, 25.99)).toBe(0);
+  });
+
+  it('should use a custom amount as it is', () => {
+    expect(getTipCents({ type: 'custom', amount: 3.5 }, 25.99)).toBe(350);
+  });
+});
+
+describe('getTipError', () => {
+  it('should accept no tip, presets and custom amounts up to the maximum', () => {
+    expect(getTipError(NO_TIP)).toBeNull();
+    expect(getTipError({ type: 'percentage', percent: 25 })).toBeNull();
+    expect(getTipError({ type: 'custom', amount: MAX_CUSTOM_TIP })).toBeNull();
+  });
+
+  it('should reject missing, negative and excessive custom amounts', () => {
+    expect(getTipError({ type: 'custom', amount: NaN })).toBe('Please enter a tip amount');
+    expect(getTipError({ type: 'custom', amount: -1 })).toBe('Please enter a tip amount');
+    expect(getTipError({ type: 'custom', amount: MAX_CUSTOM_TIP + 0.01 })).toBe('Tips can be up to $100.00');
+  });
+});
+
+describe('createOrderTip', () => {
+  it('should only create a tip worth something', () => {
+    expect(createOrderTip({ type: 'percentage', percent: 15 }, 25.99)).toEqual({
+      choice: { type: 'percentage', percent: 15 },
+      amount: 3.9,
+    });
+    expect(createOrderTip(NO_TIP, 25.99)).toBeNull();
+    expect(createOrderTip({ type: 'custom', amount: NaN }, 25.99)).toBeNull();
+    expect(createOrderTip(undefined, 25.99)).toBeNull();
+  });
+});
+
+describe('isSameTipChoice', () => {
+  it('should compare the kind of tip and its value', () => {
+    expect(isSameTipChoice({ type: 'percentage', percent: 15 }, { type: 'percentage', percent: 15 })).toBe(true);
+    expect(isSameTipChoice({ type: 'percentage', percent: 15 }, { type: 'percentage', percent: 20 })).toBe(false);
+    expect(isSameTipChoice({ type: 'custom', amount: 15 }, { type: 'percentage', percent: 15 })).toBe(false);
+  });
+});
+
+describe('withTip', () => {
+  it('should add the tip as the last line and to the total', () => {
+    const tipped = withTip(order, createOrderTip({ type: 'percentage', percent: 15 }, order.subtotal));
+
+    expect(tipped.total).toBe(34.96);
+    expect(tipped.priceLines[tipped.priceLines.length - 1]).toEqual({
+      type: 'tip',
+      label: 'Driver Tip',
+      amountCents: 390,
+      detail: '15%',
+    });
+  });
+
+  it('should replace a tip rather than add another', () => {
+    const tipped = { ...order, ...withTip(order, createOrderTip({ type: 'percentage', percent: 15 }, order.subtotal)) };
+    const retipped = withTip(tipped, createOrderTip({ type: 'custom', amount: 5 }, order.subtotal));
+
+    expect(retipped.total).toBe(36.06);
+    expect(retipped.priceLines.filter(line => line.type === 'tip')).toEqual([
+      { type: 'tip', label: 'Driver Tip', amountCents: 500 },
+    ]);
+
+    const untipped = withTip({ ...tipped, ...retipped }, null);
+    expect(untipped).toEqual({ total: 31.06, priceLines });
+  });
+
+  it('should itemize orders priced before itemized pricing', () => {
+    const tipped = withTip({ ...order, priceLines: undefined }, createOrderTip({ type: 'custom', amount: 2 }, order.subtotal));
+
+    expect(tipped.priceLines.map(line => line.type)).toEqual(['subtotal', 'deliveryFee', 'tax', 'tip']);
+    expect(tipped.total).toBe(33.06);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tip Utilities
+ *
+ * Driver tips: the preset percentages of the subtotal or a custom amount,
+ * and adding the tip to an order's price lines and total. Tips aren't taxed,
+ * so they go last.
+ */
+
+import { Order, OrderTip, PriceLine, TipChoice } from '../types';
+import { fromCents, getPriceLines, toCents } from './pricingUtils';
+
+export const TIP_PERCENTAGES = [10, 15, 20, 25];
+
+export const NO_TIP: TipChoice = { type: 'percentage', percent: 0 };
+
+// Offered until the customer has tipped once
+export const DEFAULT_TIP: TipChoice = { type: 'percentage', percent: 15 };
+
+export const MAX_CUSTOM_TIP = 100;
+
+export const isSameTipChoice = (a: TipChoice, b: TipChoice): boolean =>
+  a.type === 'percentage' && b.type === 'percentage'
+    ? a.percent === b.percent
+    : a.type === 'custom' && b.type === 'custom' && a.amount === b.amount;
+
+/**
+ * Why a tip can't be given, or null when it can
+ */
+export const getTipError = (choice: TipChoice): string | null => {
+  if (choice.type === 'percentage') {
+    return choice.percent >= 0 && choice.percent <= 100 ? null : 'Please choose a tip';
+  }
+  if (!Number.isFinite(choice.amount) || choice.amount < 0) {
+    return 'Please enter a tip amount';
+  }
+  if (choice.amount > MAX_CUSTOM_TIP) {
+    return `Tips can be up to $${MAX_CUSTOM_TIP.toFixed(2)}`;
+  }
+  return null;
+};
+
+/**
+ * The tip in whole cents, with percentages taken of the subtotal
+ */
+export const getTipCents = (choice: TipChoice, subtotal: number): number =>
+  choice.type === 'percentage'
+    ? Math.round((toCents(subtotal) * choice.percent) / 100)
+    : toCents(choice.amount);
+
+/**
+ * The tip for an order, or null for no tip
+ */
+export const createOrderTip = (choice: TipChoice | undefined, subtotal: number): OrderTip | null => {
+  if (!choice) return null;
+  const cents = getTipCents(choice, subtotal);
+  return cents > 0 ? { choice, amount: fromCents(cents) } : null;
+};
+
+export const formatTipChoice = (choice: TipChoice): string =>
+  choice.type === 'percentage' ? `${choice.percent}%` : 'Custom';
+
+/**
+ * An order's price lines and total with its tip replaced, or removed for
+ * null. Orders priced before itemized pricing get their three lines first.
+ */
+export const withTip = (
+  order: Pick<Order, 'subtotal' | 'deliveryFee' | 'tax' | 'total' | 'priceLines' | 'tip'>,
+  tip: OrderTip | null
+): { total: number; priceLines: PriceLine[]; tip?: OrderTip } => {
+  const lines = getPriceLines(order).filter(line => line.type !== 'tip');
+  const totalCents = toCents(order.total) - toCents(order.tip?.amount ?? 0);
+
+  if (!tip) {
+    return { total: fromCents(totalCents), priceLines: lines };
+  }
+
+  const tipLine: PriceLine = {
+    type: 'tip',
+    label: 'Driver Tip',
+    amountCents: toCents(tip.amount),
+    ...(tip.choice.type === 'percentage' ? { detail: formatTipChoice(tip.choice) } : {}),
+  };
+  return {
+    total: fromCents(totalCents + tipLine.amountCents),
+    priceLines: [...lines, tipLine],
+    tip,
+  };
+};
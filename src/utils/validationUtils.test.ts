@@ -5,6 +5,7 @@
 import {
   isValidEmail,
   isValidPhone,
+  isValidPassword,
   isValidZipCode,
   isNotEmpty,
   isValidAddress,
@@ -15,6 +16,9 @@ import {
   isValidCVV,
   formatCardNumber,
   formatExpiryDate,
+  sanitizeSpecialInstructions,
+  isValidSpecialInstructions,
+  SPECIAL_INSTRUCTIONS_MAX_LENGTH,
 } from './validationUtils';
 
 describe('Validation Utilities', () => {
@@ -57,6 +61,20 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('isValidPassword', () => {
+    it('should accept passwords with letters and digits', () => {
+      expect(isValidPassword('password123')).toBe(true);
+      expect(isValidPassword('1a2b3c4d')).toBe(true);
+    });
+
+    it('should reject short or single-class passwords', () => {
+      expect(isValidPassword('abc123')).toBe(false);
+      expect(isValidPassword('password')).toBe(false);
+      expect(isValidPassword('12345678')).toBe(false);
+      expect(isValidPassword('')).toBe(false);
+    });
+  });
+
   describe('isValidZipCode', () => {
     it('should validate 5-digit zip codes', () => {
       expect(isValidZipCode('12345')).toBe(true);
@@ -218,4 +236,39 @@ describe('Validation Utilities', () => {
       expect(formatExpiryDate('12')).toBe('12/');
     });
   });
+
+  describe('sanitizeSpecialInstructions', () => {
+    it('should trim and collapse whitespace', () => {
+      expect(sanitizeSpecialInstructions('  No   onions\n\nplease  ')).toBe('No onions please');
+    });
+
+    it('should strip markup and control characters', () => {
+      expect(sanitizeSpecialInstructions('<b>Extra</b> sauce<script>')).toBe('Extra sauce');
+      expect(sanitizeSpecialInstructions('Well\u0000done')).toBe('Well done');
+    });
+
+    it('should truncate to the maximum length', () => {
+      const long = 'a'.repeat(SPECIAL_INSTRUCTIONS_MAX_LENGTH + 50);
+      expect(sanitizeSpecialInstructions(long)).toHaveLength(SPECIAL_INSTRUCTIONS_MAX_LENGTH);
+    });
+
+    it('should return an empty string when nothing remains', () => {
+      expect(sanitizeSpecialInstructions('   <br/>  ')).toBe('');
+    });
+  });
+
+  describe('isValidSpecialInstructions', () => {
+    it('should accept notes within the limit', () => {
+      expect(isValidSpecialInstructions('')).toBe(true);
+      expect(isValidSpecialInstructions('a'.repeat(SPECIAL_INSTRUCTIONS_MAX_LENGTH))).toBe(true);
+    });
+
+    it('should reject notes over the limit', () => {
+      expect(isValidSpecialInstructions('a'.repeat(SPECIAL_INSTRUCTIONS_MAX_LENGTH + 1))).toBe(false);
+    });
+
+    it('should measure length after collapsing whitespace', () => {
+      expect(isValidSpecialInstructions(`${'a'.repeat(SPECIAL_INSTRUCTIONS_MAX_LENGTH)}     `)).toBe(true);
+    });
+  });
 });
@@ -28,6 +28,22 @@ export const isValidPhone = (phone: string): boolean => {
   return digitsOnly.length === 10 || digitsOnly.length === 11;
 };
 
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Validate password strength
+ * Requires at least 8 characters with at least one letter and one digit
+ * @param password - Password to validate
+ * @returns true if password is strong enough
+ */
+export const isValidPassword = (password: string): boolean => {
+  return (
+    password.length >= PASSWORD_MIN_LENGTH &&
+    /[A-Za-z]/.test(password) &&
+    /\d/.test(password)
+  );
+};
+
 /**
  * Validate US zip code format
  * Accepts 5-digit or 9-digit (ZIP+4) formats
@@ -85,6 +101,45 @@ export const formatPhoneNumber = (phone: string): string => {
   return phone;
 };
 
+/**
+ * Maximum length of a per-item special instructions note
+ */
+export const SPECIAL_INSTRUCTIONS_MAX_LENGTH = 200;
+
+/**
+ * Strip markup and control characters and collapse whitespace
+ */
+const normalizeFreeText = (text: string): string => {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/[<>]/g, '')
+    .replace(/[\u0000-\u001F\u007F]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Sanitize special instructions for a cart item
+ * Removes markup and control characters, collapses whitespace and
+ * truncates to the maximum length
+ * @param instructions - Raw instructions entered by the user
+ * @returns sanitized instructions, empty string if nothing remains
+ */
+export const sanitizeSpecialInstructions = (instructions: string): string => {
+  return normalizeFreeText(instructions)
+    .slice(0, SPECIAL_INSTRUCTIONS_MAX_LENGTH)
+    .trim();
+};
+
+/**
+ * Validate special instructions length
+ * @param instructions - Instructions to validate
+ * @returns true if instructions fit within the maximum length once sanitized
+ */
+export const isValidSpecialInstructions = (instructions: string): boolean => {
+  return normalizeFreeText(instructions).length <= SPECIAL_INSTRUCTIONS_MAX_LENGTH;
+};
+
 /**
  * Format price for display
  * Converts 12.5 to $12.50